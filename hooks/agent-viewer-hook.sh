@@ -10,18 +10,59 @@
 # Requirements:
 # - curl must be available
 # - Server must be running on localhost:3001
+# - The token written by `npm run hooks:install` (or the server's first
+#   start) in ~/.agent-viewer-town/token, or AGENT_VIEWER_TOKEN
 #
 # Safety:
-# - Always exits 0 (never blocks Claude)
-# - Silent (no stdout/stderr that could corrupt Claude's conversation)
-# - Fast (1s timeout for HTTP request)
+# - Always exits 0 (never fails Claude's tool call)
+# - Silent (no stdout/stderr that could corrupt Claude's conversation),
+#   except a permission decision made in the viewer (see below)
+# - Fast (1s timeout for HTTP request), except PermissionRequest, which
+#   blocks for up to 30s by default while the viewer decides (see below)
+#
+# Permission requests:
+# - PermissionRequest events wait up to AGENT_VIEWER_PERMISSION_TIMEOUT
+#   seconds (default 30, 0 disables) for an Allow/Deny click in the viewer
+# - On a decision, prints the PermissionRequest hook response for Claude Code
+# - On timeout or error, prints nothing and Claude shows its normal prompt
 
 PORT="${AGENT_VIEWER_PORT:-3001}"
+PERMISSION_TIMEOUT="${AGENT_VIEWER_PERMISSION_TIMEOUT:-30}"
+TOKEN_FILE="${AGENT_VIEWER_TOKEN_FILE:-${AGENT_VIEWER_DATA_DIR:-$HOME/.agent-viewer-town}/token}"
+TOKEN="${AGENT_VIEWER_TOKEN:-$(cat "$TOKEN_FILE" 2>/dev/null)}"
 INPUT=$(cat)
 
+# curl reads the auth header from a config on a pipe rather than its
+# arguments, so the token never shows up in other users' process lists
+auth_config() {
+  printf 'header = "Authorization: Bearer %s"\n' "$TOKEN"
+}
+
+if [[ "$INPUT" =~ \"hook_event_name\"[[:space:]]*:[[:space:]]*\"PermissionRequest\" ]] \
+  && [[ "$PERMISSION_TIMEOUT" =~ ^[0-9]+$ ]] && [ "$PERMISSION_TIMEOUT" -gt 0 ]; then
+  # Block (bounded) until the viewer answers
+  RESPONSE=$(curl -sS -X POST "http://127.0.0.1:${PORT}/api/hook?wait=${PERMISSION_TIMEOUT}" \
+    -H "Content-Type: application/json" \
+    --config <(auth_config) \
+    -d "$INPUT" \
+    --max-time $((PERMISSION_TIMEOUT + 2)) \
+    2>/dev/null) || true
+
+  case "$RESPONSE" in
+    *'"decision":"allow"'*)
+      echo '{"hookSpecificOutput":{"hookEventName":"PermissionRequest","decision":{"behavior":"allow"}}}'
+      ;;
+    *'"decision":"deny"'*)
+      echo '{"hookSpecificOutput":{"hookEventName":"PermissionRequest","decision":{"behavior":"deny","message":"Denied from Agent Viewer Town"}}}'
+      ;;
+  esac
+  exit 0
+fi
+
 # Fire-and-forget POST to the server
 curl -sS -X POST "http://127.0.0.1:${PORT}/api/hook" \
   -H "Content-Type: application/json" \
+  --config <(auth_config) \
   -d "$INPUT" \
   --max-time 1 \
   >/dev/null 2>&1 || true
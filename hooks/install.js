@@ -12,9 +12,15 @@
 const fs = require('fs');
 const path = require('path');
 const os = require('os');
+const crypto = require('crypto');
 
 const HOOK_SCRIPT = path.resolve(__dirname, 'agent-viewer-hook.sh');
 const SETTINGS_FILE = path.join(os.homedir(), '.claude', 'settings.json');
+/** Secret the hook sends and the server requires (same default as the server) */
+const TOKEN_FILE = process.env.AGENT_VIEWER_TOKEN_FILE || path.join(
+  process.env.AGENT_VIEWER_DATA_DIR || path.join(os.homedir(), '.agent-viewer-town'),
+  'token',
+);
 
 const HOOK_EVENTS = [
   'PreToolUse',
@@ -33,8 +39,23 @@ const HOOK_EVENTS = [
   'UserPromptSubmit',
 ];
 
+/**
+ * PermissionRequest hooks may block while waiting for an Allow/Deny click in
+ * the viewer (server caps the wait at 120s), so give them headroom over
+ * Claude Code's default 60s hook timeout.
+ */
+const PERMISSION_HOOK_TIMEOUT_S = 130;
+
 const uninstall = process.argv.includes('--uninstall');
 
+/** Create the token file (owner-only) unless it already exists; returns whether it was created */
+function ensureToken() {
+  if (fs.existsSync(TOKEN_FILE)) return false;
+  fs.mkdirSync(path.dirname(TOKEN_FILE), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(TOKEN_FILE, crypto.randomBytes(32).toString('hex') + '\n', { mode: 0o600 });
+  return true;
+}
+
 // Read existing settings
 let settings = {};
 try {
@@ -80,6 +101,7 @@ if (uninstall) {
 } else {
   // Install
   const added = [];
+  const updated = [];
 
   for (const event of HOOK_EVENTS) {
     if (!settings.hooks[event]) {
@@ -87,27 +109,39 @@ if (uninstall) {
     }
 
     // Check if already installed
-    const alreadyInstalled = settings.hooks[event].some((entry) =>
-      (entry.hooks || []).some((h) => h.command?.includes('agent-viewer-hook'))
+    const installed = settings.hooks[event].flatMap((entry) =>
+      (entry.hooks || []).filter((h) => h.command?.includes('agent-viewer-hook'))
     );
 
-    if (!alreadyInstalled) {
-      settings.hooks[event].push({
-        hooks: [{ type: 'command', command: HOOK_SCRIPT }],
-      });
+    if (installed.length === 0) {
+      const hook = { type: 'command', command: HOOK_SCRIPT };
+      if (event === 'PermissionRequest') hook.timeout = PERMISSION_HOOK_TIMEOUT_S;
+      settings.hooks[event].push({ hooks: [hook] });
       added.push(event);
+    } else if (event === 'PermissionRequest') {
+      // Installs from before the viewer answered permissions still have the default timeout
+      for (const hook of installed) {
+        if (hook.timeout >= PERMISSION_HOOK_TIMEOUT_S) continue;
+        hook.timeout = PERMISSION_HOOK_TIMEOUT_S;
+        if (!updated.includes(event)) updated.push(event);
+      }
     }
   }
 
   fs.writeFileSync(SETTINGS_FILE, JSON.stringify(settings, null, 2) + '\n');
+  const tokenCreated = ensureToken();
 
   if (added.length > 0) {
     console.log(`Installed hooks for: ${added.join(', ')}`);
-  } else {
+  } else if (updated.length === 0) {
     console.log('All hooks already installed.');
   }
+  if (updated.length > 0) {
+    console.log(`Raised the timeout to ${PERMISSION_HOOK_TIMEOUT_S}s for: ${updated.join(', ')}`);
+  }
   console.log(`Settings file: ${SETTINGS_FILE}`);
   console.log(`Hook script: ${HOOK_SCRIPT}`);
+  console.log(`Token file: ${TOKEN_FILE}${tokenCreated ? ' (created)' : ''}`);
   console.log('\nAgent Viewer Town will now receive real-time events from Claude Code!');
   console.log('To uninstall: npm run hooks:uninstall');
 }
@@ -1,16 +1,25 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Scene } from './components/Scene';
 import { Sidebar } from './components/Sidebar';
 import { AlertBar } from './components/AlertBar';
 import { Breadcrumb } from './components/Breadcrumb';
 import { NavigationTree } from './components/NavigationTree';
+import { ReplayScrubber } from './components/ReplayScrubber';
+import { SharePanel } from './components/SharePanel';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { TurnList } from './components/TurnList';
+import { Timeline } from './components/Timeline';
+import { formatCost, describeTokens } from './components/usageFormat';
 import { useWebSocket } from './hooks/useWebSocket';
 import { useNotifications } from './hooks/useNotifications';
 import { useNavigation } from './hooks/useNavigation';
 import { useInbox } from './hooks/useInbox';
+import { useReplay } from './hooks/useReplay';
+import { serverWsUrl } from './hooks/credentials';
 import type { ConnectionStatus } from './hooks/useWebSocket';
+import type { PromptTurn, SearchHit } from '@agent-viewer/shared';
 
-type MobileTab = 'scene' | 'inbox' | 'tasks' | 'messages';
+type MobileTab = 'scene' | 'inbox' | 'tasks' | 'messages' | 'files' | 'stats';
 
 function useIsMobile(breakpoint = 480) {
   const [isMobile, setIsMobile] = useState(
@@ -65,16 +74,41 @@ function LiveIndicator({ lastActivity }: { lastActivity?: number }) {
 }
 
 export default function App() {
-  const { team: state, sessions, groupedSessions, connectionStatus, selectSession } = useWebSocket('ws://127.0.0.1:3001/ws');
+  const { team: state, sessions, groupedSessions, connectionStatus, readOnly, conflicts, notifications: inboxNotifications, selectSession, resolvePermission: sendPermissionDecision } = useWebSocket(serverWsUrl());
+  // Share link viewers can watch but not answer permission requests
+  const resolvePermission = readOnly ? undefined : sendPermissionDecision;
   const notifications = useNotifications(state.agents, state.session, sessions);
   const navigation = useNavigation(groupedSessions, state.session);
-  const inbox = useInbox(state.agents, state.session, sessions);
+  const inbox = useInbox(inboxNotifications);
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [turnsOpen, setTurnsOpen] = useState(false);
+  /** Main view: the animated scene, or swimlanes of agent activity over time */
+  const [view, setView] = useState<'scene' | 'timeline'>('scene');
+  const [transcriptAgentId, setTranscriptAgentId] = useState<string | null>(null);
   const [mobileTab, setMobileTab] = useState<MobileTab>('scene');
   const isMobile = useIsMobile();
 
   const session = state.session;
+
+  // Replay mode: Scene shows the session as it was at replayAt (null = live)
+  const [replayAt, setReplayAt] = useState<number | null>(null);
+  const replay = useReplay(session?.sessionId, replayAt);
+  /** A search hit in another session, replayed once that session is selected */
+  const pendingHitRef = useRef<SearchHit | null>(null);
+  useEffect(() => {
+    const hit = pendingHitRef.current;
+    pendingHitRef.current = null;
+    setReplayAt(hit && hit.sessionId === session?.sessionId ? hit.timestamp : null);
+    setTranscriptAgentId(null);
+    setTurnsOpen(false);
+  }, [session?.sessionId]);
+  const sceneState = replayAt !== null && replay.frame ? replay.frame.state : state;
+
   const isSolo = session ? !session.isTeam : state.agents.length <= 1;
+  // Session totals arrive with the sessions list, which is refreshed as usage grows
+  const sessionUsage = sessions.find((s) => s.sessionId === session?.sessionId)?.usage;
+  const turns = state.turns ?? [];
 
   const tasksByStatus = {
     pending: state.tasks.filter((t) => t.status === 'pending').length,
@@ -89,6 +123,8 @@ export default function App() {
   // On mobile, determine which sidebar tab to force based on the mobile tab
   const mobileSidebarTab = mobileTab === 'messages' ? 'messages' as const
     : mobileTab === 'inbox' ? 'inbox' as const
+    : mobileTab === 'files' ? 'files' as const
+    : mobileTab === 'stats' ? 'stats' as const
     : 'tasks' as const;
 
   // Handle session selection from navigation
@@ -97,6 +133,33 @@ export default function App() {
     navigation.close();
   };
 
+  // Open a search hit: its session, replayed in the Scene at the moment of the hit
+  const handleSelectSearchHit = (hit: SearchHit) => {
+    if (hit.sessionId === session?.sessionId) {
+      setReplayAt(hit.timestamp);
+    } else {
+      pendingHitRef.current = hit;
+      selectSession(hit.sessionId);
+    }
+    setView('scene');
+    if (isMobile) setMobileTab('scene');
+    navigation.close();
+  };
+
+  // Replay the session in the Scene from the moment a prompt was given
+  const handleSelectTurn = (turn: PromptTurn) => {
+    setReplayAt(turn.startedAt);
+    setTurnsOpen(false);
+    setView('scene');
+    if (isMobile) setMobileTab('scene');
+  };
+
+  // Replay the moment clicked on the timeline, back in the Scene
+  const handleTimelineSeek = (at: number) => {
+    setReplayAt(at);
+    setView('scene');
+  };
+
   // Navigate to an agent in the Scene (from sidebar clicks)
   const handleFocusAgent = useCallback((agentId: string) => {
     setFocusAgentId(agentId);
@@ -122,6 +185,7 @@ export default function App() {
         sessions={sessions}
         activeSessionId={session?.sessionId}
         onSelectSession={handleSelectSession}
+        onResolvePermission={resolvePermission}
       />
       <header className="app-header">
         <div className="header-left">
@@ -129,6 +193,9 @@ export default function App() {
           <span className="header-team-name">
             {state.name || 'Agent Viewer Town'}
           </span>
+          {readOnly && (
+            <span className="badge badge-readonly" title="Opened from a share link">Read-only</span>
+          )}
           {session && (
             <>
               <LiveIndicator lastActivity={session.lastActivity} />
@@ -138,6 +205,28 @@ export default function App() {
               {session.gitBranch && (
                 <span className="badge badge-branch">{session.gitBranch}</span>
               )}
+              {sessionUsage && (
+                <span className="badge badge-cost" title={`${describeTokens(sessionUsage)} (estimated cost)`}>
+                  {formatCost(sessionUsage.costUsd)}
+                </span>
+              )}
+              <span className="turn-list-anchor">
+                <button
+                  className={`badge badge-turns ${turnsOpen ? 'active' : ''}`}
+                  onClick={() => setTurnsOpen((v) => !v)}
+                  title="Prompts you gave in this session"
+                >
+                  {turns.length} {turns.length === 1 ? 'prompt' : 'prompts'}
+                </button>
+                {turnsOpen && (
+                  <TurnList
+                    turns={turns}
+                    agents={isSolo ? undefined : state.agents}
+                    onSelectTurn={handleSelectTurn}
+                    onClose={() => setTurnsOpen(false)}
+                  />
+                )}
+              </span>
             </>
           )}
           {showNavigation ? (
@@ -149,11 +238,13 @@ export default function App() {
             >
               <NavigationTree
                 visibleProjects={navigation.visibleProjects}
+                hosts={groupedSessions.hosts}
                 searchFilter={navigation.searchFilter}
                 hideIdle={navigation.hideIdle}
                 isOpen={navigation.isOpen}
                 activeSessionId={session?.sessionId}
                 onSelectSession={handleSelectSession}
+                onSelectSearchHit={handleSelectSearchHit}
                 onSearchChange={navigation.setSearchFilter}
                 onToggleHideIdle={navigation.toggleHideIdle}
                 onClose={navigation.close}
@@ -207,6 +298,27 @@ export default function App() {
             </>
           )}
         </div>
+        {session && (
+          <button
+            className={`view-toggle ${view === 'timeline' ? 'active' : ''}`}
+            onClick={() => setView((v) => (v === 'scene' ? 'timeline' : 'scene'))}
+            title={view === 'scene' ? 'Show agent activity over time' : 'Back to the scene'}
+          >
+            {view === 'scene' ? 'Timeline' : 'Scene'}
+          </button>
+        )}
+        {!readOnly && session && (
+          <div className="share-anchor">
+            <button
+              className={`share-toggle ${shareOpen ? 'active' : ''}`}
+              onClick={() => setShareOpen((v) => !v)}
+              title="Share a read-only link"
+            >
+              Share
+            </button>
+            {shareOpen && <SharePanel session={session} onClose={() => setShareOpen(false)} />}
+          </div>
+        )}
         {notifications.permission !== 'unsupported' && (
           <button
             className={`notification-toggle ${notifications.enabled ? 'active' : ''}`}
@@ -259,16 +371,47 @@ export default function App() {
         >
           Messages ({state.messages.length})
         </button>
+        <button
+          className={`mobile-tab ${mobileTab === 'files' ? 'active' : ''}`}
+          onClick={() => setMobileTab('files')}
+        >
+          Files
+        </button>
+        <button
+          className={`mobile-tab ${mobileTab === 'stats' ? 'active' : ''}`}
+          onClick={() => setMobileTab('stats')}
+        >
+          Stats
+        </button>
       </nav>
       <div className="app-body">
-        <Scene
-          state={state}
-          className={isMobile && mobileTab !== 'scene' ? 'mobile-hidden' : undefined}
-          focusAgentId={focusAgentId}
-          onFocusTask={handleFocusTask}
-          groupedSessions={groupedSessions}
-          onSelectSession={handleSelectSession}
-        />
+        {session && view === 'timeline' ? (
+          <Timeline
+            sessionId={session.sessionId}
+            className={isMobile && mobileTab !== 'scene' ? 'mobile-hidden' : undefined}
+            onSeek={handleTimelineSeek}
+          />
+        ) : (
+          <Scene
+            state={sceneState}
+            className={isMobile && mobileTab !== 'scene' ? 'mobile-hidden' : undefined}
+            focusAgentId={focusAgentId}
+            onFocusTask={handleFocusTask}
+            groupedSessions={groupedSessions}
+            onSelectSession={handleSelectSession}
+            conflicts={replayAt === null ? conflicts : undefined}
+            onOpenTranscript={session ? setTranscriptAgentId : undefined}
+            footer={session && (
+              <ReplayScrubber
+                at={replayAt}
+                frame={replay.frame}
+                error={replay.error}
+                onSeek={setReplayAt}
+                onExit={() => setReplayAt(null)}
+              />
+            )}
+          />
+        )}
         <Sidebar
           state={state}
           open={sidebarOpen}
@@ -282,7 +425,16 @@ export default function App() {
           unreadCount={inbox.unreadCount}
           onMarkRead={inbox.markRead}
           onMarkAllRead={inbox.markAllRead}
+          onResolvePermission={resolvePermission}
         />
+        {session && transcriptAgentId && (
+          <TranscriptPanel
+            sessionId={session.sessionId}
+            agentId={transcriptAgentId}
+            agentName={state.agents.find((a) => a.id === transcriptAgentId)?.name ?? transcriptAgentId}
+            onClose={() => setTranscriptAgentId(null)}
+          />
+        )}
       </div>
     </div>
   );
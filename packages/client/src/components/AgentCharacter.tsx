@@ -5,6 +5,39 @@ import type { ProjectInfo } from '../svg/characters';
 import { STEAM_COLORS, SPARK_COLORS, CONFETTI_COLORS, getBranchColor } from '../constants/colors';
 export { getBranchColor } from '../constants/colors';
 
+/** Context fill at which the gauge turns amber, then red (auto-compact territory) */
+const CONTEXT_WARN = 0.6;
+const CONTEXT_CRITICAL = 0.8;
+
+/** Vertical gauge beside the workstation showing how full the context window is */
+function ContextGauge({ tokens, limit }: { tokens: number; limit: number }) {
+  const fill = Math.min(1, tokens / limit);
+  const height = 26;
+  const barColor = fill >= CONTEXT_CRITICAL ? '#EF4444' : fill >= CONTEXT_WARN ? '#FFCA28' : '#28A745';
+  return (
+    <g transform="translate(-30, -16)">
+      <title>{`Context ${Math.round(fill * 100)}% full (${Math.round(tokens / 1000)}k / ${Math.round(limit / 1000)}k tokens)`}</title>
+      <rect x="0" y="0" width="4" height={height} rx="1" fill="#16213e" stroke="#334155" strokeWidth="0.5" />
+      <rect x="0.5" y={height - fill * height} width="3" height={fill * height} rx="0.5" fill={barColor} opacity="0.85" />
+    </g>
+  );
+}
+
+/** Question marks circling the head of an agent the server flagged as stuck */
+function ConfusedMarks({ detail }: { detail: string }) {
+  return (
+    <g transform="translate(0, -30)">
+      <title>{`Looks stuck: ${detail}`}</title>
+      <g style={{ animation: 'spin 4s linear infinite', transformOrigin: '0px 0px' }}>
+        {[0, 120, 240].map((angle) => (
+          <text key={angle} x="0" y="-7" textAnchor="middle" fill="#E67E22" fontSize="8" fontWeight="bold"
+                fontFamily="'Courier New', monospace" transform={`rotate(${angle})`}>?</text>
+        ))}
+      </g>
+    </g>
+  );
+}
+
 interface AgentCharacterProps {
   agent: AgentState;
   x: number;
@@ -208,6 +241,7 @@ export function AgentCharacter({ agent, x, y, isNew, projectInfo }: AgentCharact
   const stage = agent.isSubagent ? 1 : getEvolutionStage(agent.tasksCompleted);
   const isWorking = agent.status === 'working';
   const isCompacting = isWorking && !!(agent.currentAction && agent.currentAction.includes('Compacting'));
+  const isConfused = isWorking && !!agent.stuck;
 
   // Track task completion for spark/celebration effect
   const prevTaskCount = useRef(agent.tasksCompleted);
@@ -244,7 +278,7 @@ export function AgentCharacter({ agent, x, y, isNew, projectInfo }: AgentCharact
       )}
 
       {/* Animal character with idle bobbing or working state */}
-      <g className={isWorking ? 'agent-working' : 'agent-idle'}>
+      <g className={isConfused ? 'agent-working agent-confused' : isWorking ? 'agent-working' : 'agent-idle'}>
         <AnimalSvg stage={stage} />
         {/* Eye blink overlay */}
         <g className="agent-eyes">
@@ -253,9 +287,17 @@ export function AgentCharacter({ agent, x, y, isNew, projectInfo }: AgentCharact
         </g>
       </g>
 
+      {/* Context window fill */}
+      {agent.contextTokens !== undefined && agent.contextLimit && agent.status !== 'done' && (
+        <ContextGauge tokens={agent.contextTokens} limit={agent.contextLimit} />
+      )}
+
       {/* Steam puffs when working (replaced by compacting particles during compaction) */}
       {isCompacting ? <CompactingParticles active={true} /> : <SteamPuffs active={isWorking} color={color} />}
 
+      {/* Circling question marks while the agent looks stuck */}
+      {isConfused && agent.stuck && <ConfusedMarks detail={agent.stuck.detail} />}
+
       {/* Spark burst + celebration on task completion */}
       <SparkBurst active={showSparks} />
       <CelebrationParticles active={showSparks} />
@@ -1,5 +1,6 @@
 import type { AgentState, TaskState } from '@agent-viewer/shared';
 import { getBranchColor } from '../constants/colors';
+import { formatCost, formatTokens, describeTokens } from './usageFormat';
 
 /** Format a relative time string from a timestamp */
 function relativeTime(ts: number): string {
@@ -27,7 +28,7 @@ function wrapText(text: string, maxLen: number): string[] {
 }
 
 /** Detail popover shown when clicking an agent */
-export function AgentDetail({ agent, x, y, onClose, tasks }: { agent: AgentState; x: number; y: number; onClose: () => void; tasks?: TaskState[] }) {
+export function AgentDetail({ agent, x, y, onClose, tasks, onOpenTranscript }: { agent: AgentState; x: number; y: number; onClose: () => void; tasks?: TaskState[]; onOpenTranscript?: () => void }) {
   const name = agent.name;
   const action = agent.currentAction || (agent.status === 'done' ? 'Done' : agent.status === 'working' ? 'Working...' : 'Idle');
   const role = agent.isSubagent
@@ -45,6 +46,9 @@ export function AgentDetail({ agent, x, y, onClose, tasks }: { agent: AgentState
     : undefined;
 
   const recentActions = agent.recentActions || [];
+  const usage = agent.usage;
+  const hasContext = agent.contextTokens !== undefined && !!agent.contextLimit;
+  const compactions = agent.compactions || [];
 
   const lineHeight = 11;
   const headerHeight = 18;
@@ -54,7 +58,10 @@ export function AgentDetail({ agent, x, y, onClose, tasks }: { agent: AgentState
   if (contextLine) contentLines += 1;
   if (hasBranch) contentLines += 3;
   if (currentTask) contentLines += 2;
+  if (usage) contentLines += 3;
+  if (hasContext || compactions.length > 0) contentLines += 2 + Math.min(compactions.length, 3);
   if (recentActions.length > 0) contentLines += 1 + Math.min(recentActions.length, 3);
+  if (onOpenTranscript) contentLines += 1;
   const bodyHeight = contentLines * lineHeight + 8;
   const totalHeight = headerHeight + bodyHeight + 8;
   const boxWidth = 260;
@@ -158,6 +165,43 @@ export function AgentDetail({ agent, x, y, onClose, tasks }: { agent: AgentState
           </text>
         </>)}
         {(() => { if (currentTask) cursorY += 2 + 2 * lineHeight; return null; })()}
+        {/* Token usage */}
+        {usage && (<>
+          <text x={-boxWidth / 2 + 8} y={cursorY + 2}
+                fill="#4169E1" fontSize="6.5" fontFamily="'Courier New', monospace" fontWeight="bold">
+            USAGE
+          </text>
+          <text x={-boxWidth / 2 + 8} y={cursorY + 2 + lineHeight}
+                fill="#94a3b8" fontSize="7" fontFamily="'Courier New', monospace">
+            {formatCost(usage.costUsd)} est.{agent.model ? ` \u2022 ${agent.model.slice(0, 30)}` : ''}
+          </text>
+          <text x={-boxWidth / 2 + 8} y={cursorY + 2 + lineHeight * 2}
+                fill="#64748b" fontSize="6.5" fontFamily="'Courier New', monospace">
+            {describeTokens(usage)}
+          </text>
+        </>)}
+        {(() => { if (usage) cursorY += 2 + 3 * lineHeight; return null; })()}
+        {/* Context window + compaction history */}
+        {(hasContext || compactions.length > 0) && (<>
+          <text x={-boxWidth / 2 + 8} y={cursorY + 2}
+                fill="#4169E1" fontSize="6.5" fontFamily="'Courier New', monospace" fontWeight="bold">
+            CONTEXT
+          </text>
+          <text x={-boxWidth / 2 + 8} y={cursorY + 2 + lineHeight}
+                fill="#94a3b8" fontSize="7" fontFamily="'Courier New', monospace">
+            {hasContext
+              ? `${formatTokens(agent.contextTokens!)} / ${formatTokens(agent.contextLimit!)} (${Math.round(agent.contextTokens! / agent.contextLimit! * 100)}%)`
+              : 'Fill unknown'}
+            {compactions.length > 0 ? ` \u2022 ${compactions.length} compaction${compactions.length === 1 ? '' : 's'}` : ''}
+          </text>
+          {compactions.slice(-3).reverse().map((c, i) => (
+            <text key={`c${i}`} x={-boxWidth / 2 + 8} y={cursorY + 2 + (i + 2) * lineHeight}
+                  fill="#64748b" fontSize="6.5" fontFamily="'Courier New', monospace">
+              {relativeTime(c.timestamp)}  {c.trigger}  {c.tokensBefore !== undefined ? formatTokens(c.tokensBefore) : '?'} {'\u2192'} {c.tokensAfter !== undefined ? formatTokens(c.tokensAfter) : '\u2026'}
+            </text>
+          ))}
+        </>)}
+        {(() => { if (hasContext || compactions.length > 0) cursorY += 2 + (2 + Math.min(compactions.length, 3)) * lineHeight; return null; })()}
         {/* Recent Actions */}
         {recentActions.length > 0 && (<>
           <text x={-boxWidth / 2 + 8} y={cursorY + 2}
@@ -171,6 +215,16 @@ export function AgentDetail({ agent, x, y, onClose, tasks }: { agent: AgentState
             </text>
           ))}
         </>)}
+        {(() => { if (recentActions.length > 0) cursorY += 2 + (1 + Math.min(recentActions.length, 3)) * lineHeight; return null; })()}
+        {/* Full transcript link */}
+        {onOpenTranscript && (
+          <text x={-boxWidth / 2 + 8} y={cursorY + 2}
+                fill="#4169E1" fontSize="6.5" fontFamily="'Courier New', monospace" fontWeight="bold"
+                style={{ cursor: 'pointer', textDecoration: 'underline' }}
+                onClick={(e) => { e.stopPropagation(); onOpenTranscript(); }}>
+            TRANSCRIPT {'\u25B8'}
+          </text>
+        )}
         {/* Pointer arrow */}
         <polygon
           points={`${x - popX - 5},${totalHeight} ${x - popX + 5},${totalHeight} ${x - popX},${totalHeight + 6}`}
@@ -1,4 +1,5 @@
-import type { AgentState, SessionListEntry } from '@agent-viewer/shared';
+import type { AgentState, SessionListEntry, PermissionDecision } from '@agent-viewer/shared';
+import { PermissionActions } from './PermissionActions';
 
 interface AlertBarProps {
   /** Agents currently waiting for user input in the active session */
@@ -11,6 +12,8 @@ interface AlertBarProps {
   activeSessionId?: string;
   /** Callback when user clicks a cross-session entry to switch to it */
   onSelectSession?: (sessionId: string) => void;
+  /** Callback when user answers a pending permission request */
+  onResolvePermission?: (requestId: string, decision: PermissionDecision) => void;
 }
 
 /**
@@ -18,7 +21,7 @@ interface AlertBarProps {
  * is waiting for user input. Shows both current-session agents and
  * a secondary row for agents in other projects needing input.
  */
-export function AlertBar({ waitingAgents, onFocusAgent, sessions, activeSessionId, onSelectSession }: AlertBarProps) {
+export function AlertBar({ waitingAgents, onFocusAgent, sessions, activeSessionId, onSelectSession, onResolvePermission }: AlertBarProps) {
   // Cross-session waiting: other projects with agents needing input
   const crossSessionWaiting = (sessions ?? []).filter(
     (s) => s.hasWaitingAgent && s.sessionId !== activeSessionId
@@ -59,6 +62,12 @@ export function AlertBar({ waitingAgents, onFocusAgent, sessions, activeSessionI
                   {waitingAgents[0].name}
                 </button>
                 {' '}needs input: {waitingAgents[0].currentAction || 'Waiting for approval'}
+                {waitingAgents[0].pendingPermissionId && onResolvePermission && (
+                  <PermissionActions
+                    requestId={waitingAgents[0].pendingPermissionId}
+                    onResolve={onResolvePermission}
+                  />
+                )}
               </span>
             ) : (
               <span>
@@ -72,6 +81,12 @@ export function AlertBar({ waitingAgents, onFocusAgent, sessions, activeSessionI
                     >
                       {agent.name}
                     </button>
+                    {agent.pendingPermissionId && onResolvePermission && (
+                      <PermissionActions
+                        requestId={agent.pendingPermissionId}
+                        onResolve={onResolvePermission}
+                      />
+                    )}
                   </span>
                 ))}
               </span>
@@ -98,6 +113,12 @@ export function AlertBar({ waitingAgents, onFocusAgent, sessions, activeSessionI
                     ↗ {label}
                   </button>
                   {info && <span className="alert-bar-ext-action"> needs input</span>}
+                  {info?.permissionRequestId && onResolvePermission && (
+                    <PermissionActions
+                      requestId={info.permissionRequestId}
+                      onResolve={onResolvePermission}
+                    />
+                  )}
                 </span>
               );
             })}
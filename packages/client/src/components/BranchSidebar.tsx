@@ -103,7 +103,9 @@ export function BranchSidebar({
                         className={`branch-sidebar-session${isActiveSession ? ' branch-sidebar-session--active' : ''}`}
                         onClick={() => onSelectSession(s.sessionId)}
                       >
-                        <span className="branch-sidebar-session-slug">{s.slug}</span>
+                        <span className="branch-sidebar-session-slug" title={s.sourceRoot && `Found in ${s.sourceRoot}`}>
+                          {s.slug}
+                        </span>
                         <span className="branch-sidebar-session-badges">
                           <span className={`branch-sidebar-session-type ${s.isTeam ? 'type-team' : 'type-solo'}`}>
                             {s.isTeam ? 'Team' : 'Solo'}
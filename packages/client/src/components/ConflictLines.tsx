@@ -0,0 +1,71 @@
+import type { EditConflict } from '@agent-viewer/shared';
+
+const CONFLICT_COLOR = '#FF7043';
+
+interface ConflictLinesProps {
+  conflicts: EditConflict[];
+  /** Agent positions in the scene */
+  positions: Map<string, { x: number; y: number }>;
+}
+
+function fileName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/** Warning triangle with the conflicting file as its tooltip */
+function ConflictBadge({ x, y, title }: { x: number; y: number; title: string }) {
+  return (
+    <g transform={`translate(${x}, ${y})`}>
+      <title>{title}</title>
+      <path d="M0,-9 L9,7 L-9,7 Z" fill={CONFLICT_COLOR} stroke="#1e293b" strokeWidth="1.5" strokeLinejoin="round" />
+      <text x="0" y="5" textAnchor="middle" fill="white" fontSize="10" fontWeight="bold" fontFamily="'Courier New', monospace">!</text>
+    </g>
+  );
+}
+
+/**
+ * Dashed warning lines between agents that edited the same file. When the
+ * other agent belongs to a session outside this view, the warning is pinned
+ * to the visible agent instead.
+ */
+export function ConflictLines({ conflicts, positions }: ConflictLinesProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <>
+      {conflicts.map((conflict) => {
+        const [a, b] = conflict.parties;
+        const from = positions.get(a.agentId);
+        const to = positions.get(b.agentId);
+        const title = `${a.agentName} and ${b.agentName} both edited ${conflict.path}`;
+
+        if (from && to) {
+          const mx = (from.x + to.x) / 2;
+          const my = (from.y + to.y) / 2;
+          return (
+            <g key={`conflict-${conflict.id}`} className="conflict-line">
+              <path
+                d={`M ${from.x} ${from.y} L ${to.x} ${to.y}`}
+                fill="none" stroke={CONFLICT_COLOR} strokeWidth="2"
+                strokeDasharray="6 4" opacity="0.8"
+                style={{ animation: 'conveyor-move 0.6s linear infinite' }}
+              />
+              <ConflictBadge x={mx} y={my} title={title} />
+              <text x={mx} y={my + 20} textAnchor="middle" fill={CONFLICT_COLOR} fontSize="9" fontFamily="'Courier New', monospace">
+                {fileName(conflict.path)}
+              </text>
+            </g>
+          );
+        }
+
+        const visible = from ?? to;
+        if (!visible) return null;
+        return (
+          <g key={`conflict-${conflict.id}`} className="conflict-line">
+            <ConflictBadge x={visible.x + 28} y={visible.y + 24} title={title} />
+          </g>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import { useMemo, useState } from 'react';
+import type { FileTouch, AgentState, SessionInfo, FileOperation } from '@agent-viewer/shared';
+import { resolveCharacter } from '../svg/characters/registry';
+import type { ProjectInfo } from '../svg/characters/registry';
+import { buildFileTree } from './fileTree';
+import type { FileTreeNode } from './fileTree';
+
+interface FilesPanelProps {
+  files: FileTouch[];
+  agents: AgentState[];
+  session?: SessionInfo;
+  onFocusAgent?: (agentId: string) => void;
+}
+
+const OPERATION_LETTERS: Record<FileOperation, string> = {
+  read: 'R',
+  edit: 'E',
+  write: 'W',
+};
+
+/** Chip color for agents no longer in the scene */
+const UNKNOWN_AGENT_COLOR = '#94a3b8';
+
+interface ChipProps {
+  touch: FileTouch;
+  agent?: AgentState;
+  color: string;
+  onFocusAgent?: (agentId: string) => void;
+}
+
+function TouchChip({ touch, agent, color, onFocusAgent }: ChipProps) {
+  const label = `${OPERATION_LETTERS[touch.operation]}${touch.count > 1 ? ` ${touch.count}` : ''}`;
+  const title = `${agent?.name ?? touch.agentId}: ${touch.operation} ×${touch.count}, last ${new Date(touch.lastTouched).toLocaleTimeString()}`;
+  return (
+    <button
+      className={`file-chip file-chip-${touch.operation}`}
+      style={{ borderColor: color, color }}
+      title={title}
+      onClick={agent && onFocusAgent ? () => onFocusAgent(agent.id) : undefined}
+    >
+      {label}
+    </button>
+  );
+}
+
+export function FilesPanel({ files, agents, session, onFocusAgent }: FilesPanelProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const tree = useMemo(() => buildFileTree(files, session?.projectPath), [files, session?.projectPath]);
+
+  const agentColors = useMemo(() => {
+    const projectInfo: ProjectInfo | undefined = session
+      ? { projectPath: session.projectPath, projectName: session.projectName, gitBranch: session.gitBranch }
+      : undefined;
+    return new Map(agents.map((a) => [a.id, resolveCharacter(a, projectInfo).accentColor]));
+  }, [agents, session]);
+
+  const agentsById = useMemo(() => new Map(agents.map((a) => [a.id, a])), [agents]);
+
+  if (files.length === 0) {
+    return (
+      <div style={{ color: 'var(--color-text-dim)', textAlign: 'center', padding: '20px', fontSize: '13px' }}>
+        No files touched yet
+      </div>
+    );
+  }
+
+  const toggle = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderNode = (node: FileTreeNode, depth: number) => {
+    const indent = { paddingLeft: `${8 + depth * 12}px` };
+    if (node.children.length > 0) {
+      const isCollapsed = collapsed.has(node.path);
+      return (
+        <div key={node.path}>
+          <button className="file-row file-dir" style={indent} onClick={() => toggle(node.path)}>
+            <span className="file-dir-caret">{isCollapsed ? '▸' : '▾'}</span>
+            {node.name}/
+          </button>
+          {!isCollapsed && node.children.map((child) => renderNode(child, depth + 1))}
+        </div>
+      );
+    }
+
+    const touches = [...node.touches].sort((a, b) =>
+      a.agentId.localeCompare(b.agentId) || a.operation.localeCompare(b.operation)
+    );
+    return (
+      <div key={node.path} className="file-row" style={indent} title={node.path}>
+        <span className="file-name">{node.name}</span>
+        <span className="file-chips">
+          {touches.map((touch) => (
+            <TouchChip
+              key={`${touch.agentId}:${touch.operation}`}
+              touch={touch}
+              agent={agentsById.get(touch.agentId)}
+              color={agentColors.get(touch.agentId) ?? UNKNOWN_AGENT_COLOR}
+              onFocusAgent={onFocusAgent}
+            />
+          ))}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="files-panel">
+      {tree.map((node) => renderNode(node, 0))}
+    </div>
+  );
+}
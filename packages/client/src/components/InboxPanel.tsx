@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import type { InboxNotification, NotificationType, AgentState } from '@agent-viewer/shared';
+import type { InboxNotification, NotificationType, AgentState, PermissionDecision } from '@agent-viewer/shared';
+import { PermissionActions } from './PermissionActions';
 
 interface InboxPanelProps {
   activeNotifications: InboxNotification[];
@@ -9,12 +10,15 @@ interface InboxPanelProps {
   onMarkAllRead: () => void;
   agents?: AgentState[];
   onFocusAgent?: (agentId: string) => void;
+  onResolvePermission?: (requestId: string, decision: PermissionDecision) => void;
 }
 
 const PRIORITY_COLORS: Record<NotificationType, string> = {
   permission_request: '#FFD700',
   ask_user_question: '#4169E1',
   plan_approval: '#9B59B6',
+  edit_conflict: '#FF7043',
+  agent_stuck: '#E67E22',
   task_completed: '#28A745',
   agent_error: '#DC3545',
   agent_idle: '#94a3b8',
@@ -25,6 +29,8 @@ const TYPE_LABELS: Record<NotificationType, string> = {
   permission_request: 'Permission',
   ask_user_question: 'Question',
   plan_approval: 'Plan Review',
+  edit_conflict: 'Conflict',
+  agent_stuck: 'Stuck',
   task_completed: 'Completed',
   agent_error: 'Error',
   agent_idle: 'Idle',
@@ -80,6 +86,22 @@ function NotificationIcon({ type }: { type: NotificationType }) {
           <text x="8" y="12" textAnchor="middle" fill={color} fontSize="8" fontWeight="bold" fontFamily="monospace">!</text>
         </svg>
       );
+    case 'edit_conflict':
+      // Two crossed pencils
+      return (
+        <svg width={size} height={size} viewBox="0 0 16 16">
+          <path d="M3 13L12 4l1.5 1.5-9 9H3v-1.5z" fill="none" stroke={color} strokeWidth="1.3" strokeLinejoin="round" />
+          <path d="M13 13L4 4 2.5 5.5l9 9H13v-1.5z" fill="none" stroke={color} strokeWidth="1.3" strokeLinejoin="round" />
+        </svg>
+      );
+    case 'agent_stuck':
+      // Circular arrow (going round in circles)
+      return (
+        <svg width={size} height={size} viewBox="0 0 16 16">
+          <path d="M13 8a5 5 0 1 1-1.5-3.5" fill="none" stroke={color} strokeWidth="1.5" strokeLinecap="round" />
+          <path d="M12 1.5v3.5H8.5" fill="none" stroke={color} strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      );
     default:
       return (
         <svg width={size} height={size} viewBox="0 0 16 16">
@@ -93,10 +115,12 @@ function NotificationCard({
   notification,
   onMarkRead,
   onFocusAgent,
+  onResolvePermission,
 }: {
   notification: InboxNotification;
   onMarkRead: (id: string) => void;
   onFocusAgent?: (agentId: string) => void;
+  onResolvePermission?: (requestId: string, decision: PermissionDecision) => void;
 }) {
   const color = PRIORITY_COLORS[notification.type];
   const isActive = !notification.resolved;
@@ -134,6 +158,12 @@ function NotificationCard({
         )}
       </div>
       <div className="inbox-item-message">{notification.body}</div>
+      {isActive && notification.permissionRequestId && onResolvePermission && (
+        <PermissionActions
+          requestId={notification.permissionRequestId}
+          onResolve={onResolvePermission}
+        />
+      )}
       {isActive && (
         <div className="inbox-item-status-dot" style={{ backgroundColor: color }} />
       )}
@@ -150,6 +180,7 @@ export function InboxPanel({
   onMarkRead,
   onMarkAllRead,
   onFocusAgent,
+  onResolvePermission,
 }: InboxPanelProps) {
   const [filter, setFilter] = useState<FilterMode>('all');
 
@@ -204,6 +235,7 @@ export function InboxPanel({
             notification={n}
             onMarkRead={onMarkRead}
             onFocusAgent={onFocusAgent}
+            onResolvePermission={onResolvePermission}
           />
         ))}
       </div>
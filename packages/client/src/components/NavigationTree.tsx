@@ -1,13 +1,20 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import type { ProjectGroup, SessionListEntry } from '@agent-viewer/shared';
+import { Fragment, useEffect, useRef, useState, useCallback } from 'react';
+import type { HostGroup, ProjectGroup, SearchHit, SessionListEntry } from '@agent-viewer/shared';
+import { formatCost, describeTokens } from './usageFormat';
+import { markMatches, describeHitKind, describeHitSource, formatHitTime } from './searchFormat';
+import { useSearch } from '../hooks/useSearch';
 
 interface NavigationTreeProps {
   visibleProjects: ProjectGroup[];
+  /** Machines in aggregator mode; projects are headed by their host when there are several */
+  hosts?: HostGroup[];
   searchFilter: string;
   hideIdle: boolean;
   isOpen: boolean;
   activeSessionId?: string;
   onSelectSession: (sessionId: string) => void;
+  /** Open a search hit's session at the time of the hit */
+  onSelectSearchHit: (hit: SearchHit) => void;
   onSearchChange: (filter: string) => void;
   onToggleHideIdle: () => void;
   onClose: () => void;
@@ -17,6 +24,14 @@ function WaitingDot() {
   return <span className="nav-waiting-dot" title="Agent waiting for input" />;
 }
 
+function Marked({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {markMatches(text, query).map((part, i) => (part.match ? <mark key={i}>{part.text}</mark> : part.text))}
+    </>
+  );
+}
+
 /** Pick the best session in a project: waiting > most agents > most recent */
 function pickBestSession(project: ProjectGroup): SessionListEntry | undefined {
   const allSessions = project.branches.flatMap((b) => b.sessions);
@@ -38,11 +53,13 @@ function pickBestSession(project: ProjectGroup): SessionListEntry | undefined {
 
 export function NavigationTree({
   visibleProjects,
+  hosts,
   searchFilter,
   hideIdle,
   isOpen,
   activeSessionId,
   onSelectSession,
+  onSelectSearchHit,
   onSearchChange,
   onToggleHideIdle,
   onClose,
@@ -51,6 +68,8 @@ export function NavigationTree({
   const searchRef = useRef<HTMLInputElement>(null);
   const [focusIndex, setFocusIndex] = useState(-1);
   const [, setTick] = useState(0);
+  // Full-text matches in transcripts, tasks and messages, under the session list
+  const search = useSearch(isOpen ? searchFilter : '');
 
   // Update relative timestamps periodically
   useEffect(() => {
@@ -125,6 +144,25 @@ export function NavigationTree({
 
   if (!isOpen) return null;
 
+  const { results } = search;
+  const localHost = hosts?.find((h) => h.isLocal)?.host;
+  /** Host heading before a project, when it starts a new host's projects */
+  const hostHeading = (pIdx: number) => {
+    if (!hosts || hosts.length < 2) return null;
+    const host = visibleProjects[pIdx].host ?? localHost;
+    if (pIdx > 0 && (visibleProjects[pIdx - 1].host ?? localHost) === host) return null;
+    const group = hosts.find((h) => h.host === host);
+    return (
+      <div className="nav-level-header">
+        <span className="nav-level-header-name">{host}</span>
+        {group?.hasWaitingAgent && <WaitingDot />}
+        <span className="nav-level-header-stats">
+          {group?.isLocal ? 'this server · ' : ''}{group?.totalSessions ?? 0} session{group?.totalSessions !== 1 ? 's' : ''}
+        </span>
+      </div>
+    );
+  };
+
   return (
     <div
       className="nav-tree-panel"
@@ -173,25 +211,68 @@ export function NavigationTree({
               b.sessions.some((s) => s.sessionId === activeSessionId)
             );
             return (
+              <Fragment key={project.projectKey}>
+                {hostHeading(pIdx)}
+                <button
+                  className={`nav-project-row ${isFocused ? 'focused' : ''} ${isActive ? 'active' : ''}`}
+                  data-nav-row
+                  onClick={() => {
+                    const best = pickBestSession(project);
+                    if (best) onSelectSession(best.sessionId);
+                    onClose();
+                  }}
+                >
+                  <span className="nav-project-name">{project.projectName}</span>
+                  {project.hasWaitingAgent && <WaitingDot />}
+                  <span className="nav-project-meta">
+                    <span>{project.totalAgents} agent{project.totalAgents !== 1 ? 's' : ''}</span>
+                    {project.usage && (<>
+                      <span className="nav-meta-sep">|</span>
+                      <span className="nav-project-cost" title={`${describeTokens(project.usage)} (estimated cost)`}>
+                        {formatCost(project.usage.costUsd)}
+                      </span>
+                    </>)}
+                  </span>
+                </button>
+              </Fragment>
+            );
+          })
+        )}
+        {results && (
+          <div className="nav-search-results">
+            <div className="nav-level-header">
+              <span className="nav-level-header-name">Transcripts, tasks &amp; messages</span>
+              <span className="nav-level-header-stats">
+                {results.total > results.hits.length
+                  ? `newest ${results.hits.length} of ${results.total}`
+                  : `${results.total} match${results.total !== 1 ? 'es' : ''}`}
+              </span>
+            </div>
+            {results.hits.map((hit, i) => (
               <button
-                key={project.projectKey}
-                className={`nav-project-row ${isFocused ? 'focused' : ''} ${isActive ? 'active' : ''}`}
+                key={`${hit.sessionId}-${hit.timestamp}-${i}`}
+                className={`nav-search-hit ${focusIndex === visibleProjects.length + i ? 'focused' : ''}`}
                 data-nav-row
+                disabled={!hit.live}
+                title={hit.live ? 'Open the session at this moment' : 'This session is no longer tracked'}
                 onClick={() => {
-                  const best = pickBestSession(project);
-                  if (best) onSelectSession(best.sessionId);
+                  onSelectSearchHit(hit);
                   onClose();
                 }}
               >
-                <span className="nav-project-name">{project.projectName}</span>
-                {project.hasWaitingAgent && <WaitingDot />}
-                <span className="nav-project-meta">
-                  <span>{project.totalAgents} agent{project.totalAgents !== 1 ? 's' : ''}</span>
+                <span className="nav-search-hit-meta">
+                  <span className="nav-search-hit-kind">{describeHitKind(hit)}</span>
+                  <span className="nav-search-hit-source">{describeHitSource(hit)}</span>
+                  <span className="nav-search-hit-time">{formatHitTime(hit.timestamp)}</span>
+                </span>
+                <span className="nav-search-hit-snippet">
+                  <Marked text={hit.snippet} query={results.query} />
                 </span>
               </button>
-            );
-          })
+            ))}
+          </div>
         )}
+        {search.error && <div className="nav-search-error">Search failed: {search.error}</div>}
       </div>
     </div>
   );
@@ -0,0 +1,32 @@
+import type { PermissionDecision } from '@agent-viewer/shared';
+
+interface PermissionActionsProps {
+  requestId: string;
+  onResolve: (requestId: string, decision: PermissionDecision) => void;
+}
+
+/**
+ * Allow / Deny buttons for a permission request whose hook is blocked
+ * waiting on the viewer. The decision goes back to Claude Code as the
+ * PermissionRequest hook response.
+ */
+export function PermissionActions({ requestId, onResolve }: PermissionActionsProps) {
+  return (
+    <span className="permission-actions" onClick={(e) => e.stopPropagation()}>
+      <button
+        className="permission-btn permission-btn-allow"
+        onClick={() => onResolve(requestId, 'allow')}
+        title="Allow this tool call"
+      >
+        Allow
+      </button>
+      <button
+        className="permission-btn permission-btn-deny"
+        onClick={() => onResolve(requestId, 'deny')}
+        title="Deny this tool call"
+      >
+        Deny
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,66 @@
+import type { ReplayFrame } from '@agent-viewer/shared';
+
+interface ReplayScrubberProps {
+  /** Requested replay time (ms), or null when showing the live view */
+  at: number | null;
+  /** Latest frame from the server — provides the recorded time range */
+  frame: ReplayFrame | null;
+  error?: string | null;
+  onSeek: (at: number) => void;
+  onExit: () => void;
+}
+
+/** Scrub in 1s steps — finer than any hook burst is worth rendering */
+const STEP_MS = 1000;
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/**
+ * Timeline bar under the scene. Live mode shows a single "Replay" button;
+ * replay mode shows a slider across the session's recorded history and a
+ * button back to live.
+ */
+export function ReplayScrubber({ at, frame, error, onSeek, onExit }: ReplayScrubberProps) {
+  if (at === null) {
+    return (
+      <div className="replay-scrubber">
+        <button
+          className="replay-toggle"
+          onClick={() => onSeek(Date.now())}
+          title="Replay this session's recorded history"
+        >
+          {'⏪'} Replay
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="replay-scrubber replay-active">
+      <button className="replay-live" onClick={onExit} title="Back to the live view">
+        <span className="live-dot" /> Live
+      </button>
+      {frame ? (
+        <>
+          <span className="replay-time">{formatTime(frame.start)}</span>
+          <input
+            type="range"
+            className="replay-range"
+            min={frame.start}
+            max={frame.end}
+            step={STEP_MS}
+            value={Math.min(Math.max(at, frame.start), frame.end)}
+            onChange={(e) => onSeek(Number(e.target.value))}
+            aria-label="Replay time"
+          />
+          <span className="replay-time">{formatTime(frame.end)}</span>
+          <span className="replay-time replay-time-current">{formatTime(frame.at)}</span>
+        </>
+      ) : (
+        <span className="replay-status">{error || 'Loading history…'}</span>
+      )}
+    </div>
+  );
+}
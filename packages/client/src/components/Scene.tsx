@@ -1,11 +1,12 @@
-import { useState, useMemo, useEffect } from 'react';
-import type { TeamState, AgentState, GroupedSessionsList } from '@agent-viewer/shared';
+import { useState, useMemo, useEffect, type ReactNode } from 'react';
+import type { TeamState, AgentState, GroupedSessionsList, EditConflict } from '@agent-viewer/shared';
 import { AgentCharacter } from './AgentCharacter';
 import { Machine } from './Machine';
 import { ActionBubble } from './ActionBubble';
 import { AgentDetail } from './AgentDetail';
 import { SceneBackground, SubagentTethers, BranchTethers } from './SceneBackground';
 import { BranchSidebar } from './BranchSidebar';
+import { ConflictLines } from './ConflictLines';
 import { computeAllPositions, computeBranchLanes, computeBranchZones } from './sceneLayout';
 import type { ProjectInfo } from '../svg/characters';
 
@@ -16,6 +17,12 @@ interface SceneProps {
   onFocusTask?: (taskId: string) => void;
   groupedSessions?: GroupedSessionsList;
   onSelectSession?: (sessionId: string) => void;
+  /** Unexpired edit conflicts — drawn between the agents involved */
+  conflicts?: EditConflict[];
+  /** Overlay pinned to the bottom of the scene (replay scrubber) */
+  footer?: ReactNode;
+  /** Open an agent's full transcript from its detail popover */
+  onOpenTranscript?: (agentId: string) => void;
 }
 
 // --- Zoom & Pan Constants ---
@@ -26,7 +33,7 @@ const BASE_HEIGHT = 600;
 
 const clamp = (val: number, min: number, max: number) => Math.min(Math.max(val, min), max);
 
-export function Scene({ state, className, focusAgentId, onFocusTask, groupedSessions, onSelectSession }: SceneProps) {
+export function Scene({ state, className, focusAgentId, onFocusTask, groupedSessions, onSelectSession, conflicts = [], footer, onOpenTranscript }: SceneProps) {
   const mainAgents = useMemo(() => state.agents.filter((a) => !a.isSubagent), [state.agents]);
   const subagents = useMemo(() => state.agents.filter((a) => a.isSubagent), [state.agents]);
   const isSoloMode = mainAgents.length <= 1;
@@ -109,7 +116,7 @@ export function Scene({ state, className, focusAgentId, onFocusTask, groupedSess
   // Find the current project's branches for the sidebar
   const currentProject = useMemo(() => {
     if (!groupedSessions || !state.session?.projectPath) return null;
-    return groupedSessions.projects.find(p => p.projectPath === state.session!.projectPath) || null;
+    return groupedSessions.projects.find(p => p.projectPath === state.session!.projectPath && p.host === state.session!.host) || null;
   }, [groupedSessions, state.session]);
 
   // Build project info for character resolution (solo agents get project-based animals)
@@ -128,6 +135,7 @@ export function Scene({ state, className, focusAgentId, onFocusTask, groupedSess
         <h2>The Workshop in the Woods</h2>
         <p>Waiting for a session to start...<br />
         Launch Claude Code to begin.</p>
+        {footer}
       </div>
     );
   }
@@ -175,6 +183,9 @@ export function Scene({ state, className, focusAgentId, onFocusTask, groupedSess
         {/* Branch tether lines */}
         <BranchTethers agents={state.agents} branchLanes={branchLanes} allPositions={allPositions} />
 
+        {/* Edit conflict warnings between agents */}
+        <ConflictLines conflicts={conflicts} positions={allPositions} />
+
         {/* Agent characters at their stations */}
         {state.agents.map((agent) => {
           const pos = allPositions.get(agent.id) || { x: 450, y: 300 };
@@ -257,9 +268,15 @@ export function Scene({ state, className, focusAgentId, onFocusTask, groupedSess
           const agent = state.agents.find((a) => a.id === selectedAgentId);
           if (!agent) return null;
           const pos = allPositions.get(agent.id) || { x: 450, y: 300 };
-          return <AgentDetail agent={agent} x={pos.x} y={pos.y} onClose={() => setSelectedAgentId(null)} tasks={state.tasks} />;
+          return (
+            <AgentDetail
+              agent={agent} x={pos.x} y={pos.y} onClose={() => setSelectedAgentId(null)} tasks={state.tasks}
+              onOpenTranscript={onOpenTranscript && (() => { onOpenTranscript(agent.id); setSelectedAgentId(null); })}
+            />
+          );
         })()}
       </svg>
+      {footer}
     </div>
   );
 }
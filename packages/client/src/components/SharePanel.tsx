@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import type { SessionInfo, ShareLink, ShareScope } from '@agent-viewer/shared';
+import { useShares } from '../hooks/useShares';
+
+interface SharePanelProps {
+  session: SessionInfo;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', minutes: 60 },
+  { label: '8 hours', minutes: 8 * 60 },
+  { label: '1 day', minutes: 24 * 60 },
+  { label: '7 days', minutes: 7 * 24 * 60 },
+];
+
+function expiresIn(expiresAt: number): string {
+  const minutes = Math.max(Math.round((expiresAt - Date.now()) / 60_000), 0);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / (24 * 60))}d`;
+}
+
+/** Create and revoke read-only links to the current session or its project */
+export function SharePanel({ session, onClose }: SharePanelProps) {
+  const { links, error, create, revoke } = useShares();
+  const [scopeType, setScopeType] = useState<ShareScope['type']>('session');
+  const [ttlMinutes, setTtlMinutes] = useState(EXPIRY_OPTIONS[1].minutes);
+  const [created, setCreated] = useState<ShareLink | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCreate = async () => {
+    const scope: ShareScope = scopeType === 'session'
+      ? { type: 'session', sessionId: session.sessionId }
+      : { type: 'project', projectPath: session.mainRepoPath || session.projectPath, host: session.host };
+    setCreated(await create(scope, ttlMinutes));
+    setCopied(false);
+  };
+
+  const handleCopy = () => {
+    if (!created?.url) return;
+    navigator.clipboard?.writeText(created.url).then(() => setCopied(true), () => {});
+  };
+
+  return (
+    <div className="share-panel" role="dialog" aria-label="Share read-only link">
+      <div className="share-panel-header">
+        <span>Read-only link</span>
+        <button className="share-panel-close" onClick={onClose} title="Close">{'\u2715'}</button>
+      </div>
+      <div className="share-panel-options">
+        <label>
+          <input type="radio" checked={scopeType === 'session'} onChange={() => setScopeType('session')} />
+          This session
+        </label>
+        <label>
+          <input type="radio" checked={scopeType === 'project'} onChange={() => setScopeType('project')} />
+          All of {session.projectName}
+        </label>
+        <select value={ttlMinutes} onChange={(e) => setTtlMinutes(Number(e.target.value))} title="Link expires after">
+          {EXPIRY_OPTIONS.map((o) => (
+            <option key={o.minutes} value={o.minutes}>{o.label}</option>
+          ))}
+        </select>
+        <button className="share-panel-create" onClick={handleCreate}>Create link</button>
+      </div>
+      {created?.url && (
+        <div className="share-panel-created">
+          <input readOnly value={created.url} onFocus={(e) => e.target.select()} />
+          <button onClick={handleCopy}>{copied ? 'Copied' : 'Copy'}</button>
+        </div>
+      )}
+      {error && <div className="share-panel-error">{error}</div>}
+      {links.length > 0 && (
+        <ul className="share-panel-links">
+          {links.map((link) => (
+            <li key={link.id}>
+              <span className="share-panel-link-label">
+                {link.scope.type === 'project' ? 'Project' : 'Session'} {link.label}
+              </span>
+              <span className="share-panel-link-expiry">{expiresIn(link.expiresAt)} left</span>
+              <button onClick={() => revoke(link.id)}>Revoke</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import { useState } from 'react';
-import type { TeamState, AgentState, InboxNotification } from '@agent-viewer/shared';
+import type { TeamState, AgentState, InboxNotification, PermissionDecision } from '@agent-viewer/shared';
 import { TaskBoard } from './TaskBoard';
 import { MessageLog } from './MessageLog';
 import { InboxPanel } from './InboxPanel';
+import { FilesPanel } from './FilesPanel';
+import { StatsPanel } from './StatsPanel';
 
-type SidebarTab = 'inbox' | 'tasks' | 'messages';
+type SidebarTab = 'inbox' | 'tasks' | 'messages' | 'files' | 'stats';
 
 interface SidebarProps {
   state: TeamState;
@@ -19,16 +21,18 @@ interface SidebarProps {
   unreadCount?: number;
   onMarkRead?: (id: string) => void;
   onMarkAllRead?: () => void;
+  onResolvePermission?: (requestId: string, decision: PermissionDecision) => void;
 }
 
 export function Sidebar({
   state, open, className, forceTab,
   onFocusAgent, onFocusTask, highlightTaskId,
   activeNotifications = [], historyNotifications = [],
-  unreadCount = 0, onMarkRead, onMarkAllRead,
+  unreadCount = 0, onMarkRead, onMarkAllRead, onResolvePermission,
 }: SidebarProps) {
   const [activeTab, setActiveTab] = useState<SidebarTab>('tasks');
   const displayTab = forceTab || activeTab;
+  const fileCount = new Set(state.files?.map((f) => f.path)).size;
 
   return (
     <div className={`sidebar ${open ? '' : 'sidebar-collapsed'}${className ? ` ${className}` : ''}`}>
@@ -55,6 +59,18 @@ export function Sidebar({
           >
             Messages ({state.messages.length})
           </button>
+          <button
+            className={`sidebar-tab ${displayTab === 'files' ? 'active' : ''}`}
+            onClick={() => setActiveTab('files')}
+          >
+            Files ({fileCount})
+          </button>
+          <button
+            className={`sidebar-tab ${displayTab === 'stats' ? 'active' : ''}`}
+            onClick={() => setActiveTab('stats')}
+          >
+            Stats
+          </button>
         </div>
       )}
 
@@ -68,6 +84,7 @@ export function Sidebar({
             onMarkAllRead={onMarkAllRead || (() => {})}
             agents={state.agents}
             onFocusAgent={onFocusAgent}
+            onResolvePermission={onResolvePermission}
           />
         ) : displayTab === 'tasks' ? (
           <TaskBoard
@@ -77,6 +94,15 @@ export function Sidebar({
             onFocusTask={onFocusTask}
             highlightTaskId={highlightTaskId}
           />
+        ) : displayTab === 'files' ? (
+          <FilesPanel
+            files={state.files ?? []}
+            agents={state.agents}
+            session={state.session}
+            onFocusAgent={onFocusAgent}
+          />
+        ) : displayTab === 'stats' ? (
+          <StatsPanel sessionId={state.session?.sessionId} onFocusAgent={onFocusAgent} />
         ) : (
           <MessageLog
             messages={state.messages}
@@ -0,0 +1,75 @@
+import type { ToolStats } from '@agent-viewer/shared';
+import { useToolStats } from '../hooks/useToolStats';
+import { formatDuration } from './usageFormat';
+
+interface StatsPanelProps {
+  sessionId?: string;
+  onFocusAgent?: (agentId: string) => void;
+}
+
+function failureRate(stats: ToolStats): string {
+  return stats.failures === 0 ? '0%' : `${Math.round((stats.failures / stats.count) * 100)}%`;
+}
+
+/** Per-tool rows with a bar showing each tool's share of the total time */
+function ToolStatsTable({ tools }: { tools: ToolStats[] }) {
+  const totalMs = tools.reduce((n, t) => n + t.totalMs, 0);
+  return (
+    <table className="stats-table">
+      <thead>
+        <tr>
+          <th>Tool</th>
+          <th>Calls</th>
+          <th>p50</th>
+          <th>p95</th>
+          <th>Fail</th>
+          <th>Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        {tools.map((t) => (
+          <tr key={t.toolName}>
+            <td className="stats-tool">
+              <span className="stats-tool-name">{t.toolName}</span>
+              <span className="stats-bar" style={{ width: `${totalMs > 0 ? (t.totalMs / totalMs) * 100 : 0}%` }} />
+            </td>
+            <td>{t.count}</td>
+            <td>{formatDuration(t.p50Ms)}</td>
+            <td>{formatDuration(t.p95Ms)}</td>
+            <td className={t.failures > 0 ? 'stats-failures' : undefined}>{failureRate(t)}</td>
+            <td>{formatDuration(t.totalMs)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function StatsPanel({ sessionId, onFocusAgent }: StatsPanelProps) {
+  const { report, error } = useToolStats(sessionId);
+
+  if (error || !report || report.tools.length === 0) {
+    return (
+      <div style={{ color: 'var(--color-text-dim)', textAlign: 'center', padding: '20px', fontSize: '13px' }}>
+        {error ? `Stats unavailable: ${error}` : report ? 'No tool calls timed yet' : 'Loading...'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="stats-panel">
+      <div className="stats-heading">All agents</div>
+      <ToolStatsTable tools={report.tools} />
+      {report.agents.length > 1 && report.agents.map((agent) => (
+        <div key={agent.agentId}>
+          <div className="stats-heading">
+            {onFocusAgent ? (
+              <button className="agent-link" onClick={() => onFocusAgent(agent.agentId)}>{agent.agentName}</button>
+            ) : agent.agentName}
+          </div>
+          <ToolStatsTable tools={agent.tools} />
+        </div>
+      ))}
+    </div>
+  );
+}
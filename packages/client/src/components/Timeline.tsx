@@ -0,0 +1,110 @@
+import type { TimelinePhase } from '@agent-viewer/shared';
+import { useTimeline } from '../hooks/useTimeline';
+import {
+  PHASE_LABELS,
+  timeToPercent,
+  percentToTime,
+  axisTicks,
+  formatAxisTime,
+  describeSpan,
+  busyShare,
+} from './timelineLayout';
+
+interface TimelineProps {
+  sessionId: string;
+  className?: string;
+  /** Replay the session at a clicked moment */
+  onSeek: (at: number) => void;
+}
+
+const LEGEND: TimelinePhase[] = ['working', 'waiting_on_team', 'waiting', 'compacting', 'idle'];
+
+/**
+ * Swimlanes of what each agent did over the session — one per agent, with
+ * subagents indented under the agent that spawned them. Bars are phases,
+ * ticks are tool calls. Click a lane to replay the session at that moment.
+ */
+export function Timeline({ sessionId, className, onSeek }: TimelineProps) {
+  const { timeline, error } = useTimeline(sessionId);
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!timeline) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.round(percentToTime(((e.clientX - rect.left) / rect.width) * 100, timeline.start, timeline.end)));
+  };
+
+  const containerClass = `scene-container timeline-view${className ? ` ${className}` : ''}`;
+
+  if (!timeline) {
+    return (
+      <div className={containerClass}>
+        <div className="timeline-empty">{error ?? 'Loading timeline...'}</div>
+      </div>
+    );
+  }
+
+  const { start, end, lanes } = timeline;
+  const axis = axisTicks(start, end);
+  const position = (t: number) => `${timeToPercent(t, start, end)}%`;
+
+  return (
+    <div className={containerClass}>
+      <div className="timeline-legend">
+        {LEGEND.map((phase) => (
+          <span key={phase} className="timeline-legend-item">
+            <span className={`timeline-swatch phase-${phase}`} />
+            {PHASE_LABELS[phase]}
+          </span>
+        ))}
+        <span className="timeline-legend-item">
+          <span className="timeline-swatch timeline-swatch-tick" />
+          Tool call
+        </span>
+      </div>
+      <div className="timeline-body">
+        <div className="timeline-row timeline-axis">
+          <div className="timeline-lane-label" />
+          <div className="timeline-track">
+            {axis.ticks.map((t) => (
+              <span key={t} className="timeline-axis-label" style={{ left: position(t) }}>
+                {formatAxisTime(t, axis.step)}
+              </span>
+            ))}
+          </div>
+        </div>
+        {lanes.length === 0 && <div className="timeline-empty">No agent activity recorded yet.</div>}
+        {lanes.map((lane) => (
+          <div key={lane.agentId} className={`timeline-row${lane.isSubagent ? ' timeline-row-subagent' : ''}`}>
+            <div
+              className="timeline-lane-label"
+              style={{ paddingLeft: 8 + lane.depth * 14 }}
+              title={lane.subagentType ? `${lane.name} (${lane.subagentType})` : lane.name}
+            >
+              {lane.depth > 0 && <span className="timeline-lane-nest">{'\u2514'}</span>}
+              <span className="timeline-lane-name">{lane.name}</span>
+              <span className="timeline-lane-busy" title="Share of its time spent working">
+                {Math.round(busyShare(lane) * 100)}%
+              </span>
+            </div>
+            <div className="timeline-track" onClick={handleTrackClick}>
+              {axis.ticks.map((t) => (
+                <span key={t} className="timeline-gridline" style={{ left: position(t) }} />
+              ))}
+              {lane.spans.map((span) => (
+                <span
+                  key={span.start}
+                  className={`timeline-span phase-${span.phase}`}
+                  style={{ left: position(span.start), width: `${timeToPercent(span.end, start, end) - timeToPercent(span.start, start, end)}%` }}
+                  title={describeSpan(span)}
+                />
+              ))}
+              {lane.ticks.map((tick, i) => (
+                <span key={i} className="timeline-tick" style={{ left: position(tick.at) }} title={tick.action} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
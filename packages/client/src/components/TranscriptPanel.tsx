@@ -0,0 +1,164 @@
+import { useLayoutEffect, useMemo, useRef } from 'react';
+import type { TranscriptBlock, TranscriptEntry } from '@agent-viewer/shared';
+import { useTranscript } from '../hooks/useTranscript';
+import { highlight, languageForPath } from './highlight';
+import type { HighlightLanguage } from './highlight';
+
+interface TranscriptPanelProps {
+  sessionId: string;
+  agentId: string;
+  agentName: string;
+  onClose: () => void;
+}
+
+type ToolUse = Extract<TranscriptBlock, { type: 'tool_use' }>;
+
+/** Tool results longer than this start collapsed */
+const COLLAPSE_RESULT_LINES = 12;
+
+function Code({ text, language }: { text: string; language?: HighlightLanguage }) {
+  const tokens = useMemo(() => (language ? highlight(text, language) : [{ text }]), [text, language]);
+  return (
+    <pre className="transcript-code">
+      {tokens.map((t, i) => (t.kind ? <span key={i} className={`hl-${t.kind}`}>{t.text}</span> : t.text))}
+    </pre>
+  );
+}
+
+/** A tool call's input: Bash shows its command, other tools their input as JSON */
+function ToolInput({ block }: { block: ToolUse }) {
+  const { command, description, ...rest } = block.input;
+  if (block.name === 'Bash' && typeof command === 'string') {
+    return (
+      <>
+        {typeof description === 'string' && <div className="transcript-tool-description">{description}</div>}
+        <Code text={command} language="shell" />
+        {Object.keys(rest).length > 0 && <Code text={JSON.stringify(rest, null, 2)} language="json" />}
+      </>
+    );
+  }
+  return <Code text={JSON.stringify(block.input, null, 2)} language="json" />;
+}
+
+/** Colour a tool result like the file it read, or as JSON if it is JSON */
+function resultLanguage(text: string, toolUse: ToolUse | undefined): HighlightLanguage | undefined {
+  if (toolUse?.name === 'Read' && typeof toolUse.input.file_path === 'string') {
+    return languageForPath(toolUse.input.file_path);
+  }
+  const trimmed = text.trim();
+  return (trimmed.startsWith('{') || trimmed.startsWith('[')) && trimmed.length < 200_000 && isJson(trimmed) ? 'json' : undefined;
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function Block({ block, role, toolUses }: { block: TranscriptBlock; role: TranscriptEntry['role']; toolUses: Map<string, ToolUse> }) {
+  switch (block.type) {
+    case 'text':
+      return <div className={`transcript-text transcript-text-${role}`}>{block.text}</div>;
+    case 'thinking':
+      return (
+        <details className="transcript-thinking">
+          <summary>Thinking</summary>
+          <div className="transcript-text">{block.text}</div>
+        </details>
+      );
+    case 'tool_use':
+      return (
+        <div className="transcript-tool-use">
+          <div className="transcript-tool-name">{block.name}</div>
+          <ToolInput block={block} />
+        </div>
+      );
+    case 'tool_result': {
+      const toolUse = block.toolUseId ? toolUses.get(block.toolUseId) : undefined;
+      const lines = block.text.split('\n').length;
+      return (
+        <details className={`transcript-tool-result ${block.isError ? 'error' : ''}`} open={lines <= COLLAPSE_RESULT_LINES}>
+          <summary>
+            {block.isError ? 'Error' : 'Result'}{toolUse ? ` \u2022 ${toolUse.name}` : ''} ({lines} line{lines === 1 ? '' : 's'})
+          </summary>
+          {block.text ? <Code text={block.text} language={resultLanguage(block.text, toolUse)} /> : <div className="transcript-empty">(no output)</div>}
+        </details>
+      );
+    }
+  }
+}
+
+function formatTime(ts: number | undefined): string {
+  return ts ? new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '';
+}
+
+/** Everything an agent said and did, from its JSONL transcript */
+export function TranscriptPanel({ sessionId, agentId, agentName, onClose }: TranscriptPanelProps) {
+  const { entries, error, loading, hasEarlier, loadEarlier } = useTranscript(sessionId, agentId);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  /** Follow new entries unless the reader has scrolled up */
+  const pinnedRef = useRef(true);
+  const layoutRef = useRef({ oldestOffset: undefined as number | undefined, scrollHeight: 0 });
+  const oldestOffset = entries[0]?.offset;
+  const newestOffset = entries[entries.length - 1]?.offset;
+
+  const toolUses = useMemo(() => {
+    const map = new Map<string, ToolUse>();
+    for (const entry of entries) {
+      for (const block of entry.blocks) {
+        if (block.type === 'tool_use' && block.id) map.set(block.id, block);
+      }
+    }
+    return map;
+  }, [entries]);
+
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const prev = layoutRef.current;
+    if (pinnedRef.current) {
+      body.scrollTop = body.scrollHeight;
+    } else if (prev.oldestOffset !== undefined && oldestOffset !== prev.oldestOffset) {
+      // Older entries were added above — keep the reader's place
+      body.scrollTop += body.scrollHeight - prev.scrollHeight;
+    }
+    layoutRef.current = { oldestOffset, scrollHeight: body.scrollHeight };
+  }, [oldestOffset, newestOffset]);
+
+  const handleScroll = () => {
+    const body = bodyRef.current;
+    if (body) pinnedRef.current = body.scrollHeight - body.scrollTop - body.clientHeight < 40;
+  };
+
+  return (
+    <aside className="transcript-panel" aria-label={`Transcript of ${agentName}`}>
+      <div className="transcript-panel-header">
+        <span className="transcript-panel-title">Transcript {'\u2022'} {agentName}</span>
+        <button className="transcript-panel-close" onClick={onClose} title="Close">{'\u2715'}</button>
+      </div>
+      <div className="transcript-panel-body" ref={bodyRef} onScroll={handleScroll}>
+        {hasEarlier && (
+          <button className="transcript-load-earlier" onClick={loadEarlier} disabled={loading}>
+            {loading ? 'Loading\u2026' : 'Load earlier'}
+          </button>
+        )}
+        {error && <div className="transcript-error">{error}</div>}
+        {!error && !loading && entries.length === 0 && <div className="transcript-empty">Nothing in the transcript yet</div>}
+        {entries.map((entry) => (
+          <div key={entry.offset} className={`transcript-entry transcript-entry-${entry.role}`}>
+            <div className="transcript-entry-meta">
+              <span>{entry.blocks.every((b) => b.type === 'tool_result') ? 'tool' : entry.role}</span>
+              <span>{formatTime(entry.timestamp)}</span>
+            </div>
+            {entry.blocks.map((block, i) => (
+              <Block key={i} block={block} role={entry.role} toolUses={toolUses} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,68 @@
+import type { AgentState, PromptTurn } from '@agent-viewer/shared';
+import { promptTitle, summarizeTurnTools, turnDuration, describeOutcome } from './turnFormat';
+
+interface TurnListProps {
+  turns: PromptTurn[];
+  /** Shown for team sessions, where several agents take prompts */
+  agents?: AgentState[];
+  onSelectTurn: (turn: PromptTurn) => void;
+  onClose: () => void;
+}
+
+const OUTCOME_ICONS: Record<PromptTurn['outcome'], string> = {
+  running: '\u25B6',
+  completed: '\u2713',
+  interrupted: '\u23F9',
+};
+
+function formatTurnTime(ts: number): string {
+  return new Date(ts).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+/** The user's prompts in this session, newest first; picking one replays the session from it */
+export function TurnList({ turns, agents, onSelectTurn, onClose }: TurnListProps) {
+  const agentName = (id: string) => agents?.find((a) => a.id === id)?.name;
+
+  return (
+    <div className="turn-list" role="dialog" aria-label="Prompt history">
+      <div className="turn-list-header">
+        <span>Prompts</span>
+        <button className="turn-list-close" onClick={onClose} title="Close">{'\u2715'}</button>
+      </div>
+      {turns.length === 0 ? (
+        <div className="turn-list-empty">No prompts recorded yet. Prompts are recorded through hooks.</div>
+      ) : (
+        <ul className="turn-list-items">
+          {[...turns].reverse().map((turn) => {
+            const name = agentName(turn.agentId);
+            return (
+              <li key={turn.id}>
+                <button
+                  className={`turn-list-item turn-${turn.outcome}`}
+                  onClick={() => onSelectTurn(turn)}
+                  title={turn.prompt}
+                >
+                  <span className="turn-list-prompt">{promptTitle(turn.prompt)}</span>
+                  <span className="turn-list-meta">
+                    <span className="turn-list-outcome">
+                      {OUTCOME_ICONS[turn.outcome]} {describeOutcome(turn)}
+                    </span>
+                    {name && <span>{name}</span>}
+                    <span>{formatTurnTime(turn.startedAt)}</span>
+                    <span>{turnDuration(turn)}</span>
+                    <span>{summarizeTurnTools(turn.tools)}</span>
+                    {turn.toolFailures > 0 && (
+                      <span className="turn-list-failures">
+                        {turn.toolFailures} failed
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
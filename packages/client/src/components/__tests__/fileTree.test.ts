@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { buildFileTree } from '../fileTree';
+import type { FileTouch } from '@agent-viewer/shared';
+
+function touch(path: string, agentId = 'a1'): FileTouch {
+  return { path, agentId, operation: 'read', count: 1, lastTouched: 0 };
+}
+
+describe('buildFileTree', () => {
+  it('shows project files relative to the project and lists directories first', () => {
+    const tree = buildFileTree([
+      touch('/repo/README.md'),
+      touch('/repo/src/b.ts'),
+      touch('/repo/src/a.ts'),
+    ], '/repo');
+
+    expect(tree.map((n) => n.name)).toEqual(['src', 'README.md']);
+    expect(tree[0].path).toBe('/repo/src');
+    expect(tree[0].children.map((n) => n.name)).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('groups touches of one file by several agents', () => {
+    const tree = buildFileTree([touch('/repo/a.ts', 'a1'), touch('/repo/a.ts', 'a2')], '/repo');
+    expect(tree).toHaveLength(1);
+    expect(tree[0].touches.map((t) => t.agentId)).toEqual(['a1', 'a2']);
+  });
+
+  it('collapses single-child directory chains', () => {
+    const tree = buildFileTree([touch('/repo/packages/client/src/App.tsx')], '/repo');
+    expect(tree[0].name).toBe('packages/client/src');
+    expect(tree[0].children[0].name).toBe('App.tsx');
+  });
+
+  it('keeps absolute paths outside the project', () => {
+    const tree = buildFileTree([touch('/etc/hosts'), touch('/repo/a.ts')], '/repo');
+    expect(tree.map((n) => n.name)).toEqual(['etc', 'a.ts']);
+    expect(tree[0].children[0].path).toBe('/etc/hosts');
+  });
+});
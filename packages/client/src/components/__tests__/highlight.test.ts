@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { highlight, languageForPath } from '../highlight';
+
+const kinds = (code: string, language: Parameters<typeof highlight>[1]) =>
+  highlight(code, language).filter((t) => t.kind).map((t) => [t.kind, t.text]);
+
+describe('highlight', () => {
+  it('keeps every character of the input', () => {
+    const code = 'const x = "a // b"; // done\nreturn 42;';
+    expect(highlight(code, 'js').map((t) => t.text).join('')).toBe(code);
+  });
+
+  it('colours keywords, strings, comments and numbers in JS', () => {
+    expect(kinds('const x = "a // b"; // done', 'js')).toEqual([
+      ['keyword', 'const'], ['string', '"a // b"'], ['comment', '// done'],
+    ]);
+    expect(kinds('return constant + 0x1F', 'js')).toEqual([['keyword', 'return'], ['number', '0x1F']]);
+  });
+
+  it('tells JSON keys from values', () => {
+    expect(kinds('{ "file_path": "/a.ts", "limit": 10, "all": true }', 'json')).toEqual([
+      ['property', '"file_path"'], ['string', '"/a.ts"'], ['property', '"limit"'], ['number', '10'],
+      ['property', '"all"'], ['keyword', 'true'],
+    ]);
+  });
+
+  it('colours shell variables and only real comments', () => {
+    expect(kinds('echo "$HOME" $# ${USER} foo#bar # note', 'shell')).toEqual([
+      ['string', '"$HOME"'], ['variable', '$#'], ['variable', '${USER}'], ['comment', '# note'],
+    ]);
+  });
+
+  it('handles unterminated strings and Python triple quotes', () => {
+    expect(kinds('x = "open', 'js')).toEqual([['string', '"open']]);
+    expect(kinds('def f():\n    """doc\n    """\n    return None', 'python')).toEqual([
+      ['keyword', 'def'], ['string', '"""doc\n    """'], ['keyword', 'return'], ['keyword', 'None'],
+    ]);
+  });
+});
+
+describe('languageForPath', () => {
+  it('maps file extensions to languages', () => {
+    expect(languageForPath('/src/App.tsx')).toBe('js');
+    expect(languageForPath('package.json')).toBe('json');
+    expect(languageForPath('scripts/build.sh')).toBe('shell');
+    expect(languageForPath('main.py')).toBe('python');
+    expect(languageForPath('README.md')).toBeUndefined();
+    expect(languageForPath(undefined)).toBeUndefined();
+  });
+});
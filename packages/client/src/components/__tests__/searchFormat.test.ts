@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { SearchHit } from '@agent-viewer/shared';
+import { markMatches, describeHitKind, describeHitSource } from '../searchFormat';
+
+function makeHit(overrides?: Partial<SearchHit>): SearchHit {
+  return { kind: 'prompt', sessionId: 's1', snippet: '', timestamp: 0, live: true, ...overrides };
+}
+
+describe('markMatches', () => {
+  it('marks words the query terms prefix, ignoring case', () => {
+    expect(markMatches('Ran the Migration: migrate.ts', 'migr')).toEqual([
+      { text: 'Ran the ', match: false },
+      { text: 'Migr', match: true },
+      { text: 'ation: ', match: false },
+      { text: 'migr', match: true },
+      { text: 'ate.ts', match: false },
+    ]);
+  });
+
+  it('only matches at the start of words', () => {
+    expect(markMatches('remigrate', 'migr')).toEqual([{ text: 'remigrate', match: false }]);
+  });
+
+  it('marks every term and treats regex characters literally', () => {
+    expect(markMatches('db (prod) deploy', 'deploy (db)').filter((p) => p.match).map((p) => p.text)).toEqual(['db', 'deploy']);
+  });
+
+  it('leaves text alone for queries without words', () => {
+    expect(markMatches('a.b', '. x')).toEqual([{ text: 'a.b', match: false }]);
+  });
+});
+
+describe('describeHitKind', () => {
+  it('names tools, tasks and messages by their detail', () => {
+    expect(describeHitKind(makeHit())).toBe('Prompt');
+    expect(describeHitKind(makeHit({ kind: 'tool', detail: 'Bash' }))).toBe('Bash');
+    expect(describeHitKind(makeHit({ kind: 'task', detail: 'in_progress' }))).toBe('Task (in progress)');
+    expect(describeHitKind(makeHit({ kind: 'message', detail: 'lead' }))).toBe('Message to lead');
+  });
+});
+
+describe('describeHitSource', () => {
+  it('joins the agent and project with its branch', () => {
+    expect(describeHitSource(makeHit({ agentName: 'migrator', projectName: 'shop', gitBranch: 'main' }))).toBe('migrator · shop (main)');
+    expect(describeHitSource(makeHit({ projectName: 'shop' }))).toBe('shop');
+    expect(describeHitSource(makeHit())).toBe('');
+  });
+});
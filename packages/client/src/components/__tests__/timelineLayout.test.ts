@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { TimelineLane } from '@agent-viewer/shared';
+import { timeToPercent, percentToTime, axisTicks, describeSpan, busyShare } from '../timelineLayout';
+
+function makeLane(overrides?: Partial<TimelineLane>): TimelineLane {
+  return { agentId: 'a1', name: 'a1', role: 'implementer', depth: 0, spans: [], ticks: [], ...overrides };
+}
+
+describe('timeToPercent / percentToTime', () => {
+  it('maps moments onto the track and back, clamped to its ends', () => {
+    expect(timeToPercent(1500, 1000, 2000)).toBe(50);
+    expect(timeToPercent(500, 1000, 2000)).toBe(0);
+    expect(timeToPercent(2500, 1000, 2000)).toBe(100);
+    expect(timeToPercent(1000, 1000, 1000)).toBe(0);
+    expect(percentToTime(25, 1000, 2000)).toBe(1250);
+    expect(percentToTime(120, 1000, 2000)).toBe(2000);
+  });
+});
+
+describe('axisTicks', () => {
+  it('picks the shortest round step that fits', () => {
+    expect(axisTicks(0, 40_000)).toEqual({ step: 10_000, ticks: [0, 10_000, 20_000, 30_000, 40_000] });
+    expect(axisTicks(90_000, 25 * 60_000).step).toBe(5 * 60_000);
+    expect(axisTicks(90_000, 25 * 60_000).ticks[0]).toBe(5 * 60_000);
+  });
+
+  it('falls back to whole days for very long ranges', () => {
+    expect(axisTicks(0, 20 * 86_400_000).step).toBe(4 * 86_400_000);
+  });
+});
+
+describe('describeSpan', () => {
+  it('names the phase and its length', () => {
+    expect(describeSpan({ phase: 'waiting_on_team', start: 0, end: 125_000 })).toBe('Waiting on teammates for 2m 5s');
+  });
+});
+
+describe('busyShare', () => {
+  it('counts working and compacting time', () => {
+    const lane = makeLane({
+      spans: [
+        { phase: 'working', start: 0, end: 30 },
+        { phase: 'idle', start: 30, end: 60 },
+        { phase: 'compacting', start: 60, end: 70 },
+        { phase: 'waiting', start: 70, end: 100 },
+      ],
+    });
+    expect(busyShare(lane)).toBeCloseTo(0.4);
+    expect(busyShare(makeLane())).toBe(0);
+  });
+});
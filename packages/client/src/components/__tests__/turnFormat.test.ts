@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import type { PromptTurn } from '@agent-viewer/shared';
+import { promptTitle, summarizeTurnTools, turnDuration } from '../turnFormat';
+
+function makeTurn(overrides?: Partial<PromptTurn>): PromptTurn {
+  return { id: 'a1:0', agentId: 'a1', prompt: '', startedAt: 0, tools: {}, toolFailures: 0, outcome: 'running', ...overrides };
+}
+
+describe('promptTitle', () => {
+  it('takes the first non-blank line', () => {
+    expect(promptTitle('\n  Fix the login bug\nIt fails on Safari')).toBe('Fix the login bug');
+    expect(promptTitle('  ')).toBe('(empty prompt)');
+  });
+});
+
+describe('summarizeTurnTools', () => {
+  it('lists the most-used tools first and counts the rest', () => {
+    expect(summarizeTurnTools({ Read: 1, Edit: 4, Bash: 2, Grep: 1, Glob: 1 })).toBe('Edit ×4, Bash ×2, Glob, +2 more');
+    expect(summarizeTurnTools({ Read: 1 })).toBe('Read');
+    expect(summarizeTurnTools({})).toBe('No tools');
+  });
+});
+
+describe('turnDuration', () => {
+  it('measures to the end, or to now while running', () => {
+    expect(turnDuration(makeTurn({ startedAt: 1000, endedAt: 91_000, outcome: 'completed' }))).toBe('1m 30s');
+    expect(turnDuration(makeTurn({ startedAt: 1000 }), 6000)).toBe('5.0s');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { formatTokens, formatCost, describeTokens, formatDuration } from '../usageFormat';
+
+describe('formatTokens', () => {
+  it('abbreviates thousands and millions', () => {
+    expect(formatTokens(950)).toBe('950');
+    expect(formatTokens(1234)).toBe('1.2k');
+    expect(formatTokens(45_600)).toBe('46k');
+    expect(formatTokens(4_560_000)).toBe('4.56M');
+    expect(formatTokens(12_300_000)).toBe('12.3M');
+  });
+});
+
+describe('formatCost', () => {
+  it('shows cents below $100 and whole dollars above', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(3.216)).toBe('$3.22');
+    expect(formatCost(123.4)).toBe('$123');
+  });
+});
+
+describe('describeTokens', () => {
+  it('counts cache writes as input and lists cache reads separately', () => {
+    expect(describeTokens({ inputTokens: 200, outputTokens: 3400, cacheCreationTokens: 800, cacheReadTokens: 1_200_000, costUsd: 1 }))
+      .toBe('1.0k in · 3.4k out · 1.20M cached');
+    expect(describeTokens({ inputTokens: 5, outputTokens: 6, cacheCreationTokens: 0, cacheReadTokens: 0, costUsd: 0 }))
+      .toBe('5 in · 6 out');
+  });
+});
+
+describe('formatDuration', () => {
+  it('picks milliseconds, seconds or minutes', () => {
+    expect(formatDuration(850)).toBe('850ms');
+    expect(formatDuration(4200)).toBe('4.2s');
+    expect(formatDuration(42_000)).toBe('42s');
+    expect(formatDuration(190_000)).toBe('3m 10s');
+  });
+});
@@ -0,0 +1,70 @@
+import type { FileTouch } from '@agent-viewer/shared';
+
+export interface FileTreeNode {
+  /** Display name — a chain of single-child directories is joined, e.g. "src/components" */
+  name: string;
+  /** Full path of this file or directory */
+  path: string;
+  /** Child directories and files, directories first, each alphabetical */
+  children: FileTreeNode[];
+  /** Touches of this file (empty for directories) */
+  touches: FileTouch[];
+}
+
+interface MutableNode {
+  name: string;
+  path: string;
+  children: Map<string, MutableNode>;
+  touches: FileTouch[];
+}
+
+/**
+ * Group file touches into a directory tree. Paths under `rootPath` (the
+ * session's project) are shown relative to it; anything outside keeps its
+ * absolute path.
+ */
+export function buildFileTree(files: FileTouch[], rootPath?: string): FileTreeNode[] {
+  const root: MutableNode = { name: '', path: rootPath ?? '', children: new Map(), touches: [] };
+  const prefix = rootPath ? `${rootPath.replace(/\/+$/, '')}/` : undefined;
+
+  for (const touch of files) {
+    const relative = prefix && touch.path.startsWith(prefix) ? touch.path.slice(prefix.length) : touch.path;
+    const base = relative === touch.path ? '' : prefix!.slice(0, -1);
+    const segments = relative.split('/').filter(Boolean);
+    let node = root;
+    let path = base;
+    for (const segment of segments) {
+      path = `${path}/${segment}`;
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { name: segment, path, children: new Map(), touches: [] };
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    node.touches.push(touch);
+  }
+
+  return finish(root).children;
+}
+
+function finish(node: MutableNode): FileTreeNode {
+  let current = node;
+  let name = node.name;
+  // Collapse directory chains that hold nothing but one subdirectory
+  while (current.touches.length === 0 && current.children.size === 1 && name) {
+    const only = [...current.children.values()][0];
+    if (only.children.size === 0) break;
+    name = `${name}/${only.name}`;
+    current = only;
+  }
+
+  const children = [...current.children.values()].map(finish);
+  children.sort((a, b) => {
+    const aDir = a.children.length > 0;
+    const bDir = b.children.length > 0;
+    if (aDir !== bDir) return aDir ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+  return { name, path: current.path, children, touches: current.touches };
+}
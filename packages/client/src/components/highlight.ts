@@ -0,0 +1,124 @@
+/** Languages the transcript panel can colour */
+export type HighlightLanguage = 'js' | 'json' | 'python' | 'shell';
+
+export type TokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'property' | 'variable';
+
+export interface Token {
+  text: string;
+  /** Undefined for plain text */
+  kind?: TokenKind;
+}
+
+interface Grammar {
+  comment?: RegExp;
+  strings: RegExp;
+  keywords: Set<string>;
+  variable?: RegExp;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const GRAMMARS: Record<HighlightLanguage, Grammar> = {
+  js: {
+    comment: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y,
+    strings: /"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|`(?:\\[\s\S]|[^`\\])*`?/y,
+    keywords: words('as async await break case catch class const continue default delete do else enum export extends false finally for from function if implements import in instanceof interface let new null of private protected public readonly return static super switch this throw true try type typeof undefined var void while yield'),
+  },
+  json: {
+    strings: /"(?:\\.|[^"\\\n])*"?/y,
+    keywords: words('true false null'),
+  },
+  python: {
+    comment: /#[^\n]*/y,
+    strings: /[rbfu]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)/y,
+    keywords: words('False None True and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return self try while with yield'),
+  },
+  shell: {
+    comment: /(?<![^\s;|&(])#[^\n]*/y,
+    strings: /"(?:\\.|[^"\\])*"?|'[^']*'?/y,
+    keywords: words('if then else elif fi for while until do done case esac in function export local return sudo'),
+    variable: /\$(?:\{[^}\n]*\}?|[A-Za-z_]\w*|[0-9@#?$!*-])/y,
+  },
+};
+
+const NUMBER = /(?:0x[\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/y;
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+function matchAt(regex: RegExp | undefined, text: string, pos: number): string | null {
+  if (!regex) return null;
+  regex.lastIndex = pos;
+  return regex.exec(text)?.[0] || null;
+}
+
+/**
+ * Split code into coloured tokens. A small lexer — strings, comments,
+ * numbers, keywords — good enough to make tool calls and file contents
+ * readable, not a parser.
+ */
+export function highlight(code: string, language: HighlightLanguage): Token[] {
+  const grammar = GRAMMARS[language];
+  const tokens: Token[] = [];
+  const push = (text: string, kind?: TokenKind) => {
+    const last = tokens[tokens.length - 1];
+    if (!kind && last && !last.kind) last.text += text;
+    else tokens.push(kind ? { text, kind } : { text });
+  };
+
+  let pos = 0;
+  while (pos < code.length) {
+    const comment = matchAt(grammar.comment, code, pos);
+    if (comment) {
+      push(comment, 'comment');
+      pos += comment.length;
+      continue;
+    }
+    const string = matchAt(grammar.strings, code, pos);
+    if (string) {
+      // JSON keys are strings followed by a colon
+      const isKey = language === 'json' && /^\s*:/.test(code.slice(pos + string.length, pos + string.length + 20));
+      push(string, isKey ? 'property' : 'string');
+      pos += string.length;
+      continue;
+    }
+    const variable = matchAt(grammar.variable, code, pos);
+    if (variable) {
+      push(variable, 'variable');
+      pos += variable.length;
+      continue;
+    }
+    const prev = code[pos - 1];
+    const atWordStart = !prev || !/[\w$]/.test(prev);
+    const number = atWordStart ? matchAt(NUMBER, code, pos) : null;
+    if (number) {
+      push(number, 'number');
+      pos += number.length;
+      continue;
+    }
+    const word = atWordStart ? matchAt(WORD, code, pos) : null;
+    if (word) {
+      push(word, grammar.keywords.has(word) ? 'keyword' : undefined);
+      pos += word.length;
+      continue;
+    }
+    push(code[pos]);
+    pos += 1;
+  }
+  return tokens;
+}
+
+/** The language of a file, by extension */
+export function languageForPath(path: string | undefined): HighlightLanguage | undefined {
+  const ext = path?.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'ts': case 'tsx': case 'js': case 'jsx': case 'mjs': case 'cjs':
+      return 'js';
+    case 'json':
+      return 'json';
+    case 'py':
+      return 'python';
+    case 'sh': case 'bash': case 'zsh':
+      return 'shell';
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,56 @@
+import type { SearchHit } from '@agent-viewer/shared';
+
+export interface MarkedText {
+  text: string;
+  match: boolean;
+}
+
+/** Query words as the server matches them: lowercase letters and digits, two or more */
+function queryTerms(query: string): string[] {
+  return (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((t) => t.length >= 2);
+}
+
+/** Split text into runs, marking the words a query term prefixes */
+export function markMatches(text: string, query: string): MarkedText[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})`, 'giu');
+
+  const parts: MarkedText[] = [];
+  let last = 0;
+  for (const m of text.matchAll(pattern)) {
+    if (m.index > last) parts.push({ text: text.slice(last, m.index), match: false });
+    parts.push({ text: m[0], match: true });
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
+
+/** What matched, e.g. "Bash", "Prompt", "Task (completed)", "Message to lead" */
+export function describeHitKind(hit: SearchHit): string {
+  switch (hit.kind) {
+    case 'prompt':
+      return 'Prompt';
+    case 'reply':
+      return 'Reply';
+    case 'tool':
+      return hit.detail ?? 'Tool';
+    case 'task':
+      return hit.detail ? `Task (${hit.detail.replace('_', ' ')})` : 'Task';
+    case 'message':
+      return hit.detail ? `Message to ${hit.detail}` : 'Message';
+  }
+}
+
+/** Where it happened, e.g. "migrator · shop (main)" */
+export function describeHitSource(hit: SearchHit): string {
+  const project = hit.projectName ? `${hit.projectName}${hit.gitBranch ? ` (${hit.gitBranch})` : ''}` : '';
+  return [hit.agentName, project].filter(Boolean).join(' · ');
+}
+
+/** Day and time — hits can be from yesterday */
+export function formatHitTime(ts: number): string {
+  return new Date(ts).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+}
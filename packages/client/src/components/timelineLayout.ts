@@ -0,0 +1,60 @@
+import type { TimelineLane, TimelinePhase, TimelineSpan } from '@agent-viewer/shared';
+import { formatDuration } from './usageFormat';
+
+export const PHASE_LABELS: Record<TimelinePhase, string> = {
+  working: 'Working',
+  idle: 'Idle',
+  waiting: 'Waiting for you',
+  compacting: 'Compacting',
+  waiting_on_team: 'Waiting on teammates',
+};
+
+/** Axis steps to choose from, shortest first (ms) */
+const AXIS_STEPS = [
+  1000, 5000, 10_000, 30_000,
+  60_000, 5 * 60_000, 10 * 60_000, 15 * 60_000, 30 * 60_000,
+  3600_000, 2 * 3600_000, 6 * 3600_000, 12 * 3600_000, 24 * 3600_000,
+];
+
+/** Position of a moment along the track, as a percentage clamped to 0–100 */
+export function timeToPercent(t: number, start: number, end: number): number {
+  if (end <= start) return 0;
+  return Math.min(Math.max(((t - start) / (end - start)) * 100, 0), 100);
+}
+
+/** The moment at a percentage along the track */
+export function percentToTime(pct: number, start: number, end: number): number {
+  return start + (Math.min(Math.max(pct, 0), 100) / 100) * (end - start);
+}
+
+/** Round-numbered axis labels: the shortest step that keeps to at most maxTicks */
+export function axisTicks(start: number, end: number, maxTicks = 6): { step: number; ticks: number[] } {
+  const range = Math.max(end - start, 1);
+  const step = AXIS_STEPS.find((s) => range / s <= maxTicks) ?? Math.ceil(range / maxTicks / 86_400_000) * 86_400_000;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(start / step) * step; t <= end; t += step) ticks.push(t);
+  return { step, ticks };
+}
+
+/** Clock time for an axis label — seconds only when the step needs them */
+export function formatAxisTime(ts: number, step: number): string {
+  return new Date(ts).toLocaleTimeString([], step < 60_000
+    ? { hour: '2-digit', minute: '2-digit', second: '2-digit' }
+    : { hour: '2-digit', minute: '2-digit' });
+}
+
+/** Tooltip for a span, e.g. "Working for 2m 5s" */
+export function describeSpan(span: TimelineSpan): string {
+  return `${PHASE_LABELS[span.phase]} for ${formatDuration(span.end - span.start)}`;
+}
+
+/** Share of the lane's recorded time spent working or compacting, 0–1 */
+export function busyShare(lane: TimelineLane): number {
+  let total = 0;
+  let busy = 0;
+  for (const span of lane.spans) {
+    total += span.end - span.start;
+    if (span.phase === 'working' || span.phase === 'compacting') busy += span.end - span.start;
+  }
+  return total > 0 ? busy / total : 0;
+}
@@ -0,0 +1,33 @@
+import type { PromptTurn } from '@agent-viewer/shared';
+import { formatDuration } from './usageFormat';
+
+/** First line of a prompt, for a one-line turn row */
+export function promptTitle(prompt: string): string {
+  const line = prompt.trim().split('\n', 1)[0].trim();
+  return line || '(empty prompt)';
+}
+
+/** Most-used tools first, e.g. "Edit ×4, Bash ×2, +3 more" */
+export function summarizeTurnTools(tools: Record<string, number>, max = 3): string {
+  const sorted = Object.entries(tools).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  if (sorted.length === 0) return 'No tools';
+  const shown = sorted.slice(0, max).map(([name, count]) => (count > 1 ? `${name} ×${count}` : name));
+  if (sorted.length > max) shown.push(`+${sorted.length - max} more`);
+  return shown.join(', ');
+}
+
+/** How long the turn took, or has taken so far while running */
+export function turnDuration(turn: PromptTurn, now = Date.now()): string {
+  return formatDuration(Math.max((turn.endedAt ?? now) - turn.startedAt, 0));
+}
+
+export function describeOutcome(turn: PromptTurn): string {
+  switch (turn.outcome) {
+    case 'running':
+      return 'Running';
+    case 'completed':
+      return 'Completed';
+    case 'interrupted':
+      return 'Interrupted';
+  }
+}
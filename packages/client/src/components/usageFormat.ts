@@ -0,0 +1,32 @@
+import type { TokenUsage } from '@agent-viewer/shared';
+
+/** Compact token count: 950, 12.3k, 4.56M */
+export function formatTokens(n: number): string {
+  if (n < 1000) return String(Math.round(n));
+  if (n < 1_000_000) return `${(n / 1000).toFixed(n < 10_000 ? 1 : 0)}k`;
+  return `${(n / 1_000_000).toFixed(n < 10_000_000 ? 2 : 1)}M`;
+}
+
+/** Estimated cost in dollars, with cents below $100 */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return '<$0.01';
+  return usd < 100 ? `$${usd.toFixed(2)}` : `$${Math.round(usd)}`;
+}
+
+/** One-line token breakdown, e.g. "12k in · 3.4k out · 1.2M cached" */
+export function describeTokens(usage: TokenUsage): string {
+  const parts = [
+    `${formatTokens(usage.inputTokens + usage.cacheCreationTokens)} in`,
+    `${formatTokens(usage.outputTokens)} out`,
+  ];
+  if (usage.cacheReadTokens > 0) parts.push(`${formatTokens(usage.cacheReadTokens)} cached`);
+  return parts.join(' · ');
+}
+
+/** Compact duration: 850ms, 4.2s, 3m 10s */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(ms < 10_000 ? 1 : 0)}s`;
+  const minutes = Math.floor(ms / 60_000);
+  return `${minutes}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
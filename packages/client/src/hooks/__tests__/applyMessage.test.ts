@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { applyMessage } from '../useWebSocket';
-import type { TeamState, AgentState, TaskState, MessageState, WSMessage } from '@agent-viewer/shared';
+import { applyMessage } from '@agent-viewer/shared';
+import { upsertNotification } from '../useWebSocket';
+import type { TeamState, AgentState, TaskState, MessageState, FileTouch, PromptTurn, WSMessage, InboxNotification } from '@agent-viewer/shared';
 
 const initialTeamState: TeamState = {
   name: 'Test Team',
@@ -104,6 +105,35 @@ describe('applyMessage', () => {
     expect(result.messages.length).toBe(1);
   });
 
+  it('should upsert files_touched entries', () => {
+    const read: FileTouch = { path: '/p/a.ts', agentId: '1', operation: 'read', count: 1, lastTouched: 1 };
+    const stateWithFiles: TeamState = { ...initialTeamState, files: [read] };
+    const message: WSMessage = {
+      type: 'files_touched',
+      data: {
+        sessionId: 's1',
+        touches: [
+          { ...read, count: 2, lastTouched: 5 },
+          { path: '/p/a.ts', agentId: '1', operation: 'edit', count: 1, lastTouched: 5 },
+        ],
+      },
+    };
+
+    const result = applyMessage(stateWithFiles, message);
+    expect(result.files).toEqual(message.data.touches);
+  });
+
+  it('should upsert prompt_turn by id', () => {
+    const turn: PromptTurn = { id: '1:1', agentId: '1', prompt: 'Fix it', startedAt: 1, tools: {}, toolFailures: 0, outcome: 'running' };
+    const stateWithTurns: TeamState = { ...initialTeamState, turns: [turn] };
+    const ended = { ...turn, endedAt: 9, tools: { Bash: 1 }, outcome: 'completed' as const };
+    const next = { ...turn, id: '1:9', startedAt: 9 };
+
+    let result = applyMessage(stateWithTurns, { type: 'prompt_turn', data: { sessionId: 's1', turn: ended } });
+    result = applyMessage(result, { type: 'prompt_turn', data: { sessionId: 's1', turn: next } });
+    expect(result.turns).toEqual([ended, next]);
+  });
+
   it('should return current state for unknown message type', () => {
     // @ts-expect-error - testing default case with unknown type
     const message: WSMessage = { type: 'unknown_type', data: {} };
@@ -112,3 +142,21 @@ describe('applyMessage', () => {
     expect(result).toBe(initialTeamState);
   });
 });
+
+describe('upsertNotification', () => {
+  const base: InboxNotification = {
+    id: 'n1', type: 'permission_request', timestamp: 0, title: 'alpha needs input', body: 'Bash: npm test',
+    agentId: 'a1', agentName: 'alpha', sessionId: 's1', projectName: 'repo', read: false, resolved: false,
+  };
+
+  it('adds new notifications at the top', () => {
+    const next = { ...base, id: 'n2' };
+    expect(upsertNotification([base], next).map((n) => n.id)).toEqual(['n2', 'n1']);
+  });
+
+  it('replaces a notification the server changed in place', () => {
+    const other = { ...base, id: 'n0' };
+    const result = upsertNotification([base, other], { ...base, resolved: true });
+    expect(result.map((n) => [n.id, n.resolved])).toEqual([['n1', true], ['n0', false]]);
+  });
+});
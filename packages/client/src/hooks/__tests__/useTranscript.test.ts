@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import type { TranscriptEntry } from '@agent-viewer/shared';
+import { mergeTranscriptEntries } from '../useTranscript';
+
+const entry = (offset: number, text = `at ${offset}`): TranscriptEntry => ({
+  offset,
+  role: 'assistant',
+  blocks: [{ type: 'text', text }],
+});
+
+describe('mergeTranscriptEntries', () => {
+  it('adds new entries in file order', () => {
+    const merged = mergeTranscriptEntries([entry(100), entry(200)], [entry(0), entry(300)]);
+    expect(merged.map((e) => e.offset)).toEqual([0, 100, 200, 300]);
+  });
+
+  it('keeps entries already loaded when a page overlaps them', () => {
+    const loaded = [entry(100), entry(200)];
+    expect(mergeTranscriptEntries(loaded, [entry(200, 'again')])).toBe(loaded);
+    expect(mergeTranscriptEntries(loaded, [entry(200, 'again'), entry(300)])[1].blocks).toEqual([{ type: 'text', text: 'at 200' }]);
+  });
+});
@@ -0,0 +1,56 @@
+const STORAGE_KEY = 'agent-viewer-credential';
+
+/** The token this browser connects with; share link tokens only grant a read-only view */
+export interface Credential {
+  token: string;
+  readOnly: boolean;
+}
+
+let cached: Credential | null | undefined;
+
+function readStored(): Credential | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return stored && typeof stored.token === 'string' ? { token: stored.token, readOnly: !!stored.readOnly } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The server's auth token: taken from a ?token= link (the server prints one
+ * at startup) or a ?share= link, and remembered so the URL can be bookmarked
+ * without it. The most recently opened link wins.
+ */
+export function getCredential(): Credential | null {
+  if (cached !== undefined) return cached;
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get('token');
+  const share = params.get('share');
+  if (token || share) {
+    cached = token ? { token, readOnly: false } : { token: share!, readOnly: true };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(cached));
+    } catch {
+      // localStorage unavailable — the token only lasts until reload
+    }
+    params.delete('token');
+    params.delete('share');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+    return cached;
+  }
+  cached = readStored();
+  return cached;
+}
+
+/** Headers for REST calls to the server (needed when viewing from another machine) */
+export function authHeaders(): Record<string, string> {
+  const credential = getCredential();
+  return credential ? { Authorization: `Bearer ${credential.token}` } : {};
+}
+
+/** The server's WebSocket on the page's own host — the dev server proxies it */
+export function serverWsUrl(): string {
+  return `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/ws`;
+}
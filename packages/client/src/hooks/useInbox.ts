@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { AgentState, InboxNotification, NotificationType, SessionInfo, SessionListEntry } from '@agent-viewer/shared';
+import { useState, useCallback, useMemo } from 'react';
+import type { InboxNotification, NotificationType } from '@agent-viewer/shared';
 
 interface InboxResult {
   activeNotifications: InboxNotification[];
@@ -14,174 +14,37 @@ const PRIORITY_ORDER: Record<NotificationType, number> = {
   permission_request: 0,
   ask_user_question: 1,
   plan_approval: 2,
-  agent_error: 3,
-  task_completed: 4,
-  agent_idle: 5,
-  agent_stopped: 6,
+  edit_conflict: 3,
+  agent_stuck: 4,
+  agent_error: 5,
+  task_completed: 6,
+  agent_idle: 7,
+  agent_stopped: 8,
 };
 
-/** Max number of notifications to keep in the list */
-const MAX_NOTIFICATIONS = 50;
-
-function getNotificationType(agent: AgentState): NotificationType {
-  // Use the server-provided waitingType for precise classification
-  switch (agent.waitingType) {
-    case 'question': return 'ask_user_question';
-    case 'plan': return 'plan_approval';
-    case 'plan_approval': return 'plan_approval';
-    case 'permission': return 'permission_request';
-  }
-  // Fallback: string match on currentAction for sessions without hooks
-  if (agent.waitingForInput) {
-    const action = (agent.currentAction || '').toLowerCase();
-    if (action.includes('plan')) return 'plan_approval';
-    if (action.includes('question') || action.includes('ask')) return 'ask_user_question';
-  }
-  return 'permission_request';
-}
-
-/** Client-side inbox: generates notifications from agent state transitions */
-export function useInbox(agents: AgentState[], session?: SessionInfo, sessions?: SessionListEntry[]): InboxResult {
-  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
-  const prevWaiting = useRef<Set<string>>(new Set());
-  const prevSessionId = useRef<string | undefined>(undefined);
-
-  // Reset prevWaiting ref when session changes to prevent stale IDs
-  useEffect(() => {
-    const currentSessionId = session?.sessionId;
-    if (currentSessionId !== prevSessionId.current) {
-      prevWaiting.current = new Set();
-      prevSessionId.current = currentSessionId;
-    }
-  }, [session?.sessionId]);
-
-  // Detect waiting-for-input transitions
-  useEffect(() => {
-    const currentWaiting = new Set<string>();
-
-    for (const agent of agents) {
-      if (agent.waitingForInput) {
-        currentWaiting.add(agent.id);
-
-        // New waiting agent -- create notification
-        if (!prevWaiting.current.has(agent.id)) {
-          const type = getNotificationType(agent);
-          const actionText = agent.currentAction || 'Waiting for input';
-          const notif: InboxNotification = {
-            id: `${agent.id}-${Date.now()}`,
-            agentId: agent.id,
-            agentName: agent.name,
-            type,
-            title: `${agent.name} needs input`,
-            body: actionText,
-            context: agent.actionContext,
-            sessionId: session?.sessionId || 'unknown',
-            projectName: session?.projectName || 'Unknown Project',
-            gitBranch: agent.gitBranch || session?.gitBranch,
-            timestamp: Date.now(),
-            read: false,
-            resolved: false,
-          };
-          setNotifications((prev) => {
-            const updated = [notif, ...prev];
-            // Cap at MAX_NOTIFICATIONS, trim oldest
-            if (updated.length > MAX_NOTIFICATIONS) {
-              return updated.slice(0, MAX_NOTIFICATIONS);
-            }
-            return updated;
-          });
-        }
-      }
-    }
-
-    // Auto-resolve notifications for agents no longer waiting
-    setNotifications((prev) =>
-      prev.map((n) => {
-        if (!n.resolved && !currentWaiting.has(n.agentId)) {
-          return { ...n, resolved: true };
-        }
-        return n;
-      })
-    );
-
-    prevWaiting.current = currentWaiting;
-  }, [agents, session]);
-
-  // Cross-session notifications: create notifications for waiting agents in OTHER
-  // sessions (not the one we're currently viewing), and resolve them when they stop waiting.
-  const prevCrossSessionWaiting = useRef<Set<string>>(new Set());
-  useEffect(() => {
-    if (!sessions || sessions.length === 0) return;
-
-    const currentSessionId = session?.sessionId;
-    const currentCrossWaiting = new Set<string>();
-
-    // Build a set of session IDs that still have waiting agents
-    const sessionsWithWaiting = new Set<string>();
-
-    for (const s of sessions) {
-      if (s.hasWaitingAgent) {
-        sessionsWithWaiting.add(s.sessionId);
-      }
-
-      // Create notifications for OTHER sessions' waiting agents
-      if (s.hasWaitingAgent && s.waitingAgentInfo && s.sessionId !== currentSessionId) {
-        const key = `${s.sessionId}:${s.waitingAgentInfo.agentId}`;
-        currentCrossWaiting.add(key);
-
-        if (!prevCrossSessionWaiting.current.has(key)) {
-          const info = s.waitingAgentInfo;
-          const notif: InboxNotification = {
-            id: `cross-${info.agentId}-${Date.now()}`,
-            agentId: info.agentId,
-            agentName: info.agentName,
-            type: (info.waitingType as NotificationType) || 'permission_request',
-            title: `${info.agentName} needs input`,
-            body: info.action,
-            sessionId: s.sessionId,
-            projectName: s.projectName,
-            gitBranch: s.gitBranch,
-            timestamp: Date.now(),
-            read: false,
-            resolved: false,
-          };
-          setNotifications((prev) => {
-            const updated = [notif, ...prev];
-            return updated.length > MAX_NOTIFICATIONS ? updated.slice(0, MAX_NOTIFICATIONS) : updated;
-          });
-        }
-      }
-    }
-
-    prevCrossSessionWaiting.current = currentCrossWaiting;
-
-    // Resolve notifications for sessions that no longer have waiting agents
-    setNotifications((prev) => {
-      let changed = false;
-      const updated = prev.map((n) => {
-        if (!n.resolved && !sessionsWithWaiting.has(n.sessionId)) {
-          changed = true;
-          return { ...n, resolved: true };
-        }
-        return n;
-      });
-      return changed ? updated : prev;
-    });
-  }, [sessions, session?.sessionId]);
+/**
+ * Inbox view over the server's notifications. The server raises and
+ * resolves them; read state is kept per browser tab.
+ */
+export function useInbox(notifications: InboxNotification[]): InboxResult {
+  const [readIds, setReadIds] = useState<ReadonlySet<string>>(new Set());
 
   const markRead = useCallback((id: string) => {
-    setNotifications((prev) =>
-      prev.map((n) => (n.id === id ? { ...n, read: true } : n))
-    );
+    setReadIds((prev) => new Set(prev).add(id));
   }, []);
 
   const markAllRead = useCallback(() => {
-    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
-  }, []);
+    setReadIds(new Set(notifications.map((n) => n.id)));
+  }, [notifications]);
+
+  const withRead = useMemo(
+    () => notifications.map((n) => (readIds.has(n.id) && !n.read ? { ...n, read: true } : n)),
+    [notifications, readIds],
+  );
 
-  const active = notifications.filter((n) => !n.resolved);
-  const history = notifications.filter((n) => n.resolved);
-  const unread = notifications.filter((n) => !n.read).length;
+  const active = withRead.filter((n) => !n.resolved);
+  const history = withRead.filter((n) => n.resolved);
+  const unread = withRead.filter((n) => !n.read).length;
 
   const highestPriority = active.length > 0
     ? active.reduce((best, n) =>
@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import type { ReplayFrame } from '@agent-viewer/shared';
+import { authHeaders } from './credentials';
+
+/** Wait for the scrubber to settle before asking the server for a frame */
+const REPLAY_FETCH_DEBOUNCE_MS = 120;
+
+interface ReplayResult {
+  /** Latest frame received for the requested time (null in live mode) */
+  frame: ReplayFrame | null;
+  error: string | null;
+}
+
+/**
+ * Fetch a session's reconstructed state at `at` (ms). Pass `at = null` for
+ * live mode. In-flight requests are aborted when the scrubber moves on.
+ */
+export function useReplay(sessionId: string | undefined, at: number | null): ReplayResult {
+  const [frame, setFrame] = useState<ReplayFrame | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId || at === null) {
+      setFrame(null);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/sessions/${encodeURIComponent(sessionId)}/replay?at=${Math.round(at)}`, { signal: controller.signal, headers: authHeaders() })
+        .then(async (res) => {
+          const body = await res.json();
+          if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+          return body as ReplayFrame;
+        })
+        .then((data) => {
+          setFrame(data);
+          setError(null);
+        })
+        .catch((err: Error) => {
+          if (err.name !== 'AbortError') setError(err.message);
+        });
+    }, REPLAY_FETCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [sessionId, at]);
+
+  return { frame, error };
+}
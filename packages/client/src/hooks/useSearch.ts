@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import type { SearchResults } from '@agent-viewer/shared';
+import { authHeaders } from './credentials';
+
+/** Wait for typing to pause before asking the server */
+const SEARCH_DEBOUNCE_MS = 250;
+/** Shorter queries only filter the session list */
+export const MIN_SEARCH_CHARS = 2;
+
+interface SearchResult {
+  /** Results for the latest query (null before the first arrives or when the query is too short) */
+  results: SearchResults | null;
+  error: string | null;
+  loading: boolean;
+}
+
+/**
+ * Search transcripts, tool calls, tasks and messages across all sessions.
+ * In-flight requests are aborted as the query changes.
+ */
+export function useSearch(query: string): SearchResult {
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < MIN_SEARCH_CHARS) {
+      setResults(null);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/search?q=${encodeURIComponent(q)}`, { signal: controller.signal, headers: authHeaders() })
+        .then(async (res) => {
+          const body = await res.json();
+          if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+          return body as SearchResults;
+        })
+        .then((data) => {
+          setResults(data);
+          setError(null);
+          setLoading(false);
+        })
+        .catch((err: Error) => {
+          if (err.name === 'AbortError') return;
+          setError(err.message);
+          setLoading(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  return { results, error, loading };
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ShareLink, ShareScope } from '@agent-viewer/shared';
+import { authHeaders } from './credentials';
+
+interface SharesResult {
+  /** Live share links, newest first */
+  links: ShareLink[];
+  error: string | null;
+  /** Create a link; resolves to it (with its URL) or null on failure */
+  create: (scope: ShareScope, ttlMinutes: number) => Promise<ShareLink | null>;
+  revoke: (id: string) => void;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(path, { ...init, headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  if (res.status === 204) return undefined as T;
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+  return body as T;
+}
+
+/** Read-only share links, loaded while the caller is mounted */
+export function useShares(): SharesResult {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    request<ShareLink[]>('/api/shares')
+      .then((data) => {
+        setLinks(data);
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  useEffect(load, [load]);
+
+  const create = useCallback(async (scope: ShareScope, ttlMinutes: number) => {
+    const body = scope.type === 'session'
+      ? { sessionId: scope.sessionId, ttlMinutes }
+      : { projectPath: scope.projectPath, host: scope.host, ttlMinutes };
+    try {
+      const link = await request<ShareLink>('/api/shares', { method: 'POST', body: JSON.stringify(body) });
+      setLinks((prev) => [link, ...prev]);
+      setError(null);
+      return link;
+    } catch (err) {
+      setError((err as Error).message);
+      return null;
+    }
+  }, []);
+
+  const revoke = useCallback((id: string) => {
+    request<void>(`/api/shares/${encodeURIComponent(id)}`, { method: 'DELETE' })
+      .then(() => setLinks((prev) => prev.filter((l) => l.id !== id)))
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  return { links, error, create, revoke };
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import type { SessionTimeline } from '@agent-viewer/shared';
+import { authHeaders } from './credentials';
+
+/** How often the timeline refreshes while open */
+const TIMELINE_POLL_MS = 5000;
+
+interface TimelineResult {
+  timeline: SessionTimeline | null;
+  error: string | null;
+}
+
+/** Poll a session's agent timeline while the caller is mounted */
+export function useTimeline(sessionId: string | undefined): TimelineResult {
+  const [timeline, setTimeline] = useState<SessionTimeline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTimeline(null);
+    setError(null);
+    if (!sessionId) return;
+
+    let controller: AbortController | undefined;
+    const load = () => {
+      controller?.abort();
+      controller = new AbortController();
+      fetch(`/api/sessions/${encodeURIComponent(sessionId)}/timeline`, { signal: controller.signal, headers: authHeaders() })
+        .then(async (res) => {
+          const body = await res.json();
+          if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+          return body as SessionTimeline;
+        })
+        .then((data) => {
+          setTimeline(data);
+          setError(null);
+        })
+        .catch((err: Error) => {
+          if (err.name !== 'AbortError') setError(err.message);
+        });
+    };
+
+    load();
+    const timer = setInterval(load, TIMELINE_POLL_MS);
+    return () => {
+      clearInterval(timer);
+      controller?.abort();
+    };
+  }, [sessionId]);
+
+  return { timeline, error };
+}
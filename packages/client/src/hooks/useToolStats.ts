@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import type { ToolStatsReport } from '@agent-viewer/shared';
+import { authHeaders } from './credentials';
+
+/** How often the stats view refreshes while open */
+const STATS_POLL_MS = 5000;
+
+interface ToolStatsResult {
+  report: ToolStatsReport | null;
+  error: string | null;
+}
+
+/** Poll a session's tool call statistics while the caller is mounted */
+export function useToolStats(sessionId: string | undefined): ToolStatsResult {
+  const [report, setReport] = useState<ToolStatsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+    if (!sessionId) return;
+
+    let controller: AbortController | undefined;
+    const load = () => {
+      controller?.abort();
+      controller = new AbortController();
+      fetch(`/api/stats?session=${encodeURIComponent(sessionId)}`, { signal: controller.signal, headers: authHeaders() })
+        .then(async (res) => {
+          const body = await res.json();
+          if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+          return body as ToolStatsReport;
+        })
+        .then((data) => {
+          setReport(data);
+          setError(null);
+        })
+        .catch((err: Error) => {
+          if (err.name !== 'AbortError') setError(err.message);
+        });
+    };
+
+    load();
+    const timer = setInterval(load, STATS_POLL_MS);
+    return () => {
+      clearInterval(timer);
+      controller?.abort();
+    };
+  }, [sessionId]);
+
+  return { report, error };
+}
@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { TranscriptEntry, TranscriptPage } from '@agent-viewer/shared';
+import { authHeaders } from './credentials';
+
+/** How often the newest page is re-read while the panel is open */
+const TRANSCRIPT_POLL_MS = 3000;
+
+interface TranscriptResult {
+  /** Entries loaded so far, oldest first */
+  entries: TranscriptEntry[];
+  error: string | null;
+  loading: boolean;
+  /** Whether there are older entries to load */
+  hasEarlier: boolean;
+  loadEarlier: () => void;
+}
+
+/** Add a page's entries to those already loaded — entries are keyed by their offset in the file */
+export function mergeTranscriptEntries(loaded: TranscriptEntry[], page: TranscriptEntry[]): TranscriptEntry[] {
+  const known = new Set(loaded.map((e) => e.offset));
+  const added = page.filter((e) => !known.has(e.offset));
+  return added.length === 0 ? loaded : [...loaded, ...added].sort((a, b) => a.offset - b.offset);
+}
+
+async function fetchPage(sessionId: string, agentId: string, cursor: number | null, signal: AbortSignal): Promise<TranscriptPage> {
+  const params = new URLSearchParams({ agent: agentId });
+  if (cursor !== null) params.set('cursor', String(cursor));
+  const res = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/transcript?${params}`, { signal, headers: authHeaders() });
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+  return body as TranscriptPage;
+}
+
+/**
+ * An agent's transcript: the newest page, polled while the caller is mounted,
+ * plus any older pages asked for with loadEarlier().
+ */
+export function useTranscript(sessionId: string, agentId: string): TranscriptResult {
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  /** Cursor for the page before the oldest one loaded; undefined until the first page arrives */
+  const [earlierCursor, setEarlierCursor] = useState<number | null | undefined>(undefined);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setEntries([]);
+    setError(null);
+    setLoading(true);
+    setEarlierCursor(undefined);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const load = () => {
+      fetchPage(sessionId, agentId, null, controller.signal)
+        .then((page) => {
+          setEntries((prev) => mergeTranscriptEntries(prev, page.entries));
+          // Keep the cursor of older pages already loaded
+          setEarlierCursor((prev) => (prev === undefined ? page.cursor : prev));
+          setError(null);
+        })
+        .catch((err: Error) => {
+          if (err.name !== 'AbortError') setError(err.message);
+        })
+        .finally(() => setLoading(false));
+    };
+
+    load();
+    const timer = setInterval(load, TRANSCRIPT_POLL_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [sessionId, agentId]);
+
+  const loadEarlier = useCallback(() => {
+    const controller = controllerRef.current;
+    if (earlierCursor === undefined || earlierCursor === null || !controller) return;
+    setLoading(true);
+    fetchPage(sessionId, agentId, earlierCursor, controller.signal)
+      .then((page) => {
+        setEntries((prev) => mergeTranscriptEntries(prev, page.entries));
+        setEarlierCursor(page.cursor);
+      })
+      .catch((err: Error) => {
+        if (err.name !== 'AbortError') setError(err.message);
+      })
+      .finally(() => setLoading(false));
+  }, [sessionId, agentId, earlierCursor]);
+
+  return { entries, error, loading, hasEarlier: earlierCursor !== undefined && earlierCursor !== null, loadEarlier };
+}
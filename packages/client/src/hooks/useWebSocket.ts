@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { TeamState, SessionListEntry, GroupedSessionsList, WSMessage } from '@agent-viewer/shared';
+import { applyMessage } from '@agent-viewer/shared';
+import type { TeamState, SessionListEntry, GroupedSessionsList, WSMessage, WSClientMessage, PermissionDecision, EditConflict, InboxNotification } from '@agent-viewer/shared';
+import { getCredential } from './credentials';
 
 const EMPTY_STATE: TeamState = {
   name: '',
@@ -13,6 +15,13 @@ const EMPTY_GROUPED: GroupedSessionsList = {
   flatSessions: [],
 };
 
+/** Most recent edit conflicts kept at once */
+const MAX_CONFLICTS = 20;
+
+/** Subprotocol the server answers with; the token rides along as a second one */
+const WS_PROTOCOL = 'agent-viewer';
+const WS_TOKEN_PROTOCOL_PREFIX = 'agent-viewer-token.';
+
 export type ConnectionStatus = 'connected' | 'disconnected' | 'reconnecting';
 
 export interface WebSocketState {
@@ -20,7 +29,15 @@ export interface WebSocketState {
   sessions: SessionListEntry[];
   groupedSessions: GroupedSessionsList;
   connectionStatus: ConnectionStatus;
+  /** Connected through a share link: Allow/Deny and sharing are unavailable */
+  readOnly: boolean;
+  /** Unexpired edit conflicts across all sessions, newest first */
+  conflicts: EditConflict[];
+  /** Server inbox notifications across all sessions, newest first */
+  notifications: InboxNotification[];
   selectSession: (sessionId: string) => void;
+  /** Answer a blocked PermissionRequest hook with Allow/Deny */
+  resolvePermission: (requestId: string, decision: PermissionDecision) => void;
 }
 
 export function useWebSocket(url: string): WebSocketState {
@@ -28,6 +45,8 @@ export function useWebSocket(url: string): WebSocketState {
   const [sessions, setSessions] = useState<SessionListEntry[]>([]);
   const [groupedSessions, setGroupedSessions] = useState<GroupedSessionsList>(EMPTY_GROUPED);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
+  const [conflicts, setConflicts] = useState<EditConflict[]>([]);
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   const hasConnectedOnce = useRef(false);
@@ -44,8 +63,19 @@ export function useWebSocket(url: string): WebSocketState {
     }
   }, []);
 
+  const resolvePermission = useCallback((requestId: string, decision: PermissionDecision) => {
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      const msg: WSClientMessage = { type: 'permission_decision', requestId, decision };
+      ws.send(JSON.stringify(msg));
+    }
+  }, []);
+
   const connect = useCallback(() => {
-    const ws = new WebSocket(url);
+    const credential = getCredential();
+    const protocols = [WS_PROTOCOL];
+    if (credential) protocols.push(WS_TOKEN_PROTOCOL_PREFIX + credential.token);
+    const ws = new WebSocket(url, protocols);
     wsRef.current = ws;
 
     ws.onopen = () => {
@@ -95,6 +125,15 @@ export function useWebSocket(url: string): WebSocketState {
           case 'session_ended':
             setSessions((prev) => prev.filter((s) => s.sessionId !== msg.data.sessionId));
             break;
+          case 'edit_conflict':
+            setConflicts((prev) => [msg.data, ...prev].slice(0, MAX_CONFLICTS));
+            break;
+          case 'inbox':
+            setNotifications(msg.data);
+            break;
+          case 'notification':
+            setNotifications((prev) => upsertNotification(prev, msg.data));
+            break;
           default:
             if (msg.type === 'full_state') {
               console.log(`[ws] full_state: session=${msg.data.session?.projectName || 'none'} agents=${msg.data.agents?.length || 0}`);
@@ -139,58 +178,24 @@ export function useWebSocket(url: string): WebSocketState {
     };
   }, [connect]);
 
-  return { team: state, sessions, groupedSessions, connectionStatus, selectSession };
+  // Drop each conflict once it expires
+  useEffect(() => {
+    if (conflicts.length === 0) return;
+    const nextExpiry = Math.min(...conflicts.map((c) => c.expiresAt));
+    const timer = setTimeout(() => {
+      setConflicts((prev) => prev.filter((c) => c.expiresAt > Date.now()));
+    }, Math.max(nextExpiry - Date.now(), 0) + 100);
+    return () => clearTimeout(timer);
+  }, [conflicts]);
+
+  const readOnly = getCredential()?.readOnly ?? false;
+
+  return { team: state, sessions, groupedSessions, connectionStatus, readOnly, conflicts, notifications, selectSession, resolvePermission };
 }
 
-export function applyMessage(state: TeamState, msg: WSMessage): TeamState {
-  switch (msg.type) {
-    case 'full_state':
-      return msg.data;
-
-    case 'agent_update':
-      return {
-        ...state,
-        agents: state.agents.map((a) =>
-          a.id === msg.data.id ? msg.data : a
-        ),
-      };
-
-    case 'agent_added':
-      // Deduplicate: if agent already exists, treat as update
-      if (state.agents.some((a) => a.id === msg.data.id)) {
-        return {
-          ...state,
-          agents: state.agents.map((a) =>
-            a.id === msg.data.id ? msg.data : a
-          ),
-        };
-      }
-      return {
-        ...state,
-        agents: [...state.agents, msg.data],
-      };
-
-    case 'agent_removed':
-      return {
-        ...state,
-        agents: state.agents.filter((a) => a.id !== msg.data.id),
-      };
-
-    case 'task_update':
-      return {
-        ...state,
-        tasks: state.tasks.some((t) => t.id === msg.data.id)
-          ? state.tasks.map((t) => (t.id === msg.data.id ? msg.data : t))
-          : [...state.tasks, msg.data],
-      };
-
-    case 'new_message':
-      return {
-        ...state,
-        messages: [...state.messages, msg.data],
-      };
-
-    default:
-      return state;
-  }
+/** Replace a notification the server changed, or add a new one at the top */
+export function upsertNotification(notifications: InboxNotification[], notification: InboxNotification): InboxNotification[] {
+  return notifications.some((n) => n.id === notification.id)
+    ? notifications.map((n) => (n.id === notification.id ? notification : n))
+    : [notification, ...notifications];
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { IncomingMessage } from 'http';
+import { bearerToken, loadAuthToken, tokenMatches, wsRequestToken } from '../auth';
+
+function upgradeRequest(url: string, headers: Record<string, string> = {}): IncomingMessage {
+  return { url, headers } as unknown as IncomingMessage;
+}
+
+describe('loadAuthToken', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'avt-auth-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('creates an owner-only token file once and reuses it', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const file = join(dir, 'nested', 'token');
+    const token = loadAuthToken(file, undefined);
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(loadAuthToken(file, undefined)).toBe(token);
+  });
+
+  it('reads an existing file and prefers the env token', () => {
+    const file = join(dir, 'token');
+    writeFileSync(file, 'from-install\n');
+    expect(loadAuthToken(file, undefined)).toBe('from-install');
+    expect(loadAuthToken(file, 'from-env')).toBe('from-env');
+    expect(readFileSync(file, 'utf-8')).toBe('from-install\n');
+  });
+});
+
+describe('tokenMatches', () => {
+  it('needs the exact token', () => {
+    expect(tokenMatches('s3cret', 's3cret')).toBe(true);
+    expect(tokenMatches('s3cre', 's3cret')).toBe(false);
+    expect(tokenMatches(undefined, 's3cret')).toBe(false);
+    expect(tokenMatches('', '')).toBe(false);
+  });
+});
+
+describe('bearerToken', () => {
+  it('extracts the token of a Bearer header', () => {
+    expect(bearerToken('Bearer abc')).toBe('abc');
+    expect(bearerToken('Basic abc')).toBeUndefined();
+    expect(bearerToken('Bearer ')).toBeUndefined();
+    expect(bearerToken(undefined)).toBeUndefined();
+  });
+});
+
+describe('wsRequestToken', () => {
+  it('takes the header, then the subprotocol, then the query', () => {
+    expect(wsRequestToken(upgradeRequest('/ws?token=q', { authorization: 'Bearer h' }))).toBe('h');
+    expect(wsRequestToken(upgradeRequest('/ws?token=q', { 'sec-websocket-protocol': 'agent-viewer, agent-viewer-token.p' }))).toBe('p');
+    expect(wsRequestToken(upgradeRequest('/ws?token=q'))).toBe('q');
+    expect(wsRequestToken(upgradeRequest('/ws', { 'sec-websocket-protocol': 'agent-viewer' }))).toBeUndefined();
+  });
+});
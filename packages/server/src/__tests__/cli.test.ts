@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseStatusArgs, formatStatus, readStatusFile } from '../cli';
+import type { StatusReport } from '@agent-viewer/shared';
+
+function report(overrides: Partial<StatusReport> = {}): StatusReport {
+  return { version: 1, waitingCount: 0, workingCount: 0, session: null, timestamp: 0, ...overrides };
+}
+
+const appSession = {
+  sessionId: 's1',
+  projectName: 'app',
+  projectPath: '/src/app',
+  waitingCount: 1,
+  workingCount: 0,
+};
+
+describe('parseStatusArgs', () => {
+  it('reads the format and directory', () => {
+    expect(parseStatusArgs([], '/here')).toEqual({ format: 'plain', cwd: '/here' });
+    expect(parseStatusArgs(['--tmux', '--cwd', '/src/app'], '/here')).toEqual({ format: 'tmux', cwd: '/src/app' });
+    expect(parseStatusArgs(['--json', '--cwd=/src/app'], '/here')).toEqual({ format: 'json', cwd: '/src/app' });
+  });
+
+  it('rejects unknown options', () => {
+    expect(parseStatusArgs(['--verbose'], '/here')).toBe('Unknown option: --verbose');
+  });
+});
+
+describe('formatStatus', () => {
+  it('is empty when nothing is going on', () => {
+    expect(formatStatus(report(), 'plain')).toBe('');
+  });
+
+  it('summarises counts and the current session', () => {
+    const r = report({
+      waitingCount: 2,
+      workingCount: 1,
+      session: { ...appSession, waitingAgent: 'alpha', currentAction: 'Bash: npm test' },
+    });
+    expect(formatStatus(r, 'plain')).toBe('⚠ 2 waiting · ⚙ 1 working · alpha @ app: Bash: npm test');
+  });
+
+  it('highlights waiting agents for tmux and escapes #', () => {
+    const r = report({ waitingCount: 1, session: { ...appSession, waitingCount: 0, currentAction: 'Reading issue #12' } });
+    expect(formatStatus(r, 'tmux')).toBe('#[fg=colour196,bold]⚠ 1 waiting#[default] · app: Reading issue ##12');
+  });
+
+  it('cuts long actions short', () => {
+    const r = report({ workingCount: 1, session: { ...appSession, currentAction: 'x'.repeat(60) } });
+    expect(formatStatus(r, 'plain')).toBe(`⚙ 1 working · app: ${'x'.repeat(39)}…`);
+  });
+
+  it('prints the whole report as JSON', () => {
+    expect(JSON.parse(formatStatus(report({ waitingCount: 1 }), 'json'))).toEqual(report({ waitingCount: 1 }));
+  });
+});
+
+describe('readStatusFile', () => {
+  it('builds a report from the status file counts', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'avt-cli-')), 'status.json');
+    writeFileSync(path, JSON.stringify({ waitingCount: 1, workingCount: 2, agents: [], timestamp: 7 }));
+    expect(await readStatusFile(path)).toEqual(report({ waitingCount: 1, workingCount: 2, timestamp: 7 }));
+  });
+
+  it('returns null without a usable file', async () => {
+    expect(await readStatusFile('/nonexistent/agent-viewer-status.json')).toBeNull();
+  });
+});
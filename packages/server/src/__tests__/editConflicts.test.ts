@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EditConflictDetector } from '../state/editConflicts';
+import type { FileEdit } from '../state/editConflicts';
+import { StateManager } from '../state';
+import { createHookHandler } from '../hooks';
+import type { EditConflict, WSMessage } from '@agent-viewer/shared';
+
+const WINDOW = 60_000;
+
+function edit(agentId: string, timestamp: number, overrides?: Partial<FileEdit>): FileEdit {
+  return { agentId, path: '/repo/src/app.ts', operation: 'edit', timestamp, ...overrides };
+}
+
+describe('EditConflictDetector', () => {
+  let detector: EditConflictDetector;
+
+  beforeEach(() => {
+    detector = new EditConflictDetector(WINDOW);
+  });
+
+  it('reports two agents editing the same file within the window', () => {
+    expect(detector.record(edit('a1', 1000), 1000)).toBeNull();
+    expect(detector.record(edit('a2', 5000), 5000)).toMatchObject({ agentId: 'a1', timestamp: 1000 });
+  });
+
+  it('ignores repeated edits by one agent and edits of other files', () => {
+    detector.record(edit('a1', 1000), 1000);
+    expect(detector.record(edit('a1', 2000), 2000)).toBeNull();
+    expect(detector.record(edit('a2', 3000, { path: '/repo-worktree/src/app.ts' }), 3000)).toBeNull();
+  });
+
+  it('ignores edits further apart than the window', () => {
+    detector.record(edit('a1', 1000), 1000);
+    expect(detector.record(edit('a2', 1000 + WINDOW + 1), 1000 + WINDOW + 1)).toBeNull();
+  });
+
+  it('ignores edits that happened before the window (replayed transcripts)', () => {
+    expect(detector.record(edit('a1', 0), WINDOW * 10)).toBeNull();
+    expect(detector.record(edit('a2', 10, { toolUseId: 'tu_2' }), WINDOW * 10)).toBeNull();
+  });
+
+  it('reports a pair once per window', () => {
+    detector.record(edit('a1', 1000), 1000);
+    expect(detector.record(edit('a2', 2000), 2000)).not.toBeNull();
+    expect(detector.record(edit('a1', 3000), 3000)).toBeNull();
+    expect(detector.record(edit('a2', 4000), 4000)).toBeNull();
+    expect(detector.record(edit('a1', 2000 + WINDOW + 10), 2000 + WINDOW + 10)).toMatchObject({ agentId: 'a2', timestamp: 4000 });
+  });
+
+  it('forgets an agent\'s edits', () => {
+    detector.record(edit('a1', 1000), 1000);
+    detector.forgetAgent('a1');
+    expect(detector.record(edit('a2', 2000), 2000)).toBeNull();
+  });
+
+  it('counts a tool call reported by both hooks and the transcript once', () => {
+    detector.record(edit('sess-1', 1000, { toolUseId: 'tu_1' }), 1000);
+    expect(detector.record(edit('sub-1', 1000, { toolUseId: 'tu_1' }), 1000)).toBeNull();
+  });
+});
+
+describe('edit conflicts from hook events', () => {
+  let sm: StateManager;
+  let handler: ReturnType<typeof createHookHandler>;
+  let conflicts: EditConflict[];
+
+  beforeEach(() => {
+    sm = new StateManager();
+    handler = createHookHandler(sm);
+    conflicts = [];
+    sm.subscribe((msg: WSMessage) => {
+      if (msg.type === 'edit_conflict') conflicts.push(msg.data);
+    });
+    for (const [id, name] of [['sess-1', 'alpha'], ['sess-2', 'beta']]) {
+      sm.registerAgent({ id, name, role: 'implementer', status: 'idle', tasksCompleted: 0, gitBranch: 'main' });
+      sm.addSession({ sessionId: id, slug: name, projectPath: '/repo', projectName: 'repo', isTeam: false, lastActivity: 1 });
+    }
+  });
+
+  function editEvent(sessionId: string, toolName: string, filePath: string) {
+    handler.handleEvent({
+      session_id: sessionId,
+      hook_event_name: 'PreToolUse',
+      tool_name: toolName,
+      tool_input: { file_path: filePath },
+    });
+  }
+
+  it('broadcasts a conflict when two sessions edit the same file', () => {
+    editEvent('sess-1', 'Edit', '/repo/src/app.ts');
+    editEvent('sess-2', 'Write', '/repo/src/app.ts');
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].path).toBe('/repo/src/app.ts');
+    expect(conflicts[0].parties).toMatchObject([
+      { agentId: 'sess-1', agentName: 'alpha', sessionId: 'sess-1', projectName: 'repo', gitBranch: 'main', operation: 'edit' },
+      { agentId: 'sess-2', agentName: 'beta', sessionId: 'sess-2', operation: 'write' },
+    ]);
+    expect(conflicts[0].expiresAt).toBeGreaterThan(conflicts[0].timestamp);
+  });
+
+  it('forgets the edits of a removed session', () => {
+    editEvent('sess-1', 'Edit', '/repo/src/app.ts');
+    sm.removeSession('sess-1');
+    editEvent('sess-2', 'Edit', '/repo/src/app.ts');
+    expect(conflicts).toHaveLength(0);
+  });
+
+  it('does not treat reads as edits', () => {
+    editEvent('sess-1', 'Read', '/repo/src/app.ts');
+    editEvent('sess-2', 'Edit', '/repo/src/app.ts');
+    expect(conflicts).toHaveLength(0);
+  });
+});
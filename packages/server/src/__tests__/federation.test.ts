@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StateManager } from '../state';
+import { openSessionFeed } from '../sessionFeed';
+import { FederationHub, FederationPublisher, parseFederationMessage, parseListenAddress, isAuthorized } from '../federation';
+import type { FederationMessage } from '../federation';
+import type { RemoteHost } from '../federation/hub';
+import type { AgentState, WSMessage } from '@agent-viewer/shared';
+
+function agent(id: string): AgentState {
+  return { id, name: id, role: 'implementer', status: 'idle', tasksCompleted: 0 };
+}
+
+function addSoloSession(sm: StateManager, sessionId: string, projectPath = `/src/${sessionId}`) {
+  sm.registerAgent(agent(sessionId));
+  sm.addSession({ sessionId, slug: sessionId, projectPath, projectName: sessionId, isTeam: false, lastActivity: 1 });
+}
+
+describe('parseListenAddress', () => {
+  it('takes a port, host:port or [ipv6]:port', () => {
+    expect(parseListenAddress('3002')).toEqual({ host: '127.0.0.1', port: 3002 });
+    expect(parseListenAddress('10.0.0.5:3002')).toEqual({ host: '10.0.0.5', port: 3002 });
+    expect(parseListenAddress('[::]:3002')).toEqual({ host: '::', port: 3002 });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseListenAddress('')).toBeNull();
+    expect(parseListenAddress('central')).toBeNull();
+    expect(parseListenAddress('0.0.0.0:70000')).toBeNull();
+  });
+});
+
+describe('isAuthorized', () => {
+  it('accepts only the bearer token', () => {
+    expect(isAuthorized('Bearer s3cret', 's3cret')).toBe(true);
+    expect(isAuthorized('Bearer wrong', 's3cret')).toBe(false);
+    expect(isAuthorized('s3cret', 's3cret')).toBe(false);
+    expect(isAuthorized(undefined, 's3cret')).toBe(false);
+    expect(isAuthorized('Bearer ', '')).toBe(false);
+  });
+});
+
+describe('parseFederationMessage', () => {
+  it('accepts well-formed messages', () => {
+    expect(parseFederationMessage('{"type":"hello","version":1,"host":"box-a"}')).toEqual({ type: 'hello', version: 1, host: 'box-a' });
+    expect(parseFederationMessage('{"type":"sessions","data":[{"sessionId":"s1"}]}')?.type).toBe('sessions');
+  });
+
+  it('rejects malformed or unknown messages', () => {
+    expect(parseFederationMessage('not json')).toBeNull();
+    expect(parseFederationMessage('{"type":"hello","version":1,"host":""}')).toBeNull();
+    expect(parseFederationMessage('{"type":"sessions","data":{}}')).toBeNull();
+    expect(parseFederationMessage('{"type":"session_state","sessionId":"s1","data":{"agents":[]}}')).toBeNull();
+    expect(parseFederationMessage('{"type":"delta","sessionId":"s1","data":{"type":"full_state","data":{}}}')).toBeNull();
+    expect(parseFederationMessage('{"type":"select_session","sessionId":"s1"}')).toBeNull();
+  });
+});
+
+describe('federation', () => {
+  let upstream: StateManager;
+  let hub: FederationHub;
+  let remote: RemoteHost;
+  let publisher: FederationPublisher;
+  let sent: FederationMessage[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    upstream = new StateManager();
+    addSoloSession(upstream, 'r1', '/src/app');
+    hub = new FederationHub('central');
+    remote = hub.connect('box-a');
+    sent = [];
+    // Round-trip through JSON and the parser, as over the wire
+    publisher = new FederationPublisher(upstream, (msg) => {
+      sent.push(msg);
+      const parsed = parseFederationMessage(JSON.stringify(msg));
+      if (parsed) hub.receive(remote, parsed);
+    }, 100);
+  });
+
+  afterEach(() => {
+    publisher.close();
+    vi.useRealTimers();
+  });
+
+  it('mirrors the upstream sessions, tagged with the host', () => {
+    expect(sent.map((m) => m.type)).toEqual(['sessions', 'session_state']);
+    expect(hub.hasSession('r1')).toBe(true);
+    expect(hub.getStateForSession('r1')?.session?.host).toBe('box-a');
+    expect(hub.getStateForSession('r1')?.agents.map((a) => a.id)).toEqual(['r1']);
+  });
+
+  it('merges remote projects under a host level', () => {
+    const local = new StateManager();
+    addSoloSession(local, 'l1', '/src/app');
+    const grouped = hub.mergeGroupedSessions(local.getGroupedSessionsList('r1'), 'r1');
+
+    expect(grouped.hosts?.map((h) => [h.host, h.isLocal, h.totalSessions])).toEqual([['central', true, 1], ['box-a', false, 1]]);
+    // The same repository on two machines stays two projects
+    expect(grouped.projects.map((p) => [p.projectKey, p.host])).toEqual([['/src/app', undefined], ['box-a:/src/app', 'box-a']]);
+    expect(grouped.flatSessions.find((s) => s.sessionId === 'r1')).toMatchObject({ host: 'box-a', active: true });
+  });
+
+  it('sends agent changes as deltas without resending the session', () => {
+    const events: string[] = [];
+    hub.subscribe((e) => events.push(e.type));
+    sent = [];
+
+    upstream.setAgentWaitingById('r1', true, 'Bash: rm -rf build', undefined, 'permission');
+    vi.advanceTimersByTime(100);
+
+    expect(sent.map((m) => m.type)).toContain('delta');
+    expect(sent.some((m) => m.type === 'session_state')).toBe(false);
+    expect(hub.getStateForSession('r1')?.agents[0]).toMatchObject({ waitingForInput: true, currentAction: 'Bash: rm -rf build' });
+    // The waiting flag changes the remote host's session list
+    expect(events).toContain('sessions');
+    expect(hub.mergeSessionsList([], undefined)[0].hasWaitingAgent).toBe(true);
+  });
+
+  it('sends an agent removal to the session the agent was in', () => {
+    sent = [];
+    upstream.removeAgent('r1');
+
+    expect(sent).toEqual([{ type: 'delta', sessionId: 'r1', data: { type: 'agent_removed', data: { id: 'r1' } } }]);
+    expect(hub.getStateForSession('r1')?.agents).toEqual([]);
+  });
+
+  it('resends a session when it changes beyond agent deltas', () => {
+    sent = [];
+    upstream.addMessage({ id: 'm1', from: 'lead', to: 'r1', content: 'hi', timestamp: 2 });
+    vi.advanceTimersByTime(100);
+
+    expect(sent.map((m) => m.type)).toEqual(['session_state']);
+    expect(hub.getStateForSession('r1')?.messages.map((m) => m.id)).toEqual(['m1']);
+  });
+
+  it('only re-serializes the sessions that changed', () => {
+    addSoloSession(upstream, 'r2');
+    vi.advanceTimersByTime(100);
+    const serialized = vi.spyOn(upstream, 'getStateForSession');
+    sent = [];
+
+    upstream.recordFileTouches('r2', [{ agentId: 'r2', path: '/src/r2/a.ts', operation: 'read', timestamp: 2 }]);
+    vi.advanceTimersByTime(100);
+
+    expect(serialized.mock.calls.map(([id]) => id)).toEqual(['r2']);
+    expect(sent.map((m) => m.type === 'session_state' && m.sessionId)).toEqual(['r2']);
+    expect(hub.getStateForSession('r2')?.files?.map((f) => f.path)).toEqual(['/src/r2/a.ts']);
+  });
+
+  it('drops sessions the upstream no longer lists', () => {
+    upstream.removeSession('r1');
+    vi.advanceTimersByTime(100);
+    expect(hub.hasSession('r1')).toBe(false);
+  });
+
+  it('drops a host on disconnect, but not after it reconnected', () => {
+    const replacement = hub.connect('box-a');
+    hub.disconnect(remote);
+    expect(hub.hostNames()).toEqual(['box-a']);
+
+    hub.disconnect(replacement);
+    expect(hub.hostNames()).toEqual([]);
+  });
+});
+
+describe('openSessionFeed with a federation hub', () => {
+  it('shows a remote session and keeps local updates out of it', () => {
+    const local = new StateManager();
+    addSoloSession(local, 'l1');
+    const upstream = new StateManager();
+    addSoloSession(upstream, 'r1');
+    const hub = new FederationHub('central');
+    const remote = hub.connect('box-a');
+    const publisher = new FederationPublisher(upstream, (msg) => hub.receive(remote, msg));
+
+    const sent: WSMessage[] = [];
+    const feed = openSessionFeed(local, { selectedSessionId: 'r1' }, (msg) => sent.push(msg), undefined, hub);
+    feed.sendSnapshot();
+
+    const state = sent[0].type === 'full_state' ? sent[0].data : undefined;
+    expect(state?.session).toMatchObject({ sessionId: 'r1', host: 'box-a' });
+    const grouped = sent.find((m) => m.type === 'sessions_grouped');
+    expect(grouped?.type === 'sessions_grouped' && grouped.data.hosts?.map((h) => h.host)).toEqual(['central', 'box-a']);
+
+    sent.length = 0;
+    local.addMessage({ id: 'm1', from: 'lead', to: 'l1', content: 'local only', timestamp: 2 });
+    expect(sent.some((m) => m.type === 'new_message')).toBe(false);
+
+    upstream.setAgentWaitingById('r1', true, 'Edit', undefined, 'permission');
+    expect(sent.filter((m) => m.type === 'agent_update').map((m) => m.data)).toContainEqual(expect.objectContaining({ id: 'r1', waitingForInput: true }));
+
+    feed.close();
+    publisher.close();
+  });
+});
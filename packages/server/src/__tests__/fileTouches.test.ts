@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FileTouchIndex } from '../state/fileTouchIndex';
+import { StateManager, teamSessionId } from '../state';
+import { parseTranscriptLine, extractFileTouch } from '../parsers/transcriptParser';
+import type { WSMessage } from '@agent-viewer/shared';
+
+describe('extractFileTouch', () => {
+  it('maps file tools to operations', () => {
+    expect(extractFileTouch('Read', { file_path: '/p/a.ts' })).toEqual({ path: '/p/a.ts', operation: 'read' });
+    expect(extractFileTouch('MultiEdit', { file_path: '/p/a.ts', edits: [] })).toEqual({ path: '/p/a.ts', operation: 'edit' });
+    expect(extractFileTouch('NotebookEdit', { notebook_path: '/p/n.ipynb' })).toEqual({ path: '/p/n.ipynb', operation: 'edit' });
+    expect(extractFileTouch('Write', { file_path: '/p/b.ts', content: '' })).toEqual({ path: '/p/b.ts', operation: 'write' });
+  });
+
+  it('ignores other tools and missing paths', () => {
+    expect(extractFileTouch('Bash', { command: 'cat /p/a.ts' })).toBeNull();
+    expect(extractFileTouch('Read', {})).toBeNull();
+    expect(extractFileTouch('Edit', undefined)).toBeNull();
+  });
+
+  it('collects every file tool call on a transcript line', () => {
+    const parsed = parseTranscriptLine(JSON.stringify({
+      type: 'assistant',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      message: {
+        id: 'msg_1',
+        content: [
+          { type: 'tool_use', id: 'tu_1', name: 'Read', input: { file_path: '/p/a.ts' } },
+          { type: 'tool_use', id: 'tu_2', name: 'Grep', input: { pattern: 'x' } },
+          { type: 'tool_use', id: 'tu_3', name: 'Edit', input: { file_path: '/p/b.ts' } },
+        ],
+      },
+    }));
+    expect(parsed?.fileTouches).toEqual([
+      { path: '/p/a.ts', operation: 'read', toolUseId: 'tu_1', timestamp: Date.parse('2026-01-01T00:00:00.000Z') },
+      { path: '/p/b.ts', operation: 'edit', toolUseId: 'tu_3', timestamp: Date.parse('2026-01-01T00:00:00.000Z') },
+    ]);
+  });
+});
+
+describe('FileTouchIndex', () => {
+  let index: FileTouchIndex;
+
+  beforeEach(() => {
+    index = new FileTouchIndex();
+  });
+
+  it('counts touches per agent, path and operation', () => {
+    index.record('s1', [
+      { agentId: 'a1', path: '/p/a.ts', operation: 'read', timestamp: 1 },
+      { agentId: 'a1', path: '/p/a.ts', operation: 'read', timestamp: 5 },
+      { agentId: 'a1', path: '/p/a.ts', operation: 'edit', timestamp: 3 },
+      { agentId: 'a2', path: '/p/a.ts', operation: 'read', timestamp: 2 },
+    ]);
+    const touches = index.list('s1');
+    expect(touches).toHaveLength(3);
+    expect(touches).toContainEqual({ path: '/p/a.ts', agentId: 'a1', operation: 'read', count: 2, lastTouched: 5 });
+    expect(index.list('s2')).toEqual([]);
+  });
+
+  it('counts a tool call once even when its transcript is re-read', () => {
+    const input = { agentId: 'a1', path: '/p/a.ts', operation: 'edit' as const, toolUseId: 'tu_1', timestamp: 1 };
+    expect(index.record('s1', [input])).toHaveLength(1);
+    expect(index.record('s1', [input])).toEqual([]);
+    expect(index.list('s1')[0].count).toBe(1);
+  });
+
+  it('forgets a removed session', () => {
+    index.record('s1', [{ agentId: 'a1', path: '/p/a.ts', operation: 'write' }]);
+    index.removeSession('s1');
+    expect(index.list('s1')).toEqual([]);
+  });
+});
+
+describe('StateManager file touches', () => {
+  let sm: StateManager;
+  let messages: WSMessage[];
+
+  beforeEach(() => {
+    sm = new StateManager();
+    messages = [];
+    sm.subscribe((msg) => messages.push(msg));
+    sm.addSession({ sessionId: 's1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: 1 });
+  });
+
+  it('broadcasts the changed entries and includes them in the session state', () => {
+    sm.recordFileTouches('s1', [{ agentId: 's1', path: '/p/a.ts', operation: 'read', timestamp: 1 }]);
+
+    const update = messages.find((m) => m.type === 'files_touched');
+    expect(update).toEqual({
+      type: 'files_touched',
+      data: { sessionId: 's1', touches: [{ path: '/p/a.ts', agentId: 's1', operation: 'read', count: 1, lastTouched: 1 }] },
+    });
+    expect(sm.getStateForSession('s1').files).toHaveLength(1);
+  });
+
+  it('does not broadcast when nothing changed', () => {
+    sm.recordFileTouches('s1', []);
+    expect(messages.some((m) => m.type === 'files_touched')).toBe(false);
+  });
+
+  it('reads team sessions from the pooled team view session', () => {
+    sm.addSession({ sessionId: 'uuid-1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: true, teamName: 'crew', lastActivity: 1 });
+    sm.recordFileTouches('team:crew', [{ agentId: 'lead@crew', path: '/p/a.ts', operation: 'edit' }]);
+
+    expect(sm.filesSessionId('uuid-1')).toBe('team:crew');
+    expect(sm.getStateForSession('uuid-1').files).toHaveLength(1);
+  });
+
+  it('keeps same-named teams from different watch roots apart', () => {
+    sm.addSession({ sessionId: 'uuid-1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: true, teamName: 'crew', lastActivity: 1, sourceRoot: '~/.claude' });
+    sm.addSession({ sessionId: 'uuid-2', slug: 's', projectPath: '/p', projectName: 'p', isTeam: true, teamName: 'crew', lastActivity: 1, sourceRoot: 'work' });
+    sm.recordFileTouches(teamSessionId('work', 'crew'), [{ agentId: 'lead@crew', path: '/p/a.ts', operation: 'edit' }]);
+
+    expect(sm.filesSessionId('uuid-1')).toBe('team:crew');
+    expect(sm.filesSessionId('uuid-2')).toBe('team:work:crew');
+    expect(sm.getStateForSession('uuid-1').files).toHaveLength(0);
+    expect(sm.getStateForSession('uuid-2').files).toHaveLength(1);
+  });
+
+  it('drops a session\'s touches when the session is removed', () => {
+    sm.recordFileTouches('s1', [{ agentId: 's1', path: '/p/a.ts', operation: 'read' }]);
+    sm.removeSession('s1');
+    sm.addSession({ sessionId: 's1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: 2 });
+    expect(sm.getStateForSession('s1').files).toEqual([]);
+  });
+
+  it('drops a team\'s pooled touches with the last session showing them', () => {
+    const team = { slug: 's', projectPath: '/p', projectName: 'p', isTeam: true, teamName: 'crew', lastActivity: 1 };
+    sm.addSession({ sessionId: 'team:crew', ...team });
+    sm.addSession({ sessionId: 'uuid-1', ...team });
+    sm.recordFileTouches('team:crew', [{ agentId: 'lead@crew', path: '/p/a.ts', operation: 'read' }]);
+
+    sm.removeSession('team:crew');
+    expect(sm.getStateForSession('uuid-1').files).toHaveLength(1);
+
+    sm.removeSession('uuid-1');
+    sm.addSession({ sessionId: 'uuid-2', ...team });
+    expect(sm.getStateForSession('uuid-2').files).toEqual([]);
+  });
+});
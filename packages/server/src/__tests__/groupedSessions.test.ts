@@ -324,6 +324,21 @@ describe('getGroupedSessionsList', () => {
     expect(grouped.projects[0].totalAgents).toBe(3);
   });
 
+  it('sums session usage into branches and projects', () => {
+    const usage = (costUsd: number) => ({ inputTokens: 10, outputTokens: 20, cacheCreationTokens: 0, cacheReadTokens: 5, costUsd });
+    const repoPath = '/home/user/project';
+    sm.addSession(makeSession('s1', 'project', { gitBranch: 'main', projectPath: repoPath, usage: usage(1) }));
+    sm.addSession(makeSession('s2', 'project', { gitBranch: 'main', projectPath: repoPath, usage: usage(2) }));
+    sm.addSession(makeSession('s3', 'project', { gitBranch: 'feature/a', projectPath: repoPath }));
+
+    const project = sm.getGroupedSessionsList().projects[0];
+    const main = project.branches.find((b) => b.branch === 'main')!;
+    const feature = project.branches.find((b) => b.branch === 'feature/a')!;
+    expect(main.usage).toEqual({ inputTokens: 20, outputTokens: 40, cacheCreationTokens: 0, cacheReadTokens: 10, costUsd: 3 });
+    expect(feature.usage).toBeUndefined();
+    expect(project.usage?.costUsd).toBe(3);
+  });
+
   it('team sessions without projectPath get grouped by team name', () => {
     sm.registerAgent(makeAgent('team-lead', 'lead', { role: 'lead' }));
     sm.addSession(makeSession('team-1', 'my-team', {
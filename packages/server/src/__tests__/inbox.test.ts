@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StateManager } from '../state';
+import { Inbox, RuleRunner, parseRules, ruleMatches, rulePayload, stuckNotification, conflictNotification } from '../inbox';
+import type { NotificationRule } from '../inbox';
+import { CONFLICT_WINDOW_MS } from '../state/editConflicts';
+import type { AgentState, EditConflict, EditConflictParty, InboxNotification, SessionInfo, StuckState } from '@agent-viewer/shared';
+
+const session: SessionInfo = { sessionId: 's1', slug: 's', projectPath: '/repo', projectName: 'repo', gitBranch: 'main', isTeam: false, lastActivity: 0 };
+
+function agent(id: string, overrides: Partial<AgentState> = {}): AgentState {
+  return { id, name: id, role: 'implementer', status: 'working', tasksCompleted: 0, ...overrides };
+}
+
+function notification(overrides: Partial<InboxNotification> = {}): InboxNotification {
+  return {
+    id: 'n1',
+    type: 'permission_request',
+    timestamp: 0,
+    title: 'alpha needs input',
+    body: 'Bash: npm test',
+    agentId: 'a1',
+    agentName: 'alpha',
+    sessionId: 's1',
+    projectName: 'repo',
+    gitBranch: 'main',
+    read: false,
+    resolved: false,
+    ...overrides,
+  };
+}
+
+describe('stuckNotification', () => {
+  function stuckAgent(stuck: StuckState): AgentState & { stuck: StuckState } {
+    return { ...agent('a1', { name: 'alpha', currentAction: 'Running npm test' }), stuck };
+  }
+
+  it('describes why the agent looks stuck', () => {
+    const n = stuckNotification(stuckAgent({ reason: 'failing', detail: '3 Bash commands failed in a row', since: 1000 }), session);
+    expect(n).toMatchObject({
+      id: 'stuck-a1-1000',
+      type: 'agent_stuck',
+      agentId: 'a1',
+      title: 'alpha looks stuck',
+      body: '3 Bash commands failed in a row',
+      context: 'Running npm test',
+      sessionId: 's1',
+      projectName: 'repo',
+      timestamp: 1000,
+      resolved: false,
+    });
+  });
+
+  it('keys each stuck episode by when it started', () => {
+    const first = stuckNotification(stuckAgent({ reason: 'no_progress', detail: 'No tool call has completed in 10 min', since: 1000 }), session);
+    const later = stuckNotification(stuckAgent({ reason: 'no_progress', detail: 'No tool call has completed in 12 min', since: 1000 }), session);
+    const next = stuckNotification(stuckAgent({ reason: 'repeating', detail: 'Made the same Read call 5 times in a row', since: 5000 }), session);
+    expect(later.id).toBe(first.id);
+    expect(next.id).not.toBe(first.id);
+  });
+});
+
+describe('conflictNotification', () => {
+  function party(overrides: Partial<EditConflictParty>): EditConflictParty {
+    return { agentId: 'a1', agentName: 'alpha', sessionId: 's1', projectName: 'repo', operation: 'edit', timestamp: 0, ...overrides };
+  }
+
+  function conflict(parties: EditConflict['parties']): EditConflict {
+    return { id: 'c1', path: '/repo/src/app.ts', timestamp: 1000, expiresAt: 2000, parties };
+  }
+
+  it('addresses the later editor and names the file', () => {
+    const n = conflictNotification(conflict([
+      party({}),
+      party({ agentId: 'a2', agentName: 'beta', gitBranch: 'main' }),
+    ]));
+
+    expect(n).toMatchObject({
+      id: 'conflict-c1',
+      type: 'edit_conflict',
+      agentId: 'a2',
+      sessionId: 's1',
+      gitBranch: 'main',
+      conflictId: 'c1',
+      title: 'Edit conflict: app.ts',
+      body: 'alpha and beta both edited /repo/src/app.ts',
+      resolved: false,
+    });
+  });
+
+  it('names the project of an agent from another session', () => {
+    const n = conflictNotification(conflict([
+      party({ sessionId: 's0', projectName: 'repo' }),
+      party({ agentId: 'a2', agentName: 'beta' }),
+    ]));
+    expect(n.body).toBe('alpha (repo) and beta both edited /repo/src/app.ts');
+  });
+});
+
+describe('Inbox', () => {
+  let sm: StateManager;
+  let inbox: Inbox;
+  let emitted: InboxNotification[];
+
+  beforeEach(() => {
+    sm = new StateManager();
+    sm.registerAgent(agent('s1'));
+    sm.addSession(session);
+    inbox = new Inbox(sm);
+    emitted = [];
+    inbox.subscribe((n) => emitted.push(n));
+  });
+
+  afterEach(() => inbox.close());
+
+  it('raises a notification when an agent starts waiting and resolves it when it stops', () => {
+    sm.setAgentWaitingById('s1', true, 'Bash: npm test', undefined, 'permission');
+    expect(inbox.list()).toHaveLength(1);
+    expect(inbox.list()[0]).toMatchObject({ type: 'permission_request', agentId: 's1', sessionId: 's1', projectName: 'repo', resolved: false });
+
+    // Further updates while waiting don't raise another
+    sm.setAgentWaitingById('s1', true, 'Bash: npm test', undefined, 'permission');
+    expect(inbox.list()).toHaveLength(1);
+
+    sm.setAgentWaitingById('s1', false);
+    expect(inbox.list()).toHaveLength(1);
+    expect(inbox.list()[0].resolved).toBe(true);
+    expect(emitted.map((n) => n.resolved)).toEqual([false, true]);
+  });
+
+  it('keeps the pending permission request in sync', () => {
+    sm.setAgentWaitingById('s1', true, 'Bash: rm -rf build', undefined, 'permission');
+    sm.setAgentPendingPermission('s1', 'req-1');
+    expect(inbox.list()[0].permissionRequestId).toBe('req-1');
+  });
+
+  it('tracks a stuck episode and resolves it when the agent recovers', () => {
+    sm.setAgentStuck('s1', { reason: 'no_progress', detail: 'No tool call has completed in 10 min', since: 1000 });
+    sm.setAgentStuck('s1', { reason: 'no_progress', detail: 'No tool call has completed in 12 min', since: 1000 });
+    expect(inbox.list()).toHaveLength(1);
+    expect(inbox.list()[0]).toMatchObject({ type: 'agent_stuck', body: 'No tool call has completed in 12 min', resolved: false });
+
+    sm.setAgentStuck('s1', undefined);
+    expect(inbox.list()[0].resolved).toBe(true);
+  });
+
+  it('resolves an agent\'s open notifications when it is removed', () => {
+    sm.setAgentWaitingById('s1', true, 'Waiting', undefined, 'question');
+    sm.removeAgent('s1');
+    expect(inbox.list()[0]).toMatchObject({ type: 'ask_user_question', resolved: true });
+  });
+
+  it('resolves edit conflicts once they expire', () => {
+    vi.useFakeTimers();
+    try {
+      sm.registerAgent(agent('s2'));
+      sm.addSession({ ...session, sessionId: 's2', projectPath: '/repo2', projectName: 'repo2' });
+      const now = Date.now();
+      sm.recordEdit({ agentId: 's1', path: '/shared/a.ts', operation: 'edit', timestamp: now });
+      sm.recordEdit({ agentId: 's2', path: '/shared/a.ts', operation: 'edit', timestamp: now });
+      expect(inbox.list()[0]).toMatchObject({ type: 'edit_conflict', resolved: false });
+
+      vi.advanceTimersByTime(CONFLICT_WINDOW_MS + 1);
+      expect(inbox.list()[0].resolved).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('parseRules', () => {
+  it('accepts single values or lists and normalises them to lists', () => {
+    const { rules, errors } = parseRules([
+      { name: 'chat', match: { type: 'permission_request', project: ['repo', 'other'], waitingForSeconds: 120 }, webhook: 'http://127.0.0.1:9000/hook' },
+      { match: { role: 'lead' }, command: 'notify-send "$AGENT_VIEWER_TEXT"' },
+    ]);
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { name: 'chat', match: { type: ['permission_request'], project: ['repo', 'other'], waitingForSeconds: 120 }, webhook: { url: 'http://127.0.0.1:9000/hook' } },
+      { name: 'rule 2', match: { role: ['lead'] }, command: 'notify-send "$AGENT_VIEWER_TEXT"' },
+    ]);
+  });
+
+  it('skips invalid rules and explains why', () => {
+    const { rules, errors } = parseRules([
+      { name: 'typo', match: { type: 'permision_request' }, command: 'true' },
+      { name: 'no action', match: {} },
+      { name: 'negative', match: { waitingForSeconds: -1 }, command: 'true' },
+      { name: 'ok', command: 'true' },
+    ]);
+    expect(rules.map((r) => r.name)).toEqual(['ok']);
+    expect(errors).toEqual([
+      'typo: unknown type "permision_request"',
+      'no action: needs a "webhook" or a "command"',
+      'negative: "waitingForSeconds" must be a non-negative number',
+    ]);
+  });
+
+  it('rejects a file that is not a list', () => {
+    expect(parseRules({ rules: [] }).errors).toEqual(['expected a list of rules']);
+  });
+});
+
+describe('ruleMatches', () => {
+  const rule = (match: NotificationRule['match']): NotificationRule => ({ name: 'r', match, command: 'true' });
+
+  it('requires every given condition', () => {
+    const n = notification();
+    expect(ruleMatches(rule({}), n, 'implementer', 0)).toBe(true);
+    expect(ruleMatches(rule({ type: ['permission_request'], project: ['repo'], branch: ['main'] }), n, 'implementer', 0)).toBe(true);
+    expect(ruleMatches(rule({ branch: ['dev'] }), n, 'implementer', 0)).toBe(false);
+    expect(ruleMatches(rule({ role: ['lead'] }), n, 'implementer', 0)).toBe(false);
+    expect(ruleMatches(rule({ role: ['lead'] }), n, undefined, 0)).toBe(false);
+  });
+
+  it('waits for the notification to stay open long enough', () => {
+    const r = rule({ waitingForSeconds: 120 });
+    expect(ruleMatches(r, notification(), 'lead', 119_000)).toBe(false);
+    expect(ruleMatches(r, notification(), 'lead', 120_000)).toBe(true);
+    expect(ruleMatches(r, notification({ resolved: true }), 'lead', 120_000)).toBe(false);
+  });
+});
+
+describe('RuleRunner', () => {
+  let sm: StateManager;
+  let inbox: Inbox;
+  let runner: RuleRunner;
+  let fired: string[];
+
+  beforeEach(() => {
+    sm = new StateManager();
+    sm.registerAgent(agent('s1', { role: 'lead' }));
+    sm.addSession(session);
+    inbox = new Inbox(sm);
+    fired = [];
+  });
+
+  afterEach(() => {
+    runner.close();
+    inbox.close();
+  });
+
+  function start(rules: NotificationRule[]) {
+    runner = new RuleRunner(rules, inbox, sm, (rule, n) => fired.push(`${rule.name}:${n.type}`));
+  }
+
+  it('fires matching rules once per notification', () => {
+    start([
+      { name: 'any', match: {}, command: 'true' },
+      { name: 'stuck', match: { type: ['agent_stuck'] }, command: 'true' },
+    ]);
+    sm.setAgentWaitingById('s1', true, 'Bash: npm test', undefined, 'permission');
+    sm.setAgentPendingPermission('s1', 'req-1');
+    runner.check();
+    expect(fired).toEqual(['any:permission_request']);
+  });
+
+  it('fires waiting rules once the notification has been open long enough', () => {
+    start([{ name: 'slow', match: { waitingForSeconds: 120 }, webhook: { url: 'http://127.0.0.1:9/hook' } }]);
+    sm.setAgentWaitingById('s1', true, 'Waiting', undefined, 'question');
+    const openedAt = inbox.list()[0].timestamp;
+
+    runner.check(openedAt + 60_000);
+    expect(fired).toEqual([]);
+    runner.check(openedAt + 120_000);
+    runner.check(openedAt + 180_000);
+    expect(fired).toEqual(['slow:ask_user_question']);
+  });
+
+  it('does not fire for notifications resolved before the wait elapsed', () => {
+    start([{ name: 'slow', match: { waitingForSeconds: 120 }, command: 'true' }]);
+    sm.setAgentWaitingById('s1', true, 'Waiting', undefined, 'question');
+    const openedAt = inbox.list()[0].timestamp;
+    sm.setAgentWaitingById('s1', false);
+    runner.check(openedAt + 120_000);
+    expect(fired).toEqual([]);
+  });
+});
+
+describe('rulePayload', () => {
+  it('summarises the notification in chat-friendly text', () => {
+    const payload = rulePayload({ name: 'chat', match: {}, command: 'true' }, notification({ timestamp: 1000 }), 151_000);
+    expect(payload).toMatchObject({
+      rule: 'chat',
+      text: 'alpha needs input in repo (main): Bash: npm test — open for 2m',
+      waitingSeconds: 150,
+      notification: { id: 'n1' },
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ServerMetrics } from '../metrics';
+import { StateManager } from '../state';
+import type { AgentState } from '@agent-viewer/shared';
+
+function agent(id: string, overrides: Partial<AgentState> = {}): AgentState {
+  return { id, name: id, role: 'implementer', status: 'idle', tasksCompleted: 0, ...overrides };
+}
+
+function addSoloSession(sm: StateManager, sessionId: string, overrides: Partial<AgentState> = {}) {
+  sm.registerAgent(agent(sessionId, overrides));
+  sm.addSession({ sessionId, slug: sessionId, projectPath: `/${sessionId}`, projectName: sessionId, isTeam: false, lastActivity: Date.now() });
+}
+
+/** Sample lines of the exposition, without HELP/TYPE comments */
+function samples(text: string): string[] {
+  return text.split('\n').filter((line) => line && !line.startsWith('#'));
+}
+
+describe('ServerMetrics', () => {
+  let sm: StateManager;
+  let metrics: ServerMetrics;
+
+  beforeEach(() => {
+    sm = new StateManager();
+    metrics = new ServerMetrics(sm);
+  });
+
+  it('counts sessions and agents by state', () => {
+    addSoloSession(sm, 's1', { status: 'working' });
+    addSoloSession(sm, 's2');
+    addSoloSession(sm, 's3');
+    sm.setAgentWaitingById('s3', true, 'Approve Bash', undefined, 'permission');
+
+    const lines = samples(metrics.render());
+    expect(lines).toEqual(expect.arrayContaining([
+      'agent_viewer_sessions{state="working"} 1',
+      'agent_viewer_sessions{state="waiting"} 1',
+      'agent_viewer_sessions{state="idle"} 1',
+      'agent_viewer_agents{state="working"} 1',
+      'agent_viewer_agents{state="waiting"} 1',
+      'agent_viewer_agents{state="idle"} 1',
+    ]));
+  });
+
+  it('times waiting agents from the transition', () => {
+    addSoloSession(sm, 's1', { status: 'working' });
+    const start = Date.now();
+    sm.setAgentWaitingById('s1', true, 'Approve Bash', undefined, 'permission');
+
+    const line = samples(metrics.render(start + 30_000)).find((l) => l.startsWith('agent_viewer_agent_waiting_seconds'));
+    expect(line).toMatch(/^agent_viewer_agent_waiting_seconds\{agent_id="s1",agent_name="s1",waiting_type="permission"\} /);
+    expect(Number(line?.split(' ')[1])).toBeCloseTo(30, 0);
+
+    sm.setAgentWaitingById('s1', false);
+    expect(metrics.render()).not.toMatch(/^agent_viewer_agent_waiting_seconds\{/m);
+  });
+
+  it('reports hook, client and watcher counters', () => {
+    metrics.hookEventReceived('PreToolUse');
+    metrics.hookEventReceived('PreToolUse');
+    metrics.hookEventReceived('Stop');
+    metrics.hookEventRejected();
+    metrics.hookAuthFailed();
+    metrics.clientConnected('websocket');
+    metrics.clientConnected('sse');
+    metrics.clientDisconnected('sse');
+    metrics.observeWatcherLag(200);
+    metrics.observeWatcherLag(400);
+
+    const lines = samples(metrics.render());
+    expect(lines).toEqual(expect.arrayContaining([
+      'agent_viewer_hook_events_total{event="PreToolUse"} 2',
+      'agent_viewer_hook_events_total{event="Stop"} 1',
+      'agent_viewer_hook_events_rejected_total 1',
+      'agent_viewer_hook_auth_failures_total 1',
+      'agent_viewer_clients{transport="websocket"} 1',
+      'agent_viewer_clients{transport="sse"} 0',
+      'agent_viewer_watcher_lag_seconds_sum 0.6',
+      'agent_viewer_watcher_lag_seconds_count 2',
+      'agent_viewer_watcher_last_lag_seconds 0.4',
+    ]));
+  });
+
+  it('escapes label values', () => {
+    addSoloSession(sm, 's1', { status: 'working', name: 'say "hi"\\n' });
+    sm.setAgentWaitingById('s1', true, 'Question', undefined, 'question');
+    expect(metrics.render()).toContain('agent_name="say \\"hi\\"\\\\n"');
+  });
+});
@@ -12,6 +12,12 @@ describe('isAllowedOrigin', () => {
     expect(isAllowedOrigin('https://malicious.com')).toBe(false);
   });
 
+  it('allows pages served by this server', () => {
+    expect(isAllowedOrigin('https://192.168.1.20:3001', '192.168.1.20:3001')).toBe(true);
+    expect(isAllowedOrigin('https://192.168.1.20:3001', '192.168.1.20:3002')).toBe(false);
+    expect(isAllowedOrigin('https://evil.example', '192.168.1.20:3001')).toBe(false);
+  });
+
   it('allows undefined origin (e.g. non-browser clients)', () => {
     expect(isAllowedOrigin(undefined)).toBe(true);
   });
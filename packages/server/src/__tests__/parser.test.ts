@@ -194,6 +194,35 @@ describe('parseTranscriptLine', () => {
     expect(result).not.toBeNull();
     expect(result!.type).toBe('unknown');
   });
+
+  it('extracts token usage and model from assistant lines', () => {
+    const line = JSON.stringify({
+      type: 'assistant',
+      message: {
+        id: 'msg_01',
+        model: 'claude-sonnet-4-5-20250929',
+        content: [{ type: 'text', text: 'Done.' }],
+        usage: { input_tokens: 12, output_tokens: 340, cache_creation_input_tokens: 2000, cache_read_input_tokens: 18000 },
+      },
+    });
+    const result = parseTranscriptLine(line);
+    expect(result!.type).toBe('thinking');
+    expect(result!.messageId).toBe('msg_01');
+    expect(result!.model).toBe('claude-sonnet-4-5-20250929');
+    expect(result!.usage).toEqual({ inputTokens: 12, outputTokens: 340, cacheCreationTokens: 2000, cacheReadTokens: 18000 });
+  });
+
+  it('extracts compaction details from a compact boundary', () => {
+    const line = JSON.stringify({
+      type: 'system',
+      subtype: 'compact_boundary',
+      timestamp: '2025-01-01T10:00:00.000Z',
+      compactMetadata: { trigger: 'manual', preTokens: 155000 },
+    });
+    const result = parseTranscriptLine(line);
+    expect(result!.type).toBe('compact');
+    expect(result!.compaction).toEqual({ trigger: 'manual', tokensBefore: 155000, timestamp: Date.parse('2025-01-01T10:00:00.000Z') });
+  });
 });
 
 describe('cleanProjectName', () => {
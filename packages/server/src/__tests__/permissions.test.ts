@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { StateManager } from '../state';
+import { createHookHandler } from '../hooks';
+import { PermissionBroker, permissionToolKey, MAX_PERMISSION_WAIT_MS } from '../permissions';
+import type { AgentState, SessionInfo } from '@agent-viewer/shared';
+
+function makeSession(id: string, projectName: string): SessionInfo {
+  return {
+    sessionId: id,
+    slug: `slug-${id}`,
+    projectPath: `/home/user/${projectName}`,
+    projectName,
+    isTeam: false,
+    lastActivity: Date.now(),
+  };
+}
+
+function makeAgent(id: string, name: string): AgentState {
+  return {
+    id,
+    name,
+    role: 'implementer',
+    status: 'idle',
+    tasksCompleted: 0,
+  };
+}
+
+describe('PermissionBroker', () => {
+  let sm: StateManager;
+  let broker: PermissionBroker;
+  let handler: ReturnType<typeof createHookHandler>;
+
+  const bashInput = { command: 'rm -rf build' };
+  const bashKey = permissionToolKey('Bash', bashInput);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sm = new StateManager();
+    broker = new PermissionBroker(sm);
+    handler = createHookHandler(sm, { permissions: broker });
+    sm.registerAgent(makeAgent('sess-1', 'coder'));
+    sm.addSession(makeSession('sess-1', 'test-project'));
+  });
+
+  afterEach(() => {
+    broker.clear();
+    vi.useRealTimers();
+  });
+
+  /** Simulate the hook route: handle the event, then park the request */
+  function requestPermission(timeoutMs = 30_000) {
+    handler.handleEvent({
+      session_id: 'sess-1',
+      hook_event_name: 'PermissionRequest',
+      tool_name: 'Bash',
+      tool_input: bashInput,
+    });
+    return broker.request('sess-1', bashKey, timeoutMs);
+  }
+
+  it('exposes the pending request ID on the agent and sessions list', () => {
+    const { id } = requestPermission();
+
+    const agent = sm.getAgentById('sess-1');
+    expect(agent?.waitingForInput).toBe(true);
+    expect(agent?.pendingPermissionId).toBe(id);
+    expect(sm.getSessionsList()[0].waitingAgentInfo?.permissionRequestId).toBe(id);
+  });
+
+  it('resolves with the viewer decision and clears waiting state', async () => {
+    const { id, decision } = requestPermission();
+
+    expect(broker.resolve(id, 'allow')).toBe(true);
+    await expect(decision).resolves.toBe('allow');
+
+    const agent = sm.getAgentById('sess-1');
+    expect(agent?.pendingPermissionId).toBeUndefined();
+    expect(agent?.waitingForInput).toBe(false);
+    expect(broker.getPendingCount()).toBe(0);
+  });
+
+  it('returns false when resolving an unknown or settled request', async () => {
+    const { id, decision } = requestPermission();
+    broker.resolve(id, 'deny');
+    await expect(decision).resolves.toBe('deny');
+
+    expect(broker.resolve(id, 'allow')).toBe(false);
+    expect(broker.resolve('nope', 'allow')).toBe(false);
+  });
+
+  it('times out with a null decision', async () => {
+    const { decision } = requestPermission(5_000);
+
+    vi.advanceTimersByTime(5_000);
+    await expect(decision).resolves.toBeNull();
+    expect(sm.getAgentById('sess-1')?.pendingPermissionId).toBeUndefined();
+  });
+
+  it('clamps the wait to the maximum', async () => {
+    const { decision } = requestPermission(10 * MAX_PERMISSION_WAIT_MS);
+
+    vi.advanceTimersByTime(MAX_PERMISSION_WAIT_MS);
+    await expect(decision).resolves.toBeNull();
+  });
+
+  it('supersedes an older request for the same agent', async () => {
+    const first = requestPermission();
+    const second = requestPermission();
+
+    await expect(first.decision).resolves.toBeNull();
+    expect(sm.getAgentById('sess-1')?.pendingPermissionId).toBe(second.id);
+  });
+
+  it('cancels when the tool completes after a terminal answer', async () => {
+    const { decision } = requestPermission();
+
+    handler.handleEvent({
+      session_id: 'sess-1',
+      hook_event_name: 'PostToolUse',
+      tool_name: 'Bash',
+      tool_input: bashInput,
+    });
+
+    await expect(decision).resolves.toBeNull();
+  });
+
+  it('does not cancel when an unrelated parallel tool completes', () => {
+    const { id } = requestPermission();
+
+    handler.handleEvent({
+      session_id: 'sess-1',
+      hook_event_name: 'PostToolUse',
+      tool_name: 'Read',
+      tool_input: { file_path: '/src/app.ts' },
+    });
+
+    expect(sm.getAgentById('sess-1')?.pendingPermissionId).toBe(id);
+  });
+
+  it('cancels when the turn ends or a new prompt is submitted', async () => {
+    const stopped = requestPermission();
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'Stop' });
+    await expect(stopped.decision).resolves.toBeNull();
+
+    const prompted = requestPermission();
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'UserPromptSubmit', prompt: 'continue' });
+    await expect(prompted.decision).resolves.toBeNull();
+  });
+});
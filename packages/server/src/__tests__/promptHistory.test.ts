@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PromptHistory, MAX_PROMPT_CHARS } from '../state/promptHistory';
+import { StateManager } from '../state';
+import { createHookHandler } from '../hooks';
+import type { WSMessage } from '@agent-viewer/shared';
+
+describe('PromptHistory', () => {
+  let history: PromptHistory;
+
+  beforeEach(() => {
+    history = new PromptHistory();
+  });
+
+  it('runs a turn from its prompt to its end, counting tools and failures', () => {
+    history.start('s1', 'a1', 'Fix the login bug', 1000);
+    history.recordTool('s1', 'a1', 'Read');
+    history.recordTool('s1', 'a1', 'Edit');
+    history.recordTool('s1', 'a1', 'Edit');
+    history.recordToolFailure('s1', 'a1');
+    const ended = history.end('s1', 'a1', 'completed', 5000);
+
+    expect(ended).toEqual({
+      id: 'a1:1000',
+      agentId: 'a1',
+      prompt: 'Fix the login bug',
+      startedAt: 1000,
+      endedAt: 5000,
+      tools: { Read: 1, Edit: 2 },
+      toolFailures: 1,
+      outcome: 'completed',
+    });
+    expect(history.list('s1')).toEqual([ended]);
+  });
+
+  it('marks the running turn interrupted when a new prompt arrives first', () => {
+    history.start('s1', 'a1', 'first', 1000);
+    const [interrupted, next] = history.start('s1', 'a1', 'second', 2000);
+
+    expect(interrupted).toMatchObject({ prompt: 'first', outcome: 'interrupted', endedAt: 2000 });
+    expect(next).toMatchObject({ prompt: 'second', outcome: 'running' });
+    expect(history.list('s1').map((t) => t.outcome)).toEqual(['interrupted', 'running']);
+  });
+
+  it('keeps each agent\'s turns apart', () => {
+    history.start('team:crew', 'lead@crew', 'plan', 1000);
+    history.start('team:crew', 'dev@crew', 'build', 1500);
+    history.recordTool('team:crew', 'dev@crew', 'Bash');
+
+    expect(history.end('team:crew', 'lead@crew', 'completed', 2000)?.tools).toEqual({});
+    expect(history.list('team:crew').find((t) => t.agentId === 'dev@crew')?.outcome).toBe('running');
+  });
+
+  it('ignores tools and ends without a running turn', () => {
+    expect(history.recordTool('s1', 'a1', 'Bash')).toBeUndefined();
+    history.start('s1', 'a1', 'x', 1000);
+    history.end('s1', 'a1', 'completed', 2000);
+    expect(history.end('s1', 'a1', 'interrupted', 3000)).toBeUndefined();
+    expect(history.recordTool('s1', 'a1', 'Bash')).toBeUndefined();
+  });
+
+  it('does not change a turn it already handed out', () => {
+    const [turn] = history.start('s1', 'a1', 'x', 1000);
+    history.recordTool('s1', 'a1', 'Bash');
+    expect(turn.tools).toEqual({});
+  });
+
+  it('clips long prompts and keeps the latest turns', () => {
+    history.start('s1', 'a1', 'x'.repeat(MAX_PROMPT_CHARS + 10), 0);
+    expect(history.list('s1')[0].prompt).toHaveLength(MAX_PROMPT_CHARS + 1);
+
+    for (let i = 1; i <= 120; i++) history.start('s1', 'a1', `prompt ${i}`, i);
+    const turns = history.list('s1');
+    expect(turns).toHaveLength(100);
+    expect(turns[turns.length - 1].prompt).toBe('prompt 120');
+  });
+
+  it('leaves sessions without a recent prompt out of the export', () => {
+    const now = 10 * 24 * 3600_000;
+    history.start('old', 'a1', 'x', now - 8 * 24 * 3600_000);
+    history.start('new', 'a1', 'y', now - 3600_000);
+
+    expect(Object.keys(history.export(now))).toEqual(['new']);
+    expect(history.list('old')).toEqual([]);
+  });
+});
+
+describe('StateManager prompt turns', () => {
+  let sm: StateManager;
+  let messages: WSMessage[];
+
+  beforeEach(() => {
+    sm = new StateManager((text) => text.replace('hunter2', '[REDACTED]'));
+    messages = [];
+    sm.subscribe((msg) => messages.push(msg));
+    sm.addSession({ sessionId: 's1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: Date.now() });
+  });
+
+  it('broadcasts each change with the prompt redacted and includes turns in the session state', () => {
+    sm.startPromptTurn('s1', 's1', 'log in with hunter2', 1000);
+    sm.recordTurnTool('s1', 's1', 'Bash');
+
+    const updates = messages.filter((m) => m.type === 'prompt_turn');
+    expect(updates).toHaveLength(2);
+    expect(updates[1]).toMatchObject({ data: { sessionId: 's1', turn: { prompt: 'log in with [REDACTED]', tools: { Bash: 1 } } } });
+    expect(sm.getStateForSession('s1').turns).toHaveLength(1);
+  });
+
+  it('pools team members\' turns in the team view session', () => {
+    sm.addSession({ sessionId: 'uuid-1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: true, teamName: 'crew', lastActivity: Date.now() });
+    sm.startPromptTurn('uuid-1', 'lead@crew', 'plan it');
+
+    expect(messages.find((m) => m.type === 'prompt_turn')).toMatchObject({ data: { sessionId: 'team:crew' } });
+    expect(sm.getStateForSession('uuid-1').turns).toHaveLength(1);
+  });
+
+  it('keeps turns through a snapshot, even for sessions too old to restore', () => {
+    sm.startPromptTurn('s1', 's1', 'keep me', Date.now());
+    const snapshot = sm.exportSnapshot();
+
+    const restored = new StateManager();
+    restored.restoreSnapshot({ ...snapshot, sessions: [] }, 3600_000);
+    restored.addSession({ sessionId: 's1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: Date.now() });
+    expect(restored.getStateForSession('s1').turns?.map((t) => t.prompt)).toEqual(['keep me']);
+  });
+});
+
+describe('prompt turns from hook events', () => {
+  let sm: StateManager;
+  let handler: ReturnType<typeof createHookHandler>;
+
+  beforeEach(() => {
+    sm = new StateManager();
+    handler = createHookHandler(sm);
+    sm.registerAgent({ id: 'sess-1', name: 'coder', role: 'implementer', status: 'idle', tasksCompleted: 0 });
+    sm.addSession({ sessionId: 'sess-1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: Date.now() });
+  });
+
+  function turns() {
+    return sm.getStateForSession('sess-1').turns ?? [];
+  }
+
+  it('records a prompt, its tools and its completion', () => {
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'UserPromptSubmit', prompt: 'Add a feature' });
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'PreToolUse', tool_name: 'Read', tool_input: {} });
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'PreToolUse', tool_name: 'Bash', tool_input: {} });
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'PostToolUseFailure', tool_name: 'Bash', tool_input: {} });
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'Stop' });
+
+    expect(turns()).toEqual([
+      expect.objectContaining({ prompt: 'Add a feature', tools: { Read: 1, Bash: 1 }, toolFailures: 1, outcome: 'completed' }),
+    ]);
+  });
+
+  it('marks the turn interrupted when the user interrupts a tool', () => {
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'UserPromptSubmit', prompt: 'Run tests' });
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'PreToolUse', tool_name: 'Bash', tool_input: {} });
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'PostToolUseFailure', tool_name: 'Bash', is_interrupt: true });
+
+    expect(turns()[0]).toMatchObject({ outcome: 'interrupted', toolFailures: 0 });
+  });
+
+  it('marks the turn interrupted when the session ends mid-turn', () => {
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'UserPromptSubmit', prompt: 'Refactor' });
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'SessionEnd' });
+
+    expect(turns()[0].outcome).toBe('interrupted');
+  });
+});
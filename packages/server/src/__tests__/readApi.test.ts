@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { StateManager } from '../state';
+import { createReadApi, filterAgents, filterTasks, filterMessages, QueryError } from '../readApi';
+import type { AgentState, MessageState, TaskState } from '@agent-viewer/shared';
+
+function agent(id: string, overrides: Partial<AgentState> = {}): AgentState {
+  return { id, name: id, role: 'implementer', status: 'idle', tasksCompleted: 0, ...overrides };
+}
+
+function message(id: string, from: string, to: string, timestamp: number): MessageState {
+  return { id, from, to, content: id, timestamp };
+}
+
+describe('filterAgents', () => {
+  const agents = [
+    agent('a1', { status: 'working', waitingForInput: true }),
+    agent('a2', { status: 'idle', role: 'tester' }),
+    agent('a3', { status: 'done', isSubagent: true }),
+  ];
+  const ids = (list: AgentState[]) => list.map((a) => a.id);
+
+  it('returns everything without filters', () => {
+    expect(ids(filterAgents(agents, {}))).toEqual(['a1', 'a2', 'a3']);
+  });
+
+  it('matches any of a comma-separated list', () => {
+    expect(ids(filterAgents(agents, { status: 'working,done' }))).toEqual(['a1', 'a3']);
+    expect(ids(filterAgents(agents, { role: 'tester' }))).toEqual(['a2']);
+  });
+
+  it('filters on boolean flags', () => {
+    expect(ids(filterAgents(agents, { waiting: 'true' }))).toEqual(['a1']);
+    expect(ids(filterAgents(agents, { subagent: 'false' }))).toEqual(['a1', 'a2']);
+  });
+
+  it('rejects malformed values', () => {
+    expect(() => filterAgents(agents, { waiting: 'yes' })).toThrow(QueryError);
+    expect(() => filterAgents(agents, { status: ['working', 'idle'] })).toThrow(QueryError);
+  });
+});
+
+describe('filterTasks', () => {
+  const tasks: TaskState[] = [
+    { id: '1', subject: 'a', status: 'in_progress', owner: 'alice', blockedBy: [], blocks: [] },
+    { id: '2', subject: 'b', status: 'pending', blockedBy: [], blocks: [] },
+  ];
+
+  it('filters by status and owner', () => {
+    expect(filterTasks(tasks, { status: 'pending' }).map((t) => t.id)).toEqual(['2']);
+    expect(filterTasks(tasks, { owner: 'alice' }).map((t) => t.id)).toEqual(['1']);
+  });
+});
+
+describe('filterMessages', () => {
+  const messages = [
+    message('m1', 'lead', 'alice', 100),
+    message('m2', 'alice', 'lead', 200),
+    message('m3', 'lead', 'bob', 300),
+  ];
+  const ids = (list: MessageState[]) => list.map((m) => m.id);
+
+  it('filters by sender, recipient and either side', () => {
+    expect(ids(filterMessages(messages, { from: 'lead' }))).toEqual(['m1', 'm3']);
+    expect(ids(filterMessages(messages, { to: 'lead' }))).toEqual(['m2']);
+    expect(ids(filterMessages(messages, { agent: 'alice' }))).toEqual(['m1', 'm2']);
+  });
+
+  it('keeps messages since a timestamp and the newest N', () => {
+    expect(ids(filterMessages(messages, { since: '200' }))).toEqual(['m2', 'm3']);
+    expect(ids(filterMessages(messages, { limit: '2' }))).toEqual(['m2', 'm3']);
+    expect(ids(filterMessages(messages, { from: 'lead', limit: '1' }))).toEqual(['m3']);
+    expect(filterMessages(messages, { limit: '0' })).toEqual([]);
+  });
+
+  it('rejects non-numeric since and limit', () => {
+    expect(() => filterMessages(messages, { since: 'yesterday' })).toThrow(QueryError);
+    expect(() => filterMessages(messages, { limit: '-1' })).toThrow(QueryError);
+  });
+});
+
+describe('session read API routes', () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    const sm = new StateManager();
+    sm.registerAgent(agent('sess-1', { status: 'working' }));
+    sm.addSession({ sessionId: 'sess-1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: Date.now() });
+    sm.addMessage({ id: 'm1', from: 'sess-1', to: 'lead', content: 'done', timestamp: 1 });
+    sm.addMessage({ id: 'm2', from: 'stranger', to: 'lead', content: 'elsewhere', timestamp: 2 });
+
+    const app = express();
+    app.use('/api/sessions', createReadApi(sm));
+    server = createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/sessions`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('returns the session state and filtered agents', async () => {
+    const state = await (await fetch(`${base}/sess-1`)).json();
+    expect(state.session.sessionId).toBe('sess-1');
+    expect(state.agents.map((a: AgentState) => a.id)).toEqual(['sess-1']);
+
+    expect(await (await fetch(`${base}/sess-1/agents?status=working`)).json()).toHaveLength(1);
+    expect(await (await fetch(`${base}/sess-1/agents?status=idle`)).json()).toEqual([]);
+    expect(await (await fetch(`${base}/sess-1/tasks`)).json()).toEqual([]);
+  });
+
+  it('returns only the messages of the session\'s agents', async () => {
+    const messages = await (await fetch(`${base}/sess-1/messages`)).json();
+    expect(messages.map((m: MessageState) => m.id)).toEqual(['m1']);
+    expect((await (await fetch(`${base}/sess-1`)).json()).messages).toHaveLength(1);
+  });
+
+  it('answers 404 for unknown sessions and 400 for bad queries', async () => {
+    const missing = await fetch(`${base}/nope/agents`);
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ error: 'Unknown session' });
+
+    const bad = await fetch(`${base}/sess-1/messages?limit=lots`);
+    expect(bad.status).toBe(400);
+    expect((await bad.json()).error).toMatch(/limit/);
+  });
+});
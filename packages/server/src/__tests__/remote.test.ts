@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Request, Response } from 'express';
+import type { GroupedSessionsList, SessionInfo, SessionListEntry } from '@agent-viewer/shared';
+import {
+  ShareRegistry,
+  createAccessControl,
+  isLoopback,
+  parseShareRequest,
+  scopeGroupedSessions,
+  sessionInScope,
+  shareUrl,
+} from '../remote';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('ShareRegistry', () => {
+  let shares: ShareRegistry;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    shares = new ShareRegistry(null);
+  });
+
+  afterEach(() => {
+    shares.close();
+    vi.useRealTimers();
+  });
+
+  it('resolves a token to its share until it expires', () => {
+    const onEnd = vi.fn();
+    const { share, token } = shares.create({ type: 'session', sessionId: 's1' }, 'demo', HOUR);
+    shares.onEnd(share.id, onEnd);
+
+    expect(shares.resolve(token)?.id).toBe(share.id);
+    expect(shares.resolve('wrong')).toBeNull();
+
+    vi.advanceTimersByTime(HOUR);
+    expect(shares.resolve(token)).toBeNull();
+    expect(shares.list()).toEqual([]);
+    expect(onEnd).toHaveBeenCalledOnce();
+  });
+
+  it('ends a share when it is revoked', () => {
+    const onEnd = vi.fn();
+    const { share, token } = shares.create({ type: 'project', projectPath: '/repo' }, 'repo', HOUR);
+    shares.onEnd(share.id, onEnd);
+
+    expect(shares.revoke(share.id)).toBe(true);
+    expect(shares.revoke(share.id)).toBe(false);
+    expect(shares.resolve(token)).toBeNull();
+    expect(onEnd).toHaveBeenCalledOnce();
+  });
+});
+
+describe('ShareRegistry persistence', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'agent-viewer-shares-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores only token hashes and reloads live shares', () => {
+    const file = join(dir, 'shares.json');
+    const first = new ShareRegistry(file);
+    const { share, token } = first.create({ type: 'session', sessionId: 's1' }, 'demo', HOUR);
+    first.close();
+
+    expect(readFileSync(file, 'utf-8')).not.toContain(token);
+    const second = new ShareRegistry(file);
+    expect(second.resolve(token)?.id).toBe(share.id);
+    second.close();
+  });
+});
+
+describe('parseShareRequest', () => {
+  it('accepts a session or a project scope', () => {
+    expect(parseShareRequest({ sessionId: 's1' })).toEqual({ scope: { type: 'session', sessionId: 's1' }, ttlMs: 8 * HOUR });
+    expect(parseShareRequest({ projectPath: '/repo', host: 'laptop', ttlMinutes: 30 })).toEqual({
+      scope: { type: 'project', projectPath: '/repo', host: 'laptop' },
+      ttlMs: HOUR / 2,
+    });
+  });
+
+  it('caps the lifetime and rejects bad bodies', () => {
+    expect(parseShareRequest({ sessionId: 's1', ttlMinutes: 1e9 })).toMatchObject({ ttlMs: 7 * 24 * HOUR });
+    expect(parseShareRequest({ sessionId: 's1', ttlMinutes: -5 })).toHaveProperty('error');
+    expect(parseShareRequest({})).toHaveProperty('error');
+    expect(parseShareRequest(null)).toHaveProperty('error');
+  });
+
+  it('builds the viewer link from the base URL', () => {
+    expect(shareUrl('https://192.168.1.5:3001', 'a+b')).toBe('https://192.168.1.5:3001/?share=a%2Bb');
+  });
+});
+
+function entry(sessionId: string, projectPath: string, agentCount: number): SessionListEntry {
+  return {
+    sessionId, slug: sessionId, projectName: projectPath.slice(1), projectPath, gitBranch: 'main',
+    isTeam: false, agentCount, lastActivity: agentCount, active: false, hasWaitingAgent: false,
+  } as SessionListEntry;
+}
+
+describe('share scopes', () => {
+  it('matches project scopes on the main repo path and host', () => {
+    const scope = { type: 'project' as const, projectPath: '/repo' };
+    expect(sessionInScope(scope, { sessionId: 'a', projectPath: '/repo' })).toBe(true);
+    expect(sessionInScope(scope, { sessionId: 'b', projectPath: '/repo-wt', mainRepoPath: '/repo' })).toBe(true);
+    expect(sessionInScope(scope, { sessionId: 'c', projectPath: '/repo', host: 'desktop' })).toBe(false);
+    expect(sessionInScope(scope, { sessionId: 'd', projectPath: '/other' })).toBe(false);
+  });
+
+  it('recounts grouped totals over the sessions left in scope', () => {
+    const a = entry('a', '/repo', 2);
+    const b = entry('b', '/repo', 3);
+    const c = entry('c', '/other', 1);
+    const grouped = {
+      projects: [
+        {
+          projectPath: '/repo', projectName: 'repo', totalSessions: 2, totalAgents: 5, lastActivity: 3, hasWaitingAgent: false,
+          branches: [{ branch: 'main', sessions: [a, b], totalAgents: 5, lastActivity: 3, hasWaitingAgent: false }],
+        },
+        {
+          projectPath: '/other', projectName: 'other', totalSessions: 1, totalAgents: 1, lastActivity: 1, hasWaitingAgent: false,
+          branches: [{ branch: 'main', sessions: [c], totalAgents: 1, lastActivity: 1, hasWaitingAgent: false }],
+        },
+      ],
+      flatSessions: [a, b, c],
+    } as unknown as GroupedSessionsList;
+
+    const scoped = scopeGroupedSessions(grouped, { type: 'session', sessionId: 'b' });
+    expect(scoped.projects).toHaveLength(1);
+    expect(scoped.projects[0]).toMatchObject({ totalSessions: 1, totalAgents: 3, lastActivity: 3 });
+    expect(scoped.projects[0].branches[0].sessions.map((s) => s.sessionId)).toEqual(['b']);
+    expect(scoped.flatSessions.map((s) => s.sessionId)).toEqual(['b']);
+  });
+});
+
+describe('createAccessControl', () => {
+  let shares: ShareRegistry;
+  const sessions: Record<string, SessionInfo> = {
+    s1: { sessionId: 's1', slug: 's1', projectPath: '/repo', projectName: 'repo', isTeam: false, lastActivity: 0 },
+    s2: { sessionId: 's2', slug: 's2', projectPath: '/other', projectName: 'other', isTeam: false, lastActivity: 0 },
+  };
+
+  function guard(access: ReturnType<typeof createAccessControl>, req: Partial<Request>) {
+    let status = 200;
+    const res = { status: (code: number) => ({ json: () => (status = code) }) } as unknown as Response;
+    access.guardRequests({ method: 'GET', query: {}, headers: {}, ...req } as Request, res, () => {});
+    return status;
+  }
+
+  beforeEach(() => {
+    shares = new ShareRegistry(null);
+  });
+
+  afterEach(() => {
+    shares.close();
+  });
+
+  it('tells loopback addresses apart', () => {
+    expect(isLoopback('127.0.0.1')).toBe(true);
+    expect(isLoopback('::ffff:127.0.0.1')).toBe(true);
+    expect(isLoopback('::1')).toBe(true);
+    expect(isLoopback('192.168.1.20')).toBe(false);
+    expect(isLoopback(undefined)).toBe(false);
+  });
+
+  it('grants full access for the install token and read-only access for a share', () => {
+    const access = createAccessControl({ authToken: 'secret', shares, findSession: (id) => sessions[id] });
+    const { share, token } = shares.create({ type: 'session', sessionId: 's1' }, 's1', HOUR);
+
+    expect(access.accessFor('secret')).toEqual({ readOnly: false });
+    expect(access.accessFor(token)).toEqual({ readOnly: true, share });
+    expect(access.accessFor('nope')).toBeNull();
+    expect(access.shareCovers(share, 's1')).toBe(true);
+    expect(access.shareCovers(share, 's2')).toBe(false);
+  });
+
+  it('guards the API, letting shares read their own stats', () => {
+    const access = createAccessControl({ authToken: 'secret', shares, findSession: (id) => sessions[id] });
+    const { token } = shares.create({ type: 'session', sessionId: 's1' }, 's1', HOUR);
+    const remote = { socket: { remoteAddress: '192.168.1.20' } } as Partial<Request>;
+
+    expect(guard(access, { ...remote, path: '/' })).toBe(200);
+    expect(guard(access, { ...remote, path: '/api/health' })).toBe(200);
+    expect(guard(access, { ...remote, path: '/api/sessions' })).toBe(401);
+    expect(guard(access, { ...remote, path: '/api/sessions', headers: { authorization: 'Bearer secret' } })).toBe(200);
+
+    const asShare = { ...remote, headers: { authorization: `Bearer ${token}` } };
+    expect(guard(access, { ...asShare, path: '/api/stats', query: { session: 's1' } })).toBe(200);
+    expect(guard(access, { ...asShare, path: '/api/stats', query: { session: 's2' } })).toBe(401);
+    expect(guard(access, { ...asShare, path: '/api/sessions/s1/replay' })).toBe(200);
+    expect(guard(access, { ...asShare, path: '/api/sessions/s1/transcript' })).toBe(200);
+    expect(guard(access, { ...asShare, path: '/api/sessions/s1/timeline' })).toBe(200);
+    expect(guard(access, { ...asShare, path: '/api/sessions/s2/transcript' })).toBe(401);
+    expect(guard(access, { ...asShare, path: '/api/sessions' })).toBe(401);
+  });
+
+  it('asks local processes for the token too', () => {
+    const access = createAccessControl({ authToken: 'secret', shares, findSession: (id) => sessions[id] });
+    const local = { socket: { remoteAddress: '127.0.0.1' } } as Partial<Request>;
+
+    for (const path of ['/api/events', '/api/state', '/api/status', '/api/sessions/s1/replay', '/api/search', '/api/inbox', '/metrics']) {
+      expect(guard(access, { ...local, path })).toBe(401);
+      expect(guard(access, { ...local, path, headers: { authorization: 'Bearer secret' } })).toBe(200);
+    }
+    expect(guard(access, { ...local, path: '/api/events', query: { token: 'secret' } })).toBe(200);
+    // The hook route checks its own token
+    expect(guard(access, { ...local, path: '/api/hook' })).toBe(200);
+  });
+
+  it('lets everything through with auth off', () => {
+    const access = createAccessControl({ authToken: null, shares, findSession: (id) => sessions[id] });
+    expect(guard(access, { socket: { remoteAddress: '127.0.0.1' }, path: '/api/state' } as Partial<Request>)).toBe(200);
+  });
+});
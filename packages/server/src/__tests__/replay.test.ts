@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { buildReplayFrame } from '../store';
+import type { StoredEvent } from '../store';
+import type { AgentState, SessionInfo } from '@agent-viewer/shared';
+
+const session: SessionInfo = {
+  sessionId: 'sess-1',
+  slug: 'quiet-forest',
+  projectPath: '/home/user/project',
+  projectName: 'project',
+  isTeam: false,
+  lastActivity: 1000,
+};
+
+function agent(id: string, overrides?: Partial<AgentState>): AgentState {
+  return { id, name: id, role: 'implementer', status: 'idle', tasksCompleted: 0, ...overrides };
+}
+
+const records: StoredEvent[] = [
+  { ts: 1000, kind: 'state', sessionId: 'sess-1', msg: { type: 'session_started', data: session } },
+  { ts: 1200, kind: 'state', sessionId: 'sess-1', msg: { type: 'agent_update', data: agent('sess-1', { status: 'working', currentAction: 'Reading app.ts' }) } },
+  { ts: 1300, kind: 'state', sessionId: 'sess-1', msg: { type: 'agent_added', data: agent('sub-1', { isSubagent: true, parentAgentId: 'sess-1' }) } },
+  { ts: 1400, kind: 'state', sessionId: 'other', msg: { type: 'agent_update', data: agent('other', { status: 'working' }) } },
+  { ts: 1500, kind: 'state', msg: { type: 'agent_removed', data: { id: 'sub-1' } } },
+  { ts: 1600, kind: 'state', msg: { type: 'new_message', data: { id: 'm1', from: 'a', to: 'b', content: 'hi', timestamp: 1600 } } },
+  { ts: 1700, kind: 'state', sessionId: 'sess-1', msg: { type: 'agent_update', data: agent('sess-1', { status: 'idle' }) } },
+];
+
+describe('buildReplayFrame', () => {
+  it('returns undefined for sessions with no recorded history', () => {
+    expect(buildReplayFrame(records, 'missing', 1500)).toBeUndefined();
+  });
+
+  it('reports the recorded range for the session', () => {
+    const frame = buildReplayFrame(records, 'sess-1', 1500)!;
+    expect(frame.start).toBe(1000);
+    expect(frame.end).toBe(1700);
+  });
+
+  it('reconstructs what each agent was doing at a point in time', () => {
+    const frame = buildReplayFrame(records, 'sess-1', 1350)!;
+    expect(frame.state.session?.sessionId).toBe('sess-1');
+    expect(frame.state.name).toBe('project');
+    expect(frame.state.agents.map((a) => a.id)).toEqual(['sess-1', 'sub-1']);
+    expect(frame.state.agents[0].currentAction).toBe('Reading app.ts');
+  });
+
+  it('applies removals and ignores other sessions', () => {
+    const frame = buildReplayFrame(records, 'sess-1', 1650)!;
+    expect(frame.state.agents.map((a) => a.id)).toEqual(['sess-1']);
+    expect(frame.state.messages.map((m) => m.id)).not.toContain('m1');
+  });
+
+  it('keeps only the tasks and messages of the session\'s agents', () => {
+    const team: SessionInfo = { ...session, sessionId: 'team:crew', isTeam: true, teamName: 'crew' };
+    const teamRecords: StoredEvent[] = [
+      { ts: 1000, kind: 'state', sessionId: 'team:crew', msg: { type: 'session_started', data: team } },
+      { ts: 1100, kind: 'state', sessionId: 'team:crew', msg: { type: 'agent_added', data: agent('dev@crew', { name: 'dev' }) } },
+      { ts: 1200, kind: 'state', msg: { type: 'task_update', data: { id: '1', subject: 'ours', status: 'pending', owner: 'dev', blockedBy: [], blocks: [] } } },
+      { ts: 1210, kind: 'state', sessionId: 'team:crew', msg: { type: 'task_update', data: { id: '2', subject: 'unowned', status: 'pending', blockedBy: [], blocks: [] } } },
+      { ts: 1220, kind: 'state', sessionId: 'team:other', msg: { type: 'task_update', data: { id: '3', subject: 'theirs', status: 'pending', owner: 'ops', blockedBy: [], blocks: [] } } },
+      { ts: 1300, kind: 'state', sessionId: 'team:crew', msg: { type: 'new_message', data: { id: 'm2', from: 'dev', to: 'lead', content: 'done', timestamp: 1300 } } },
+      { ts: 1310, kind: 'state', msg: { type: 'new_message', data: { id: 'm3', from: 'lead', to: 'dev', content: 'thanks', timestamp: 1310 } } },
+      { ts: 1320, kind: 'state', sessionId: 'team:other', msg: { type: 'new_message', data: { id: 'm4', from: 'ops', to: 'lead', content: 'secret', timestamp: 1320 } } },
+    ];
+
+    const frame = buildReplayFrame(teamRecords, 'team:crew', 1400)!;
+    expect(frame.state.tasks.map((t) => t.subject)).toEqual(['ours', 'unowned']);
+    expect(frame.state.messages.map((m) => m.id)).toEqual(['m2', 'm3']);
+  });
+
+  it('clamps the requested time to the recorded range', () => {
+    const frame = buildReplayFrame(records, 'sess-1', 99_999)!;
+    expect(frame.at).toBe(1700);
+    expect(frame.state.agents[0].status).toBe('idle');
+  });
+
+  it('falls back to the live session info when session_started was not recorded', () => {
+    const frame = buildReplayFrame(records.slice(1), 'sess-1', 1300, session)!;
+    expect(frame.state.session).toBe(session);
+  });
+});
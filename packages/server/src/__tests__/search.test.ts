@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { StateManager } from '../state';
+import { createRedactor, DEFAULT_REDACTION_PATTERNS } from '../state/redaction';
+import {
+  SearchIndex, tokenize, snippetFor, transcriptSearchDocs, messageSearchDoc, taskSearchDoc, createSearch,
+} from '../search';
+import type { SearchDoc } from '../search';
+import type { AgentState, SessionInfo } from '@agent-viewer/shared';
+
+const noRedaction = (text: string) => text;
+
+function makeDoc(key: string, text: string, overrides?: Partial<SearchDoc>): SearchDoc {
+  return { key, kind: 'reply', sessionId: 's1', agentId: 's1', text, timestamp: 1, ...overrides };
+}
+
+function makeSession(id: string, projectName: string, overrides?: Partial<SessionInfo>): SessionInfo {
+  return {
+    sessionId: id,
+    slug: `slug-${id}`,
+    projectPath: `/home/user/${projectName}`,
+    projectName,
+    isTeam: false,
+    lastActivity: Date.now(),
+    ...overrides,
+  };
+}
+
+function makeAgent(id: string, name: string, overrides?: Partial<AgentState>): AgentState {
+  return {
+    id,
+    name,
+    role: 'implementer',
+    status: 'idle',
+    tasksCompleted: 0,
+    ...overrides,
+  };
+}
+
+describe('tokenize', () => {
+  it('splits paths, commands and snake_case into lowercase words', () => {
+    expect(tokenize('npm run db:migrate -- src/Users_Table.ts')).toEqual(['npm', 'run', 'db', 'migrate', 'src', 'users', 'table', 'ts']);
+  });
+
+  it('drops single characters and cuts very long words', () => {
+    expect(tokenize('a b cd')).toEqual(['cd']);
+    expect(tokenize('x'.repeat(100))[0]).toHaveLength(40);
+  });
+});
+
+describe('snippetFor', () => {
+  it('returns short text whole, on one line', () => {
+    expect(snippetFor('run the\n  migration', ['migration'])).toBe('run the migration');
+  });
+
+  it('cuts long text around the first match', () => {
+    const text = `${'a '.repeat(200)}needle${' b'.repeat(200)}`;
+    const snippet = snippetFor(text, ['needle']);
+    expect(snippet).toContain('needle');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet.length).toBeLessThanOrEqual(162);
+  });
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex(noRedaction);
+  });
+
+  it('needs every term, matching words by prefix', () => {
+    index.add(makeDoc('a', 'ran the database migration'));
+    index.add(makeDoc('b', 'database backup'));
+    expect(index.search('migrat data').docs.map((d) => d.key)).toEqual(['a']);
+    expect(index.search('database').docs).toHaveLength(2);
+    expect(index.search('nothing').docs).toEqual([]);
+    expect(index.search('  ').docs).toEqual([]);
+  });
+
+  it('searches tool names along with their input', () => {
+    index.add(makeDoc('a', 'npm test', { kind: 'tool', detail: 'Bash' }));
+    expect(index.search('bash npm').docs.map((d) => d.key)).toEqual(['a']);
+  });
+
+  it('returns the newest matches first and filters by session', () => {
+    index.add(makeDoc('a', 'deploy', { timestamp: 1 }));
+    index.add(makeDoc('b', 'deploy', { timestamp: 3, sessionId: 's2' }));
+    index.add(makeDoc('c', 'deploy', { timestamp: 2 }));
+    expect(index.search('deploy').docs.map((d) => d.key)).toEqual(['b', 'c', 'a']);
+    expect(index.search('deploy', { sessionId: 's2' }).docs.map((d) => d.key)).toEqual(['b']);
+  });
+
+  it('adds a key once and replaces it when its text changes', () => {
+    expect(index.add(makeDoc('a', 'first subject'))).toBe(true);
+    expect(index.add(makeDoc('a', 'first subject'))).toBe(false);
+    expect(index.add(makeDoc('a', 'second subject'))).toBe(true);
+    expect(index.size).toBe(1);
+    expect(index.search('first').docs).toEqual([]);
+    expect(index.search('second').docs).toHaveLength(1);
+  });
+
+  it('skips documents without words', () => {
+    expect(index.add(makeDoc('a', ' - '))).toBe(false);
+    expect(index.size).toBe(0);
+  });
+
+  it('drops the oldest documents past its size limit', () => {
+    index = new SearchIndex(noRedaction, 3);
+    for (let i = 0; i < 10; i++) index.add(makeDoc(`d${i}`, `word${i} common`, { timestamp: i }));
+    expect(index.size).toBe(3);
+    expect(index.search('common').docs.map((d) => d.key)).toEqual(['d9', 'd8', 'd7']);
+    expect(index.search('word1').docs).toEqual([]);
+  });
+
+  it('drops the oldest documents past its text limit', () => {
+    index = new SearchIndex(noRedaction, 100, 50);
+    for (let i = 0; i < 10; i++) index.add(makeDoc(`d${i}`, `word${i} ${'x'.repeat(10)}`, { timestamp: i }));
+    expect(index.size).toBe(3);
+    expect(index.search('word').docs.map((d) => d.key)).toEqual(['d9', 'd8', 'd7']);
+  });
+
+  it('redacts text before indexing it', () => {
+    index = new SearchIndex(createRedactor(DEFAULT_REDACTION_PATTERNS));
+    index.add(makeDoc('a', 'export API_KEY=hunter2hunter2'));
+    expect(index.search('hunter2hunter2').docs).toEqual([]);
+    expect(index.search('api key').docs[0].text).toContain('[REDACTED]');
+  });
+});
+
+describe('transcriptSearchDocs', () => {
+  const owner = { agentId: 'agent-1', sessionId: 'sess-1' };
+  const line = (data: Record<string, unknown>) => JSON.stringify({ uuid: 'u1', timestamp: '2026-01-01T00:00:00.000Z', ...data });
+
+  it('indexes a user prompt', () => {
+    const docs = transcriptSearchDocs(line({ type: 'user', message: { content: 'Run the migration' } }), owner, { projectName: 'app' });
+    expect(docs).toEqual([{
+      key: 'u1:0',
+      kind: 'prompt',
+      sessionId: 'sess-1',
+      agentId: 'agent-1',
+      projectName: 'app',
+      text: 'Run the migration',
+      timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+    }]);
+  });
+
+  it('indexes assistant text and the searched fields of tool inputs', () => {
+    const docs = transcriptSearchDocs(line({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'thinking', thinking: 'hmm' },
+          { type: 'text', text: 'Running it now' },
+          { type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'npm run migrate', description: 'Migrate', timeout: 5 } },
+          { type: 'tool_use', id: 't2', name: 'Write', input: { file_path: '/p/a.ts', content: 'secret file body' } },
+          { type: 'tool_use', id: 't3', name: 'SendMessage', input: { type: 'message', content: 'hi' } },
+        ],
+      },
+    }), owner);
+    expect(docs.map((d) => [d.key, d.kind, d.detail, d.text])).toEqual([
+      ['u1:1', 'reply', undefined, 'Running it now'],
+      ['u1:2', 'tool', 'Bash', 'Migrate\nnpm run migrate'],
+      ['u1:3', 'tool', 'Write', '/p/a.ts'],
+    ]);
+  });
+
+  it('skips tool results, meta lines, other line types and bad JSON', () => {
+    expect(transcriptSearchDocs(line({
+      type: 'user',
+      message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: 'output' }] },
+    }), owner)).toEqual([]);
+    expect(transcriptSearchDocs(line({ type: 'user', isMeta: true, message: { content: 'caveat' } }), owner)).toEqual([]);
+    expect(transcriptSearchDocs(line({ type: 'summary', summary: 'x' }), owner)).toEqual([]);
+    expect(transcriptSearchDocs('{not json', owner)).toEqual([]);
+  });
+});
+
+describe('messageSearchDoc and taskSearchDoc', () => {
+  it('key messages by ID and tasks by session and ID', () => {
+    const message = messageSearchDoc({ id: 'm1', from: 'alice', to: 'bob', content: 'schema done', timestamp: 5 }, 'team:t');
+    expect(message).toMatchObject({ key: 'message:m1', kind: 'message', agentName: 'alice', detail: 'bob', text: 'schema done' });
+    const task = taskSearchDoc({ id: '3', subject: 'Write migration', status: 'pending', owner: 'bob', blockedBy: [], blocks: [] }, 'team:t', 7);
+    expect(task).toMatchObject({ key: 'task:team:t:3', kind: 'task', agentName: 'bob', detail: 'pending', timestamp: 7 });
+  });
+});
+
+describe('createSearch', () => {
+  let sm: StateManager;
+  let search: ReturnType<typeof createSearch>;
+
+  beforeEach(() => {
+    sm = new StateManager(noRedaction);
+    sm.addSession(makeSession('s1', 'shop', { gitBranch: 'main' }));
+    sm.registerAgent(makeAgent('s1', 'shop-agent'));
+    search = createSearch(sm, noRedaction);
+  });
+
+  afterEach(() => {
+    search.close();
+  });
+
+  it('labels hits with the current session and agent names', () => {
+    search.index.add(makeDoc('a', 'ran the migration', { sessionId: 's1', agentId: 's1', agentName: 'old-name', timestamp: 10 }));
+    const results = search.search('migration');
+    expect(results).toEqual({
+      query: 'migration',
+      total: 1,
+      hits: [{
+        kind: 'reply',
+        sessionId: 's1',
+        agentId: 's1',
+        agentName: 'shop-agent',
+        projectName: 'shop',
+        gitBranch: 'main',
+        snippet: 'ran the migration',
+        timestamp: 10,
+        live: true,
+      }],
+    });
+  });
+
+  it('keeps the indexed names for sessions no longer tracked', () => {
+    search.index.add(makeDoc('a', 'ran the migration', { sessionId: 'gone', agentId: 'gone', agentName: 'night-owl', projectName: 'shop' }));
+    expect(search.search('migration').hits[0]).toMatchObject({ agentName: 'night-owl', projectName: 'shop', live: false });
+  });
+
+  it('limits hits but reports the total', () => {
+    for (let i = 0; i < 5; i++) search.index.add(makeDoc(`d${i}`, 'deploy', { timestamp: i }));
+    const results = search.search('deploy', { limit: 2 });
+    expect(results.total).toBe(5);
+    expect(results.hits.map((h) => h.timestamp)).toEqual([4, 3]);
+  });
+
+  it('indexes messages under the sender\'s session', () => {
+    sm.addMessage({ id: 'm1', from: 'shop-agent', to: 'lead', content: 'Migration finished', timestamp: 20 });
+    sm.addMessage({ id: 'm2', from: 'stranger', to: 'lead', content: 'Migration elsewhere', timestamp: 21 });
+    const hits = search.search('migration').hits;
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ kind: 'message', sessionId: 's1', agentName: 'shop-agent', detail: 'lead' });
+  });
+});
@@ -1,9 +1,16 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { spawn, type ChildProcess } from 'child_process';
 import path from 'path';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import WebSocket from 'ws';
 
 let serverProcess: ChildProcess;
 const PORT = 3098;
+/** Keep the spawned server's event log out of the real data dir */
+const dataDir = mkdtempSync(path.join(tmpdir(), 'avt-security-'));
+const TOKEN = 'test-token';
+const HOOK_HEADERS = { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` };
 
 beforeAll(async () => {
   const serverDir = path.resolve(__dirname, '../../');
@@ -12,7 +19,7 @@ beforeAll(async () => {
   // We use 'npx tsx' to ensure we use the local tsx version
   serverProcess = spawn('npx', ['tsx', 'src/index.ts'], {
     cwd: serverDir,
-    env: { ...process.env, PORT: PORT.toString() },
+    env: { ...process.env, PORT: PORT.toString(), AGENT_VIEWER_DATA_DIR: dataDir, AGENT_VIEWER_TOKEN: TOKEN },
     stdio: 'pipe',
   });
 
@@ -45,13 +52,14 @@ afterAll(() => {
   if (serverProcess) {
     serverProcess.kill();
   }
+  rmSync(dataDir, { recursive: true, force: true });
 });
 
 describe('Security: /api/hook Input Validation', () => {
   it('accepts valid hook event', async () => {
     const res = await fetch(`http://127.0.0.1:${PORT}/api/hook`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: HOOK_HEADERS,
       body: JSON.stringify({
         hook_event_name: 'SessionStart',
         session_id: 'test-session-valid',
@@ -66,7 +74,7 @@ describe('Security: /api/hook Input Validation', () => {
   it('rejects event with missing hook_event_name', async () => {
     const res = await fetch(`http://127.0.0.1:${PORT}/api/hook`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: HOOK_HEADERS,
       body: JSON.stringify({
         session_id: 'test-session-missing-event',
       }),
@@ -78,7 +86,7 @@ describe('Security: /api/hook Input Validation', () => {
   it('rejects event with non-string session_id', async () => {
     const res = await fetch(`http://127.0.0.1:${PORT}/api/hook`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: HOOK_HEADERS,
       body: JSON.stringify({
         hook_event_name: 'SessionStart',
         session_id: { malicious: 'object' },
@@ -91,7 +99,7 @@ describe('Security: /api/hook Input Validation', () => {
   it('rejects event with non-string cwd', async () => {
     const res = await fetch(`http://127.0.0.1:${PORT}/api/hook`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: HOOK_HEADERS,
       body: JSON.stringify({
         hook_event_name: 'PreToolUse',
         session_id: 'test-session-cwd',
@@ -105,7 +113,7 @@ describe('Security: /api/hook Input Validation', () => {
   it('rejects event with unknown hook_event_name', async () => {
       const res = await fetch(`http://127.0.0.1:${PORT}/api/hook`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: HOOK_HEADERS,
         body: JSON.stringify({
           hook_event_name: 'UnknownEvent',
           session_id: 'test-session-unknown',
@@ -138,3 +146,47 @@ describe('Security: CORS and CSWSH Protection', () => {
     expect(res.headers.get('access-control-allow-origin')).toBeNull();
   });
 });
+
+/** Resolves with 'open:<selected subprotocol>', or the HTTP status the handshake was refused with */
+function wsHandshake(url: string, protocols?: string[]): Promise<string | number> {
+  return new Promise((resolve) => {
+    const ws = new WebSocket(url, protocols);
+    ws.on('open', () => {
+      resolve(`open:${ws.protocol}`);
+      ws.close();
+    });
+    ws.on('unexpected-response', (_req, res) => {
+      resolve(res.statusCode ?? 0);
+      ws.terminate();
+    });
+    ws.on('error', () => {});
+  });
+}
+
+describe('Security: auth token', () => {
+  it('rejects hook events without the token', async () => {
+    const body = JSON.stringify({ hook_event_name: 'SessionStart', session_id: 'test-session-forged' });
+    const missing = await fetch(`http://127.0.0.1:${PORT}/api/hook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+    expect(missing.status).toBe(401);
+    const wrong = await fetch(`http://127.0.0.1:${PORT}/api/hook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body,
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('rejects WebSocket clients without the token', async () => {
+    expect(await wsHandshake(`ws://127.0.0.1:${PORT}/ws`)).toBe(401);
+    expect(await wsHandshake(`ws://127.0.0.1:${PORT}/ws?token=wrong`)).toBe(401);
+  });
+
+  it('accepts the token as a subprotocol or query parameter', async () => {
+    expect(await wsHandshake(`ws://127.0.0.1:${PORT}/ws`, ['agent-viewer', `agent-viewer-token.${TOKEN}`])).toBe('open:agent-viewer');
+    expect(await wsHandshake(`ws://127.0.0.1:${PORT}/ws?token=${TOKEN}`)).toBe('open:');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StateManager } from '../state';
+import { openSessionFeed } from '../sessionFeed';
+import type { FeedClient } from '../sessionFeed';
+import type { AgentState, WSMessage } from '@agent-viewer/shared';
+
+function agent(id: string): AgentState {
+  return { id, name: id, role: 'implementer', status: 'idle', tasksCompleted: 0 };
+}
+
+function addSoloSession(sm: StateManager, sessionId: string) {
+  sm.registerAgent(agent(sessionId));
+  sm.addSession({ sessionId, slug: sessionId, projectPath: `/${sessionId}`, projectName: sessionId, isTeam: false, lastActivity: Date.now() });
+}
+
+describe('openSessionFeed', () => {
+  let sm: StateManager;
+  let sent: WSMessage[];
+  let client: FeedClient;
+
+  beforeEach(() => {
+    sm = new StateManager();
+    addSoloSession(sm, 's1');
+    addSoloSession(sm, 's2');
+    sent = [];
+    client = { selectedSessionId: 's1' };
+  });
+
+  it('sends the selected session as a snapshot', () => {
+    openSessionFeed(sm, client, (msg) => sent.push(msg)).sendSnapshot();
+    expect(sent.map((m) => m.type)).toEqual(['full_state', 'sessions_list', 'sessions_grouped']);
+    const state = sent[0].type === 'full_state' ? sent[0].data : undefined;
+    expect(state?.session?.sessionId).toBe('s1');
+  });
+
+  it('forwards agent updates only for the selected session', () => {
+    openSessionFeed(sm, client, (msg) => sent.push(msg));
+    sm.updateAgentActivityById('s2', 'done');
+    expect(sent.filter((m) => m.type === 'agent_update')).toEqual([]);
+
+    sm.updateAgentActivityById('s1', 'done');
+    expect(sent.filter((m) => m.type === 'agent_update').map((m) => m.data)).toContainEqual(expect.objectContaining({ id: 's1' }));
+  });
+
+  it('follows a changed selection and stops after close', () => {
+    const feed = openSessionFeed(sm, client, (msg) => sent.push(msg));
+    client.selectedSessionId = 's2';
+    sm.updateAgentActivityById('s2', 'done');
+    expect(sent.some((m) => m.type === 'agent_update')).toBe(true);
+
+    feed.close();
+    sent = [];
+    sm.updateAgentActivityById('s2', 'idle');
+    expect(sent).toEqual([]);
+  });
+});
+
+describe('openSessionFeed with a share scope', () => {
+  let sm: StateManager;
+  let sent: WSMessage[];
+
+  beforeEach(() => {
+    sm = new StateManager();
+    addSoloSession(sm, 's1');
+    addSoloSession(sm, 's2');
+    sent = [];
+  });
+
+  it('only lists and selects sessions in scope', () => {
+    const client: FeedClient = { scope: { type: 'session', sessionId: 's2' } };
+    const feed = openSessionFeed(sm, client, (msg) => sent.push(msg));
+    feed.sendSnapshot();
+
+    expect(client.selectedSessionId).toBe('s2');
+    const list = sent.find((m) => m.type === 'sessions_list');
+    expect(list?.type === 'sessions_list' && list.data.map((s) => s.sessionId)).toEqual(['s2']);
+    expect(feed.canView('s2')).toBe(true);
+    expect(feed.canView('s1')).toBe(false);
+  });
+
+  it('withholds messages between agents outside the scope', () => {
+    const client: FeedClient = { scope: { type: 'session', sessionId: 's1' } };
+    openSessionFeed(sm, client, (msg) => sent.push(msg)).sendSnapshot();
+    sent = [];
+
+    sm.addMessage({ id: 'm1', from: 's2', to: 'someone', content: 'secret', timestamp: 1 });
+    sm.addMessage({ id: 'm2', from: 's1', to: 'someone', content: 'hello', timestamp: 2 });
+    expect(sent.filter((m) => m.type === 'new_message').map((m) => m.data)).toEqual([expect.objectContaining({ id: 'm2' })]);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { StateManager } from '../state';
 import { startStalenessChecker } from '../watcher/stalenessChecker';
+import { StuckDetector } from '../watcher/stuckDetector';
+import { UsageLedger } from '../usage';
 import { SESSION_EXPIRY_S, IDLE_THRESHOLD_S, STALENESS_CHECK_INTERVAL_MS } from '../watcher/types';
 import type { WatcherContext, TrackedSession } from '../watcher/types';
 import type { AgentState, SessionInfo } from '@agent-viewer/shared';
@@ -48,6 +50,8 @@ function makeContext(stateManager: StateManager): WatcherContext {
     registeredSessions: new Set(),
     registeredSubagents: new Set(),
     trackedSessions: new Map(),
+    usage: new UsageLedger({}),
+    stuck: new StuckDetector(),
   };
 }
 
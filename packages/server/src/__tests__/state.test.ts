@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { StateManager } from '../state';
+import { StateManager, teamSessionId, teamAgentId } from '../state';
+import { DEFAULT_ROOT_NAME } from '../watcher/roots';
 import type { SessionInfo, AgentState, WSMessage } from '@agent-viewer/shared';
 
 function makeSession(id: string, projectName: string, overrides?: Partial<SessionInfo>): SessionInfo {
@@ -1157,6 +1158,32 @@ describe('StateManager', () => {
     });
   });
 
+  describe('findSessionIdForAgent', () => {
+    it('follows agents and sessions as they come and go', () => {
+      sm.registerAgent(makeAgent('s1', 'agent-a'));
+      expect(sm.findSessionIdForAgent('s1')).toBeUndefined();
+
+      sm.addSession(makeSession('s1', 'project-a'));
+      expect(sm.findSessionIdForAgent('s1')).toBe('s1');
+
+      sm.registerAgent(makeAgent('sub-1', 'helper', { isSubagent: true, parentAgentId: 's1' }));
+      expect(sm.findSessionIdForAgent('sub-1')).toBe('s1');
+
+      sm.removeAgent('sub-1');
+      expect(sm.findSessionIdForAgent('sub-1')).toBeUndefined();
+
+      sm.removeSession('s1');
+      expect(sm.findSessionIdForAgent('s1')).toBeUndefined();
+    });
+
+    it('places team members in their team session', () => {
+      sm.addSession(makeSession('team:crew', 'project-a', { isTeam: true, teamName: 'crew' }));
+      sm.registerAgent(makeAgent('dev@crew', 'dev', { teamName: 'crew' }));
+      expect(sm.findSessionIdForAgent('dev@crew')).toBe('team:crew');
+      expect(sm.findSessionIdForAgentName('dev')).toBe('team:crew');
+    });
+  });
+
   describe('updateSessionActivity', () => {
     it('updates session lastActivity timestamp', () => {
       const session = makeSession('s1', 'project-a', { lastActivity: 1000 });
@@ -1682,6 +1709,36 @@ describe('StateManager', () => {
       expect(ids).toContain('agent-lead');
     });
 
+    it('keeps same-named teams from different watch roots apart', () => {
+      for (const root of [DEFAULT_ROOT_NAME, 'devbox']) {
+        sm.addSession(makeSession(teamSessionId(root, 'crew'), 'project', { isTeam: true, teamName: 'crew', sourceRoot: root }));
+        sm.registerAgent(makeAgent(teamAgentId(root, 'dev@crew'), 'dev', { teamName: 'crew', sourceRoot: root }));
+        sm.updateTask({ id: '1', subject: `${root} task`, status: 'in_progress', owner: 'dev', blockedBy: [], blocks: [], teamName: 'crew', sourceRoot: root });
+      }
+
+      const home = sm.getStateForSession('team:crew');
+      const devbox = sm.getStateForSession('team:devbox:crew');
+      expect(home.agents.map((a) => a.id)).toEqual(['dev@crew']);
+      expect(devbox.agents.map((a) => a.id)).toEqual(['devbox:dev@crew']);
+      expect(home.tasks.map((t) => t.subject)).toEqual([`${DEFAULT_ROOT_NAME} task`]);
+      expect(devbox.tasks.map((t) => t.subject)).toEqual(['devbox task']);
+
+      sm.removeTask('1', { teamName: 'crew', sourceRoot: 'devbox' });
+      expect(sm.getStateForSession('team:crew').tasks).toHaveLength(1);
+      expect(sm.getStateForSession('team:devbox:crew').tasks).toHaveLength(0);
+    });
+
+    it('keeps pre-root IDs for the default root\'s teams', () => {
+      expect(teamSessionId(DEFAULT_ROOT_NAME, 'crew')).toBe('team:crew');
+      expect(teamSessionId(undefined, 'crew')).toBe('team:crew');
+      expect(teamAgentId(DEFAULT_ROOT_NAME, 'dev@crew')).toBe('dev@crew');
+
+      // A team session restored from before roots existed still finds its re-registered members
+      sm.addSession(makeSession('team:crew', 'project', { isTeam: true, teamName: 'crew' }));
+      sm.registerAgent(makeAgent('dev@crew', 'dev', { teamName: 'crew', sourceRoot: DEFAULT_ROOT_NAME }));
+      expect(sm.getStateForSession('team:crew').agents.map((a) => a.id)).toEqual(['dev@crew']);
+    });
+
     it('falls back to default state for unknown session', () => {
       sm.registerAgent(makeAgent('s1', 'agent-a'));
       sm.addSession(makeSession('s1', 'project-a'));
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StateManager } from '../state';
+import { buildStatusReport, findSessionForDirectory } from '../statusReport';
+import type { AgentState, SessionInfo } from '@agent-viewer/shared';
+
+function agent(id: string, overrides: Partial<AgentState> = {}): AgentState {
+  return { id, name: id, role: 'implementer', status: 'idle', tasksCompleted: 0, ...overrides };
+}
+
+function addSession(sm: StateManager, sessionId: string, info: Partial<SessionInfo>, overrides: Partial<AgentState> = {}) {
+  sm.registerAgent(agent(sessionId, overrides));
+  sm.addSession({ sessionId, slug: sessionId, projectPath: `/${sessionId}`, projectName: sessionId, isTeam: false, lastActivity: 0, ...info });
+}
+
+describe('findSessionForDirectory', () => {
+  let sm: StateManager;
+
+  beforeEach(() => {
+    sm = new StateManager();
+    addSession(sm, 'main', { projectPath: '/src/app', projectName: 'app', lastActivity: 2 });
+    addSession(sm, 'tree', { projectPath: '/src/app-feature', projectName: 'app', mainRepoPath: '/src/app', gitWorktree: '/src/app-feature', lastActivity: 1 });
+    addSession(sm, 'other', { projectPath: '/src/other', projectName: 'other', lastActivity: 3 });
+  });
+
+  it('matches the project containing the directory', () => {
+    expect(findSessionForDirectory(sm, '/src/app/packages/server')?.sessionId).toBe('main');
+    expect(findSessionForDirectory(sm, '/src/other')?.sessionId).toBe('other');
+    expect(findSessionForDirectory(sm, '/src/application')).toBeUndefined();
+    expect(findSessionForDirectory(sm, '/elsewhere')).toBeUndefined();
+  });
+
+  it('prefers the worktree a directory is in over its main repo', () => {
+    expect(findSessionForDirectory(sm, '/src/app-feature/src')?.sessionId).toBe('tree');
+  });
+
+  it('prefers a session with an agent waiting, then the most recent', () => {
+    addSession(sm, 'older', { projectPath: '/src/other', projectName: 'other', lastActivity: 1 });
+    expect(findSessionForDirectory(sm, '/src/other')?.sessionId).toBe('other');
+    sm.setAgentWaitingById('older', true, 'Bash: npm test', undefined, 'permission');
+    expect(findSessionForDirectory(sm, '/src/other')?.sessionId).toBe('older');
+  });
+});
+
+describe('buildStatusReport', () => {
+  it('counts agents across sessions and describes the current one', () => {
+    const sm = new StateManager();
+    addSession(sm, 's1', { projectPath: '/src/app', projectName: 'app', gitBranch: 'main' });
+    addSession(sm, 's2', { projectPath: '/src/other', projectName: 'other' });
+    sm.setAgentWaitingById('s1', true, 'Bash: npm test', undefined, 'permission');
+    sm.updateAgentActivityById('s2', 'working', 'Editing index.ts');
+
+    expect(buildStatusReport(sm, '/src/app', 5)).toEqual({
+      version: 1,
+      waitingCount: 1,
+      workingCount: 1,
+      session: {
+        sessionId: 's1',
+        projectName: 'app',
+        projectPath: '/src/app',
+        gitBranch: 'main',
+        waitingCount: 1,
+        workingCount: 0,
+        waitingAgent: 's1',
+        currentAction: 'Bash: npm test',
+      },
+      timestamp: 5,
+    });
+    expect(buildStatusReport(sm, undefined, 5).session).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseSinkNames, summarizeAgents, barStatus, trayProperties, NotifySendSink } from '../statusSinks';
+import { BarSink } from '../statusSinks/bar';
+import type { AgentStatusSummary } from '../statusSinks';
+import type { AgentState } from '@agent-viewer/shared';
+
+function agent(id: string, overrides: Partial<AgentState> = {}): AgentState {
+  return { id, name: id, role: 'implementer', status: 'idle', tasksCompleted: 0, ...overrides };
+}
+
+function summary(overrides: Partial<AgentStatusSummary> = {}): AgentStatusSummary {
+  return { waiting: [], workingCount: 0, agentCount: 3, timestamp: 0, ...overrides };
+}
+
+const waitingAlpha = { id: 'a1', name: 'alpha', action: 'Bash: npm test', waitingType: 'permission' };
+
+describe('parseSinkNames', () => {
+  it('falls back to the platform defaults', () => {
+    expect(parseSinkNames(undefined, 'linux')).toEqual(['status-file', 'notify-send', 'bar']);
+    expect(parseSinkNames('', 'darwin')).toEqual(['status-file', 'touchbar']);
+    expect(parseSinkNames(undefined, 'win32')).toEqual(['status-file']);
+  });
+
+  it('takes an explicit list, skipping unknown names', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseSinkNames('bar, tray,blinkenlights', 'linux')).toEqual(['bar', 'tray']);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('turns everything off with "none"', () => {
+    expect(parseSinkNames('none', 'linux')).toEqual([]);
+  });
+});
+
+describe('summarizeAgents', () => {
+  it('lists waiting agents and counts the working ones', () => {
+    const agents = new Map([
+      ['a1', agent('a1', { name: 'alpha', status: 'working', waitingForInput: true, currentAction: 'Bash: npm test', waitingType: 'permission' })],
+      ['a2', agent('a2', { status: 'working' })],
+      ['a3', agent('a3')],
+    ]);
+    expect(summarizeAgents(agents, 5)).toEqual({
+      waiting: [waitingAlpha],
+      workingCount: 1,
+      agentCount: 3,
+      timestamp: 5,
+    });
+  });
+});
+
+describe('barStatus', () => {
+  it('names a single waiting agent and lists actions in the tooltip', () => {
+    expect(barStatus(summary({ waiting: [waitingAlpha], workingCount: 1 }))).toEqual({
+      text: '⚠ alpha waiting',
+      tooltip: 'alpha: Bash: npm test',
+      class: 'waiting',
+      alt: 'waiting',
+      full_text: '⚠ alpha waiting',
+      short_text: '⚠ 1',
+      color: '#FF5555',
+    });
+  });
+
+  it('counts several waiting agents', () => {
+    const status = barStatus(summary({ waiting: [waitingAlpha, { ...waitingAlpha, id: 'a2', name: 'beta' }] }));
+    expect(status.text).toBe('⚠ 2 waiting');
+    expect(status.tooltip).toBe('alpha: Bash: npm test\nbeta: Bash: npm test');
+  });
+
+  it('shows working and idle states', () => {
+    expect(barStatus(summary({ workingCount: 2 }))).toMatchObject({ text: '⚙ 2 working', class: 'working', tooltip: '2 of 3 agents working' });
+    expect(barStatus(summary())).toMatchObject({ text: '✓ idle', class: 'idle' });
+  });
+});
+
+describe('BarSink', () => {
+  it('leaves the latest status in place when updates overlap', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bar-sink-'));
+    const sink = new BarSink(join(dir, 'status.json'));
+    try {
+      await Promise.all([
+        sink.update(summary({ workingCount: 1 })),
+        sink.update(summary({ waiting: [waitingAlpha] })),
+        sink.clear(),
+        sink.update(summary({ workingCount: 2 })),
+      ]);
+      expect(JSON.parse(readFileSync(join(dir, 'status.json'), 'utf8')).text).toBe('⚙ 2 working');
+      expect(readdirSync(dir)).toEqual(['status.json']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('trayProperties', () => {
+  it('asks for attention with a warning icon while agents wait', () => {
+    expect(trayProperties(summary({ waiting: [waitingAlpha, { ...waitingAlpha, id: 'a2', name: 'beta' }] }))).toEqual({
+      Status: 'NeedsAttention',
+      IconName: 'dialog-warning',
+      ToolTip: ['', [], '⚠ 2 waiting', 'alpha: Bash: npm test\nbeta: Bash: npm test'],
+    });
+    expect(trayProperties(summary()).Status).toBe('Active');
+  });
+});
+
+describe('NotifySendSink', () => {
+  it('notifies once when an agent starts waiting, and again after it stops', async () => {
+    const run = vi.fn(async () => {});
+    const sink = new NotifySendSink(run);
+
+    await sink.update(summary({ waiting: [waitingAlpha] }));
+    await sink.update(summary({ waiting: [waitingAlpha], workingCount: 1 }));
+    expect(run).toHaveBeenCalledOnce();
+    expect(run).toHaveBeenCalledWith('notify-send', expect.arrayContaining(['alpha needs input', 'Bash: npm test']));
+
+    await sink.update(summary());
+    await sink.update(summary({ waiting: [waitingAlpha] }));
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops trying when notify-send is not installed', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const run = vi.fn(async () => {
+      throw Object.assign(new Error('spawn notify-send ENOENT'), { code: 'ENOENT' });
+    });
+    const sink = new NotifySendSink(run);
+
+    await sink.update(summary({ waiting: [waitingAlpha] }));
+    await sink.update(summary({ waiting: [waitingAlpha, { ...waitingAlpha, id: 'a2', name: 'beta' }] }));
+    expect(run).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync, statSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { StateManager } from '../state';
+import { createHookHandler } from '../hooks';
+import { createRedactor, DEFAULT_REDACTION_PATTERNS } from '../state/redaction';
+import { EventStore, createPersistence } from '../store';
+import { Inbox } from '../inbox';
+import type { StoredEvent, StoredHookEvent } from '../store';
+import { READ_CHUNK_BYTES } from '../store/types';
+import type { AgentState, SessionInfo } from '@agent-viewer/shared';
+
+function makeSession(id: string, overrides?: Partial<SessionInfo>): SessionInfo {
+  return {
+    sessionId: id,
+    slug: `slug-${id}`,
+    projectPath: '/home/user/project',
+    projectName: 'project',
+    isTeam: false,
+    lastActivity: Date.now(),
+    ...overrides,
+  };
+}
+
+function makeAgent(id: string, overrides?: Partial<AgentState>): AgentState {
+  return {
+    id,
+    name: `agent-${id}`,
+    role: 'implementer',
+    status: 'idle',
+    tasksCompleted: 0,
+    ...overrides,
+  };
+}
+
+const redact = createRedactor(DEFAULT_REDACTION_PATTERNS);
+
+function readEvents(store: EventStore): (StoredEvent | StoredHookEvent)[] {
+  return readFileSync(store.eventsPath, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe('EventStore', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'avt-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('buffers appends until flushed', () => {
+    const store = new EventStore(dataDir);
+    store.append({ ts: 1, kind: 'hook', sessionId: 's1', event: { session_id: 's1', hook_event_name: 'Stop' } });
+
+    expect(existsSync(store.eventsPath)).toBe(false);
+    store.flush();
+
+    const events = readEvents(store);
+    expect(events).toHaveLength(1);
+    expect(events[0].kind).toBe('hook');
+  });
+
+  it('keeps the data dir and its files private to the owner', () => {
+    const store = new EventStore(join(dataDir, 'data'));
+    store.append({ ts: 1, kind: 'state', msg: { type: 'agent_removed', data: { id: 'a' } } });
+    store.flush();
+    store.writeSnapshot({ agents: [], sessions: [], messages: [] });
+
+    expect(statSync(store.dataDir).mode & 0o777).toBe(0o700);
+    expect(statSync(store.eventsPath).mode & 0o777).toBe(0o600);
+    expect(statSync(store.snapshotPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('tightens log files left readable by older versions', () => {
+    const eventsPath = join(dataDir, 'events.jsonl');
+    writeFileSync(eventsPath, '', { mode: 0o644 });
+    new EventStore(dataDir);
+    expect(statSync(eventsPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('reads back only state records', () => {
+    const store = new EventStore(dataDir);
+    writeFileSync(store.eventsPath, [
+      JSON.stringify({ ts: 1, kind: 'hook', sessionId: 's1', event: { session_id: 's1', hook_event_name: 'Stop' } }),
+      JSON.stringify({ ts: 2, kind: 'state', msg: { type: 'agent_removed', data: { id: 'a' } } }),
+    ].join('\n') + '\n');
+
+    expect(store.readEvents(['s1']).map((e) => e.ts)).toEqual([2]);
+  });
+
+  it('reads back only the sessions asked for, plus records of no session', () => {
+    const store = new EventStore(dataDir);
+    store.append({ ts: 1, kind: 'state', sessionId: 's1', msg: { type: 'session_ended', data: { sessionId: 's1' } } });
+    store.append({ ts: 2, kind: 'state', sessionId: 's2', msg: { type: 'session_ended', data: { sessionId: 's2' } } });
+    // Larger than one read chunk
+    store.append({ ts: 3, kind: 'hook', sessionId: 's1', event: { session_id: 's1', hook_event_name: 'UserPromptSubmit', prompt: 'x'.repeat(READ_CHUNK_BYTES * 2) } });
+    store.append({ ts: 4, kind: 'state', msg: { type: 'agent_removed', data: { id: 'a' } } });
+
+    expect(store.readEvents(['s1']).map((e) => e.ts)).toEqual([1, 4]);
+    expect(store.readEvents(['s2', 's1']).map((e) => e.ts)).toEqual([1, 2, 4]);
+  });
+
+  it('rotates the log past the size limit', () => {
+    const store = new EventStore(dataDir, 100);
+    for (let i = 0; i < 5; i++) {
+      store.append({ ts: i, kind: 'state', msg: { type: 'agent_removed', data: { id: `agent-${i}` } } });
+    }
+    store.flush();
+
+    expect(existsSync(store.rotatedEventsPath)).toBe(true);
+    expect(existsSync(store.eventsPath)).toBe(false);
+  });
+
+  it('reads back events across rotation, parsing only new lines', () => {
+    const store = new EventStore(dataDir, 200);
+    store.append({ ts: 1, kind: 'state', msg: { type: 'agent_removed', data: { id: 'a' } } });
+    expect(store.readEvents(['s1']).map((e) => e.ts)).toEqual([1]);
+
+    store.append({ ts: 2, kind: 'state', msg: { type: 'agent_removed', data: { id: 'b' } } });
+    expect(store.readEvents(['s1']).map((e) => e.ts)).toEqual([1, 2]);
+
+    // Push the log past the limit so it rotates, then keep writing
+    for (let i = 3; i <= 6; i++) {
+      store.append({ ts: i, kind: 'state', msg: { type: 'agent_removed', data: { id: `agent-${i}` } } });
+    }
+    store.flush();
+    store.append({ ts: 7, kind: 'state', msg: { type: 'agent_removed', data: { id: 'c' } } });
+    expect(store.readEvents(['s1']).map((e) => e.ts)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('round-trips a snapshot and rejects corrupt files', () => {
+    const store = new EventStore(dataDir);
+    expect(store.readSnapshot()).toBeUndefined();
+
+    store.writeSnapshot({ agents: [makeAgent('a1')], sessions: [], messages: [] });
+    expect(store.readSnapshot()?.agents[0].id).toBe('a1');
+
+    writeFileSync(store.snapshotPath, '{not json');
+    expect(store.readSnapshot()).toBeUndefined();
+  });
+});
+
+describe('Persistence', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    dataDir = mkdtempSync(join(tmpdir(), 'avt-persist-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('records state transitions with their session and hook events', () => {
+    const sm = new StateManager();
+    const persistence = createPersistence(sm, redact, new EventStore(dataDir));
+
+    sm.registerAgent(makeAgent('sess-1'));
+    sm.addSession(makeSession('sess-1'));
+    sm.setAgentWaitingById('sess-1', true, 'Waiting for input', undefined, 'question');
+    persistence.recordHookEvent({ session_id: 'sess-1', hook_event_name: 'Stop' });
+    persistence.close();
+
+    const events = readEvents(persistence.store);
+    expect(events.some((e) => e.kind === 'state' && e.msg.type === 'session_started')).toBe(true);
+    const update = events.find((e) => e.kind === 'state' && e.msg.type === 'agent_update');
+    expect(update?.sessionId).toBe('sess-1');
+    expect(events.some((e) => e.kind === 'hook')).toBe(true);
+    // Derived views are not recorded
+    expect(events.some((e) => e.kind === 'state' && e.msg.type === 'sessions_update')).toBe(false);
+  });
+
+  it('records tasks and messages under their agent\'s session', () => {
+    const sm = new StateManager();
+    const persistence = createPersistence(sm, redact, new EventStore(dataDir));
+
+    sm.registerAgent(makeAgent('sess-1'));
+    sm.addSession(makeSession('sess-1'));
+    sm.addMessage({ id: 'm1', from: 'agent-sess-1', to: 'lead', content: 'hi', timestamp: Date.now() });
+    sm.addMessage({ id: 'm2', from: 'stranger', to: 'lead', content: 'hi', timestamp: Date.now() });
+    sm.updateTask({ id: '1', subject: 'ours', status: 'in_progress', owner: 'agent-sess-1', blockedBy: [], blocks: [] });
+    persistence.close();
+
+    const sessionOf = (type: string, id: string) => readEvents(persistence.store)
+      .find((e) => e.kind === 'state' && e.msg.type === type && 'id' in e.msg.data && e.msg.data.id === id)?.sessionId;
+    expect(sessionOf('new_message', 'm1')).toBe('sess-1');
+    expect(sessionOf('new_message', 'm2')).toBeUndefined();
+    expect(sessionOf('task_update', '1')).toBe('sess-1');
+  });
+
+  it('never records secrets from hook events', () => {
+    const sm = new StateManager(createRedactor(DEFAULT_REDACTION_PATTERNS));
+    const persistence = createPersistence(sm, redact, new EventStore(dataDir));
+    const handler = createHookHandler(sm);
+
+    sm.registerAgent(makeAgent('sess-1'));
+    sm.addSession(makeSession('sess-1'));
+    const event = {
+      session_id: 'sess-1',
+      hook_event_name: 'PreToolUse',
+      tool_name: 'Bash',
+      tool_input: { command: 'curl -H "Authorization: Bearer abc123def456" https://api.example.com' },
+    };
+    persistence.recordHookEvent(event);
+    handler.handleEvent(event);
+    vi.runAllTimers();
+    persistence.close();
+
+    const log = readFileSync(join(dataDir, 'events.jsonl'), 'utf-8');
+    expect(log).toContain('[REDACTED]');
+    expect(log).not.toContain('abc123def456');
+  });
+
+  it('restores agents, sessions and messages after a restart', () => {
+    const before = new StateManager();
+    const first = createPersistence(before, redact, new EventStore(dataDir));
+    before.registerAgent(makeAgent('sess-1', { tasksCompleted: 7, waitingForInput: true, pendingPermissionId: 'req-1' }));
+    before.addSession(makeSession('sess-1'));
+    before.addMessage({ id: 'm1', from: 'lead', to: 'coder', content: 'hi', timestamp: Date.now() });
+    first.close();
+
+    const after = new StateManager();
+    createPersistence(after, redact, new EventStore(dataDir)).close();
+
+    const agent = after.getAgentById('sess-1');
+    expect(agent?.tasksCompleted).toBe(7);
+    expect(agent?.waitingForInput).toBe(true);
+    expect(agent?.pendingPermissionId).toBeUndefined();
+    expect(after.getSessions().has('sess-1')).toBe(true);
+    expect(after.getState().messages.map((m) => m.id)).toEqual(['m1']);
+    expect(after.getDefaultSessionId()).toBe('sess-1');
+  });
+
+  it('reopens inbox items for agents still waiting after a restart', () => {
+    const before = new StateManager();
+    const first = createPersistence(before, redact, new EventStore(dataDir));
+    before.registerAgent(makeAgent('sess-1'));
+    before.addSession(makeSession('sess-1'));
+    before.setAgentWaitingById('sess-1', true, 'Bash: npm test', undefined, 'permission');
+    first.close();
+
+    const after = new StateManager();
+    createPersistence(after, redact, new EventStore(dataDir)).close();
+    const inbox = new Inbox(after);
+
+    expect(inbox.list()).toHaveLength(1);
+    expect(inbox.list()[0]).toMatchObject({ agentId: 'sess-1', sessionId: 'sess-1', resolved: false });
+    inbox.close();
+  });
+
+  it('drops expired sessions and their agents on restore', () => {
+    const sm = new StateManager();
+    sm.restoreSnapshot({
+      agents: [makeAgent('old'), makeAgent('new')],
+      sessions: [
+        makeSession('old', { lastActivity: Date.now() - 2 * 3600_000 }),
+        makeSession('new'),
+      ],
+      messages: [],
+    }, 3600_000);
+
+    expect(sm.getSessions().has('old')).toBe(false);
+    expect(sm.getAgentById('old')).toBeUndefined();
+    expect(sm.getAgentById('new')).toBeDefined();
+  });
+
+  it('keeps evolution progress when the watcher re-registers a restored agent', () => {
+    const sm = new StateManager();
+    sm.restoreSnapshot({
+      agents: [makeAgent('sess-1', { tasksCompleted: 4 })],
+      sessions: [makeSession('sess-1')],
+      messages: [],
+    }, 3600_000);
+
+    sm.registerAgent(makeAgent('sess-1', { status: 'working' }));
+
+    const agent = sm.getAgentById('sess-1');
+    expect(agent?.status).toBe('working');
+    expect(agent?.tasksCompleted).toBe(4);
+  });
+});
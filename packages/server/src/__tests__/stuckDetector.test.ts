@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StuckDetector } from '../watcher/stuckDetector';
+import { STUCK_REPEAT_THRESHOLD, STUCK_BASH_FAILURE_THRESHOLD } from '../watcher/types';
+import { StateManager } from '../state';
+import { createHookHandler } from '../hooks';
+import type { AgentState } from '@agent-viewer/shared';
+
+function agent(overrides: Partial<AgentState> = {}): AgentState {
+  return { id: 'a1', name: 'alpha', role: 'implementer', status: 'working', tasksCompleted: 0, ...overrides };
+}
+
+describe('StuckDetector', () => {
+  let detector: StuckDetector;
+
+  beforeEach(() => {
+    detector = new StuckDetector(10 * 60_000);
+    detector.turnStarted('a1', 0);
+  });
+
+  it('flags the same tool call repeated in a row', () => {
+    for (let i = 0; i < STUCK_REPEAT_THRESHOLD - 1; i++) detector.toolStarted('a1', 'Read', { file_path: '/a.ts' }, 0);
+    expect(detector.evaluate(agent(), 0)).toBeUndefined();
+
+    detector.toolStarted('a1', 'Read', { file_path: '/a.ts' }, 1000);
+    expect(detector.evaluate(agent(), 1000)).toEqual({
+      reason: 'repeating',
+      detail: `Made the same Read call ${STUCK_REPEAT_THRESHOLD} times in a row`,
+      since: 1000,
+    });
+
+    detector.toolStarted('a1', 'Read', { file_path: '/b.ts' }, 2000);
+    expect(detector.evaluate(agent(), 2000)).toBeUndefined();
+  });
+
+  it('flags consecutive Bash failures until one succeeds', () => {
+    for (let i = 0; i < STUCK_BASH_FAILURE_THRESHOLD; i++) detector.toolFinished('a1', 'Bash', true, 0);
+    expect(detector.evaluate(agent(), 0)?.reason).toBe('failing');
+
+    detector.toolFinished('a1', 'Read', true, 0);
+    expect(detector.evaluate(agent(), 0)?.reason).toBe('failing');
+
+    detector.toolFinished('a1', 'Bash', false, 0);
+    expect(detector.evaluate(agent(), 0)).toBeUndefined();
+  });
+
+  it('flags a working agent with no completed tool call, keeping the first detection time', () => {
+    expect(detector.evaluate(agent(), 9 * 60_000)).toBeUndefined();
+    expect(detector.evaluate(agent(), 10 * 60_000)).toMatchObject({ reason: 'no_progress', since: 10 * 60_000 });
+    expect(detector.evaluate(agent(), 12 * 60_000)).toEqual({
+      reason: 'no_progress',
+      detail: 'No tool call has completed in 12 min',
+      since: 10 * 60_000,
+    });
+
+    detector.toolFinished('a1', 'Bash', false, 12 * 60_000);
+    expect(detector.evaluate(agent(), 13 * 60_000)).toBeUndefined();
+  });
+
+  it('does not count time spent waiting for the user', () => {
+    detector.evaluate(agent({ waitingForInput: true }), 30 * 60_000);
+    expect(detector.evaluate(agent(), 31 * 60_000)).toBeUndefined();
+  });
+
+  it('never flags idle or untracked agents and starts each turn clean', () => {
+    for (let i = 0; i < STUCK_REPEAT_THRESHOLD; i++) detector.toolStarted('a1', 'Grep', { pattern: 'x' }, 0);
+    expect(detector.evaluate(agent({ status: 'idle' }), 0)).toBeUndefined();
+    expect(detector.evaluate(agent({ id: 'other' }), 60 * 60_000)).toBeUndefined();
+
+    detector.turnStarted('a1', 0);
+    expect(detector.evaluate(agent(), 0)).toBeUndefined();
+  });
+});
+
+describe('stuck detection from hook events', () => {
+  let sm: StateManager;
+  let handler: ReturnType<typeof createHookHandler>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sm = new StateManager();
+    handler = createHookHandler(sm, { stuck: new StuckDetector() });
+    sm.registerAgent(agent({ id: 'sess-1' }));
+    sm.addSession({ sessionId: 'sess-1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: Date.now() });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function failBash(command: string) {
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'PreToolUse', tool_name: 'Bash', tool_input: { command } });
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'PostToolUseFailure', tool_name: 'Bash', tool_input: { command } });
+  }
+
+  it('marks the agent stuck after repeated Bash failures and clears it on the next prompt', () => {
+    failBash('npm test');
+    failBash('npm run test');
+    expect(sm.getAgentById('sess-1')?.stuck).toBeUndefined();
+
+    failBash('npx vitest');
+    expect(sm.getAgentById('sess-1')?.stuck).toMatchObject({ reason: 'failing', detail: '3 Bash commands failed in a row' });
+
+    handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'UserPromptSubmit' });
+    expect(sm.getAgentById('sess-1')?.stuck).toBeUndefined();
+  });
+
+  it('ignores interrupted calls', () => {
+    for (let i = 0; i < 3; i++) {
+      handler.handleEvent({ session_id: 'sess-1', hook_event_name: 'PostToolUseFailure', tool_name: 'Bash', is_interrupt: true });
+    }
+    expect(sm.getAgentById('sess-1')?.stuck).toBeUndefined();
+  });
+});
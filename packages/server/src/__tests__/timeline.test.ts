@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimeline } from '../store';
+import type { StoredEvent } from '../store';
+import type { AgentState, WSMessage } from '@agent-viewer/shared';
+
+function agent(id: string, overrides?: Partial<AgentState>): AgentState {
+  return { id, name: id, role: 'implementer', status: 'idle', tasksCompleted: 0, ...overrides };
+}
+
+function update(ts: number, data: AgentState, sessionId = 'sess-1'): StoredEvent {
+  return { ts, kind: 'state', sessionId, msg: { type: 'agent_update', data } };
+}
+
+function state(ts: number, msg: WSMessage): StoredEvent {
+  return { ts, kind: 'state', msg };
+}
+
+describe('buildTimeline', () => {
+  it('returns undefined for sessions with no recorded history', () => {
+    expect(buildTimeline([update(1000, agent('sess-1'))], 'missing')).toBeUndefined();
+  });
+
+  it('turns state transitions into phase spans', () => {
+    const records = [
+      update(1000, agent('sess-1')),
+      update(2000, agent('sess-1', { status: 'working', currentAction: 'Reading app.ts' })),
+      update(2500, agent('sess-1', { status: 'working', currentAction: 'Editing app.ts' })),
+      update(3000, agent('sess-1', { status: 'working', currentAction: 'Compacting conversation...' })),
+      update(4000, agent('sess-1', { status: 'working', waitingForInput: true })),
+      update(5000, agent('sess-1', { status: 'idle' })),
+    ];
+
+    const timeline = buildTimeline(records, 'sess-1', { until: 6000 })!;
+    expect(timeline.start).toBe(1000);
+    expect(timeline.end).toBe(6000);
+    expect(timeline.lanes[0].spans).toEqual([
+      { phase: 'idle', start: 1000, end: 2000 },
+      { phase: 'working', start: 2000, end: 3000 },
+      { phase: 'compacting', start: 3000, end: 4000 },
+      { phase: 'waiting', start: 4000, end: 5000 },
+      { phase: 'idle', start: 5000, end: 6000 },
+    ]);
+  });
+
+  it('ends open spans at the last recorded event without "until"', () => {
+    const timeline = buildTimeline([update(1000, agent('sess-1', { status: 'working' })), update(1500, agent('sess-1', { status: 'working' }))], 'sess-1')!;
+    expect(timeline.lanes[0].spans).toEqual([{ phase: 'working', start: 1000, end: 1500 }]);
+  });
+
+  it('ticks each new action once, skipping prompts and compaction', () => {
+    const first = [{ action: 'Processing prompt...', timestamp: 1100 }, { action: 'Reading app.ts', timestamp: 1200 }];
+    const records = [
+      update(1000, agent('sess-1')),
+      update(1300, agent('sess-1', { status: 'working', recentActions: first })),
+      update(1600, agent('sess-1', { status: 'working', recentActions: [...first, { action: 'Running npm test', timestamp: 1500 }] })),
+      update(1700, agent('sess-1', { status: 'idle', recentActions: [...first, { action: 'Running npm test', timestamp: 1500 }] })),
+    ];
+
+    expect(buildTimeline(records, 'sess-1')!.lanes[0].ticks).toEqual([
+      { at: 1200, action: 'Reading app.ts' },
+      { at: 1500, action: 'Running npm test' },
+    ]);
+  });
+
+  it('nests subagents under their parents and ends their lanes when removed', () => {
+    const records = [
+      update(1000, agent('sub-2', { isSubagent: true, parentAgentId: 'sub-1', status: 'working' })),
+      update(1000, agent('sess-1', { status: 'working' })),
+      update(1100, agent('sub-1', { isSubagent: true, parentAgentId: 'sess-1', status: 'working' })),
+      state(1500, { type: 'agent_removed', data: { id: 'sub-1' } }),
+      update(2000, agent('sess-1', { status: 'idle' })),
+    ];
+
+    const timeline = buildTimeline(records, 'sess-1')!;
+    expect(timeline.lanes.map((l) => [l.agentId, l.depth])).toEqual([['sess-1', 0], ['sub-1', 1], ['sub-2', 2]]);
+    expect(timeline.lanes[1].spans).toEqual([{ phase: 'working', start: 1100, end: 1500 }]);
+  });
+
+  it('marks where the lead sat idle while teammates worked', () => {
+    const records = [
+      update(1000, agent('dev@crew', { status: 'working' }), 'uuid-2'),
+      update(1000, agent('lead@crew', { role: 'lead', status: 'working' }), 'uuid-1'),
+      update(2000, agent('lead@crew', { role: 'lead', status: 'idle' }), 'uuid-1'),
+      update(4000, agent('dev@crew', { status: 'idle' }), 'uuid-2'),
+      update(5000, agent('lead@crew', { role: 'lead', status: 'working' }), 'uuid-1'),
+    ];
+
+    const timeline = buildTimeline(records, 'uuid-1', { relatedSessionIds: ['uuid-2'], until: 6000 })!;
+    expect(timeline.lanes.map((l) => l.agentId)).toEqual(['lead@crew', 'dev@crew']);
+    expect(timeline.lanes[0].spans).toEqual([
+      { phase: 'working', start: 1000, end: 2000 },
+      { phase: 'waiting_on_team', start: 2000, end: 4000 },
+      { phase: 'idle', start: 4000, end: 5000 },
+      { phase: 'working', start: 5000, end: 6000 },
+    ]);
+  });
+
+  it('ignores other sessions and closes lanes when the session ends', () => {
+    const records = [
+      update(1000, agent('sess-1', { status: 'working' })),
+      update(1200, agent('other', { status: 'working' }), 'sess-2'),
+      state(1500, { type: 'session_ended', data: { sessionId: 'sess-1' } }),
+    ];
+
+    const timeline = buildTimeline(records, 'sess-1', { until: 3000 })!;
+    expect(timeline.lanes.map((l) => l.agentId)).toEqual(['sess-1']);
+    expect(timeline.lanes[0].spans).toEqual([{ phase: 'working', start: 1000, end: 1500 }]);
+  });
+});
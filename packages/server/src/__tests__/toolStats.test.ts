@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ToolStatsRecorder, percentile, forgetRemovedAgents, MAX_SAMPLES_PER_TOOL } from '../toolStats';
+import { StateManager } from '../state';
+import { createHookHandler } from '../hooks';
+import type { AgentState } from '@agent-viewer/shared';
+
+function agent(id: string, name = id): AgentState {
+  return { id, name, role: 'implementer', status: 'idle', tasksCompleted: 0 };
+}
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(100);
+    expect(percentile([7], 95)).toBe(7);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('ToolStatsRecorder', () => {
+  let stats: ToolStatsRecorder;
+
+  beforeEach(() => {
+    stats = new ToolStatsRecorder();
+  });
+
+  it('aggregates count, failures, percentiles and total per tool', () => {
+    stats.record('a1', 'Bash', 1000, false);
+    stats.record('a1', 'Bash', 3000, true);
+    stats.record('a1', 'Read', 5, false);
+
+    expect(stats.statsFor(['a1'])).toEqual([
+      { toolName: 'Bash', count: 2, failures: 1, p50Ms: 1000, p95Ms: 3000, totalMs: 4000 },
+      { toolName: 'Read', count: 1, failures: 0, p50Ms: 5, p95Ms: 5, totalMs: 5 },
+    ]);
+  });
+
+  it('combines agents for the session and lists each agent that used a tool', () => {
+    stats.record('a1', 'Bash', 100, false);
+    stats.record('a2', 'Bash', 300, false);
+
+    const report = stats.report('s1', [agent('a1', 'alpha'), agent('a2', 'beta'), agent('a3')]);
+    expect(report.tools).toEqual([{ toolName: 'Bash', count: 2, failures: 0, p50Ms: 100, p95Ms: 300, totalMs: 400 }]);
+    expect(report.agents.map((a) => a.agentName)).toEqual(['alpha', 'beta']);
+  });
+
+  it('keeps totals for every call but bounds the percentile samples', () => {
+    for (let i = 0; i < MAX_SAMPLES_PER_TOOL + 10; i++) stats.record('a1', 'Read', i < 10 ? 1_000_000 : 1, false);
+    const [read] = stats.statsFor(['a1']);
+    expect(read.count).toBe(MAX_SAMPLES_PER_TOOL + 10);
+    expect(read.p95Ms).toBe(1);
+  });
+
+  it('forgets agents as they are removed from the state', () => {
+    const stateManager = new StateManager();
+    forgetRemovedAgents(stats, stateManager);
+    stateManager.registerAgent(agent('a1'));
+    stateManager.registerAgent(agent('a2'));
+    stats.record('a1', 'Bash', 100, false);
+    stats.record('a2', 'Bash', 100, false);
+    stats.record('gone', 'Bash', 100, false);
+
+    stateManager.removeAgent('a1');
+    expect(stats.agentIds()).toEqual(['a2', 'gone']);
+
+    stateManager.broadcastFullState();
+    expect(stats.agentIds()).toEqual(['a2']);
+  });
+});
+
+describe('tool timing from hook events', () => {
+  let sm: StateManager;
+  let stats: ToolStatsRecorder;
+  let handler: ReturnType<typeof createHookHandler>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sm = new StateManager();
+    stats = new ToolStatsRecorder();
+    handler = createHookHandler(sm, { toolStats: stats });
+    sm.registerAgent(agent('sess-1'));
+    sm.addSession({ sessionId: 'sess-1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: Date.now() });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function toolEvent(hookEventName: 'PreToolUse' | 'PostToolUse' | 'PostToolUseFailure', toolUseId: string, toolName = 'Bash') {
+    handler.handleEvent({
+      session_id: 'sess-1',
+      hook_event_name: hookEventName,
+      tool_name: toolName,
+      tool_input: { command: 'npm test' },
+      tool_use_id: toolUseId,
+    });
+  }
+
+  it('times a call from PreToolUse to PostToolUse by tool_use_id', () => {
+    toolEvent('PreToolUse', 'tu_1');
+    toolEvent('PreToolUse', 'tu_2');
+    vi.advanceTimersByTime(2000);
+    toolEvent('PostToolUse', 'tu_2');
+    vi.advanceTimersByTime(3000);
+    toolEvent('PostToolUseFailure', 'tu_1');
+
+    expect(stats.statsFor(['sess-1'])).toEqual([
+      { toolName: 'Bash', count: 2, failures: 1, p50Ms: 2000, p95Ms: 5000, totalMs: 7000 },
+    ]);
+  });
+
+  it('does not count an interrupted call as a failure', () => {
+    toolEvent('PreToolUse', 'tu_1');
+    vi.advanceTimersByTime(1000);
+    handler.handleEvent({
+      session_id: 'sess-1',
+      hook_event_name: 'PostToolUseFailure',
+      tool_name: 'Bash',
+      tool_input: { command: 'npm test' },
+      tool_use_id: 'tu_1',
+      is_interrupt: true,
+    });
+
+    expect(stats.statsFor(['sess-1'])).toEqual([
+      { toolName: 'Bash', count: 1, failures: 0, p50Ms: 1000, p95Ms: 1000, totalMs: 1000 },
+    ]);
+  });
+
+  it('ignores a Post event without a matching PreToolUse', () => {
+    toolEvent('PostToolUse', 'tu_unknown');
+    expect(stats.statsFor(['sess-1'])).toEqual([]);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { SessionTracer, sessionTraceId, OtlpExporter, toOtlpRequest, createTracing } from '../tracing';
+import { createRedactor, DEFAULT_REDACTION_PATTERNS } from '../state/redaction';
+import type { Span } from '../tracing';
+import { IDLE_CHECK_INTERVAL_MS, MAX_EXPORT_BATCH, SESSION_IDLE_TIMEOUT_MS } from '../tracing/types';
+
+const SESSION = '0b7e2c1a-3f4d-4e5f-8a9b-0c1d2e3f4a5b';
+
+describe('sessionTraceId', () => {
+  it('uses the session UUID as the trace ID', () => {
+    expect(sessionTraceId(SESSION)).toBe('0b7e2c1a3f4d4e5f8a9b0c1d2e3f4a5b');
+  });
+
+  it('hashes IDs that are not UUIDs', () => {
+    expect(sessionTraceId('team:alpha')).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
+
+describe('SessionTracer', () => {
+  let spans: Span[];
+  let tracer: SessionTracer;
+
+  const event = (hook_event_name: string, fields: Record<string, unknown> = {}, at = 0) =>
+    tracer.handleEvent({ session_id: SESSION, cwd: '/work/repo', hook_event_name, ...fields } as never, at);
+  const byName = (name: string) => spans.find((s) => s.name === name);
+
+  beforeEach(() => {
+    spans = [];
+    tracer = new SessionTracer((span) => spans.push(span));
+  });
+
+  it('nests tool calls under the turn and the turn under the session', () => {
+    event('UserPromptSubmit', { prompt: 'fix it' }, 1000);
+    event('PreToolUse', { tool_name: 'Bash', tool_input: { command: 'npm test' }, tool_use_id: 'tu_1' }, 1100);
+    event('PostToolUseFailure', { tool_name: 'Bash', tool_use_id: 'tu_1', error: 'exit 1' }, 1500);
+    event('Stop', {}, 2000);
+    event('SessionEnd', {}, 3000);
+
+    const bash = byName('Bash');
+    const turn = byName('turn');
+    const session = byName('session repo');
+    expect(bash).toMatchObject({ startTime: 1100, endTime: 1500, error: 'exit 1', parentSpanId: turn?.spanId });
+    expect(bash?.attributes).toMatchObject({ 'tool.name': 'Bash', 'tool.use_id': 'tu_1' });
+    expect(turn).toMatchObject({ startTime: 1000, endTime: 2000, parentSpanId: session?.spanId, attributes: { 'prompt.length': 6 } });
+    expect(session).toMatchObject({ startTime: 1000, endTime: 3000, traceId: sessionTraceId(SESSION) });
+    expect(session?.parentSpanId).toBeUndefined();
+    expect(new Set(spans.map((s) => s.traceId)).size).toBe(1);
+  });
+
+  it('nests a subagent under the Task call that spawned it', () => {
+    event('UserPromptSubmit', {}, 0);
+    event('PreToolUse', { tool_name: 'Task', tool_input: { description: 'explore' }, tool_use_id: 'tu_task' }, 10);
+    event('SubagentStart', { agent_id: 'sub-1', agent_type: 'Explore' }, 20);
+    event('SubagentStop', { agent_id: 'sub-1' }, 80);
+    event('PostToolUse', { tool_name: 'Task', tool_use_id: 'tu_task' }, 90);
+
+    const task = byName('Task');
+    expect(byName('subagent Explore')).toMatchObject({ startTime: 20, endTime: 80, parentSpanId: task?.spanId });
+  });
+
+  it('puts a subagent\'s tool calls under the subagent', () => {
+    event('UserPromptSubmit', {}, 0);
+    event('PreToolUse', { tool_name: 'Task', tool_input: { description: 'explore' }, tool_use_id: 'tu_task' }, 10);
+    event('SubagentStart', { agent_id: 'sub-1', agent_type: 'Explore' }, 20);
+    event('PreToolUse', { agent_id: 'sub-1', tool_name: 'Grep', tool_input: { pattern: 'x' }, tool_use_id: 'tu_grep' }, 30);
+    event('PostToolUse', { agent_id: 'sub-1', tool_name: 'Grep', tool_use_id: 'tu_grep' }, 40);
+    event('SubagentStop', { agent_id: 'sub-1' }, 80);
+
+    expect(byName('Grep')?.parentSpanId).toBe(byName('subagent Explore')?.spanId);
+  });
+
+  it('ends sessions that went idle without waiting for another event', () => {
+    vi.useFakeTimers();
+    try {
+      const idle = new SessionTracer((span) => spans.push(span));
+      const start = Date.now();
+      idle.handleEvent({ session_id: SESSION, cwd: '/work/repo', hook_event_name: 'UserPromptSubmit' } as never, start);
+      vi.advanceTimersByTime(SESSION_IDLE_TIMEOUT_MS + IDLE_CHECK_INTERVAL_MS);
+
+      expect(byName('turn')?.endTime).toBe(start);
+      expect(byName('session repo')?.endTime).toBe(start);
+      idle.endAll();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('ends unfinished spans as incomplete when the turn stops', () => {
+    event('UserPromptSubmit', {}, 0);
+    event('PreToolUse', { tool_name: 'Read', tool_input: { file_path: '/a.ts' }, tool_use_id: 'tu_lost' }, 10);
+    event('Stop', {}, 50);
+
+    expect(byName('Read')).toMatchObject({ endTime: 50, attributes: { 'agent_viewer.incomplete': true } });
+    expect(byName('session repo')).toBeUndefined();
+    tracer.endAll(60);
+    expect(byName('session repo')?.endTime).toBe(60);
+  });
+});
+
+/** The spans in an OTLP request body */
+function toSpans(body: unknown): Array<{ spanId: string }> {
+  return (body as ReturnType<typeof toOtlpRequest>).resourceSpans.flatMap((r) => r.scopeSpans.flatMap((s) => s.spans));
+}
+
+describe('OTLP export', () => {
+  const span: Span = {
+    traceId: '0b7e2c1a3f4d4e5f8a9b0c1d2e3f4a5b',
+    spanId: '1122334455667788',
+    parentSpanId: '8877665544332211',
+    name: 'Bash',
+    startTime: 1_700_000_000_123,
+    endTime: 1_700_000_000_456,
+    attributes: { 'tool.name': 'Bash', 'prompt.length': 3, 'agent_viewer.incomplete': true },
+    error: 'exit 1',
+  };
+
+  it('converts spans to an OTLP/JSON request', () => {
+    const [otlp] = toOtlpRequest([span], 'viewer').resourceSpans[0].scopeSpans[0].spans;
+    expect(otlp).toMatchObject({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      parentSpanId: span.parentSpanId,
+      startTimeUnixNano: '1700000000123000000',
+      endTimeUnixNano: '1700000000456000000',
+      status: { code: 2, message: 'exit 1' },
+    });
+    expect(otlp.attributes).toContainEqual({ key: 'prompt.length', value: { intValue: 3 } });
+    expect(otlp.attributes).toContainEqual({ key: 'agent_viewer.incomplete', value: { boolValue: true } });
+  });
+
+  describe('against a collector', () => {
+    let server: Server;
+    let received: { path?: string; auth?: string; body: unknown }[];
+    let url: string;
+
+    beforeEach(async () => {
+      received = [];
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          received.push({ path: req.url, auth: req.headers.authorization, body: JSON.parse(body) });
+          res.end('{}');
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('posts queued spans with the configured headers on close', async () => {
+      const exporter = new OtlpExporter(url, 'viewer', { Authorization: 'Bearer t' });
+      exporter.export(span);
+      await exporter.close();
+
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ path: '/v1/traces', auth: 'Bearer t' });
+      expect(received[0].body).toEqual(toOtlpRequest([span], 'viewer'));
+    });
+
+    it('sends every queued batch on close, after the one in flight', async () => {
+      const exporter = new OtlpExporter(url, 'viewer');
+      // The first full batch starts sending on its own
+      for (let i = 0; i < MAX_EXPORT_BATCH + 50; i++) exporter.export({ ...span, spanId: i.toString(16).padStart(16, '0') });
+      await exporter.close();
+
+      const sentSpans = received.flatMap((r) => toSpans(r.body));
+      expect(received).toHaveLength(2);
+      expect(new Set(sentSpans.map((s) => s.spanId)).size).toBe(MAX_EXPORT_BATCH + 50);
+    });
+
+    it('redacts secrets in hook events before they become span attributes', async () => {
+      const tracing = createTracing(createRedactor(DEFAULT_REDACTION_PATTERNS), url)!;
+      tracing.handleEvent({
+        session_id: SESSION,
+        hook_event_name: 'PreToolUse',
+        tool_name: 'Bash',
+        tool_input: { command: 'curl -H "Authorization: Bearer abc123def456" https://api.example.com' },
+        tool_use_id: 'tu_1',
+      });
+      await tracing.close();
+
+      const body = JSON.stringify(received.map((r) => r.body));
+      expect(body).toContain('[REDACTED]');
+      expect(body).not.toContain('abc123def456');
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  UsageLedger,
+  forgetRemovedUsage,
+  loadPriceTable,
+  priceForModel,
+  estimateCost,
+  DEFAULT_PRICES,
+  contextTokens,
+  contextLimitFor,
+  DEFAULT_CONTEXT_LIMIT,
+  EXTENDED_CONTEXT_LIMIT,
+} from '../usage';
+import { StateManager } from '../state';
+import type { TokenCounts } from '@agent-viewer/shared';
+
+function counts(overrides?: Partial<TokenCounts>): TokenCounts {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, ...overrides };
+}
+
+const PRICES = {
+  'claude-test': { input: 1, output: 10, cacheWrite: 2, cacheRead: 0.1 },
+  default: { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 },
+};
+
+describe('pricing', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'avt-prices-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('matches the longest model prefix', () => {
+    expect(priceForModel(DEFAULT_PRICES, 'claude-opus-4-5-20251101')).toBe(DEFAULT_PRICES['claude-opus-4-5']);
+    expect(priceForModel(DEFAULT_PRICES, 'claude-opus-4-1-20250805')).toBe(DEFAULT_PRICES['claude-opus-4']);
+  });
+
+  it('falls back to the default entry for unknown models', () => {
+    expect(priceForModel(DEFAULT_PRICES, 'gpt-something')).toBe(DEFAULT_PRICES.default);
+    expect(priceForModel(DEFAULT_PRICES, undefined)).toBe(DEFAULT_PRICES.default);
+  });
+
+  it('prices each token kind per million', () => {
+    const cost = estimateCost(
+      counts({ inputTokens: 1_000_000, outputTokens: 100_000, cacheCreationTokens: 500_000, cacheReadTokens: 2_000_000 }),
+      PRICES['claude-test'],
+    );
+    expect(cost).toBeCloseTo(1 + 1 + 1 + 0.2);
+  });
+
+  it('merges a price file over the defaults and skips malformed entries', () => {
+    const file = join(dir, 'prices.json');
+    writeFileSync(file, JSON.stringify({
+      'claude-sonnet-4': { input: 1, output: 2, cacheWrite: 3, cacheRead: 4 },
+      'claude-broken': { input: 'free' },
+    }));
+    const table = loadPriceTable(file);
+    expect(table['claude-sonnet-4']).toEqual({ input: 1, output: 2, cacheWrite: 3, cacheRead: 4 });
+    expect(table['claude-broken']).toBeUndefined();
+    expect(table['claude-opus-4']).toEqual(DEFAULT_PRICES['claude-opus-4']);
+  });
+
+  it('uses the defaults when the price file is missing', () => {
+    expect(loadPriceTable(join(dir, 'missing.json'))).toEqual(DEFAULT_PRICES);
+  });
+});
+
+describe('UsageLedger', () => {
+  const owner = { agentId: 'sess-1', sessionId: 'sess-1' };
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    ledger = new UsageLedger(PRICES);
+  });
+
+  it('totals usage per agent and per session', () => {
+    ledger.record(owner, 'm1', 'claude-test', counts({ inputTokens: 100, outputTokens: 10 }));
+    ledger.record({ agentId: 'sub-1', sessionId: 'sess-1' }, 'm2', 'claude-test', counts({ inputTokens: 50 }));
+
+    expect(ledger.agentTotals('sess-1')!.inputTokens).toBe(100);
+    expect(ledger.agentTotals('sub-1')!.inputTokens).toBe(50);
+    expect(ledger.sessionTotals('sess-1')!.inputTokens).toBe(150);
+    expect(ledger.sessionTotals('sess-1')!.costUsd).toBeCloseTo((150 + 100) / 1_000_000);
+  });
+
+  it('replaces a repeated message instead of adding to it', () => {
+    expect(ledger.record(owner, 'm1', 'claude-test', counts({ inputTokens: 100, outputTokens: 1 }))).toBe(true);
+    expect(ledger.record(owner, 'm1', 'claude-test', counts({ inputTokens: 100, outputTokens: 1 }))).toBe(false);
+    expect(ledger.record(owner, 'm1', 'claude-test', counts({ inputTokens: 100, outputTokens: 40 }))).toBe(true);
+
+    expect(ledger.agentTotals('sess-1')).toMatchObject({ inputTokens: 100, outputTokens: 40 });
+  });
+
+  it('keeps a message with its first owner (resumed transcripts)', () => {
+    ledger.record(owner, 'm1', 'claude-test', counts({ inputTokens: 100 }));
+    expect(ledger.record({ agentId: 'sess-2', sessionId: 'sess-2' }, 'm1', 'claude-test', counts({ inputTokens: 100 }))).toBe(false);
+    expect(ledger.sessionTotals('sess-2')).toBeUndefined();
+  });
+
+  it('returns copies of its totals', () => {
+    ledger.record(owner, 'm1', 'claude-test', counts({ inputTokens: 100 }));
+    ledger.agentTotals('sess-1')!.inputTokens = 0;
+    expect(ledger.agentTotals('sess-1')!.inputTokens).toBe(100);
+  });
+
+  it('forgets agents and sessions as they leave the state', () => {
+    const sm = new StateManager();
+    forgetRemovedUsage(ledger, sm);
+    sm.registerAgent({ id: 'sess-1', name: 'lead', role: 'lead', status: 'idle', tasksCompleted: 0 });
+    sm.registerAgent({ id: 'sub-1', name: 'sub', role: 'implementer', status: 'idle', tasksCompleted: 0 });
+    sm.addSession({ sessionId: 'sess-1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: 1 });
+    ledger.record(owner, 'm1', 'claude-test', counts({ inputTokens: 100 }));
+    ledger.record({ agentId: 'sub-1', sessionId: 'sess-1' }, 'm2', 'claude-test', counts({ inputTokens: 50 }));
+    ledger.record({ agentId: 'gone', sessionId: 'gone' }, 'm3', 'claude-test', counts({ inputTokens: 10 }));
+
+    sm.removeAgent('sub-1');
+    expect(ledger.agentIds()).toEqual(['sess-1', 'gone']);
+    // The session keeps what the agent spent
+    expect(ledger.sessionTotals('sess-1')!.inputTokens).toBe(150);
+
+    sm.broadcastFullState();
+    expect(ledger.agentIds()).toEqual(['sess-1']);
+    expect(ledger.sessionIds()).toEqual(['sess-1']);
+
+    sm.removeSession('sess-1');
+    expect(ledger.sessionTotals('sess-1')).toBeUndefined();
+    // A forgotten message counts again if it is reported again
+    expect(ledger.record({ agentId: 'sess-2', sessionId: 'sess-2' }, 'm1', 'claude-test', counts({ inputTokens: 100 }))).toBe(true);
+  });
+});
+
+describe('context window', () => {
+  it('counts every prompt token, cached or not', () => {
+    expect(contextTokens(counts({ inputTokens: 10, cacheCreationTokens: 200, cacheReadTokens: 3000, outputTokens: 999 }))).toBe(3210);
+  });
+
+  it('switches to the extended window once a prompt outgrows the standard one, and keeps it', () => {
+    expect(contextLimitFor(150_000)).toBe(DEFAULT_CONTEXT_LIMIT);
+    expect(contextLimitFor(250_000)).toBe(EXTENDED_CONTEXT_LIMIT);
+    expect(contextLimitFor(20_000, EXTENDED_CONTEXT_LIMIT)).toBe(EXTENDED_CONTEXT_LIMIT);
+  });
+});
+
+describe('StateManager usage', () => {
+  const usage = { inputTokens: 1, outputTokens: 2, cacheCreationTokens: 3, cacheReadTokens: 4, costUsd: 0.5 };
+  let sm: StateManager;
+
+  beforeEach(() => {
+    sm = new StateManager();
+  });
+
+  it('sets agent usage and model and broadcasts the update', () => {
+    const messages: string[] = [];
+    sm.subscribe((msg) => messages.push(msg.type));
+    sm.registerAgent({ id: 'a1', name: 'a1', role: 'implementer', status: 'idle', tasksCompleted: 0 });
+    sm.setAgentUsage('a1', usage, 'claude-test');
+
+    expect(sm.getAgentById('a1')).toMatchObject({ usage, model: 'claude-test' });
+    expect(messages).toContain('agent_update');
+  });
+
+  it('keeps usage when an agent or session is re-registered', () => {
+    sm.registerAgent({ id: 'a1', name: 'a1', role: 'implementer', status: 'idle', tasksCompleted: 0 });
+    sm.addSession({ sessionId: 'a1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: 1 });
+    sm.setAgentUsage('a1', usage, 'claude-test');
+    sm.setSessionUsage('a1', usage);
+
+    sm.registerAgent({ id: 'a1', name: 'a1', role: 'implementer', status: 'working', tasksCompleted: 0 });
+    sm.addSession({ sessionId: 'a1', slug: 's', projectPath: '/p', projectName: 'p', isTeam: false, lastActivity: 2 });
+
+    expect(sm.getAgentById('a1')!.usage).toEqual(usage);
+    expect(sm.getSessionsList()[0].usage).toEqual(usage);
+  });
+
+  it('merges hook and transcript reports of one compaction and fills tokensAfter', () => {
+    sm.registerAgent({ id: 'a1', name: 'a1', role: 'implementer', status: 'idle', tasksCompleted: 0 });
+    sm.setAgentContext('a1', 150_000, DEFAULT_CONTEXT_LIMIT);
+    sm.recordCompaction('a1', { trigger: 'auto', timestamp: 10_000, tokensBefore: 150_000 });
+    sm.recordCompaction('a1', { trigger: 'auto', timestamp: 70_000, tokensBefore: 152_000 });
+    sm.setAgentContext('a1', 30_000, DEFAULT_CONTEXT_LIMIT);
+    sm.setAgentContext('a1', 45_000, DEFAULT_CONTEXT_LIMIT);
+
+    const agent = sm.getAgentById('a1')!;
+    expect(agent.compactions).toEqual([{ trigger: 'auto', timestamp: 10_000, tokensBefore: 150_000, tokensAfter: 30_000 }]);
+    expect(agent.contextTokens).toBe(45_000);
+  });
+
+  it('records separate compactions far apart in time', () => {
+    sm.registerAgent({ id: 'a1', name: 'a1', role: 'implementer', status: 'idle', tasksCompleted: 0 });
+    sm.recordCompaction('a1', { trigger: 'manual', timestamp: 0 });
+    sm.recordCompaction('a1', { trigger: 'auto', timestamp: 60 * 60_000 });
+    expect(sm.getAgentById('a1')!.compactions!.map((c) => c.trigger)).toEqual(['manual', 'auto']);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { createRoot, parseRootList, parseRootsConfig, resolveWatchRoots } from '../watcher/roots';
+
+describe('parseRootList', () => {
+  it('takes paths and name=path entries separated by colons', () => {
+    expect(parseRootList('~/.claude: devbox=/mnt/dev/.claude ::')).toEqual([
+      { path: '~/.claude' },
+      { name: 'devbox', path: '/mnt/dev/.claude' },
+    ]);
+    expect(parseRootList('')).toEqual([]);
+  });
+});
+
+describe('parseRootsConfig', () => {
+  it('accepts paths and { name, path } objects', () => {
+    expect(parseRootsConfig(['/a', { name: 'b', path: '/b' }, { path: '/c' }])).toEqual({
+      roots: [{ path: '/a' }, { name: 'b', path: '/b' }, { path: '/c' }],
+      errors: [],
+    });
+  });
+
+  it('reports invalid entries and keeps the rest', () => {
+    const { roots, errors } = parseRootsConfig(['/a', { name: 'b' }, { name: 3, path: '/c' }, 7]);
+    expect(roots).toEqual([{ path: '/a' }]);
+    expect(errors).toEqual(['root 2: needs a "path"', 'root 3: "name" must be a non-empty string', 'root 4: needs a "path"']);
+    expect(parseRootsConfig({ roots: [] }).errors).toEqual(['expected a list of roots']);
+  });
+});
+
+describe('createRoot', () => {
+  it('expands ~ and derives the data subdirectories', () => {
+    expect(createRoot({ path: '~/.claude' })).toEqual({
+      name: '~/.claude',
+      dir: join(homedir(), '.claude'),
+      teamsDir: join(homedir(), '.claude', 'teams'),
+      tasksDir: join(homedir(), '.claude', 'tasks'),
+      projectsDir: join(homedir(), '.claude', 'projects'),
+    });
+    expect(createRoot({ path: '/mnt/dev/.claude', name: 'devbox' }).name).toBe('devbox');
+  });
+});
+
+describe('resolveWatchRoots', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'avt-roots-'));
+    file = join(dir, 'roots.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the default directory', () => {
+    expect(resolveWatchRoots('', file, '/home/u/.claude').map((r) => r.dir)).toEqual(['/home/u/.claude']);
+  });
+
+  it('prefers the env list over the roots file', () => {
+    writeFileSync(file, JSON.stringify(['/from/file']));
+    expect(resolveWatchRoots('/from/env', file, '/default').map((r) => r.dir)).toEqual(['/from/env']);
+    expect(resolveWatchRoots('', file, '/default').map((r) => r.dir)).toEqual(['/from/file']);
+  });
+
+  it('watches a directory once and keeps names unique', () => {
+    const roots = resolveWatchRoots('dev=/a:/a/:dev=/b:dev=/c', file, '/default');
+    expect(roots.map((r) => [r.name, r.dir])).toEqual([['dev', '/a'], ['dev (2)', '/b'], ['dev (3)', '/c']]);
+  });
+
+  it('ignores an unreadable roots file', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    writeFileSync(file, '{ not json');
+    expect(resolveWatchRoots('', file, '/default').map((r) => r.dir)).toEqual(['/default']);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,63 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { IncomingMessage } from 'http';
+import { DATA_DIR } from './store/types';
+
+/**
+ * Per-install secret that /api/hook, /ws, the REST API and /metrics require,
+ * so other local processes (or other users on a shared machine) can't inject
+ * events or read sessions.
+ * `hooks/install.js` writes it next to the hook config; the server creates it
+ * on first start if the hooks were installed before tokens existed.
+ */
+export const TOKEN_FILE = process.env.AGENT_VIEWER_TOKEN_FILE || join(DATA_DIR, 'token');
+/** Set AGENT_VIEWER_AUTH=off to accept unauthenticated hooks and clients again */
+export const AUTH_DISABLED = process.env.AGENT_VIEWER_AUTH === 'off';
+
+/** WebSocket subprotocol the server selects for browser clients */
+export const WS_PROTOCOL = 'agent-viewer';
+/** Browsers can't set headers on a WebSocket, so they offer the token as a second subprotocol */
+export const WS_TOKEN_PROTOCOL_PREFIX = 'agent-viewer-token.';
+
+/**
+ * The token from AGENT_VIEWER_TOKEN, else the token file — generated with
+ * owner-only permissions when it doesn't exist yet.
+ */
+export function loadAuthToken(filePath = TOKEN_FILE, envToken = process.env.AGENT_VIEWER_TOKEN): string {
+  if (envToken) return envToken;
+  try {
+    const existing = readFileSync(filePath, 'utf-8').trim();
+    if (existing) return existing;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+  const token = randomBytes(32).toString('hex');
+  mkdirSync(dirname(filePath), { recursive: true, mode: 0o700 });
+  writeFileSync(filePath, token + '\n', { mode: 0o600 });
+  console.log(`[auth] Created token file ${filePath}`);
+  return token;
+}
+
+/** Constant-time comparison of a presented token against the expected one */
+export function tokenMatches(given: string | undefined, token: string): boolean {
+  if (!given || !token) return false;
+  const digest = (s: string) => createHash('sha256').update(s).digest();
+  return timingSafeEqual(digest(given), digest(token));
+}
+
+/** The token of an "Authorization: Bearer <token>" header */
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = header && /^Bearer (.+)$/.exec(header);
+  return match ? match[1] : undefined;
+}
+
+/** The token a WebSocket upgrade carries: Authorization header, subprotocol or ?token= */
+export function wsRequestToken(req: IncomingMessage): string | undefined {
+  const fromHeader = bearerToken(req.headers.authorization);
+  if (fromHeader) return fromHeader;
+  const protocols = (req.headers['sec-websocket-protocol'] || '').split(',').map((p) => p.trim());
+  const fromProtocol = protocols.find((p) => p.startsWith(WS_TOKEN_PROTOCOL_PREFIX));
+  if (fromProtocol) return fromProtocol.slice(WS_TOKEN_PROTOCOL_PREFIX.length);
+  return new URL(req.url || '/', 'http://localhost').searchParams.get('token') || undefined;
+}
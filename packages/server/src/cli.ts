@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+/**
+ * agent-viewer — command-line companion to the viewer server.
+ *
+ *   agent-viewer status [--json | --tmux] [--cwd <dir>]
+ *
+ * Prints a one-line summary for tmux's status-right or a shell prompt:
+ * how many agents wait for input or are working, and what the agent in the
+ * current directory's project is doing. Asks the server first and falls back
+ * to the status file the server writes; prints nothing (exit 1) if neither
+ * is available, so prompt segments simply disappear. The server's token
+ * comes from AGENT_VIEWER_TOKEN or the token file, as for the TUI.
+ *
+ * Only Node built-ins are imported at runtime so the compiled file starts
+ * fast and runs on its own.
+ */
+
+import { readFile } from 'fs/promises';
+import { realpathSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import type { StatusReport } from '@agent-viewer/shared';
+
+const PORT = parseInt(process.env.AGENT_VIEWER_PORT || '', 10) || 3001;
+const TOKEN_FILE = process.env.AGENT_VIEWER_TOKEN_FILE
+  || join(process.env.AGENT_VIEWER_DATA_DIR || join(homedir(), '.agent-viewer-town'), 'token');
+/** Written by the server's status-file sink */
+const STATUS_FILE = '/tmp/agent-viewer-touchbar.json';
+/** Give up on the server quickly — tmux runs this every few seconds */
+const REQUEST_TIMEOUT_MS = 500;
+/** Longest current action shown before it is cut short */
+const MAX_ACTION_LENGTH = 40;
+
+const USAGE = `Usage: agent-viewer status [--json | --tmux] [--cwd <dir>]
+
+  --json       Print the full status report as JSON
+  --tmux       Colour the output with tmux #[...] styles
+  --cwd <dir>  Directory whose session to describe (default: current directory)`;
+
+export type StatusFormat = 'plain' | 'tmux' | 'json';
+
+export interface StatusOptions {
+  format: StatusFormat;
+  cwd: string;
+}
+
+/** Parse `status` arguments; an error message for anything unexpected */
+export function parseStatusArgs(args: string[], cwd: string): StatusOptions | string {
+  const options: StatusOptions = { format: 'plain', cwd };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--json') options.format = 'json';
+    else if (arg === '--tmux') options.format = 'tmux';
+    else if (arg === '--cwd' && args[i + 1]) options.cwd = args[++i];
+    else if (arg.startsWith('--cwd=')) options.cwd = arg.slice('--cwd='.length);
+    else return `Unknown option: ${arg}`;
+  }
+  return options;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** One-line summary; empty when there is nothing to report */
+export function formatStatus(report: StatusReport, format: StatusFormat): string {
+  if (format === 'json') return JSON.stringify(report);
+  // tmux expands #(...) and #[...] in status text, so a literal # must be doubled
+  const text = (s: string) => (format === 'tmux' ? s.replace(/#/g, '##') : s);
+
+  const parts: string[] = [];
+  if (report.waitingCount > 0) {
+    const waiting = `⚠ ${report.waitingCount} waiting`;
+    parts.push(format === 'tmux' ? `#[fg=colour196,bold]${waiting}#[default]` : waiting);
+  }
+  if (report.workingCount > 0) parts.push(`⚙ ${report.workingCount} working`);
+  const { session } = report;
+  if (session?.currentAction) {
+    const who = session.waitingAgent ? `${session.waitingAgent} @ ${session.projectName}` : session.projectName;
+    parts.push(text(`${who}: ${truncate(session.currentAction, MAX_ACTION_LENGTH)}`));
+  }
+  return parts.join(' · ');
+}
+
+/** The server's auth token, if this user can find one */
+async function readToken(): Promise<string | undefined> {
+  if (process.env.AGENT_VIEWER_TOKEN) return process.env.AGENT_VIEWER_TOKEN;
+  try {
+    return (await readFile(TOKEN_FILE, 'utf-8')).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function fetchReport(cwd: string): Promise<StatusReport | null> {
+  try {
+    const token = await readToken();
+    const res = await fetch(`http://127.0.0.1:${PORT}/api/status?cwd=${encodeURIComponent(cwd)}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    return res.ok ? await res.json() as StatusReport : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Counts from the status file — no per-session detail, but works while the server is busy */
+export async function readStatusFile(path = STATUS_FILE): Promise<StatusReport | null> {
+  try {
+    const data = JSON.parse(await readFile(path, 'utf-8'));
+    if (typeof data.waitingCount !== 'number') return null;
+    return {
+      version: 1,
+      waitingCount: data.waitingCount,
+      workingCount: typeof data.workingCount === 'number' ? data.workingCount : 0,
+      session: null,
+      timestamp: typeof data.timestamp === 'number' ? data.timestamp : Date.now(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function status(args: string[]): Promise<number> {
+  const options = parseStatusArgs(args, process.env.PWD || process.cwd());
+  if (typeof options === 'string') {
+    console.error(`${options}\n\n${USAGE}`);
+    return 2;
+  }
+  const report = await fetchReport(options.cwd) ?? await readStatusFile();
+  if (!report) return 1;
+  const line = formatStatus(report, options.format);
+  if (line) console.log(line);
+  return 0;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (command === 'status') return status(args);
+  console.error(USAGE);
+  return command === '--help' || command === '-h' ? 0 : 2;
+}
+
+// Run when executed directly (including through an npm bin symlink), not when imported
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  main(process.argv.slice(2)).then((code) => process.exit(code));
+}
@@ -0,0 +1,98 @@
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createServer as createHttpsServer } from 'https';
+import { WebSocketServer } from 'ws';
+import { bearerToken, tokenMatches } from '../auth';
+import { isLoopback } from '../remote/access';
+import type { TlsCredentials } from '../remote/types';
+import type { FederationHub, RemoteHost } from './hub';
+import { parseFederationMessage } from './hub';
+import { FEDERATION_PATH, MAX_MESSAGE_BYTES, PROTOCOL_VERSION } from './types';
+
+/** "[host:]port" → where to listen; a bare port listens on this machine only. Null if invalid. */
+export function parseListenAddress(spec: string): { host: string; port: number } | null {
+  const match = /^(?:\[?([^\]]*?)\]?:)?(\d+)$/.exec(spec.trim());
+  if (!match) return null;
+  const port = Number(match[2]);
+  if (port < 1 || port > 65535) return null;
+  return { host: match[1] || '127.0.0.1', port };
+}
+
+/** Whether an Authorization header carries the federation token (constant-time) */
+export function isAuthorized(header: string | undefined, token: string): boolean {
+  return tokenMatches(bearerToken(header), token);
+}
+
+/**
+ * Accept upstream viewer servers on their own listener, so only the
+ * token-protected federation endpoint is reachable from other machines —
+ * the viewer itself stays on 127.0.0.1. With `tls` (the viewer's
+ * AGENT_VIEWER_TLS certificate) upstreams connect over wss://.
+ */
+export function listenForUpstreams(hub: FederationHub, address: { host: string; port: number }, token: string, tls: TlsCredentials | null = null) {
+  const notFound = (_req: IncomingMessage, res: ServerResponse) => {
+    res.writeHead(404).end();
+  };
+  const server = tls ? createHttpsServer(tls, notFound) : createServer(notFound);
+  const wss = new WebSocketServer({
+    server,
+    path: FEDERATION_PATH,
+    maxPayload: MAX_MESSAGE_BYTES,
+    verifyClient: (info, cb) => {
+      if (isAuthorized(info.req.headers.authorization, token)) {
+        cb(true);
+      } else {
+        console.warn(`[federation] Rejected upstream from ${info.req.socket.remoteAddress}: bad or missing token`);
+        cb(false, 401, 'Unauthorized');
+      }
+    },
+  });
+
+  wss.on('connection', (ws) => {
+    let remote: RemoteHost | undefined;
+
+    ws.on('message', (raw) => {
+      const msg = parseFederationMessage(raw.toString());
+      if (!msg) return;
+      if (msg.type !== 'hello') {
+        if (remote) hub.receive(remote, msg);
+        return;
+      }
+      if (remote) return;
+      if (msg.version !== PROTOCOL_VERSION) {
+        ws.close(4000, `Unsupported protocol version ${msg.version}`);
+      } else if (msg.host === hub.localHost) {
+        ws.close(4001, 'Host name is the aggregator\'s own');
+      } else {
+        remote = hub.connect(msg.host);
+        console.log(`[federation] ${msg.host} connected`);
+      }
+    });
+
+    ws.on('close', () => {
+      if (!remote) return;
+      hub.disconnect(remote);
+      console.log(`[federation] ${remote.host} disconnected`);
+    });
+
+    ws.on('error', () => ws.close());
+  });
+
+  server.on('error', (err) => {
+    console.warn(`[federation] Could not listen on ${address.host}:${address.port}: ${err.message}`);
+  });
+  server.listen(address.port, address.host, () => {
+    console.log(`[federation] Accepting upstream servers on ${tls ? 'wss' : 'ws'}://${address.host}:${address.port}${FEDERATION_PATH}`);
+    if (!tls && !isLoopback(address.host)) {
+      console.warn('[federation] Upstream tokens and sessions cross the network unencrypted — set AGENT_VIEWER_TLS or use a tunnel');
+    }
+  });
+
+  return {
+    close() {
+      for (const ws of wss.clients) ws.terminate();
+      wss.close();
+      server.close();
+    },
+  };
+}
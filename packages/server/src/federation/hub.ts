@@ -0,0 +1,199 @@
+import { applyMessage } from '@agent-viewer/shared';
+import type { GroupedSessionsList, HostGroup, ProjectGroup, SessionInfo, SessionListEntry, TeamState } from '@agent-viewer/shared';
+import { buildGroupedSessionsList, buildSessionsList } from '../state/sessionListBuilder';
+import { DELTA_TYPES, HOST_NAME, MAX_HOST_NAME_LENGTH } from './types';
+import type { FederationMessage, HubEvent } from './types';
+
+/** What the aggregator knows about one connected upstream server */
+export interface RemoteHost {
+  host: string;
+  /** Session IDs from the host's latest session list */
+  sessionIds: Set<string>;
+  states: Map<string, TeamState>;
+  /** Serialized flat list last announced to viewers, to skip unchanged updates */
+  listJson: string;
+}
+
+type HubListener = (event: HubEvent) => void;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Parse and shape-check one message from an upstream server; null if malformed */
+export function parseFederationMessage(raw: string): FederationMessage | null {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isObject(msg)) return null;
+
+  switch (msg.type) {
+    case 'hello':
+      return typeof msg.version === 'number' && typeof msg.host === 'string'
+        && msg.host.length > 0 && msg.host.length <= MAX_HOST_NAME_LENGTH
+        ? msg as FederationMessage : null;
+    case 'sessions':
+      return Array.isArray(msg.data) && msg.data.every((s) => isObject(s) && typeof s.sessionId === 'string')
+        ? msg as FederationMessage : null;
+    case 'session_state': {
+      const state = msg.data;
+      return typeof msg.sessionId === 'string' && isObject(state) && isObject(state.session)
+        && Array.isArray(state.agents) && Array.isArray(state.tasks) && Array.isArray(state.messages)
+        ? msg as FederationMessage : null;
+    }
+    case 'delta':
+      return typeof msg.sessionId === 'string' && isObject(msg.data) && isObject(msg.data.data)
+        && (DELTA_TYPES as readonly unknown[]).includes(msg.data.type)
+        ? msg as FederationMessage : null;
+    default:
+      return null;
+  }
+}
+
+/** Totals for a host heading in the session tree */
+function hostGroup(host: string, isLocal: boolean, projects: ProjectGroup[]): HostGroup {
+  return {
+    host,
+    isLocal,
+    projects,
+    totalSessions: projects.reduce((sum, p) => sum + p.totalSessions, 0),
+    totalAgents: projects.reduce((sum, p) => sum + p.totalAgents, 0),
+    lastActivity: Math.max(0, ...projects.map((p) => p.lastActivity)),
+    hasWaitingAgent: projects.some((p) => p.hasWaitingAgent),
+  };
+}
+
+/**
+ * Aggregator side of federation: holds the sessions other viewer servers
+ * push, and merges them into this server's session lists under a host level.
+ * Remote sessions keep their IDs, so viewers select them like local ones.
+ */
+export class FederationHub {
+  private hosts = new Map<string, RemoteHost>();
+  private listeners = new Set<HubListener>();
+
+  constructor(readonly localHost = HOST_NAME) {}
+
+  subscribe(listener: HubListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private emit(event: HubEvent) {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  /** Register an upstream server after its hello; a reconnect replaces the old connection's data */
+  connect(host: string): RemoteHost {
+    const remote: RemoteHost = { host, sessionIds: new Set(), states: new Map(), listJson: '[]' };
+    const replaced = this.hosts.has(host);
+    this.hosts.set(host, remote);
+    if (replaced) this.emit({ type: 'sessions' });
+    return remote;
+  }
+
+  /** Drop a closed connection's sessions, unless the host has already reconnected */
+  disconnect(remote: RemoteHost) {
+    if (this.hosts.get(remote.host) !== remote) return;
+    this.hosts.delete(remote.host);
+    if (remote.sessionIds.size > 0) this.emit({ type: 'sessions' });
+  }
+
+  receive(remote: RemoteHost, msg: FederationMessage) {
+    if (this.hosts.get(remote.host) !== remote) return;
+
+    if (msg.type === 'sessions') {
+      remote.sessionIds = new Set(msg.data.map((s) => s.sessionId));
+      for (const sessionId of remote.states.keys()) {
+        if (!remote.sessionIds.has(sessionId)) remote.states.delete(sessionId);
+      }
+    } else if (msg.type === 'session_state') {
+      const session = msg.data.session && { ...msg.data.session, host: remote.host };
+      remote.states.set(msg.sessionId, { ...msg.data, session });
+      this.emit({ type: 'state', sessionId: msg.sessionId });
+    } else if (msg.type === 'delta') {
+      const state = remote.states.get(msg.sessionId);
+      if (!state) return;
+      remote.states.set(msg.sessionId, applyMessage(state, msg.data));
+      this.emit({ type: 'delta', sessionId: msg.sessionId, msg: msg.data });
+    }
+
+    // Waiting flags and agent counts in the lists follow agent changes
+    const listJson = JSON.stringify(this.hostSessionsList(remote, undefined));
+    if (listJson !== remote.listJson) {
+      remote.listJson = listJson;
+      this.emit({ type: 'sessions' });
+    }
+  }
+
+  /** Connected upstream host names */
+  hostNames(): string[] {
+    return [...this.hosts.keys()].sort();
+  }
+
+  private hostForSession(sessionId: string): RemoteHost | undefined {
+    for (const remote of this.hosts.values()) {
+      if (remote.states.has(sessionId)) return remote;
+    }
+    return undefined;
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.hostForSession(sessionId) !== undefined;
+  }
+
+  getStateForSession(sessionId: string): TeamState | undefined {
+    return this.hostForSession(sessionId)?.states.get(sessionId);
+  }
+
+  /** A host's listed sessions that have arrived, keyed by ID */
+  private hostSessions(remote: RemoteHost): Map<string, SessionInfo> {
+    const sessions = new Map<string, SessionInfo>();
+    for (const sessionId of remote.sessionIds) {
+      const session = remote.states.get(sessionId)?.session;
+      if (session) sessions.set(sessionId, session);
+    }
+    return sessions;
+  }
+
+  private agentsFor(remote: RemoteHost) {
+    return (session: SessionInfo) => remote.states.get(session.sessionId)?.agents ?? [];
+  }
+
+  private hostSessionsList(remote: RemoteHost, activeSessionId: string | undefined): SessionListEntry[] {
+    return buildSessionsList(this.hostSessions(remote), this.agentsFor(remote), activeSessionId);
+  }
+
+  private sortedHosts(): RemoteHost[] {
+    return [...this.hosts.values()].sort((a, b) => a.host.localeCompare(b.host));
+  }
+
+  /** This server's sessions list plus every remote host's, most recently active first */
+  mergeSessionsList(local: SessionListEntry[], activeSessionId: string | undefined): SessionListEntry[] {
+    return [...local, ...this.sortedHosts().flatMap((remote) => this.hostSessionsList(remote, activeSessionId))]
+      .sort((a, b) => b.lastActivity - a.lastActivity);
+  }
+
+  /**
+   * This server's grouped sessions plus every remote host's, with a `hosts`
+   * level above the projects. This server comes first, then the remote hosts
+   * by name. Remote project keys are prefixed with the host so the same
+   * repository on two machines stays two projects.
+   */
+  mergeGroupedSessions(local: GroupedSessionsList, activeSessionId: string | undefined): GroupedSessionsList {
+    const hosts = [hostGroup(this.localHost, true, local.projects)];
+    for (const remote of this.sortedHosts()) {
+      const grouped = buildGroupedSessionsList(this.hostSessions(remote), this.agentsFor(remote), activeSessionId);
+      const projects = grouped.projects.map((p) => ({ ...p, projectKey: `${remote.host}:${p.projectKey}`, host: remote.host }));
+      hosts.push(hostGroup(remote.host, false, projects));
+    }
+    return {
+      projects: hosts.flatMap((h) => h.projects),
+      flatSessions: this.mergeSessionsList(local.flatSessions, activeSessionId),
+      hosts,
+    };
+  }
+}
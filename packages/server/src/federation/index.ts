@@ -0,0 +1,68 @@
+/**
+ * Federation — several viewer servers in one town.
+ *
+ * An upstream server (AGENT_VIEWER_AGGREGATOR_URL) pushes its session list,
+ * session states and agent changes to an aggregator, which accepts them on a
+ * separate token-protected listener (AGENT_VIEWER_FEDERATION_LISTEN) and
+ * merges them into its own session lists under a host level. Both ends need
+ * the same AGENT_VIEWER_FEDERATION_TOKEN.
+ */
+
+import type { StateManager } from '../state';
+import type { TlsCredentials } from '../remote/types';
+import { FederationHub } from './hub';
+import { listenForUpstreams, parseListenAddress } from './aggregator';
+import { connectToAggregator } from './upstream';
+import { AGGREGATOR_URL, FEDERATION_LISTEN, FEDERATION_TOKEN, HOST_NAME } from './types';
+
+export { FederationHub, parseFederationMessage } from './hub';
+export { FederationPublisher } from './publisher';
+export { isAuthorized, parseListenAddress } from './aggregator';
+export type { FederationMessage, HubEvent } from './types';
+
+export interface FederationOptions {
+  listen?: string;
+  aggregatorUrl?: string;
+  token?: string;
+  host?: string;
+  /** Certificate for the aggregator's listener; plain ws:// without it */
+  tls?: TlsCredentials | null;
+}
+
+/**
+ * Start whichever federation roles are configured. `hub` is null unless this
+ * server is an aggregator.
+ */
+export function createFederation(stateManager: StateManager, {
+  listen = FEDERATION_LISTEN,
+  aggregatorUrl = AGGREGATOR_URL,
+  token = FEDERATION_TOKEN,
+  host = HOST_NAME,
+  tls = null,
+}: FederationOptions = {}) {
+  let hub: FederationHub | null = null;
+  let listener: { close(): void } | null = null;
+  let upstream: { close(): void } | null = null;
+
+  if ((listen || aggregatorUrl) && !token) {
+    console.warn('[federation] AGENT_VIEWER_FEDERATION_TOKEN is not set — federation disabled');
+  } else {
+    if (listen) {
+      const address = parseListenAddress(listen);
+      if (address) {
+        hub = new FederationHub(host);
+        listener = listenForUpstreams(hub, address, token, tls);
+      } else {
+        console.warn(`[federation] Invalid AGENT_VIEWER_FEDERATION_LISTEN "${listen}" — expected [host:]port`);
+      }
+    }
+    if (aggregatorUrl) upstream = connectToAggregator(stateManager, aggregatorUrl, token, host);
+  }
+
+  function close() {
+    upstream?.close();
+    listener?.close();
+  }
+
+  return { hub, close };
+}
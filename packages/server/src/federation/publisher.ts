@@ -0,0 +1,146 @@
+import { isDeepStrictEqual } from 'util';
+import { applyMessage } from '@agent-viewer/shared';
+import type { TeamState, WSMessage } from '@agent-viewer/shared';
+import type { StateManager } from '../state';
+import { PUBLISH_INTERVAL_MS } from './types';
+import type { DeltaMessage, FederationMessage } from './types';
+
+/**
+ * Upstream side of federation: mirrors this server's sessions to the
+ * aggregator over one connection. Agent changes go out as deltas straight
+ * away; other changes mark the sessions they touch, and at most once per
+ * PUBLISH_INTERVAL_MS those are compared with what the aggregator was last
+ * sent and resent if they differ.
+ */
+export class FederationPublisher {
+  /**
+   * The aggregator's copy of each session, cloned — StateManager updates
+   * agents in place, so a kept reference would always look current
+   */
+  private sent = new Map<string, TeamState>();
+  /** The session each agent was sent in, for removals (the agent is gone by then) */
+  private agentSessions = new Map<string, string>();
+  /** Each session's list entry as last sent, serialized */
+  private sentEntries = new Map<string, string>();
+  private sentList = '';
+  /** Sessions (or the file keys of team sessions) changed since the last flush */
+  private dirty = new Set<string>();
+  /** A change every session carries, like the message list */
+  private allDirty = true;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: () => void;
+
+  constructor(
+    private readonly stateManager: StateManager,
+    private readonly send: (msg: FederationMessage) => void,
+    private readonly intervalMs = PUBLISH_INTERVAL_MS,
+  ) {
+    this.unsubscribe = stateManager.subscribe((msg) => this.handle(msg));
+    this.flush();
+  }
+
+  private handle(msg: WSMessage) {
+    if (msg.type === 'agent_update' || msg.type === 'agent_added') {
+      this.sendDelta(this.stateManager.findSessionIdForAgent(msg.data.id), msg);
+    } else if (msg.type === 'agent_removed') {
+      this.sendDelta(this.agentSessions.get(msg.data.id), msg);
+    } else {
+      this.markDirty(msg);
+    }
+    this.schedule();
+  }
+
+  private markDirty(msg: WSMessage) {
+    switch (msg.type) {
+      case 'session_started':
+      case 'session_ended':
+      case 'files_touched':
+      case 'prompt_turn':
+        this.dirty.add(msg.data.sessionId);
+        break;
+      // Compared entry by entry in flush()
+      case 'sessions_update':
+      case 'sessions_list':
+      case 'sessions_grouped':
+      // Not part of a session's state
+      case 'edit_conflict':
+      case 'inbox':
+      case 'notification':
+        break;
+      default:
+        // Messages, tasks and team changes are shared by every session
+        this.allDirty = true;
+    }
+  }
+
+  private sendDelta(sessionId: string | undefined, msg: DeltaMessage) {
+    const state = sessionId && this.sent.get(sessionId);
+    if (!sessionId || !state) return;
+    this.send({ type: 'delta', sessionId, data: msg });
+    if (msg.type === 'agent_removed') {
+      this.agentSessions.delete(msg.data.id);
+      this.sent.set(sessionId, applyMessage(state, msg));
+    } else {
+      this.agentSessions.set(msg.data.id, sessionId);
+      this.sent.set(sessionId, applyMessage(state, { ...msg, data: structuredClone(msg.data) }));
+    }
+  }
+
+  /** Record what the aggregator now holds for a session (undefined once it is dropped) */
+  private setSent(sessionId: string, state: TeamState | undefined) {
+    for (const agent of this.sent.get(sessionId)?.agents ?? []) {
+      if (this.agentSessions.get(agent.id) === sessionId) this.agentSessions.delete(agent.id);
+    }
+    if (!state) {
+      this.sent.delete(sessionId);
+      return;
+    }
+    this.sent.set(sessionId, state);
+    for (const agent of state.agents) this.agentSessions.set(agent.id, sessionId);
+  }
+
+  private schedule() {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.intervalMs);
+  }
+
+  /** Send the session list and every changed session that differs from the aggregator's copy */
+  flush() {
+    // "active" is per viewer — the aggregator works it out for its own
+    const list = this.stateManager.getSessionsList().map((s) => ({ ...s, active: false }));
+    const listJson = JSON.stringify(list);
+    if (listJson !== this.sentList) {
+      this.sentList = listJson;
+      this.send({ type: 'sessions', data: list });
+    }
+
+    const entries = new Map(list.map((s) => [s.sessionId, JSON.stringify(s)]));
+    for (const sessionId of [...this.sent.keys()]) {
+      if (!entries.has(sessionId)) this.setSent(sessionId, undefined);
+    }
+    for (const [sessionId, entry] of entries) {
+      const changed = this.allDirty
+        || !this.sent.has(sessionId)
+        || entry !== this.sentEntries.get(sessionId)
+        || this.dirty.has(sessionId)
+        || this.dirty.has(this.stateManager.filesSessionId(sessionId));
+      if (!changed) continue;
+      const state = this.stateManager.getStateForSession(sessionId);
+      if (isDeepStrictEqual(state, this.sent.get(sessionId))) continue;
+      this.send({ type: 'session_state', sessionId, data: state });
+      this.setSent(sessionId, structuredClone(state));
+    }
+    this.sentEntries = entries;
+    this.dirty.clear();
+    this.allDirty = false;
+  }
+
+  close() {
+    this.unsubscribe();
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
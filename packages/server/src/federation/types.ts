@@ -0,0 +1,63 @@
+import { hostname } from 'os';
+import type { SessionListEntry, TeamState, WSMessage } from '@agent-viewer/shared';
+
+// ================================================================
+// Configuration
+// ================================================================
+/** Shared secret every server in the federation presents; federation is off without it */
+export const FEDERATION_TOKEN = process.env.AGENT_VIEWER_FEDERATION_TOKEN || '';
+/** Aggregator mode: "[host:]port" to accept other viewer servers on */
+export const FEDERATION_LISTEN = process.env.AGENT_VIEWER_FEDERATION_LISTEN || '';
+/** Upstream mode: the aggregator's federation URL, e.g. ws://central:3002/federation */
+export const AGGREGATOR_URL = process.env.AGENT_VIEWER_AGGREGATOR_URL || '';
+/** Name this machine's sessions are listed under on the aggregator */
+export const HOST_NAME = process.env.AGENT_VIEWER_HOST_NAME || hostname();
+
+/** WebSocket path the aggregator accepts upstream servers on */
+export const FEDERATION_PATH = '/federation';
+/** Bumped if the messages below ever change incompatibly */
+export const PROTOCOL_VERSION = 1;
+
+// ================================================================
+// Tuning constants
+// ================================================================
+/** How often an upstream server sends changed sessions (ms) */
+export const PUBLISH_INTERVAL_MS = 1000;
+/** First reconnect delay after losing the aggregator; doubles up to the max (ms) */
+export const RECONNECT_MIN_MS = 2000;
+export const RECONNECT_MAX_MS = 30_000;
+/** Largest message the aggregator accepts from an upstream server */
+export const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+/** Host names longer than this are refused */
+export const MAX_HOST_NAME_LENGTH = 100;
+
+// ================================================================
+// Protocol (upstream server → aggregator)
+// ================================================================
+
+/** Agent changes — by far the most frequent — are forwarded as-is rather than resending the session */
+export const DELTA_TYPES = ['agent_update', 'agent_added', 'agent_removed'] as const;
+
+export type DeltaMessage = Extract<WSMessage, { type: typeof DELTA_TYPES[number] }>;
+
+export type FederationMessage =
+  /** First message on every connection */
+  | { type: 'hello'; version: number; host: string }
+  /** The upstream server's sessions; any session not listed is gone */
+  | { type: 'sessions'; data: SessionListEntry[] }
+  /** A session's complete state, sent when it first appears or changed beyond a delta */
+  | { type: 'session_state'; sessionId: string; data: TeamState }
+  /** One change to a session the aggregator already has */
+  | { type: 'delta'; sessionId: string; data: DeltaMessage };
+
+// ================================================================
+// Aggregator events
+// ================================================================
+
+export type HubEvent =
+  /** A remote host's session list changed (or the host came or went) */
+  | { type: 'sessions' }
+  /** A remote session's state was replaced */
+  | { type: 'state'; sessionId: string }
+  /** A remote session changed by one message */
+  | { type: 'delta'; sessionId: string; msg: DeltaMessage };
@@ -0,0 +1,61 @@
+import { WebSocket } from 'ws';
+import type { StateManager } from '../state';
+import { FederationPublisher } from './publisher';
+import { PROTOCOL_VERSION, RECONNECT_MAX_MS, RECONNECT_MIN_MS } from './types';
+import type { FederationMessage } from './types';
+
+/**
+ * Keep a connection to the aggregator open, publishing this server's
+ * sessions over it. Each new connection starts with a full snapshot;
+ * reconnects back off from RECONNECT_MIN_MS to RECONNECT_MAX_MS.
+ */
+export function connectToAggregator(stateManager: StateManager, url: string, token: string, host: string) {
+  let ws: WebSocket | null = null;
+  let publisher: FederationPublisher | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let delay = RECONNECT_MIN_MS;
+  let closed = false;
+
+  function connect() {
+    const socket = new WebSocket(url, { headers: { Authorization: `Bearer ${token}` } });
+    ws = socket;
+    const send = (msg: FederationMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+    };
+
+    socket.on('open', () => {
+      console.log(`[federation] Connected to aggregator ${url} as ${host}`);
+      delay = RECONNECT_MIN_MS;
+      send({ type: 'hello', version: PROTOCOL_VERSION, host });
+      publisher = new FederationPublisher(stateManager, send);
+    });
+
+    socket.on('unexpected-response', (_req, res) => {
+      console.warn(`[federation] Aggregator refused the connection: HTTP ${res.statusCode}`);
+      socket.terminate();
+    });
+
+    socket.on('close', (code, reason) => {
+      publisher?.close();
+      publisher = null;
+      if (closed) return;
+      if (code >= 4000) console.warn(`[federation] Aggregator closed the connection: ${reason.toString()}`);
+      reconnectTimer = setTimeout(connect, delay);
+      delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+    });
+
+    // 'close' follows, which schedules the reconnect
+    socket.on('error', () => {});
+  }
+
+  connect();
+
+  return {
+    close() {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      publisher?.close();
+      ws?.close();
+    },
+  };
+}
@@ -11,8 +11,12 @@
  * to the event dispatch flow and shared state.
  */
 
-import { StateManager } from '../state';
+import { StateManager, teamSessionId } from '../state';
+import { PermissionBroker, permissionToolKey } from '../permissions';
+import type { ToolStatsRecorder } from '../toolStats';
+import type { StuckDetector } from '../watcher/stuckDetector';
 import { detectGitWorktree, detectGitStatus, clearGitStatusCache } from '../parser';
+import { extractFileTouch } from '../parsers/transcriptParser';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
 
@@ -24,6 +28,7 @@ import type {
   PermissionRequestEvent,
   SubagentStartEvent,
   SubagentStopEvent,
+  PreCompactEvent,
   SessionStartEvent,
   TeammateIdleEvent,
   TaskCompletedEvent,
@@ -46,11 +51,25 @@ import {
 
 const execFileAsync = promisify(execFile);
 
+export interface HookHandlerOptions {
+  /** Broker for blocking PermissionRequest hooks — pending requests are cancelled once the agent moves on */
+  permissions?: PermissionBroker;
+  /** Receives each tool call's duration and outcome, timed from PreToolUse to PostToolUse(Failure) */
+  toolStats?: ToolStatsRecorder;
+  /** Tracks repeated and failing tool calls to flag stuck agents */
+  stuck?: StuckDetector;
+}
+
+/** Tool calls still running after this long are assumed lost (no Post event will come) */
+const MAX_TOOL_CALL_MS = 60 * 60_000;
+
 /**
  * Create a HookHandler that processes Claude Code lifecycle events
  * and updates the StateManager.
  */
-export function createHookHandler(stateManager: StateManager) {
+export function createHookHandler(stateManager: StateManager, options: HookHandlerOptions = {}) {
+  const { permissions, toolStats, stuck } = options;
+
   /** Track sessions whose git info has already been detected from cwd */
   const gitInfoDetected = new Set<string>();
 
@@ -64,6 +83,9 @@ export function createHookHandler(stateManager: StateManager) {
    */
   const pendingTaskSpawns = new Map<string, PendingSpawn>();
 
+  /** Tool calls in flight, keyed by tool_use_id, for timing */
+  const pendingToolCalls = new Map<string, { toolName: string; agentId: string; startedAt: number }>();
+
   function handleEvent(event: HookEvent) {
     const sessionId = event.session_id;
     if (!sessionId) {
@@ -83,7 +105,7 @@ export function createHookHandler(stateManager: StateManager) {
     // If this agent belongs to a team, also update the team session activity
     const resolvedAgent = stateManager.getAgentById(agentId);
     if (resolvedAgent?.teamName) {
-      stateManager.updateSessionActivity(`team:${resolvedAgent.teamName}`);
+      stateManager.updateSessionActivity(teamSessionId(resolvedAgent.sourceRoot, resolvedAgent.teamName));
     }
 
     // Store cwd for later git status refreshes
@@ -172,7 +194,7 @@ export function createHookHandler(stateManager: StateManager) {
         handleSubagentStop(stateManager, event as SubagentStopEvent, agentId);
         break;
       case 'PreCompact':
-        handlePreCompact(sessionId, agentId);
+        handlePreCompact(event as PreCompactEvent, sessionId, agentId);
         break;
       case 'Stop':
         handleStop(sessionId, agentId);
@@ -181,7 +203,7 @@ export function createHookHandler(stateManager: StateManager) {
         handleSessionStart(event as SessionStartEvent, sessionId);
         break;
       case 'SessionEnd':
-        handleSessionEnd(agentId);
+        handleSessionEnd(sessionId, agentId);
         break;
       case 'TeammateIdle':
         handleTeammateIdle(stateManager, event as TeammateIdleEvent, sessionId);
@@ -190,10 +212,10 @@ export function createHookHandler(stateManager: StateManager) {
         handleTaskCompleted(stateManager, event as TaskCompletedEvent, sessionId);
         break;
       case 'UserPromptSubmit':
-        handleUserPromptSubmit(sessionId, agentId);
+        handleUserPromptSubmit(event as UserPromptSubmitEvent, sessionId, agentId);
         break;
       case 'PostToolUseFailure':
-        handlePostToolUseFailure(event as PostToolUseFailureEvent, agentId);
+        handlePostToolUseFailure(event as PostToolUseFailureEvent, sessionId, agentId);
         break;
       case 'Notification':
         handleNotification(event as NotificationEvent, agentId);
@@ -212,6 +234,10 @@ export function createHookHandler(stateManager: StateManager) {
         stateManager.setAgentWaitingById(agentId, true, 'In plan mode', undefined, 'plan');
       }
     }
+
+    // Re-evaluate stuck state now that activity is up to date
+    const agent = stuck && stateManager.getAgentById(agentId);
+    if (agent) stateManager.setAgentStuck(agentId, stuck.evaluate(agent));
   }
 
   function handlePreToolUse(event: PreToolUseEvent, sessionId: string, agentId: string) {
@@ -220,6 +246,12 @@ export function createHookHandler(stateManager: StateManager) {
     // Agent is actively working — clear any stopped flag so JSONL watcher can update
     stateManager.clearSessionStopped(sessionId);
 
+    if (toolStats && event.tool_use_id) {
+      startToolCall(event.tool_use_id, event.tool_name, agentId);
+    }
+    stuck?.toolStarted(agentId, event.tool_name, event.tool_input);
+    stateManager.recordTurnTool(sessionId, agentId, event.tool_name);
+
     // Track Task tool spawns for subagent correlation
     if (event.tool_name === 'Task' && event.tool_use_id && event.tool_input) {
       cleanPendingSpawns(pendingTaskSpawns);
@@ -238,13 +270,46 @@ export function createHookHandler(stateManager: StateManager) {
       });
     }
 
+    // Check file edits against other agents' recent edits of the same file
+    const touch = extractFileTouch(event.tool_name, event.tool_input);
+    if (touch && touch.operation !== 'read') {
+      stateManager.recordEdit({
+        agentId,
+        path: touch.path,
+        operation: touch.operation,
+        toolUseId: event.tool_use_id,
+        timestamp: Date.now(),
+      });
+    }
+
     // Update agent activity — clear any waiting state, show working
     stateManager.setAgentWaitingById(agentId, false);
     stateManager.updateAgentActivityById(agentId, 'working', action, context);
   }
 
+  function startToolCall(toolUseId: string, toolName: string, agentId: string) {
+    const now = Date.now();
+    for (const [id, call] of pendingToolCalls) {
+      if (now - call.startedAt > MAX_TOOL_CALL_MS) pendingToolCalls.delete(id);
+    }
+    pendingToolCalls.set(toolUseId, { toolName, agentId, startedAt: now });
+  }
+
+  function finishToolCall(toolUseId: string | undefined, failed: boolean) {
+    if (!toolStats || !toolUseId) return;
+    const call = pendingToolCalls.get(toolUseId);
+    if (!call) return;
+    pendingToolCalls.delete(toolUseId);
+    toolStats.record(call.agentId, call.toolName, Date.now() - call.startedAt, failed);
+  }
+
   function handlePostToolUse(event: PostToolUseEvent, sessionId: string, agentId: string) {
-    // Tool finished — clear waiting state
+    finishToolCall(event.tool_use_id, false);
+    stuck?.toolFinished(agentId, event.tool_name, false);
+
+    // Tool finished — clear waiting state. If its permission prompt was answered
+    // in the terminal, release the hook still blocked on the viewer.
+    permissions?.cancelForAgent(agentId, permissionToolKey(event.tool_name, event.tool_input));
     stateManager.setAgentWaitingById(agentId, false);
 
     // Refresh git status after git-related Bash commands
@@ -292,11 +357,17 @@ export function createHookHandler(stateManager: StateManager) {
     stateManager.setAgentWaitingById(agentId, true, action, context, 'permission');
   }
 
-  function handlePreCompact(sessionId: string, agentId: string) {
+  function handlePreCompact(event: PreCompactEvent, sessionId: string, agentId: string) {
     // Clear stopped flag — compaction is new activity after a Stop
     stateManager.clearSessionStopped(sessionId);
     stateManager.setAgentWaitingById(agentId, false);
     stateManager.updateAgentActivityById(agentId, 'working', 'Compacting conversation...');
+    // The transcript's compact boundary fills in the same entry once written
+    stateManager.recordCompaction(agentId, {
+      trigger: event.trigger === 'manual' ? 'manual' : 'auto',
+      timestamp: Date.now(),
+      tokensBefore: stateManager.getAgentById(agentId)?.contextTokens,
+    });
     console.log(`[hooks] PreCompact: ${agentId.slice(0, 8)}`);
   }
 
@@ -304,10 +375,12 @@ export function createHookHandler(stateManager: StateManager) {
     // Set idle first — then override waitingForInput to true.
     // Order matters: updateAgentActivityById('idle') clears waitingForInput,
     // so setAgentWaitingById must come AFTER to stick.
+    permissions?.cancelForAgent(agentId);
     stateManager.updateAgentActivityById(agentId, 'idle');
     stateManager.setAgentWaitingById(agentId, true, 'Waiting for input', undefined, 'question');
     // markSessionStopped uses the raw sessionId (JSONL-level flag)
     stateManager.markSessionStopped(sessionId);
+    stateManager.endPromptTurn(sessionId, agentId, 'completed');
     console.log(`[hooks] Stop: session=${sessionId.slice(0, 8)} agent=${agentId.slice(0, 12)}`);
   }
 
@@ -315,24 +388,41 @@ export function createHookHandler(stateManager: StateManager) {
     console.log(`[hooks] SessionStart: ${sessionId.slice(0, 8)} source=${event.source} model=${event.model}`);
   }
 
-  function handleSessionEnd(agentId: string) {
+  function handleSessionEnd(sessionId: string, agentId: string) {
     console.log(`[hooks] SessionEnd: ${agentId.slice(0, 12)}`);
+    permissions?.cancelForAgent(agentId);
+    stuck?.forget(agentId);
+    // A turn still running when the session ends was cut off
+    stateManager.endPromptTurn(sessionId, agentId, 'interrupted');
     stateManager.updateAgentActivityById(agentId, 'idle');
   }
 
-  function handleUserPromptSubmit(sessionId: string, agentId: string) {
+  function handleUserPromptSubmit(event: UserPromptSubmitEvent, sessionId: string, agentId: string) {
     // clearSessionStopped uses the raw sessionId (JSONL-level flag)
     stateManager.clearSessionStopped(sessionId);
+    stateManager.startPromptTurn(sessionId, agentId, event.prompt ?? '');
+    permissions?.cancelForAgent(agentId);
     stateManager.setAgentWaitingById(agentId, false);
     stateManager.updateAgentActivityById(agentId, 'working', 'Processing prompt...');
+    stuck?.turnStarted(agentId);
     console.log(`[hooks] UserPromptSubmit: session=${sessionId.slice(0, 8)} agent=${agentId.slice(0, 12)}`);
   }
 
-  function handlePostToolUseFailure(event: PostToolUseFailureEvent, agentId: string) {
+  function handlePostToolUseFailure(event: PostToolUseFailureEvent, sessionId: string, agentId: string) {
+    // An interrupt is the user stepping in, not the agent failing — it ends the turn, with no Stop to follow
+    finishToolCall(event.tool_use_id, !event.is_interrupt);
+    if (event.is_interrupt) {
+      stateManager.endPromptTurn(sessionId, agentId, 'interrupted');
+    } else {
+      stuck?.toolFinished(agentId, event.tool_name, true);
+      stateManager.recordTurnTool(sessionId, agentId, event.tool_name, true);
+    }
+
     // Tool failed but Claude will respond to the error — keep agent in working state.
     // Show the failure as the current action for visibility.
     const { action } = describeToolAction(event.tool_name, event.tool_input);
     const failAction = event.is_interrupt ? 'Interrupted' : `Failed: ${action}`;
+    permissions?.cancelForAgent(agentId, permissionToolKey(event.tool_name, event.tool_input));
     stateManager.setAgentWaitingById(agentId, false);
     stateManager.updateAgentActivityById(agentId, 'working', failAction);
   }
@@ -71,6 +71,7 @@ export function handleSubagentStart(
     isSubagent: !isTeamMember,
     parentAgentId: isTeamMember ? undefined : sessionId,
     teamName,
+    sourceRoot: isTeamMember ? stateManager.getSessions().get(sessionId)?.sourceRoot : undefined,
     subagentType: isTeamMember ? undefined : subagentType,
   };
   stateManager.registerAgent(agent);
@@ -168,7 +168,7 @@ export function extractTaskUpdate(stateManager: StateManager, event: PostToolUse
       updated.owner = owner;
     }
     if (status === 'deleted') {
-      stateManager.removeTask(taskId);
+      stateManager.removeTask(taskId, existing);
       console.log(`[hooks] TaskUpdate: #${taskId} deleted session=${sessionId.slice(0, 8)}`);
       return;
     }
@@ -9,6 +9,8 @@ export interface HookEventBase {
   cwd?: string;
   permission_mode?: string;
   hook_event_name: string;
+  /** The subagent the event came from; unset for the main agent */
+  agent_id?: string;
 }
 
 export interface PreToolUseEvent extends HookEventBase {
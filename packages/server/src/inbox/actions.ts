@@ -0,0 +1,62 @@
+import { execFile } from 'child_process';
+import type { InboxNotification } from '@agent-viewer/shared';
+import { ACTION_TIMEOUT_MS } from './types';
+import type { NotificationRule, RulePayload } from './types';
+
+export function rulePayload(rule: NotificationRule, notification: InboxNotification, now: number): RulePayload {
+  const waitingSeconds = Math.max(0, Math.round((now - notification.timestamp) / 1000));
+  const where = notification.gitBranch ? `${notification.projectName} (${notification.gitBranch})` : notification.projectName;
+  const waited = waitingSeconds >= 60 ? ` — open for ${Math.floor(waitingSeconds / 60)}m` : '';
+  return {
+    rule: rule.name,
+    text: `${notification.title} in ${where}: ${notification.body}${waited}`,
+    waitingSeconds,
+    notification,
+  };
+}
+
+async function postWebhook(rule: NotificationRule, payload: RulePayload) {
+  if (!rule.webhook) return;
+  try {
+    const res = await fetch(rule.webhook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...rule.webhook.headers },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(ACTION_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  } catch (err) {
+    console.warn(`[rules] ${rule.name}: webhook ${rule.webhook.url} failed:`, err instanceof Error ? err.message : err);
+  }
+}
+
+function runCommand(rule: NotificationRule, payload: RulePayload) {
+  if (!rule.command) return;
+  const { notification } = payload;
+  const child = execFile('/bin/sh', ['-c', rule.command], {
+    timeout: ACTION_TIMEOUT_MS,
+    env: {
+      ...process.env,
+      AGENT_VIEWER_RULE: rule.name,
+      AGENT_VIEWER_TEXT: payload.text,
+      AGENT_VIEWER_TYPE: notification.type,
+      AGENT_VIEWER_AGENT: notification.agentName,
+      AGENT_VIEWER_PROJECT: notification.projectName,
+      AGENT_VIEWER_BRANCH: notification.gitBranch ?? '',
+      AGENT_VIEWER_SESSION_ID: notification.sessionId,
+      AGENT_VIEWER_WAITING_SECONDS: String(payload.waitingSeconds),
+    },
+  }, (err) => {
+    if (err) console.warn(`[rules] ${rule.name}: command failed:`, err.message);
+  });
+  child.stdin?.on('error', () => { /* command exited without reading stdin */ });
+  child.stdin?.end(JSON.stringify(payload));
+}
+
+/** Run a fired rule's webhook and command; failures are logged, never thrown */
+export function runRuleActions(rule: NotificationRule, notification: InboxNotification, now = Date.now()) {
+  const payload = rulePayload(rule, notification, now);
+  console.log(`[rules] ${rule.name}: ${payload.text}`);
+  void postWebhook(rule, payload);
+  runCommand(rule, payload);
+}
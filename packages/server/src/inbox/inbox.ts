@@ -0,0 +1,132 @@
+import type { AgentState, InboxNotification, WSMessage } from '@agent-viewer/shared';
+import type { StateManager } from '../state';
+import { MAX_NOTIFICATIONS } from './types';
+import { waitingNotification, stuckNotification, stuckNotificationId, conflictNotification } from './notifications';
+
+type Listener = (notification: InboxNotification) => void;
+
+/**
+ * Server-side inbox: turns StateManager broadcasts into notifications for
+ * every session — agents starting to wait for input, stuck agents and edit
+ * conflicts — and resolves them when the condition clears. Listeners get
+ * each new or changed notification. Read state is left to each viewer.
+ */
+export class Inbox {
+  private notifications: InboxNotification[] = [];
+  private listeners = new Set<Listener>();
+  /** Open waiting / stuck notification ID per agent */
+  private waiting = new Map<string, string>();
+  private stuck = new Map<string, string>();
+  private conflictTimers = new Set<ReturnType<typeof setTimeout>>();
+  private unsubscribe: () => unknown;
+
+  constructor(private readonly stateManager: StateManager) {
+    this.unsubscribe = stateManager.subscribe((msg) => this.handleMessage(msg));
+    // Agents restored from the snapshot may already be waiting
+    for (const agent of stateManager.getAllAgents().values()) this.trackAgent(agent);
+  }
+
+  /** All notifications, newest first */
+  list(): InboxNotification[] {
+    return this.notifications;
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  close() {
+    this.unsubscribe();
+    for (const timer of this.conflictTimers) clearTimeout(timer);
+    this.conflictTimers.clear();
+    this.listeners.clear();
+  }
+
+  private handleMessage(msg: WSMessage) {
+    switch (msg.type) {
+      case 'agent_update':
+      case 'agent_added':
+        this.trackAgent(msg.data);
+        break;
+      case 'agent_removed':
+        this.resolveAgent(msg.data.id);
+        break;
+      case 'edit_conflict': {
+        const notification = conflictNotification(msg.data);
+        this.add(notification);
+        const timer = setTimeout(() => {
+          this.conflictTimers.delete(timer);
+          this.update(notification.id, { resolved: true });
+        }, Math.max(0, msg.data.expiresAt - Date.now()));
+        this.conflictTimers.add(timer);
+        break;
+      }
+    }
+  }
+
+  private trackAgent(agent: AgentState) {
+    const sessionId = this.stateManager.findSessionIdForAgent(agent.id);
+    const session = sessionId ? this.stateManager.getSessions().get(sessionId) : undefined;
+
+    const waitingId = this.waiting.get(agent.id);
+    if (agent.waitingForInput && !waitingId) {
+      const notification = waitingNotification(agent, session, Date.now());
+      this.waiting.set(agent.id, notification.id);
+      this.add(notification);
+    } else if (agent.waitingForInput && waitingId) {
+      // The permission request ID can arrive after the waiting transition
+      // (the hook parks after the state update), so keep it in sync
+      this.update(waitingId, { permissionRequestId: agent.pendingPermissionId });
+    } else if (waitingId) {
+      this.waiting.delete(agent.id);
+      this.update(waitingId, { resolved: true });
+    }
+
+    const stuckId = this.stuck.get(agent.id);
+    const nextStuckId = agent.stuck && stuckNotificationId(agent.id, agent.stuck);
+    if (stuckId && stuckId !== nextStuckId) {
+      this.stuck.delete(agent.id);
+      this.update(stuckId, { resolved: true });
+    }
+    if (agent.stuck && nextStuckId) {
+      if (stuckId === nextStuckId) {
+        this.update(stuckId, { body: agent.stuck.detail });
+      } else {
+        this.stuck.set(agent.id, nextStuckId);
+        this.add(stuckNotification({ ...agent, stuck: agent.stuck }, session));
+      }
+    }
+  }
+
+  private resolveAgent(agentId: string) {
+    for (const open of [this.waiting, this.stuck]) {
+      const id = open.get(agentId);
+      if (!id) continue;
+      open.delete(agentId);
+      this.update(id, { resolved: true });
+    }
+  }
+
+  private add(notification: InboxNotification) {
+    this.notifications = [notification, ...this.notifications].slice(0, MAX_NOTIFICATIONS);
+    this.emit(notification);
+  }
+
+  /** Apply a change to a notification, notifying listeners only if something differs */
+  private update(id: string, patch: Partial<InboxNotification>) {
+    const index = this.notifications.findIndex((n) => n.id === id);
+    if (index < 0) return;
+    const current = this.notifications[index];
+    if ((Object.keys(patch) as (keyof InboxNotification)[]).every((key) => current[key] === patch[key])) return;
+    const updated = { ...current, ...patch };
+    this.notifications = this.notifications.map((n, i) => (i === index ? updated : n));
+    this.emit(updated);
+  }
+
+  private emit(notification: InboxNotification) {
+    for (const listener of this.listeners) listener(notification);
+  }
+}
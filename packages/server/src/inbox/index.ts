@@ -0,0 +1,36 @@
+/**
+ * Inbox — notifications generated on the server for every session, so they
+ * exist (and rules fire) without a browser tab open.
+ *
+ * Viewers receive the list in their snapshot and each change as a
+ * `notification` message. Rules from rules.json POST a webhook or run a
+ * command when a notification matches, optionally after it has stayed open
+ * for a while.
+ */
+
+import type { StateManager } from '../state';
+import { Inbox } from './inbox';
+import { loadRules, RuleRunner } from './rules';
+import { runRuleActions } from './actions';
+import { RULES_FILE } from './types';
+
+export { Inbox } from './inbox';
+export { parseRules, loadRules, ruleMatches, RuleRunner } from './rules';
+export { rulePayload } from './actions';
+export { waitingNotification, stuckNotification, conflictNotification } from './notifications';
+export type { NotificationRule, RulePayload } from './types';
+
+/** Start the inbox, plus the rule runner if rules are configured */
+export function createInbox(stateManager: StateManager, rulesFile = RULES_FILE) {
+  const inbox = new Inbox(stateManager);
+  const rules = loadRules(rulesFile);
+  const runner = rules.length > 0 ? new RuleRunner(rules, inbox, stateManager, runRuleActions) : null;
+  if (runner) console.log(`[rules] Loaded ${rules.length} notification rule(s) from ${rulesFile}`);
+
+  function close() {
+    runner?.close();
+    inbox.close();
+  }
+
+  return { inbox, close };
+}
@@ -0,0 +1,87 @@
+import type { AgentState, EditConflict, InboxNotification, NotificationType, SessionInfo, StuckState } from '@agent-viewer/shared';
+
+function fileName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/** Inbox type for a waiting agent, from the server-provided waitingType */
+export function waitingNotificationType(agent: AgentState): NotificationType {
+  switch (agent.waitingType) {
+    case 'question': return 'ask_user_question';
+    case 'plan': return 'plan_approval';
+    case 'plan_approval': return 'plan_approval';
+    case 'permission': return 'permission_request';
+  }
+  // Fallback: string match on currentAction for sessions without hooks
+  const action = (agent.currentAction || '').toLowerCase();
+  if (action.includes('plan')) return 'plan_approval';
+  if (action.includes('question') || action.includes('ask')) return 'ask_user_question';
+  return 'permission_request';
+}
+
+/** Notification for an agent that started waiting for input */
+export function waitingNotification(agent: AgentState, session: SessionInfo | undefined, now: number): InboxNotification {
+  return {
+    id: `waiting-${agent.id}-${now}`,
+    type: waitingNotificationType(agent),
+    agentId: agent.id,
+    agentName: agent.name,
+    title: `${agent.name} needs input`,
+    body: agent.currentAction || 'Waiting for input',
+    context: agent.actionContext,
+    sessionId: session?.sessionId || 'unknown',
+    projectName: session?.projectName || 'Unknown Project',
+    gitBranch: agent.gitBranch || session?.gitBranch,
+    timestamp: now,
+    read: false,
+    resolved: false,
+    permissionRequestId: agent.pendingPermissionId,
+  };
+}
+
+/** ID of the notification for one stuck episode of an agent */
+export function stuckNotificationId(agentId: string, stuck: StuckState): string {
+  return `stuck-${agentId}-${stuck.since}`;
+}
+
+/** Notification for an agent the stuck detector flagged; one per stuck episode */
+export function stuckNotification(agent: AgentState & { stuck: StuckState }, session: SessionInfo | undefined): InboxNotification {
+  return {
+    id: stuckNotificationId(agent.id, agent.stuck),
+    type: 'agent_stuck',
+    agentId: agent.id,
+    agentName: agent.name,
+    title: `${agent.name} looks stuck`,
+    body: agent.stuck.detail,
+    context: agent.currentAction,
+    sessionId: session?.sessionId || 'unknown',
+    projectName: session?.projectName || 'Unknown Project',
+    gitBranch: agent.gitBranch || session?.gitBranch,
+    timestamp: agent.stuck.since,
+    read: false,
+    resolved: false,
+  };
+}
+
+/** Notification for two agents editing the same file, addressed to the later editor */
+export function conflictNotification(conflict: EditConflict): InboxNotification {
+  const [earlier, later] = conflict.parties;
+  const where = (p: EditConflict['parties'][number]) =>
+    p.sessionId === later.sessionId ? p.agentName : `${p.agentName} (${p.projectName || 'other session'})`;
+  return {
+    id: `conflict-${conflict.id}`,
+    type: 'edit_conflict',
+    agentId: later.agentId,
+    agentName: later.agentName,
+    title: `Edit conflict: ${fileName(conflict.path)}`,
+    body: `${where(earlier)} and ${where(later)} both edited ${conflict.path}`,
+    context: conflict.path,
+    sessionId: later.sessionId,
+    projectName: later.projectName || 'Unknown Project',
+    gitBranch: later.gitBranch,
+    timestamp: conflict.timestamp,
+    read: false,
+    resolved: false,
+    conflictId: conflict.id,
+  };
+}
@@ -0,0 +1,157 @@
+import { readFileSync } from 'fs';
+import type { AgentRole, InboxNotification, NotificationType } from '@agent-viewer/shared';
+import type { StateManager } from '../state';
+import type { Inbox } from './inbox';
+import { RULES_FILE, RULE_CHECK_INTERVAL_MS } from './types';
+import type { NotificationRule, RuleMatch, WebhookAction } from './types';
+
+const NOTIFICATION_TYPES: NotificationType[] = [
+  'permission_request', 'ask_user_question', 'plan_approval', 'task_completed',
+  'agent_error', 'agent_idle', 'agent_stopped', 'edit_conflict', 'agent_stuck',
+];
+const ROLES: AgentRole[] = ['lead', 'researcher', 'implementer', 'tester', 'planner'];
+
+/** A string or list of strings, normalised to a list; an error message if neither */
+function stringList(value: unknown, field: string, allowed?: string[]): string[] | string {
+  const list = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(list) || !list.every((v) => typeof v === 'string')) {
+    return `"${field}" must be a string or a list of strings`;
+  }
+  const unknown = allowed && list.find((v) => !allowed.includes(v));
+  return unknown ? `unknown ${field} "${unknown}"` : list;
+}
+
+function parseMatch(raw: unknown): RuleMatch | string {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return '"match" must be an object';
+  const r = raw as Record<string, unknown>;
+  const match: RuleMatch = {};
+  for (const [field, allowed] of [['type', NOTIFICATION_TYPES], ['project'], ['branch'], ['role', ROLES]] as const) {
+    if (r[field] === undefined) continue;
+    const list = stringList(r[field], field, allowed as string[] | undefined);
+    if (typeof list === 'string') return list;
+    (match as Record<string, string[]>)[field] = list;
+  }
+  if (r.waitingForSeconds !== undefined) {
+    if (typeof r.waitingForSeconds !== 'number' || !Number.isFinite(r.waitingForSeconds) || r.waitingForSeconds < 0) {
+      return '"waitingForSeconds" must be a non-negative number';
+    }
+    match.waitingForSeconds = r.waitingForSeconds;
+  }
+  return match;
+}
+
+function parseWebhook(raw: unknown): WebhookAction | string | undefined {
+  if (raw === undefined) return undefined;
+  if (typeof raw === 'string') return { url: raw };
+  if (!raw || typeof raw !== 'object' || typeof (raw as WebhookAction).url !== 'string') {
+    return '"webhook" must be a URL or { url, headers }';
+  }
+  const { url, headers } = raw as WebhookAction;
+  if (headers !== undefined && (typeof headers !== 'object' || !Object.values(headers).every((v) => typeof v === 'string'))) {
+    return '"webhook.headers" must map header names to strings';
+  }
+  return headers ? { url, headers } : { url };
+}
+
+/**
+ * Validate the contents of rules.json — a list of rules. Invalid rules are
+ * left out and described in `errors`, so one typo doesn't disable the rest.
+ */
+export function parseRules(raw: unknown): { rules: NotificationRule[]; errors: string[] } {
+  if (!Array.isArray(raw)) return { rules: [], errors: ['expected a list of rules'] };
+  const rules: NotificationRule[] = [];
+  const errors: string[] = [];
+  raw.forEach((entry, i) => {
+    const r = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const name = typeof r.name === 'string' && r.name ? r.name : `rule ${i + 1}`;
+    const match = parseMatch(r.match);
+    const webhook = parseWebhook(r.webhook);
+    const command = typeof r.command === 'string' && r.command ? r.command : undefined;
+    if (typeof match === 'string' || typeof webhook === 'string') {
+      errors.push(`${name}: ${typeof match === 'string' ? match : webhook}`);
+    } else if (r.command !== undefined && !command) {
+      errors.push(`${name}: "command" must be a non-empty string`);
+    } else if (!webhook && !command) {
+      errors.push(`${name}: needs a "webhook" or a "command"`);
+    } else {
+      rules.push({ name, match, ...(webhook ? { webhook } : {}), ...(command ? { command } : {}) });
+    }
+  });
+  return { rules, errors };
+}
+
+/** Load rules from `filePath`. A missing file means no rules; problems are logged. */
+export function loadRules(filePath = RULES_FILE): NotificationRule[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`[rules] Ignoring unreadable rules file ${filePath}:`, err instanceof Error ? err.message : err);
+    }
+    return [];
+  }
+  const { rules, errors } = parseRules(raw);
+  for (const error of errors) console.warn(`[rules] Ignoring rule in ${filePath}: ${error}`);
+  return rules;
+}
+
+/** Whether an open notification meets the rule's conditions at `now` */
+export function ruleMatches(rule: NotificationRule, notification: InboxNotification, role: AgentRole | undefined, now: number): boolean {
+  const { type, project, branch, role: roles, waitingForSeconds = 0 } = rule.match;
+  const within = (allowed: string[] | undefined, value: string | undefined) =>
+    !allowed || (value !== undefined && allowed.includes(value));
+  return !notification.resolved
+    && within(type, notification.type)
+    && within(project, notification.projectName)
+    && within(branch, notification.gitBranch)
+    && within(roles, role)
+    && now - notification.timestamp >= waitingForSeconds * 1000;
+}
+
+export type RuleAction = (rule: NotificationRule, notification: InboxNotification, now: number) => void;
+
+/**
+ * Fires each rule at most once per notification: as soon as it matches, or
+ * for rules with a waiting duration, on the periodic check after it elapses.
+ */
+export class RuleRunner {
+  /** `${ruleIndex}:${notificationId}` for rules that already fired */
+  private fired = new Set<string>();
+  private unsubscribe: () => void;
+  private timer: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly rules: NotificationRule[],
+    private readonly inbox: Inbox,
+    private readonly stateManager: StateManager,
+    private readonly action: RuleAction,
+  ) {
+    this.unsubscribe = inbox.subscribe(() => this.check());
+    this.timer = setInterval(() => this.check(), RULE_CHECK_INTERVAL_MS);
+  }
+
+  check(now = Date.now()) {
+    const notifications = this.inbox.list();
+    for (const notification of notifications) {
+      const role = this.stateManager.getAgentById(notification.agentId)?.role;
+      this.rules.forEach((rule, i) => {
+        const key = `${i}:${notification.id}`;
+        if (this.fired.has(key) || !ruleMatches(rule, notification, role, now)) return;
+        this.fired.add(key);
+        this.action(rule, notification, now);
+      });
+    }
+    // Forget notifications that have dropped out of the inbox
+    const ids = new Set(notifications.map((n) => n.id));
+    for (const key of this.fired) {
+      if (!ids.has(key.slice(key.indexOf(':') + 1))) this.fired.delete(key);
+    }
+  }
+
+  close() {
+    clearInterval(this.timer);
+    this.unsubscribe();
+  }
+}
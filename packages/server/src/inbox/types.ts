@@ -0,0 +1,61 @@
+import { join } from 'path';
+import type { AgentRole, InboxNotification, NotificationType } from '@agent-viewer/shared';
+import { DATA_DIR } from '../store/types';
+
+// ================================================================
+// Configuration
+// ================================================================
+/** Notification rules file; rules are off when it does not exist */
+export const RULES_FILE = process.env.AGENT_VIEWER_RULES_FILE || join(DATA_DIR, 'rules.json');
+
+// ================================================================
+// Tuning constants
+// ================================================================
+/** Notifications kept, newest first; the oldest fall off the end */
+export const MAX_NOTIFICATIONS = 100;
+/** How often rules with a waiting duration are re-checked (ms) */
+export const RULE_CHECK_INTERVAL_MS = 5000;
+/** Webhook requests and commands are abandoned after this long (ms) */
+export const ACTION_TIMEOUT_MS = 5000;
+
+// ================================================================
+// Rules
+// ================================================================
+
+/**
+ * Conditions a notification must meet for a rule to fire. Every given
+ * condition must hold; list conditions match if any value matches.
+ */
+export interface RuleMatch {
+  type?: NotificationType[];
+  /** Project name, as shown in the session picker */
+  project?: string[];
+  branch?: string[];
+  role?: AgentRole[];
+  /** Fire only once the notification has been open this long */
+  waitingForSeconds?: number;
+}
+
+export interface WebhookAction {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/** A rule from rules.json — fires its webhook and/or command once per notification */
+export interface NotificationRule {
+  name: string;
+  match: RuleMatch;
+  webhook?: WebhookAction;
+  /** Shell command; the payload is on stdin and in AGENT_VIEWER_* variables */
+  command?: string;
+}
+
+/** Body POSTed to webhooks and written to a command's stdin */
+export interface RulePayload {
+  rule: string;
+  /** One-line summary — lets Slack/Mattermost-style incoming webhooks show it as-is */
+  text: string;
+  /** How long the notification had been open when the rule fired */
+  waitingSeconds: number;
+  notification: InboxNotification;
+}
@@ -1,18 +1,61 @@
 import express from 'express';
 import { createServer } from 'http';
+import type { IncomingMessage } from 'http';
+import { createServer as createHttpsServer } from 'https';
+import { existsSync } from 'fs';
+import { isAbsolute } from 'path';
 import { WebSocketServer, WebSocket } from 'ws';
-import { StateManager } from './state';
+import { StateManager, inTeam } from './state';
 import { startWatcher } from './watcher';
 import { createHookHandler } from './hooks';
 import { validateHookEvent } from './validation';
 import cors from 'cors';
 import { isAllowedOrigin } from './origin';
-import { clearTouchBarStatus } from './touchbar';
+import { AUTH_DISABLED, WS_PROTOCOL, bearerToken, loadAuthToken, tokenMatches, wsRequestToken } from './auth';
+import { startStatusSinks, clearStatusSinks } from './statusSinks';
+import { PermissionBroker, permissionToolKey } from './permissions';
+import { createPersistence, buildReplayFrame, buildTimeline } from './store';
+import { ToolStatsRecorder, forgetRemovedAgents } from './toolStats';
+import { StuckDetector } from './watcher/stuckDetector';
+import { openSessionFeed } from './sessionFeed';
+import type { FeedClient } from './sessionFeed';
+import { createReadApi } from './readApi';
+import { readTranscriptPage, DEFAULT_TRANSCRIPT_PAGE_LINES, MAX_TRANSCRIPT_PAGE_LINES } from './transcript';
+import { loadRedactor } from './state/redaction';
+import { createSearch, MAX_SEARCH_LIMIT } from './search';
+import { ServerMetrics } from './metrics';
+import { createTracing } from './tracing';
+import { createInbox } from './inbox';
+import { buildStatusReport } from './statusReport';
+import { createFederation } from './federation';
+import {
+  BIND_HOST, CLIENT_DIR, SHARE_ENDED_CLOSE_CODE, ShareRegistry, createAccessControl, isLoopback,
+  loadTlsCredentials, parseShareRequest, publicBaseUrl, scopeTeamState, sessionInScope, shareUrl, toShareLink,
+} from './remote';
+import type { Access } from './remote';
+import type { ShareScope } from '@agent-viewer/shared';
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
+/** Required on /api/hook, /ws, the REST API and /metrics unless AGENT_VIEWER_AUTH=off */
+const authToken = AUTH_DISABLED ? null : loadAuthToken();
+// Other machines are only let in with auth on
+const bindHost = !isLoopback(BIND_HOST) && !authToken ? '127.0.0.1' : BIND_HOST;
+if (bindHost !== BIND_HOST) console.warn(`[remote] AGENT_VIEWER_AUTH=off — not listening on ${BIND_HOST}, only 127.0.0.1`);
+const tls = (() => {
+  try {
+    return loadTlsCredentials(bindHost);
+  } catch (err) {
+    console.error(`[remote] ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+})();
+/** Origin put in share links */
+const baseUrl = publicBaseUrl(bindHost, PORT, !!tls);
+/** Comment line sent on idle SSE streams so proxies don't time them out */
+const SSE_KEEPALIVE_MS = 25_000;
 
 const app = express();
-const server = createServer(app);
+const server = tls ? createHttpsServer(tls, app) : createServer(app);
 
 // Security headers
 app.disable('x-powered-by');
@@ -33,7 +76,7 @@ app.use(cors({
       callback(null, false); // Return false instead of Error to avoid 500s on rejected origins
     }
   },
-  methods: ['GET', 'POST'],
+  methods: ['GET', 'POST', 'DELETE'],
 }));
 
 // Health check endpoint
@@ -45,28 +88,83 @@ app.get('/api/health', (_req, res) => {
 app.use(express.json({ limit: '1mb' }));
 
 // State snapshot endpoint
-const stateManager = new StateManager();
-const hookHandler = createHookHandler(stateManager);
+// Secrets in actions, messages and transcripts are masked before they leave the server
+const redactor = loadRedactor();
+const stateManager = new StateManager(redactor);
+// Touch Bar, desktop notifications, tray and status bars (AGENT_VIEWER_STATUS_SINKS)
+startStatusSinks();
+// Restore history before the watcher starts so rediscovered sessions merge in
+const persistence = createPersistence(stateManager, redactor);
+const permissionBroker = new PermissionBroker(stateManager);
+const toolStats = new ToolStatsRecorder();
+forgetRemovedAgents(toolStats, stateManager);
+const stuckDetector = new StuckDetector();
+const metrics = new ServerMetrics(stateManager);
+// Notifications for all sessions, plus webhook/command rules from rules.json
+const { inbox, close: closeInbox } = createInbox(stateManager);
+// Full-text index over transcripts, tasks and messages of every session
+const search = createSearch(stateManager, redactor);
+// OTLP trace export — null unless OTEL_EXPORTER_OTLP_ENDPOINT is set
+const tracing = createTracing(redactor);
+// Push sessions to an aggregator and/or accept other servers' sessions (hub is null unless aggregating)
+const { hub: federationHub, close: closeFederation } = createFederation(stateManager, { tls });
+const hookHandler = createHookHandler(stateManager, { permissions: permissionBroker, toolStats, stuck: stuckDetector });
+// Read-only share links, and the token checks on the API
+const shares = new ShareRegistry();
+const access = createAccessControl({
+  authToken,
+  shares,
+  findSession: (sessionId) => stateManager.getSessions().get(sessionId) ?? federationHub?.getStateForSession(sessionId)?.session,
+});
+app.use(access.guardRequests);
 
 app.get('/api/state', (_req, res) => {
   res.json(stateManager.getState());
 });
 
-// Hook event endpoint — receives events from Claude Code lifecycle hooks
-app.post('/api/hook', (req, res) => {
+// Hook event endpoint — receives events from Claude Code lifecycle hooks.
+// PermissionRequest events posted with ?wait=<seconds> block until a viewer
+// answers Allow/Deny (or the wait runs out) and return { ok, decision }.
+app.post('/api/hook', async (req, res) => {
+  if (authToken && !tokenMatches(bearerToken(req.headers.authorization), authToken)) {
+    metrics.hookAuthFailed();
+    res.status(401).json({ ok: false, error: 'Unauthorized' });
+    return;
+  }
   try {
     const event = req.body;
 
     const validationError = validateHookEvent(event);
     if (validationError) {
+      metrics.hookEventRejected();
       console.warn('[hooks] Invalid event rejected:', validationError);
       res.status(400).json({ ok: false, error: validationError });
       return;
     }
 
     if (event && typeof event === 'object' && event.hook_event_name) {
+      metrics.hookEventReceived(event.hook_event_name);
+      persistence.recordHookEvent(event);
+      tracing?.handleEvent(event);
       hookHandler.handleEvent(event);
     }
+
+    const waitSeconds = Number(req.query.wait);
+    if (event.hook_event_name === 'PermissionRequest' && waitSeconds > 0) {
+      const agentId = stateManager.resolveAgentId(event.session_id);
+      // Nobody can answer for an agent the viewer doesn't know about
+      if (stateManager.getAgentById(agentId)) {
+        const { id, decision } = permissionBroker.request(
+          agentId,
+          permissionToolKey(event.tool_name, event.tool_input),
+          waitSeconds * 1000,
+        );
+        // Hook gave up (curl timeout, user answered in terminal and Claude killed it)
+        res.on('close', () => permissionBroker.cancel(id));
+        res.status(200).json({ ok: true, decision: await decision });
+        return;
+      }
+    }
     res.status(200).json({ ok: true });
   } catch (err) {
     console.warn('[hooks] Error processing event:', err instanceof Error ? err.message : err);
@@ -79,6 +177,220 @@ app.get('/api/sessions', (_req, res) => {
   res.json(stateManager.getSessionsList());
 });
 
+// Session replay — reconstructed state at ?at=<ms> (defaults to the latest recorded moment)
+app.get('/api/sessions/:id/replay', (req, res) => {
+  const at = req.query.at === undefined ? Date.now() : Number(req.query.at);
+  if (!Number.isFinite(at)) {
+    res.status(400).json({ error: 'Invalid "at" timestamp' });
+    return;
+  }
+  const sessionId = req.params.id;
+  const frame = buildReplayFrame(
+    persistence.store.readEvents([sessionId]),
+    sessionId,
+    at,
+    stateManager.getSessions().get(sessionId),
+  );
+  if (!frame) {
+    res.status(404).json({ error: 'No recorded history for session' });
+    return;
+  }
+  // Share viewers see the same cut-down state over REST as over the WebSocket
+  res.json(access.requestAccess(req)?.readOnly ? { ...frame, state: scopeTeamState(frame.state) } : frame);
+});
+
+// Swimlanes of what each agent was doing over the session, from the event log
+app.get('/api/sessions/:id/timeline', (req, res) => {
+  const sessionId = req.params.id;
+  const sessions = stateManager.getSessions();
+  const session = sessions.get(sessionId);
+  // A team's agents are recorded under whichever member session was found first
+  const relatedSessionIds = session?.isTeam
+    ? [...sessions.values()].filter((s) => s.isTeam && s.teamName && inTeam(s, session)).map((s) => s.sessionId)
+    : [];
+  const timeline = buildTimeline(persistence.store.readEvents([sessionId, ...relatedSessionIds]), sessionId, {
+    relatedSessionIds,
+    until: session ? Date.now() : undefined,
+  });
+  if (!timeline) {
+    res.status(404).json({ error: 'No recorded history for session' });
+    return;
+  }
+  res.json(timeline);
+});
+
+// An agent's transcript, newest page first (?agent= defaults to the session's main agent).
+// ?cursor= from a page reads the page before it; ?limit= caps the lines read.
+app.get('/api/sessions/:id/transcript', async (req, res) => {
+  const sessionId = req.params.id;
+  const session = stateManager.getSessions().get(sessionId);
+  if (!session) {
+    const remote = federationHub?.hasSession(sessionId);
+    res.status(404).json({ error: remote ? 'Transcripts of sessions on other machines are not available' : 'Unknown session' });
+    return;
+  }
+  const { agent, cursor, limit } = req.query;
+  const cursorValue = cursor === undefined ? undefined : Number(cursor);
+  const limitValue = limit === undefined ? DEFAULT_TRANSCRIPT_PAGE_LINES : Number(limit);
+  if (agent !== undefined && typeof agent !== 'string') {
+    res.status(400).json({ error: '"agent" must be given once' });
+    return;
+  }
+  if (cursorValue !== undefined && !(Number.isInteger(cursorValue) && cursorValue >= 0)) {
+    res.status(400).json({ error: '"cursor" must be a byte offset from a previous page' });
+    return;
+  }
+  if (!Number.isInteger(limitValue) || limitValue < 1 || limitValue > MAX_TRANSCRIPT_PAGE_LINES) {
+    res.status(400).json({ error: `"limit" must be between 1 and ${MAX_TRANSCRIPT_PAGE_LINES}` });
+    return;
+  }
+  const agentId = agent
+    || (session.isTeam ? stateManager.getStateForSession(sessionId).agents.find((a) => a.role === 'lead')?.id : undefined)
+    || sessionId;
+  const filePath = watcher.transcriptPath(sessionId, agentId);
+  if (!filePath) {
+    res.status(404).json({ error: 'No transcript for this agent' });
+    return;
+  }
+  try {
+    const page = await readTranscriptPage(filePath, cursorValue, limitValue, redactor);
+    res.json({ sessionId, agentId, ...page });
+  } catch (err) {
+    console.warn(`[transcript] Failed to read ${filePath}:`, err instanceof Error ? err.message : err);
+    res.status(404).json({ error: 'Transcript could not be read' });
+  }
+});
+
+// Full-text search across sessions (?q=, optional ?session= and ?limit=), newest hits first
+app.get('/api/search', (req, res) => {
+  const { q, session, limit } = req.query;
+  const limitValue = limit === undefined ? undefined : Number(limit);
+  if (typeof q !== 'string' || !q.trim() || q.length > 200) {
+    res.status(400).json({ error: '"q" must be 1-200 characters' });
+    return;
+  }
+  if (session !== undefined && typeof session !== 'string') {
+    res.status(400).json({ error: '"session" must be given once' });
+    return;
+  }
+  if (limitValue !== undefined && (!Number.isInteger(limitValue) || limitValue < 1 || limitValue > MAX_SEARCH_LIMIT)) {
+    res.status(400).json({ error: `"limit" must be between 1 and ${MAX_SEARCH_LIMIT}` });
+    return;
+  }
+  res.json(search.search(q, { sessionId: session, limit: limitValue }));
+});
+
+// Tool call statistics for a session (?session=, defaults to the default session)
+app.get('/api/stats', (req, res) => {
+  const sessionId = typeof req.query.session === 'string' ? req.query.session : stateManager.getDefaultSessionId();
+  if (!sessionId || !stateManager.getSessions().has(sessionId)) {
+    res.status(404).json({ error: 'Unknown session' });
+    return;
+  }
+  res.json(toolStats.report(sessionId, stateManager.getStateForSession(sessionId).agents));
+});
+
+// Prometheus metrics
+app.get('/metrics', (_req, res) => {
+  res.type('text/plain; version=0.0.4').send(metrics.render());
+});
+
+// Inbox notifications, newest first; ?active=true leaves out resolved ones
+app.get('/api/inbox', (req, res) => {
+  const active = req.query.active;
+  if (active !== undefined && active !== 'true' && active !== 'false') {
+    res.status(400).json({ error: '"active" must be true or false' });
+    return;
+  }
+  const notifications = inbox.list();
+  res.json(active === 'true' ? notifications.filter((n) => !n.resolved) : notifications);
+});
+
+// Compact status for tmux / shell prompts; ?cwd= picks the session for that directory
+app.get('/api/status', (req, res) => {
+  const cwd = req.query.cwd;
+  if (cwd !== undefined && (typeof cwd !== 'string' || !isAbsolute(cwd))) {
+    res.status(400).json({ error: '"cwd" must be an absolute path' });
+    return;
+  }
+  res.json(buildStatusReport(stateManager, cwd));
+});
+
+/** The session list entry a share scope is labelled after, or undefined if nothing matches */
+function shareTarget(scope: ShareScope) {
+  const list = stateManager.getSessionsList();
+  return (federationHub ? federationHub.mergeSessionsList(list, undefined) : list).find((s) => sessionInScope(scope, s));
+}
+
+// Read-only share links — managing them takes the install token
+app.use('/api/shares', access.requireOwner);
+
+app.get('/api/shares', (_req, res) => {
+  res.json(shares.list().map((share) => toShareLink(share)));
+});
+
+app.post('/api/shares', (req, res) => {
+  const parsed = parseShareRequest(req.body);
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const target = shareTarget(parsed.scope);
+  if (!target) {
+    res.status(404).json({ error: parsed.scope.type === 'session' ? 'Unknown session' : 'Unknown project' });
+    return;
+  }
+  const label = parsed.scope.type === 'session' ? target.slug || target.sessionId.slice(0, 8) : target.projectName;
+  const { share, token } = shares.create(parsed.scope, label, parsed.ttlMs);
+  res.status(201).json(toShareLink(share, shareUrl(baseUrl, token)));
+});
+
+app.delete('/api/shares/:id', (req, res) => {
+  if (!shares.revoke(req.params.id)) {
+    res.status(404).json({ error: 'Unknown share' });
+    return;
+  }
+  res.status(204).end();
+});
+
+// Per-session state, agents, tasks and messages with query filtering
+app.use('/api/sessions', createReadApi(stateManager));
+
+// Server-Sent Events — the same per-session WSMessage stream as /ws, one JSON
+// message per `data:` line. ?session=<id> picks the session (default: the most interesting).
+app.get('/api/events', (req, res) => {
+  const sessionId = typeof req.query.session === 'string' ? req.query.session : undefined;
+  if (sessionId && !stateManager.getSessions().has(sessionId) && !federationHub?.hasSession(sessionId)) {
+    res.status(404).json({ error: 'Unknown session' });
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const client: FeedClient = { selectedSessionId: sessionId || stateManager.getMostInterestingSessionId() || stateManager.getDefaultSessionId() };
+  const feed = openSessionFeed(stateManager, client, (msg) => {
+    res.write(`data: ${JSON.stringify(msg)}\n\n`);
+  }, inbox, federationHub);
+  feed.sendSnapshot();
+  metrics.clientConnected('sse');
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEPALIVE_MS);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    feed.close();
+    metrics.clientDisconnected('sse');
+  });
+});
+
+// The built client, so other devices need only this port (npm run build -w packages/client)
+if (existsSync(CLIENT_DIR)) app.use(express.static(CLIENT_DIR));
+
+/** What each accepted WebSocket upgrade's token grants, for the connection handler */
+const wsAccess = new WeakMap<IncomingMessage, Access>();
+
 // WebSocket server — per-client session tracking for multi-tab support
 const wss = new WebSocketServer({
   server,
@@ -86,114 +398,60 @@ const wss = new WebSocketServer({
   verifyClient: (info, cb) => {
     // Protect against Cross-Site WebSocket Hijacking (CSWSH)
     const origin = info.origin;
-    if (isAllowedOrigin(origin)) {
-      cb(true);
-    } else {
+    const clientAccess = access.accessFor(wsRequestToken(info.req));
+    if (!isAllowedOrigin(origin, info.req.headers.host)) {
       console.warn(`[ws] Rejected connection from unauthorized origin: ${origin}`);
       cb(false, 403, 'Forbidden');
+    } else if (!clientAccess) {
+      console.warn('[ws] Rejected connection without a valid token');
+      cb(false, 401, 'Unauthorized');
+    } else {
+      wsAccess.set(info.req, clientAccess);
+      cb(true);
     }
-  }
+  },
+  // Browsers offer the token as a subprotocol; answer with the plain one
+  handleProtocols: (protocols) => (protocols.has(WS_PROTOCOL) ? WS_PROTOCOL : false),
 });
 
-/** Per-client state: tracks which session each WebSocket client has selected */
-interface ClientState {
-  selectedSessionId?: string;
-}
-const clientStates = new Map<WebSocket, ClientState>();
-
-/** Get the filtered state for a specific client based on their session selection */
-function getClientState(ws: WebSocket) {
-  const client = clientStates.get(ws);
-  const sessionId = client?.selectedSessionId || stateManager.getDefaultSessionId();
-  if (sessionId) {
-    return stateManager.getStateForSession(sessionId);
-  }
-  return stateManager.getState();
-}
-
-/** Get the sessions list for a specific client (marks their selected session as active) */
-function getClientSessionsList(ws: WebSocket) {
-  const client = clientStates.get(ws);
-  return stateManager.getSessionsList(client?.selectedSessionId);
-}
-
-/** Get the effective active session ID for a client (their selection, or the server default) */
-function getClientActiveSessionId(ws: WebSocket): string | undefined {
-  return clientStates.get(ws)?.selectedSessionId || stateManager.getDefaultSessionId();
-}
-
-wss.on('connection', (ws: WebSocket) => {
-  console.log('[ws] client connected');
+wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+  const clientAccess = wsAccess.get(req);
+  const share = clientAccess?.readOnly ? clientAccess.share : undefined;
+  console.log(share ? `[ws] share viewer connected (${share.label})` : '[ws] client connected');
+  metrics.clientConnected('websocket');
   // Pick the most interesting session for this new client, rather than using
   // the global default (which may be stale from a previous client's navigation).
-  const activeId = stateManager.getMostInterestingSessionId() || stateManager.getDefaultSessionId();
-  clientStates.set(ws, { selectedSessionId: activeId });
-  ws.send(JSON.stringify({ type: 'full_state', data: getClientState(ws) }));
-  ws.send(JSON.stringify({ type: 'sessions_list', data: getClientSessionsList(ws) }));
-  ws.send(JSON.stringify({ type: 'sessions_grouped', data: stateManager.getGroupedSessionsList(activeId) }));
+  // Share viewers start on their scope's most recent session.
+  const client: FeedClient = share
+    ? { scope: share.scope }
+    : { selectedSessionId: stateManager.getMostInterestingSessionId() || stateManager.getDefaultSessionId() };
 
   // Subscribe to state changes — send per-client filtered views
-  const unsubscribe = stateManager.subscribe((msg) => {
-    if (ws.readyState !== WebSocket.OPEN) return;
-
-    const client = clientStates.get(ws);
-    const clientSessionId = client?.selectedSessionId;
-
-    if (msg.type === 'full_state') {
-      // Full state reset: send complete per-client filtered view
-      const id = getClientActiveSessionId(ws);
-      ws.send(JSON.stringify({ type: 'full_state', data: getClientState(ws) }));
-      ws.send(JSON.stringify({ type: 'sessions_list', data: getClientSessionsList(ws) }));
-      ws.send(JSON.stringify({ type: 'sessions_grouped', data: stateManager.getGroupedSessionsList(id) }));
-    } else if (msg.type === 'sessions_update' || msg.type === 'sessions_list' || msg.type === 'sessions_grouped') {
-      // Sessions list changed (agent status transition, session added/removed).
-      // Only update navigation tree — do NOT send full_state here.
-      // Agent data is already kept current via agent_update messages.
-      const id = getClientActiveSessionId(ws);
-      ws.send(JSON.stringify({ type: 'sessions_list', data: getClientSessionsList(ws) }));
-      ws.send(JSON.stringify({ type: 'sessions_grouped', data: stateManager.getGroupedSessionsList(id) }));
-    } else if (msg.type === 'session_started' || msg.type === 'session_ended') {
-      // Session lifecycle events go to all clients, plus updated list
-      const id = getClientActiveSessionId(ws);
-      ws.send(JSON.stringify(msg));
-      ws.send(JSON.stringify({ type: 'sessions_list', data: getClientSessionsList(ws) }));
-      ws.send(JSON.stringify({ type: 'sessions_grouped', data: stateManager.getGroupedSessionsList(id) }));
-      // If client has no explicit selection, a new auto-selected session may change their view
-      if (!clientSessionId) {
-        ws.send(JSON.stringify({ type: 'full_state', data: getClientState(ws) }));
-      }
-    } else if (msg.type === 'agent_removed') {
-      // Removal events always forwarded — agent is already gone from state
-      ws.send(JSON.stringify(msg));
-    } else if (msg.type === 'agent_update' || msg.type === 'agent_added') {
-      // Agent events: only forward if the agent belongs to this client's selected session
-      const filteredState = getClientState(ws);
-      const agentInView = filteredState.agents.some((a) => a.id === msg.data.id);
-      if (agentInView) {
-        ws.send(JSON.stringify(msg));
-      }
-    } else {
-      // task_update, new_message — forward to all clients
-      ws.send(JSON.stringify(msg));
-    }
-  });
+  const feed = openSessionFeed(stateManager, client, (msg) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  }, inbox, federationHub);
+  feed.sendSnapshot();
+  // Disconnect share viewers when their link expires or is revoked
+  const stopShare = share && shares.onEnd(share.id, () => ws.close(SHARE_ENDED_CLOSE_CODE, 'Share link ended'));
 
   // Handle incoming messages from clients
   ws.on('message', (raw) => {
     try {
       const msg = JSON.parse(raw.toString());
-      if (msg.type === 'select_session' && typeof msg.sessionId === 'string') {
+      if (msg.type === 'permission_decision' && typeof msg.requestId === 'string'
+        && (msg.decision === 'allow' || msg.decision === 'deny')) {
+        // Share links are read-only
+        if (share) return;
+        if (!permissionBroker.resolve(msg.requestId, msg.decision)) {
+          console.log(`[ws] Permission request already settled: ${msg.requestId.slice(0, 8)}`);
+        }
+      } else if (msg.type === 'select_session' && typeof msg.sessionId === 'string') {
+        if (!feed.canView(msg.sessionId)) return;
         console.log(`[ws] Client selected session: ${msg.sessionId}`);
         // Store per-client selection — does NOT mutate global state
-        const client = clientStates.get(ws);
-        if (client) {
-          client.selectedSessionId = msg.sessionId;
-        }
+        client.selectedSessionId = msg.sessionId;
         // Send filtered state to only this client
-        const id = getClientActiveSessionId(ws);
-        ws.send(JSON.stringify({ type: 'full_state', data: getClientState(ws) }));
-        ws.send(JSON.stringify({ type: 'sessions_list', data: getClientSessionsList(ws) }));
-        ws.send(JSON.stringify({ type: 'sessions_grouped', data: stateManager.getGroupedSessionsList(id) }));
+        feed.sendSnapshot();
       }
     } catch {
       // Ignore invalid messages
@@ -202,33 +460,53 @@ wss.on('connection', (ws: WebSocket) => {
 
   ws.on('close', () => {
     console.log('[ws] client disconnected');
-    clientStates.delete(ws);
-    unsubscribe();
+    stopShare?.();
+    feed.close();
+    metrics.clientDisconnected('websocket');
   });
 
-  ws.on('error', () => {
-    clientStates.delete(ws);
-    unsubscribe();
-  });
+  ws.on('error', () => feed.close());
 });
 
 // Start file watcher
-const watcher = startWatcher(stateManager);
+const watcher = startWatcher(stateManager, { stuck: stuckDetector, metrics, search: search.index });
 
 // Graceful shutdown
-const handleShutdown = () => {
+const handleShutdown = async () => {
   console.log('\n[server] shutting down...');
-  clearTouchBarStatus();
+  const sinksCleared = clearStatusSinks();
+  permissionBroker.clear();
   watcher.close();
+  persistence.close();
+  closeInbox();
+  search.close();
+  closeFederation();
+  shares.close();
   wss.close();
   server.close();
+  // Give the last spans a moment to reach the collector, and the sinks to reset
+  await Promise.race([
+    Promise.all([sinksCleared, tracing?.close()]),
+    new Promise((resolve) => setTimeout(resolve, 1000)),
+  ]);
   process.exit(0);
 };
 
 process.on('SIGINT', handleShutdown);
 process.on('SIGTERM', handleShutdown);
 
-server.listen(PORT, '127.0.0.1', () => {
-  console.log(`[server] listening on http://127.0.0.1:${PORT}`);
-  console.log(`[server] WebSocket on ws://127.0.0.1:${PORT}/ws`);
+server.listen(PORT, bindHost, () => {
+  const scheme = tls ? 'https' : 'http';
+  console.log(`[server] listening on ${scheme}://${bindHost}:${PORT}`);
+  console.log(`[server] WebSocket on ${tls ? 'wss' : 'ws'}://${bindHost}:${PORT}/ws`);
+  if (!isLoopback(bindHost)) {
+    console.log(`[remote] Remote viewing on ${baseUrl}${tls ? '' : ' — without TLS, tokens cross the network in plain text'}`);
+    if (!existsSync(CLIENT_DIR)) console.warn(`[remote] No built client in ${CLIENT_DIR} — run npm run build first`);
+  }
+  if (authToken) {
+    const viewerUrl = isLoopback(bindHost) ? 'http://localhost:5173' : baseUrl;
+    console.log(`[auth] Open the viewer at ${viewerUrl}/?token=${authToken}`);
+  } else {
+    console.warn('[auth] AGENT_VIEWER_AUTH=off — hooks and WebSocket clients are not authenticated');
+  }
 });
@@ -0,0 +1,135 @@
+/**
+ * ServerMetrics — Prometheus text exposition for GET /metrics.
+ *
+ * Gauges (sessions, agents, waiting time) are derived from the StateManager
+ * at scrape time; counters (hook events, validation rejections) and the
+ * watcher lag summary accumulate from the moment the server starts.
+ */
+
+import type { StateManager } from './state';
+
+export type ClientTransport = 'websocket' | 'sse';
+
+interface Sample {
+  /** Appended to the family name, e.g. "_sum" for a summary */
+  suffix?: string;
+  labels?: Record<string, string>;
+  value: number;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample(name: string, { suffix = '', labels, value }: Sample): string {
+  const pairs = Object.entries(labels ?? {}).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return `${name}${suffix}${pairs.length ? `{${pairs.join(',')}}` : ''} ${value}`;
+}
+
+/** One metric family: HELP and TYPE lines followed by its samples */
+function family(name: string, type: 'counter' | 'gauge' | 'summary', help: string, samples: Sample[]): string {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples.map((s) => formatSample(name, s))].join('\n');
+}
+
+export class ServerMetrics {
+  private hookEvents = new Map<string, number>();
+  private hookRejections = 0;
+  private hookAuthFailures = 0;
+  private clients: Record<ClientTransport, number> = { websocket: 0, sse: 0 };
+  private watcherLag = { sumMs: 0, count: 0, lastMs: 0 };
+  /** When each currently waiting agent started waiting */
+  private waitingSince = new Map<string, number>();
+
+  constructor(private readonly stateManager: StateManager) {
+    stateManager.subscribe((msg) => {
+      if (msg.type === 'agent_update' || msg.type === 'agent_added') {
+        if (!msg.data.waitingForInput) {
+          this.waitingSince.delete(msg.data.id);
+        } else if (!this.waitingSince.has(msg.data.id)) {
+          this.waitingSince.set(msg.data.id, Date.now());
+        }
+      } else if (msg.type === 'agent_removed') {
+        this.waitingSince.delete(msg.data.id);
+      }
+    });
+  }
+
+  hookEventReceived(eventName: string) {
+    this.hookEvents.set(eventName, (this.hookEvents.get(eventName) ?? 0) + 1);
+  }
+
+  hookEventRejected() {
+    this.hookRejections++;
+  }
+
+  hookAuthFailed() {
+    this.hookAuthFailures++;
+  }
+
+  clientConnected(transport: ClientTransport) {
+    this.clients[transport]++;
+  }
+
+  clientDisconnected(transport: ClientTransport) {
+    this.clients[transport] = Math.max(0, this.clients[transport] - 1);
+  }
+
+  /** Time from a transcript file change to the viewer having processed it */
+  observeWatcherLag(ms: number) {
+    this.watcherLag.sumMs += ms;
+    this.watcherLag.count++;
+    this.watcherLag.lastMs = ms;
+  }
+
+  render(now = Date.now()): string {
+    const sessionCounts = { working: 0, waiting: 0, idle: 0 };
+    for (const entry of this.stateManager.getSessionsList()) {
+      if (entry.hasWaitingAgent) {
+        sessionCounts.waiting++;
+      } else if (this.stateManager.getStateForSession(entry.sessionId).agents.some((a) => a.status === 'working')) {
+        sessionCounts.working++;
+      } else {
+        sessionCounts.idle++;
+      }
+    }
+
+    // Each agent is counted once: waiting takes precedence over its status
+    const agentCounts = { working: 0, waiting: 0, idle: 0, done: 0 };
+    const waiting: Sample[] = [];
+    for (const agent of this.stateManager.getAllAgents().values()) {
+      if (!agent.waitingForInput) {
+        agentCounts[agent.status]++;
+        continue;
+      }
+      agentCounts.waiting++;
+      // Agents already waiting when the server started are timed from first sight
+      const since = this.waitingSince.get(agent.id) ?? now;
+      this.waitingSince.set(agent.id, since);
+      waiting.push({
+        labels: { agent_id: agent.id, agent_name: agent.name, waiting_type: agent.waitingType ?? 'unknown' },
+        value: (now - since) / 1000,
+      });
+    }
+
+    const lag = this.watcherLag;
+    return [
+      family('agent_viewer_sessions', 'gauge', 'Sessions by state (waiting if any agent awaits input).',
+        Object.entries(sessionCounts).map(([state, value]) => ({ labels: { state }, value }))),
+      family('agent_viewer_agents', 'gauge', 'Agents by state (waiting if awaiting input, otherwise their status).',
+        Object.entries(agentCounts).map(([state, value]) => ({ labels: { state }, value }))),
+      family('agent_viewer_agent_waiting_seconds', 'gauge', 'How long each waiting agent has been waiting for input.', waiting),
+      family('agent_viewer_hook_events_total', 'counter', 'Hook events received, by hook_event_name.',
+        [...this.hookEvents].map(([event, value]) => ({ labels: { event }, value }))),
+      family('agent_viewer_hook_events_rejected_total', 'counter', 'Hook events rejected by validation.',
+        [{ value: this.hookRejections }]),
+      family('agent_viewer_hook_auth_failures_total', 'counter', 'Hook events refused for a missing or wrong token.',
+        [{ value: this.hookAuthFailures }]),
+      family('agent_viewer_clients', 'gauge', 'Connected live-update clients, by transport.',
+        Object.entries(this.clients).map(([transport, value]) => ({ labels: { transport }, value }))),
+      family('agent_viewer_watcher_lag_seconds', 'summary', 'Delay from a transcript change to it being processed.',
+        [{ suffix: '_sum', value: lag.sumMs / 1000 }, { suffix: '_count', value: lag.count }]),
+      family('agent_viewer_watcher_last_lag_seconds', 'gauge', 'Delay of the most recently processed transcript change.',
+        [{ value: lag.lastMs / 1000 }]),
+    ].join('\n\n') + '\n';
+  }
+}
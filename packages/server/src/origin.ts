@@ -1,8 +1,13 @@
-export function isAllowedOrigin(origin?: string): boolean {
+/**
+ * Whether a browser origin may use the API and WebSocket: the local dev
+ * client, or a page this server served itself (same host, e.g. a tablet
+ * in remote viewing mode). `host` is the request's Host header.
+ */
+export function isAllowedOrigin(origin?: string, host?: string): boolean {
   if (!origin) return true;
   try {
     const url = new URL(origin);
-    return url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+    return url.hostname === 'localhost' || url.hostname === '127.0.0.1' || (!!host && url.host === host);
   } catch {
     return false;
   }
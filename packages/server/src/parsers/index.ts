@@ -2,7 +2,7 @@
 export { parseTeamConfig, parseTaskFile, inferRole, teamMemberToAgent } from './teamParser';
 export type { TeamConfig } from './teamParser';
 
-export { parseTranscriptLine, extractToolUseBlocks, extractAgentName, parseSendMessageInput, describeToolAction } from './transcriptParser';
+export { parseTranscriptLine, extractToolUseBlocks, extractAgentName, parseSendMessageInput, describeToolAction, extractUsage, extractFileTouch, extractFileTouches } from './transcriptParser';
 export type { ParsedTranscriptLine } from './transcriptParser';
 
 export { parseSessionMetadata, cleanProjectName, extractRecordType } from './sessionParser';
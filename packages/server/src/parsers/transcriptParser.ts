@@ -1,4 +1,4 @@
-import type { MessageState } from '@agent-viewer/shared';
+import type { MessageState, TokenCounts, CompactionEvent, FileOperation } from '@agent-viewer/shared';
 
 export interface ParsedTranscriptLine {
   type: 'message' | 'tool_call' | 'agent_activity' | 'compact' | 'thinking' | 'progress' | 'turn_end' | 'unknown';
@@ -9,6 +9,16 @@ export interface ParsedTranscriptLine {
   message?: MessageState;
   /** True when this tool call always requires user input (e.g., AskUserQuestion) */
   isUserPrompt?: boolean;
+  /** API message ID of an assistant line — repeated across a response's content blocks */
+  messageId?: string;
+  /** Model that produced an assistant line */
+  model?: string;
+  /** Token usage reported on an assistant line */
+  usage?: TokenCounts;
+  /** Details of a compact boundary (timestamp is when the line was written) */
+  compaction?: { trigger: CompactionEvent['trigger']; tokensBefore?: number; timestamp?: number };
+  /** Files read or changed by the line's tool calls (timestamp is when the line was written) */
+  fileTouches?: Array<{ path: string; operation: FileOperation; toolUseId?: string; timestamp?: number }>;
 }
 
 export function extractToolUseBlocks(data: Record<string, unknown>): Array<{ name: string; id?: string; input?: Record<string, unknown> }> {
@@ -145,6 +155,61 @@ export function describeToolAction(block: { name: string; input?: Record<string,
   }
 }
 
+function tokenCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/** Extract the message ID, model and token usage from an assistant line */
+export function extractUsage(data: Record<string, unknown>): Pick<ParsedTranscriptLine, 'messageId' | 'model' | 'usage'> | null {
+  if (data.type !== 'assistant' || !data.message || typeof data.message !== 'object') return null;
+  const msg = data.message as Record<string, unknown>;
+  if (typeof msg.id !== 'string' || !msg.usage || typeof msg.usage !== 'object') return null;
+  const usage = msg.usage as Record<string, unknown>;
+  return {
+    messageId: msg.id,
+    model: typeof msg.model === 'string' ? msg.model : undefined,
+    usage: {
+      inputTokens: tokenCount(usage.input_tokens),
+      outputTokens: tokenCount(usage.output_tokens),
+      cacheCreationTokens: tokenCount(usage.cache_creation_input_tokens),
+      cacheReadTokens: tokenCount(usage.cache_read_input_tokens),
+    },
+  };
+}
+
+/** What each file tool does to the file it names */
+const FILE_TOOL_OPERATIONS: Record<string, FileOperation> = {
+  Read: 'read',
+  Edit: 'edit',
+  MultiEdit: 'edit',
+  NotebookEdit: 'edit',
+  Write: 'write',
+};
+
+/** Map a file tool call to the path and operation it touches, or null for other tools */
+export function extractFileTouch(
+  toolName: string,
+  input?: Record<string, unknown>,
+): { path: string; operation: FileOperation } | null {
+  const operation = FILE_TOOL_OPERATIONS[toolName];
+  if (!operation || !input) return null;
+  const path = input.file_path ?? input.notebook_path;
+  return typeof path === 'string' && path ? { path, operation } : null;
+}
+
+/** Extract every file touched by the tool calls on a line */
+export function extractFileTouches(data: Record<string, unknown>): NonNullable<ParsedTranscriptLine['fileTouches']> {
+  const timestamp = typeof data.timestamp === 'string' ? Date.parse(data.timestamp) : NaN;
+  const touches: NonNullable<ParsedTranscriptLine['fileTouches']> = [];
+  for (const block of extractToolUseBlocks(data)) {
+    const touch = extractFileTouch(block.name, block.input);
+    if (touch) {
+      touches.push({ ...touch, toolUseId: block.id, timestamp: Number.isNaN(timestamp) ? undefined : timestamp });
+    }
+  }
+  return touches;
+}
+
 export function parseTranscriptLine(line: string): ParsedTranscriptLine | null {
   let data: Record<string, unknown>;
   try {
@@ -157,6 +222,17 @@ export function parseTranscriptLine(line: string): ParsedTranscriptLine | null {
     return null;
   }
 
+  const parsed = classifyTranscriptRecord(data);
+  const usage = extractUsage(data);
+  const fileTouches = extractFileTouches(data);
+  return {
+    ...parsed,
+    ...usage,
+    ...(fileTouches.length > 0 ? { fileTouches } : {}),
+  };
+}
+
+function classifyTranscriptRecord(data: Record<string, unknown>): ParsedTranscriptLine {
   // Detect turn completion — definitive signal that a turn ended
   if (data.type === 'system' && data.subtype === 'turn_duration') {
     return { type: 'turn_end' };
@@ -164,7 +240,16 @@ export function parseTranscriptLine(line: string): ParsedTranscriptLine | null {
 
   // Detect conversation compacting (full compact or microcompact)
   if (data.type === 'system' && (data.subtype === 'compact_boundary' || data.subtype === 'microcompact_boundary')) {
-    return { type: 'compact' };
+    const meta = (data.compactMetadata ?? data.microcompactMetadata) as Record<string, unknown> | undefined;
+    const timestamp = typeof data.timestamp === 'string' ? Date.parse(data.timestamp) : NaN;
+    return {
+      type: 'compact',
+      compaction: {
+        trigger: meta?.trigger === 'manual' ? 'manual' : 'auto',
+        tokensBefore: typeof meta?.preTokens === 'number' ? meta.preTokens : undefined,
+        timestamp: Number.isNaN(timestamp) ? undefined : timestamp,
+      },
+    };
   }
 
   const agentName = extractAgentName(data);
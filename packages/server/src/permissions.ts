@@ -0,0 +1,114 @@
+/**
+ * PermissionBroker — lets a blocking PermissionRequest hook wait for an
+ * Allow/Deny decision made in the viewer.
+ *
+ * The hook script POSTs the PermissionRequest event to /api/hook?wait=<seconds>
+ * and the route parks the HTTP response here. The request settles when:
+ *
+ * - a viewer client answers it (decision is 'allow' or 'deny')
+ * - the agent moves on without us (answered in the terminal, turn ended)
+ * - the timeout fires or the hook disconnects
+ *
+ * In every case except an explicit answer the hook receives `null` and prints
+ * nothing, so Claude Code falls back to its normal terminal prompt.
+ */
+
+import { randomUUID } from 'crypto';
+import type { PermissionDecision } from '@agent-viewer/shared';
+import type { StateManager } from './state';
+
+/** Upper bound on how long a hook may block waiting for a decision */
+export const MAX_PERMISSION_WAIT_MS = 120_000;
+
+interface PendingPermission {
+  agentId: string;
+  /** tool_name + tool_input fingerprint, used to match the PostToolUse that follows */
+  toolKey: string;
+  settle: (decision: PermissionDecision | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Fingerprint a tool call so a later PostToolUse can be matched to its permission request */
+export function permissionToolKey(toolName: string, toolInput?: Record<string, unknown>): string {
+  return `${toolName}:${JSON.stringify(toolInput ?? {})}`;
+}
+
+export class PermissionBroker {
+  private pending = new Map<string, PendingPermission>();
+
+  constructor(private stateManager: StateManager) {}
+
+  /**
+   * Park a permission request for an agent. Any older request for the same
+   * agent is superseded (Claude Code only shows one prompt at a time).
+   * Returns the request ID and a promise for the decision (`null` = no answer).
+   */
+  request(agentId: string, toolKey: string, timeoutMs: number): { id: string; decision: Promise<PermissionDecision | null> } {
+    this.cancelForAgent(agentId);
+
+    const id = randomUUID();
+    const waitMs = Math.min(Math.max(timeoutMs, 0), MAX_PERMISSION_WAIT_MS);
+    const decision = new Promise<PermissionDecision | null>((resolve) => {
+      const timer = setTimeout(() => this.settle(id, null), waitMs);
+      this.pending.set(id, { agentId, toolKey, settle: resolve, timer });
+    });
+
+    this.stateManager.setAgentPendingPermission(agentId, id);
+    return { id, decision };
+  }
+
+  /**
+   * Answer a pending request from the viewer. Returns false if the request
+   * is unknown or already settled (timed out, answered in another tab).
+   */
+  resolve(id: string, decision: PermissionDecision): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) return false;
+    this.settle(id, decision);
+    // The agent is unblocked either way — Claude continues (or reports the denial)
+    this.stateManager.setAgentWaitingById(entry.agentId, false);
+    console.log(`[permissions] ${decision}: agent=${entry.agentId.slice(0, 12)}`);
+    return true;
+  }
+
+  /** Give up on a request without a decision (hook disconnected). */
+  cancel(id: string) {
+    this.settle(id, null);
+  }
+
+  /**
+   * Give up on an agent's pending request because the agent moved on.
+   * When toolKey is given, only a request for that exact tool call is cancelled
+   * so a parallel tool finishing doesn't cancel an unrelated prompt.
+   */
+  cancelForAgent(agentId: string, toolKey?: string) {
+    for (const [id, entry] of this.pending) {
+      if (entry.agentId !== agentId) continue;
+      if (toolKey !== undefined && entry.toolKey !== toolKey) continue;
+      this.settle(id, null);
+    }
+  }
+
+  /** Number of hooks currently blocked waiting for a decision */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /** Release every parked hook (server shutdown). */
+  clear() {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, null);
+    }
+  }
+
+  private settle(id: string, decision: PermissionDecision | null) {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    entry.settle(decision);
+    if (this.stateManager.getAgentById(entry.agentId)?.pendingPermissionId === id) {
+      this.stateManager.setAgentPendingPermission(entry.agentId, undefined);
+    }
+  }
+}
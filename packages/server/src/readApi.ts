@@ -0,0 +1,108 @@
+/**
+ * Read-only REST API for scripts and status bars — per-session state, agents,
+ * tasks and messages, with simple query-string filtering:
+ *
+ *   GET /api/sessions/:id
+ *   GET /api/sessions/:id/agents?status=working,idle&role=&waiting=true&subagent=false
+ *   GET /api/sessions/:id/tasks?status=in_progress&owner=
+ *   GET /api/sessions/:id/messages?agent=&from=&to=&since=<ms>&limit=<n>
+ *
+ * List parameters take comma-separated values; any one matching is enough.
+ * Messages are limited to those from or to the session's agents.
+ */
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { AgentState, MessageState, TaskState, TeamState } from '@agent-viewer/shared';
+import type { StateManager } from './state';
+import { scopeTeamState } from './remote';
+
+type Query = Request['query'];
+
+/** A malformed query parameter — reported as 400 */
+export class QueryError extends Error {}
+
+/** Comma-separated values of a parameter, or undefined when absent */
+function listParam(query: Query, name: string): string[] | undefined {
+  const value = query[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new QueryError(`"${name}" must be given once`);
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+function booleanParam(query: Query, name: string): boolean | undefined {
+  const value = query[name];
+  if (value === undefined) return undefined;
+  if (value === 'true' || value === 'false') return value === 'true';
+  throw new QueryError(`"${name}" must be true or false`);
+}
+
+function numberParam(query: Query, name: string): number | undefined {
+  const value = query[name];
+  if (value === undefined) return undefined;
+  const n = typeof value === 'string' && value !== '' ? Number(value) : NaN;
+  if (!Number.isFinite(n) || n < 0) throw new QueryError(`"${name}" must be a non-negative number`);
+  return n;
+}
+
+const matches = (allowed: string[] | undefined, value: string | undefined) =>
+  !allowed || (value !== undefined && allowed.includes(value));
+
+export function filterAgents(agents: AgentState[], query: Query): AgentState[] {
+  const status = listParam(query, 'status');
+  const role = listParam(query, 'role');
+  const waiting = booleanParam(query, 'waiting');
+  const subagent = booleanParam(query, 'subagent');
+  return agents.filter((a) =>
+    matches(status, a.status)
+    && matches(role, a.role)
+    && (waiting === undefined || !!a.waitingForInput === waiting)
+    && (subagent === undefined || !!a.isSubagent === subagent));
+}
+
+export function filterTasks(tasks: TaskState[], query: Query): TaskState[] {
+  const status = listParam(query, 'status');
+  const owner = listParam(query, 'owner');
+  return tasks.filter((t) => matches(status, t.status) && matches(owner, t.owner));
+}
+
+/** Messages oldest first; `limit` keeps the newest N after the other filters */
+export function filterMessages(messages: MessageState[], query: Query): MessageState[] {
+  const agent = listParam(query, 'agent');
+  const from = listParam(query, 'from');
+  const to = listParam(query, 'to');
+  const since = numberParam(query, 'since');
+  const limit = numberParam(query, 'limit');
+  const filtered = messages.filter((m) =>
+    (!agent || agent.includes(m.from) || agent.includes(m.to))
+    && matches(from, m.from)
+    && matches(to, m.to)
+    && (since === undefined || m.timestamp >= since));
+  return limit === undefined ? filtered : filtered.slice(Math.max(filtered.length - Math.floor(limit), 0));
+}
+
+export function createReadApi(stateManager: StateManager): Router {
+  const router = Router();
+
+  /** Answer with the session's state picked by `select`, or the matching error */
+  const respond = <T>(select: (state: TeamState, query: Query) => T) => (req: Request<{ id: string }>, res: Response) => {
+    const sessionId = req.params.id;
+    if (!stateManager.getSessions().has(sessionId)) {
+      res.status(404).json({ error: 'Unknown session' });
+      return;
+    }
+    try {
+      res.json(select(scopeTeamState(stateManager.getStateForSession(sessionId)), req.query));
+    } catch (err) {
+      if (!(err instanceof QueryError)) throw err;
+      res.status(400).json({ error: err.message });
+    }
+  };
+
+  router.get('/:id', respond((state) => state));
+  router.get('/:id/agents', respond((state, query) => filterAgents(state.agents, query)));
+  router.get('/:id/tasks', respond((state, query) => filterTasks(state.tasks, query)));
+  router.get('/:id/messages', respond((state, query) => filterMessages(state.messages, query)));
+
+  return router;
+}
@@ -0,0 +1,91 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { SessionInfo } from '@agent-viewer/shared';
+import { bearerToken, tokenMatches } from '../auth';
+import type { ShareRegistry } from './shares';
+import { sessionInScope } from './scope';
+import type { Share } from './types';
+
+/** What a token grants: everything (the install token), or read-only access through a share */
+export type Access = { readOnly: false } | { readOnly: true; share: Share };
+
+/** Open to anyone: the health check, and /api/hook, which checks its own token */
+const PUBLIC_API_PATHS = new Set(['/api/health', '/api/hook']);
+
+/** Whether an address or listen host belongs to this machine's loopback interface */
+export function isLoopback(address: string | undefined): boolean {
+  if (!address) return false;
+  return address === 'localhost' || address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.');
+}
+
+/** The session a share viewer's REST request reads, for the routes share links may use */
+function sharedSessionId(req: Request): string | undefined {
+  if (req.method !== 'GET') return undefined;
+  if (req.path === '/api/stats') return typeof req.query.session === 'string' ? req.query.session : undefined;
+  const sessionRoute = /^\/api\/sessions\/([^/]+)\/(?:replay|timeline|transcript)$/.exec(req.path);
+  return sessionRoute ? decodeURIComponent(sessionRoute[1]) : undefined;
+}
+
+export interface AccessControlOptions {
+  /** The install token; null when auth is off */
+  authToken: string | null;
+  shares: ShareRegistry;
+  /** Local or federated session by ID */
+  findSession: (sessionId: string) => SessionInfo | undefined;
+}
+
+export function createAccessControl({ authToken, shares, findSession }: AccessControlOptions) {
+  const isOwner = (token: string | undefined) => !authToken || tokenMatches(token, authToken);
+
+  function accessFor(token: string | undefined): Access | null {
+    if (isOwner(token)) return { readOnly: false };
+    const share = token ? shares.resolve(token) : null;
+    return share ? { readOnly: true, share } : null;
+  }
+
+  /** Whether a share's scope covers a session */
+  function shareCovers(share: Share, sessionId: string): boolean {
+    const session = findSession(sessionId);
+    return !!session && sessionInScope(share.scope, session);
+  }
+
+  const requestToken = (req: Request) =>
+    bearerToken(req.headers.authorization) ?? (typeof req.query.token === 'string' ? req.query.token : undefined);
+
+  /** What a REST request's token grants, wherever it comes from */
+  function requestAccess(req: Request): Access | null {
+    return accessFor(requestToken(req));
+  }
+
+  /**
+   * The API and metrics need the install token, from this machine too — the
+   * client page itself stays public. Share links may read the stats, replays,
+   * timelines and transcripts of the sessions they cover.
+   */
+  function guardRequests(req: Request, res: Response, next: NextFunction) {
+    const protectedPath = (req.path.startsWith('/api/') && !PUBLIC_API_PATHS.has(req.path)) || req.path === '/metrics';
+    if (!protectedPath) {
+      next();
+      return;
+    }
+    const access = accessFor(requestToken(req));
+    const sessionId = access?.readOnly ? sharedSessionId(req) : undefined;
+    if (access && (!access.readOnly || (sessionId && shareCovers(access.share, sessionId)))) {
+      next();
+      return;
+    }
+    res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  /** Share management takes the install token, from this machine too */
+  function requireOwner(req: Request, res: Response, next: NextFunction) {
+    if (isOwner(bearerToken(req.headers.authorization))) {
+      next();
+      return;
+    }
+    res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  return { accessFor, requestAccess, shareCovers, guardRequests, requireOwner };
+}
+
+export type AccessControl = ReturnType<typeof createAccessControl>;
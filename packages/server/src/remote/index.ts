@@ -0,0 +1,31 @@
+/**
+ * Remote viewing — watching agents from another device, like a tablet on
+ * the desk. Opt in with AGENT_VIEWER_HOST to listen on a LAN interface,
+ * ideally with TLS (AGENT_VIEWER_TLS=self-signed, or a certificate). The
+ * server then also serves the built client, requires the install token from
+ * other machines, and hands out expiring read-only share links scoped to
+ * one project or session.
+ */
+
+import { reachableHost } from './tls';
+import { PUBLIC_URL } from './types';
+
+export { ShareRegistry, toShareLink, parseShareRequest } from './shares';
+export { createAccessControl, isLoopback } from './access';
+export type { Access, AccessControl } from './access';
+export { loadTlsCredentials } from './tls';
+export { scopeGroupedSessions, scopeTeamState, sessionInScope } from './scope';
+export { BIND_HOST, CLIENT_DIR, SHARE_ENDED_CLOSE_CODE } from './types';
+export type { Share } from './types';
+
+/** Base URL for share links: AGENT_VIEWER_PUBLIC_URL, else the address this server is reachable on */
+export function publicBaseUrl(bindHost: string, port: number, secure: boolean): string {
+  if (PUBLIC_URL) return PUBLIC_URL.replace(/\/+$/, '');
+  const host = reachableHost(bindHost);
+  return `${secure ? 'https' : 'http'}://${host.includes(':') ? `[${host}]` : host}:${port}`;
+}
+
+/** The link a share viewer opens */
+export function shareUrl(baseUrl: string, token: string): string {
+  return `${baseUrl}/?share=${encodeURIComponent(token)}`;
+}
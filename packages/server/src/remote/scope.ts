@@ -0,0 +1,43 @@
+import type { GroupedSessionsList, SessionListEntry, ShareScope, TeamState } from '@agent-viewer/shared';
+import { sumUsage } from '../usage';
+
+/** Whether a session (list entry or SessionInfo) is visible through a share scope */
+export function sessionInScope(
+  scope: ShareScope,
+  session: { sessionId: string; projectPath: string; mainRepoPath?: string; host?: string },
+): boolean {
+  if (scope.type === 'session') return session.sessionId === scope.sessionId;
+  return (session.mainRepoPath || session.projectPath) === scope.projectPath && session.host === scope.host;
+}
+
+function summarize(sessions: SessionListEntry[]) {
+  return {
+    totalAgents: sessions.reduce((n, s) => n + s.agentCount, 0),
+    lastActivity: Math.max(...sessions.map((s) => s.lastActivity)),
+    hasWaitingAgent: sessions.some((s) => s.hasWaitingAgent),
+    usage: sumUsage(sessions.map((s) => s.usage)),
+  };
+}
+
+/**
+ * The grouped sessions list cut down to a share scope, with totals recounted
+ * so they don't reveal the sessions left out. There is no host level.
+ */
+export function scopeGroupedSessions(grouped: GroupedSessionsList, scope: ShareScope): GroupedSessionsList {
+  const inScope = (s: SessionListEntry) => sessionInScope(scope, s);
+  const projects = grouped.projects.flatMap((project) => {
+    const branches = project.branches.flatMap((branch) => {
+      const sessions = branch.sessions.filter(inScope);
+      return sessions.length > 0 ? [{ ...branch, sessions, ...summarize(sessions) }] : [];
+    });
+    const sessions = branches.flatMap((b) => b.sessions);
+    return sessions.length > 0 ? [{ ...project, branches, totalSessions: sessions.length, ...summarize(sessions) }] : [];
+  });
+  return { projects, flatSessions: grouped.flatSessions.filter(inScope) };
+}
+
+/** Messages are kept for every session; a share viewer only sees its agents' */
+export function scopeTeamState(state: TeamState): TeamState {
+  const names = new Set(state.agents.map((a) => a.name));
+  return { ...state, messages: state.messages.filter((m) => names.has(m.from) || names.has(m.to)) };
+}
@@ -0,0 +1,146 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { ShareLink, ShareScope } from '@agent-viewer/shared';
+import { DEFAULT_SHARE_TTL_MS, MAX_SHARE_TTL_MS, SHARES_FILE } from './types';
+import type { Share } from './types';
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+function isShare(value: unknown): value is Share {
+  const s = value as Share;
+  return !!s && typeof s.id === 'string' && typeof s.tokenHash === 'string' && typeof s.label === 'string'
+    && typeof s.createdAt === 'number' && typeof s.expiresAt === 'number'
+    && !!s.scope && (s.scope.type === 'session' || s.scope.type === 'project');
+}
+
+/** The API view of a share; only a newly created one has its URL */
+export function toShareLink(share: Share, url?: string): ShareLink {
+  return { id: share.id, scope: share.scope, label: share.label, createdAt: share.createdAt, expiresAt: share.expiresAt, ...(url ? { url } : {}) };
+}
+
+/**
+ * Read-only share links. Each has a random token, of which only a hash is
+ * kept, and ends at its expiry or when revoked — whichever comes first.
+ * Viewers holding a link can listen for its end to be disconnected.
+ */
+export class ShareRegistry {
+  private shares = new Map<string, Share>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private endListeners = new Map<string, Set<() => void>>();
+
+  /** `filePath` null keeps shares in memory only */
+  constructor(private filePath: string | null = SHARES_FILE) {
+    this.load();
+  }
+
+  create(scope: ShareScope, label: string, ttlMs: number): { share: Share; token: string } {
+    const token = randomBytes(24).toString('base64url');
+    const now = Date.now();
+    const share: Share = { id: randomUUID(), tokenHash: hashToken(token), scope, label, createdAt: now, expiresAt: now + ttlMs };
+    this.add(share);
+    this.save();
+    return { share, token };
+  }
+
+  /** The live share a token belongs to, if any */
+  resolve(token: string): Share | null {
+    const hash = hashToken(token);
+    for (const share of this.shares.values()) {
+      if (share.tokenHash === hash && share.expiresAt > Date.now()) return share;
+    }
+    return null;
+  }
+
+  /** Live shares, newest first */
+  list(): Share[] {
+    return [...this.shares.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  revoke(id: string): boolean {
+    if (!this.end(id)) return false;
+    this.save();
+    return true;
+  }
+
+  /** Call `listener` once when the share expires or is revoked */
+  onEnd(id: string, listener: () => void): () => void {
+    let listeners = this.endListeners.get(id);
+    if (!listeners) this.endListeners.set(id, (listeners = new Set()));
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  close() {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private add(share: Share) {
+    this.shares.set(share.id, share);
+    const timer = setTimeout(() => {
+      this.end(share.id);
+      this.save();
+    }, Math.max(share.expiresAt - Date.now(), 0));
+    timer.unref();
+    this.timers.set(share.id, timer);
+  }
+
+  private end(id: string): boolean {
+    if (!this.shares.delete(id)) return false;
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    const listeners = this.endListeners.get(id);
+    this.endListeners.delete(id);
+    for (const listener of listeners ?? []) listener();
+    return true;
+  }
+
+  private load() {
+    if (!this.filePath) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`[remote] Ignoring unreadable shares file ${this.filePath}:`, err instanceof Error ? err.message : err);
+      }
+      return;
+    }
+    if (!Array.isArray(raw)) return;
+    for (const share of raw) {
+      if (isShare(share) && share.expiresAt > Date.now()) this.add(share);
+    }
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(this.list(), null, 2) + '\n', { mode: 0o600 });
+    } catch (err) {
+      console.warn(`[remote] Failed to save shares to ${this.filePath}:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
+
+/**
+ * Validate a POST /api/shares body: `{ sessionId }` or `{ projectPath, host? }`,
+ * plus an optional `ttlMinutes`.
+ */
+export function parseShareRequest(body: unknown): { scope: ShareScope; ttlMs: number } | { error: string } {
+  const b = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  let ttlMs = DEFAULT_SHARE_TTL_MS;
+  if (b.ttlMinutes !== undefined) {
+    if (typeof b.ttlMinutes !== 'number' || !(b.ttlMinutes > 0)) return { error: '"ttlMinutes" must be a positive number' };
+    ttlMs = Math.min(b.ttlMinutes * 60_000, MAX_SHARE_TTL_MS);
+  }
+  if (typeof b.sessionId === 'string' && b.sessionId) {
+    return { scope: { type: 'session', sessionId: b.sessionId }, ttlMs };
+  }
+  if (typeof b.projectPath === 'string' && b.projectPath) {
+    if (b.host !== undefined && typeof b.host !== 'string') return { error: '"host" must be a string' };
+    return { scope: { type: 'project', projectPath: b.projectPath, ...(b.host ? { host: b.host } : {}) }, ttlMs };
+  }
+  return { error: 'Give a "sessionId" or a "projectPath" to share' };
+}
@@ -0,0 +1,65 @@
+import { execFileSync } from 'child_process';
+import { chmodSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { hostname, networkInterfaces } from 'os';
+import { isIP } from 'net';
+import { join } from 'path';
+import { TLS_CERT_FILE, TLS_DIR, TLS_KEY_FILE, TLS_MODE, SELF_SIGNED_DAYS } from './types';
+import type { TlsCredentials } from './types';
+
+/** This machine's LAN addresses (non-internal IPv4) */
+function lanAddresses(): string[] {
+  return Object.values(networkInterfaces())
+    .flat()
+    .filter((a) => a && a.family === 'IPv4' && !a.internal)
+    .map((a) => a!.address);
+}
+
+/** The address other devices should use to reach a server bound to `host` */
+export function reachableHost(host: string): string {
+  if (host !== '0.0.0.0' && host !== '::') return host;
+  return lanAddresses()[0] || hostname();
+}
+
+/** Generate a self-signed certificate valid for localhost, the bind host and this machine's addresses */
+function generateSelfSigned(certFile: string, keyFile: string, bindHost: string) {
+  const names = new Set(['localhost', '127.0.0.1', hostname(), ...lanAddresses()]);
+  if (bindHost !== '0.0.0.0' && bindHost !== '::') names.add(bindHost);
+  const san = [...names].map((n) => (isIP(n) ? `IP:${n}` : `DNS:${n}`)).join(',');
+  execFileSync('openssl', [
+    'req', '-x509', '-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:prime256v1', '-nodes',
+    '-keyout', keyFile, '-out', certFile, '-days', String(SELF_SIGNED_DAYS),
+    '-subj', '/CN=agent-viewer-town', '-addext', `subjectAltName=${san}`,
+  ], { stdio: 'ignore', timeout: 30_000 });
+  chmodSync(keyFile, 0o600);
+  console.log(`[remote] Generated a self-signed certificate for ${[...names].join(', ')} in ${certFile}`);
+}
+
+/**
+ * The certificate and key to serve HTTPS with: the configured PEM files, or
+ * a self-signed pair generated once into the data directory. Null when TLS
+ * is off. Throws when TLS was asked for but can't be set up, so the server
+ * never silently falls back to plain HTTP.
+ */
+export function loadTlsCredentials(
+  bindHost: string,
+  { mode = TLS_MODE, certFile = TLS_CERT_FILE, keyFile = TLS_KEY_FILE, dir = TLS_DIR } = {},
+): TlsCredentials | null {
+  if (certFile || keyFile) {
+    if (!certFile || !keyFile) throw new Error('AGENT_VIEWER_TLS_CERT and AGENT_VIEWER_TLS_KEY must be set together');
+    return { cert: readFileSync(certFile, 'utf-8'), key: readFileSync(keyFile, 'utf-8') };
+  }
+  if (!mode) return null;
+  if (mode !== 'self-signed') throw new Error(`Unknown AGENT_VIEWER_TLS "${mode}" — expected "self-signed"`);
+
+  const cert = join(dir, 'cert.pem');
+  const key = join(dir, 'key.pem');
+  if (!existsSync(cert) || !existsSync(key)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+    try {
+      generateSelfSigned(cert, key, bindHost);
+    } catch (err) {
+      throw new Error(`Could not generate a self-signed certificate with openssl: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return { cert: readFileSync(cert, 'utf-8'), key: readFileSync(key, 'utf-8') };
+}
@@ -0,0 +1,55 @@
+import { fileURLToPath } from 'url';
+import { join } from 'path';
+import type { ShareScope } from '@agent-viewer/shared';
+import { DATA_DIR } from '../store/types';
+
+// ================================================================
+// Configuration
+// ================================================================
+/** Interface the viewer listens on; anything but loopback is remote viewing mode */
+export const BIND_HOST = process.env.AGENT_VIEWER_HOST || '127.0.0.1';
+/** "self-signed" to serve HTTPS with a generated certificate */
+export const TLS_MODE = process.env.AGENT_VIEWER_TLS || '';
+/** PEM certificate and key to serve HTTPS with (both required) */
+export const TLS_CERT_FILE = process.env.AGENT_VIEWER_TLS_CERT || '';
+export const TLS_KEY_FILE = process.env.AGENT_VIEWER_TLS_KEY || '';
+/** Where the generated self-signed certificate is kept */
+export const TLS_DIR = join(DATA_DIR, 'tls');
+/** Base URL put in share links (default: derived from the bound interface and port) */
+export const PUBLIC_URL = process.env.AGENT_VIEWER_PUBLIC_URL || '';
+/** Built browser client the server serves, so other devices need only this one port */
+export const CLIENT_DIR = process.env.AGENT_VIEWER_CLIENT_DIR || fileURLToPath(new URL('../../../client/dist', import.meta.url));
+/** Share links, kept across restarts (tokens are stored hashed) */
+export const SHARES_FILE = join(DATA_DIR, 'shares.json');
+
+// ================================================================
+// Tuning constants
+// ================================================================
+/** Share link lifetime when the request doesn't give one */
+export const DEFAULT_SHARE_TTL_MS = 8 * 60 * 60 * 1000;
+/** Longest share link lifetime (also keeps expiry timers within setTimeout's range) */
+export const MAX_SHARE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+/** Validity of a generated self-signed certificate */
+export const SELF_SIGNED_DAYS = 365;
+/** WebSocket close code sent to share viewers when their link expires or is revoked */
+export const SHARE_ENDED_CLOSE_CODE = 4403;
+
+// ================================================================
+// Interfaces
+// ================================================================
+
+/** A stored share link — the token itself is only known to whoever got the URL */
+export interface Share {
+  id: string;
+  /** SHA-256 of the token, hex */
+  tokenHash: string;
+  scope: ShareScope;
+  label: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface TlsCredentials {
+  cert: string;
+  key: string;
+}
@@ -0,0 +1,84 @@
+import type { MessageState, TaskState } from '@agent-viewer/shared';
+import type { UsageOwner } from '../usage';
+import type { SearchDoc, SearchLabels } from './types';
+
+/** Tool input fields worth searching — paths, commands, patterns and descriptions, not file contents */
+const SEARCHED_INPUT_FIELDS = [
+  'description', 'command', 'file_path', 'notebook_path', 'path', 'pattern', 'glob', 'url', 'query', 'subject', 'prompt',
+];
+
+/** Indexed from state as messages, so not again as tool calls */
+const MESSAGE_TOOLS = new Set(['SendMessage', 'SendMessageTool']);
+
+/** The searched fields of a tool call's input, one per line */
+function toolInputText(input: unknown): string {
+  if (!input || typeof input !== 'object') return '';
+  const fields = input as Record<string, unknown>;
+  return SEARCHED_INPUT_FIELDS
+    .map((field) => fields[field])
+    .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+    .join('\n');
+}
+
+/**
+ * Documents for a transcript line: the user's prompt text, the assistant's
+ * text and each tool call. Tool results and thinking aren't indexed. Keys use
+ * the line's uuid, so re-reading a transcript doesn't add duplicates.
+ */
+export function transcriptSearchDocs(line: string, owner: UsageOwner, labels: SearchLabels = {}): SearchDoc[] {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return [];
+  }
+  if ((data.type !== 'user' && data.type !== 'assistant') || data.isMeta === true || typeof data.uuid !== 'string') return [];
+  const parsedTime = typeof data.timestamp === 'string' ? Date.parse(data.timestamp) : NaN;
+  const timestamp = Number.isNaN(parsedTime) ? Date.now() : parsedTime;
+  const base = { sessionId: owner.sessionId, agentId: owner.agentId, timestamp, ...labels };
+  const textKind = data.type === 'user' ? 'prompt' as const : 'reply' as const;
+
+  const content = (data.message as { content?: unknown } | undefined)?.content;
+  if (typeof content === 'string') {
+    return content.trim() ? [{ ...base, key: `${data.uuid}:0`, kind: textKind, text: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  const docs: SearchDoc[] = [];
+  content.forEach((block: Record<string, unknown>, i) => {
+    const key = `${data.uuid}:${i}`;
+    if (block?.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+      docs.push({ ...base, key, kind: textKind, text: block.text });
+    } else if (block?.type === 'tool_use' && typeof block.name === 'string' && !MESSAGE_TOOLS.has(block.name)) {
+      docs.push({ ...base, key, kind: 'tool', detail: block.name, text: toolInputText(block.input) });
+    }
+  });
+  return docs;
+}
+
+export function messageSearchDoc(message: MessageState, sessionId: string, labels: SearchLabels = {}): SearchDoc {
+  return {
+    ...labels,
+    key: `message:${message.id}`,
+    kind: 'message',
+    sessionId,
+    agentName: message.from,
+    detail: message.to,
+    text: message.content,
+    timestamp: message.timestamp,
+  };
+}
+
+/** A task's subject — keyed by session and task ID, so status changes replace it */
+export function taskSearchDoc(task: TaskState, sessionId: string, timestamp: number, labels: SearchLabels = {}): SearchDoc {
+  return {
+    ...labels,
+    key: `task:${sessionId}:${task.id}`,
+    kind: 'task',
+    sessionId,
+    agentName: task.owner,
+    detail: task.status,
+    text: task.subject,
+    timestamp,
+  };
+}
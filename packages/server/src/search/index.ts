@@ -0,0 +1,87 @@
+/**
+ * Full-text search across sessions — user prompts, assistant text, tool call
+ * inputs (paths, commands, patterns), task subjects and messages. The watcher
+ * indexes transcripts and tasks as it reads them; messages come from state.
+ * Everything is redacted before it is indexed. The index lives in memory and
+ * is rebuilt from the transcripts the watcher picks up on start.
+ */
+
+import type { MessageState, SearchHit, SearchResults } from '@agent-viewer/shared';
+import type { StateManager } from '../state';
+import type { Redactor } from '../state/redaction';
+import { SearchIndex, snippetFor } from './searchIndex';
+import { messageSearchDoc } from './documents';
+import { DEFAULT_SEARCH_LIMIT } from './types';
+import type { SearchLabels } from './types';
+
+export { SearchIndex, tokenize, snippetFor } from './searchIndex';
+export { transcriptSearchDocs, messageSearchDoc, taskSearchDoc } from './documents';
+export { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, MAX_SEARCH_DOCS } from './types';
+export type { SearchDoc, SearchLabels } from './types';
+
+/** The current names of a session and agent, for labelling documents and hits */
+export function searchLabels(stateManager: StateManager, sessionId: string, agentId?: string): SearchLabels {
+  const session = stateManager.getSessions().get(sessionId);
+  const agent = agentId ? stateManager.getAgentById(agentId) : undefined;
+  return {
+    ...(agent ? { agentName: agent.name } : {}),
+    ...(session ? { projectName: session.projectName } : {}),
+    ...(session?.gitBranch ? { gitBranch: session.gitBranch } : {}),
+  };
+}
+
+/** The session a message sender is shown in */
+function messageSessionId(stateManager: StateManager, from: string): string | undefined {
+  for (const agent of stateManager.getAllAgents().values()) {
+    if (agent.name !== from) continue;
+    const sessionId = stateManager.findSessionIdForAgent(agent.id);
+    if (sessionId) return sessionId;
+  }
+  return undefined;
+}
+
+/** Create the index and start indexing messages as they arrive */
+export function createSearch(stateManager: StateManager, redactor?: Redactor) {
+  const index = new SearchIndex(redactor);
+
+  const indexMessages = (messages: MessageState[]) => {
+    for (const message of messages) {
+      const sessionId = messageSessionId(stateManager, message.from);
+      if (sessionId) index.add(messageSearchDoc(message, sessionId, searchLabels(stateManager, sessionId)));
+    }
+  };
+  indexMessages(stateManager.getState().messages);
+  const unsubscribe = stateManager.subscribe((msg) => {
+    if (msg.type === 'new_message') indexMessages([msg.data]);
+  });
+
+  /** Hits for a query, newest first, labelled with current names where the session is still tracked */
+  function search(query: string, options: { sessionId?: string; limit?: number } = {}): SearchResults {
+    const { docs, terms } = index.search(query, { sessionId: options.sessionId });
+    const hits = docs.slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT).map((doc): SearchHit => {
+      const live = stateManager.getSessions().has(doc.sessionId);
+      const labels = live ? searchLabels(stateManager, doc.sessionId, doc.agentId) : {};
+      return {
+        kind: doc.kind,
+        sessionId: doc.sessionId,
+        ...(doc.agentId ? { agentId: doc.agentId } : {}),
+        agentName: labels.agentName ?? doc.agentName,
+        projectName: labels.projectName ?? doc.projectName,
+        gitBranch: labels.gitBranch ?? doc.gitBranch,
+        ...(doc.detail ? { detail: doc.detail } : {}),
+        snippet: snippetFor(doc.text, terms),
+        timestamp: doc.timestamp,
+        live,
+      };
+    });
+    return { query, hits, total: docs.length };
+  }
+
+  function close() {
+    unsubscribe();
+  }
+
+  return { index, search, close };
+}
+
+export type SessionSearch = ReturnType<typeof createSearch>;
@@ -0,0 +1,156 @@
+import { loadRedactor } from '../state/redaction';
+import type { Redactor } from '../state/redaction';
+import { MAX_SEARCH_DOCS, MAX_SEARCH_DOC_CHARS, MAX_SEARCH_TEXT_CHARS, SNIPPET_CHARS } from './types';
+import type { SearchDoc } from './types';
+
+interface IndexedDoc extends SearchDoc {
+  id: number;
+}
+
+/** Words as searched: lowercased runs of letters and digits, so paths and snake_case split into parts */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((t) => t.length >= 2)
+    .map((t) => t.slice(0, 40));
+}
+
+/** The text around the first place any term appears, on one line */
+export function snippetFor(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const first = Math.min(...terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0), flat.length);
+  const start = first === flat.length ? 0 : Math.max(0, first - Math.floor(SNIPPET_CHARS / 3));
+  const end = Math.min(flat.length, start + SNIPPET_CHARS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+function docChars(text: string, detail: string | undefined): number {
+  return text.length + (detail?.length ?? 0);
+}
+
+/**
+ * Inverted index over the words of prompts, replies, tool inputs, tasks and
+ * messages. Query terms match words they prefix, every term must match, and
+ * the newest documents are kept once the index is full.
+ */
+export class SearchIndex {
+  /** Insertion order is oldest first — eviction takes from the front */
+  private docs = new Map<number, IndexedDoc>();
+  private idsByKey = new Map<string, number>();
+  /** Word -> IDs of documents containing it, ascending; may hold removed IDs until compacted */
+  private postings = new Map<string, number[]>();
+  private postingCount = 0;
+  private removedPostings = 0;
+  private nextId = 0;
+  /** Characters of text and detail across the kept documents */
+  private textChars = 0;
+
+  constructor(
+    private redact: Redactor = loadRedactor(),
+    private maxDocs = MAX_SEARCH_DOCS,
+    private maxTextChars = MAX_SEARCH_TEXT_CHARS,
+  ) {}
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  /**
+   * Index a document, replacing any earlier one with the same key.
+   * Returns false when it was already indexed unchanged or has no words.
+   */
+  add(doc: SearchDoc): boolean {
+    const text = this.redact(doc.text.slice(0, MAX_SEARCH_DOC_CHARS));
+    const existingId = this.idsByKey.get(doc.key);
+    if (existingId !== undefined) {
+      const existing = this.docs.get(existingId)!;
+      if (existing.text === text && existing.detail === doc.detail) return false;
+      this.remove(existingId);
+    }
+    const words = new Set(tokenize(`${doc.detail ?? ''} ${text}`));
+    if (words.size === 0) return false;
+
+    const id = this.nextId++;
+    this.docs.set(id, { ...doc, text, id });
+    this.idsByKey.set(doc.key, id);
+    for (const word of words) {
+      const ids = this.postings.get(word);
+      if (ids) ids.push(id);
+      else this.postings.set(word, [id]);
+    }
+    this.postingCount += words.size;
+    this.textChars += docChars(text, doc.detail);
+
+    while (this.docs.size > this.maxDocs || this.textChars > this.maxTextChars) {
+      this.remove(this.docs.keys().next().value!);
+    }
+    if (this.removedPostings > this.postingCount / 2) this.compact();
+    return true;
+  }
+
+  /** Documents matching every term of the query, newest first */
+  search(query: string, options: { sessionId?: string } = {}): { docs: SearchDoc[]; terms: string[] } {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return { docs: [], terms };
+
+    // Rarest terms first, so the candidate set shrinks fastest
+    const [rarest, ...others] = terms.map((term) => this.idsWithPrefix(term)).sort((a, b) => a.size - b.size);
+    let matches = rarest;
+    for (const ids of others) {
+      if (matches.size === 0) break;
+      matches = new Set([...matches].filter((id) => ids.has(id)));
+    }
+
+    const docs: SearchDoc[] = [];
+    for (const id of matches) {
+      const doc = this.docs.get(id);
+      if (!doc) continue;
+      if (options.sessionId && doc.sessionId !== options.sessionId) continue;
+      const { id: _id, ...rest } = doc;
+      docs.push(rest);
+    }
+    docs.sort((a, b) => b.timestamp - a.timestamp);
+    return { docs, terms };
+  }
+
+  clear() {
+    this.docs.clear();
+    this.idsByKey.clear();
+    this.postings.clear();
+    this.postingCount = 0;
+    this.removedPostings = 0;
+    this.textChars = 0;
+  }
+
+  private idsWithPrefix(term: string): Set<number> {
+    const ids = new Set<number>();
+    for (const [word, wordIds] of this.postings) {
+      if (!word.startsWith(term)) continue;
+      for (const id of wordIds) ids.add(id);
+    }
+    return ids;
+  }
+
+  /** Drop a document; its postings are left for compact() */
+  private remove(id: number) {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+    this.docs.delete(id);
+    if (this.idsByKey.get(doc.key) === id) this.idsByKey.delete(doc.key);
+    this.removedPostings += new Set(tokenize(`${doc.detail ?? ''} ${doc.text}`)).size;
+    this.textChars -= docChars(doc.text, doc.detail);
+  }
+
+  /** Rebuild the postings without removed documents */
+  private compact() {
+    let count = 0;
+    for (const [word, ids] of this.postings) {
+      const live = ids.filter((id) => this.docs.has(id));
+      if (live.length === 0) this.postings.delete(word);
+      else this.postings.set(word, live);
+      count += live.length;
+    }
+    this.postingCount = count;
+    this.removedPostings = 0;
+  }
+}
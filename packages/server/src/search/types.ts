@@ -0,0 +1,33 @@
+import type { SearchHitKind } from '@agent-viewer/shared';
+
+/** Documents kept in the index; the oldest are dropped past this */
+export const MAX_SEARCH_DOCS = 50_000;
+/** Characters of text kept across all documents (about 20 MB); the oldest are dropped past this */
+export const MAX_SEARCH_TEXT_CHARS = 10_000_000;
+/** Longer prompts, replies and tool inputs are indexed up to this many characters */
+export const MAX_SEARCH_DOC_CHARS = 2000;
+/** Characters of context returned with each hit */
+export const SNIPPET_CHARS = 160;
+/** Hits per response unless the caller asks for fewer */
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+/** Session and agent names a document was indexed under — kept for sessions that have since expired */
+export interface SearchLabels {
+  agentName?: string;
+  projectName?: string;
+  gitBranch?: string;
+}
+
+/** One searchable piece of text */
+export interface SearchDoc extends SearchLabels {
+  /** Identifies the source, e.g. a transcript line's uuid and block — re-adding a key replaces it */
+  key: string;
+  kind: SearchHitKind;
+  sessionId: string;
+  agentId?: string;
+  /** Tool name, message recipient or task status — searched along with the text */
+  detail?: string;
+  text: string;
+  timestamp: number;
+}
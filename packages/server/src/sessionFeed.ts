@@ -0,0 +1,159 @@
+/**
+ * Per-client update feed — filters StateManager broadcasts down to what one
+ * client is viewing. Shared by the WebSocket (/ws) and Server-Sent Events
+ * (/api/events) transports so both stream the same WSMessage sequence.
+ * On an aggregator, remote hosts' sessions are listed and viewable too.
+ * A client opened through a share link only ever sees its scope's sessions.
+ */
+
+import type { ShareScope, TeamState, WSMessage } from '@agent-viewer/shared';
+import type { StateManager } from './state';
+import type { Inbox } from './inbox';
+import type { FederationHub } from './federation';
+import { scopeGroupedSessions, scopeTeamState, sessionInScope } from './remote';
+
+/** Per-client state: tracks which session the client has selected */
+export interface FeedClient {
+  selectedSessionId?: string;
+  /** Set for share link viewers: the sessions they may see */
+  scope?: ShareScope;
+}
+
+export interface SessionFeed {
+  /** Send the client's complete view: full_state, sessions_list, sessions_grouped and the inbox */
+  sendSnapshot(): void;
+  /** Whether the client may select a session (always, unless it has a scope) */
+  canView(sessionId: string): boolean;
+  /** Stop forwarding updates */
+  close(): void;
+}
+
+const EMPTY_STATE: TeamState = { name: '', agents: [], tasks: [], messages: [] };
+
+export function openSessionFeed(
+  stateManager: StateManager,
+  client: FeedClient,
+  send: (msg: WSMessage) => void,
+  inbox?: Inbox,
+  federation?: FederationHub | null,
+): SessionFeed {
+  const { scope } = client;
+  /** Sessions in the client's scope, as of the last sessions list sent */
+  let visibleSessionIds = new Set<string>();
+
+  /** The effective active session ID (the client's selection, or the server default — never outside a scope) */
+  const activeSessionId = () => client.selectedSessionId || (scope ? undefined : stateManager.getDefaultSessionId());
+
+  /** Whether the client is viewing a session pushed by another server (a local session wins an ID clash) */
+  const viewingRemote = () => {
+    const sessionId = activeSessionId();
+    return !!federation && !!sessionId && !stateManager.getSessions().has(sessionId) && federation.hasSession(sessionId);
+  };
+
+  /** The filtered state for the client's session selection */
+  const clientState = () => {
+    const sessionId = activeSessionId();
+    if (!sessionId) return scope ? EMPTY_STATE : stateManager.getState();
+    const state = (viewingRemote() && federation?.getStateForSession(sessionId)) || stateManager.getStateForSession(sessionId);
+    return scope ? scopeTeamState(state) : state;
+  };
+
+  const sessionLists = () => {
+    // The sessions list marks the client's explicit selection as active
+    const list = stateManager.getSessionsList(client.selectedSessionId);
+    const grouped = stateManager.getGroupedSessionsList(activeSessionId());
+    const merged = {
+      list: federation ? federation.mergeSessionsList(list, client.selectedSessionId) : list,
+      grouped: federation ? federation.mergeGroupedSessions(grouped, activeSessionId()) : grouped,
+    };
+    if (!scope) return merged;
+    return { list: merged.list.filter((s) => sessionInScope(scope, s)), grouped: scopeGroupedSessions(merged.grouped, scope) };
+  };
+
+  const sendSessionLists = () => {
+    const { list, grouped } = sessionLists();
+    if (scope) visibleSessionIds = new Set(list.map((s) => s.sessionId));
+    send({ type: 'sessions_list', data: list });
+    send({ type: 'sessions_grouped', data: grouped });
+  };
+
+  const canView = (sessionId: string) => !scope || visibleSessionIds.has(sessionId);
+
+  const sendSnapshot = () => {
+    // A share viewer without a selection gets the scope's most recent session
+    if (scope && !client.selectedSessionId) client.selectedSessionId = sessionLists().list[0]?.sessionId;
+    send({ type: 'full_state', data: clientState() });
+    sendSessionLists();
+    if (inbox) send({ type: 'inbox', data: inbox.list().filter((n) => canView(n.sessionId)) });
+  };
+
+  // Notifications cover every session, so all clients get them (share viewers only their scope's)
+  const unsubscribeInbox = inbox?.subscribe((notification) => {
+    if (canView(notification.sessionId)) send({ type: 'notification', data: notification });
+  });
+
+  const unsubscribeFederation = federation?.subscribe((event) => {
+    if (event.type === 'sessions') {
+      sendSessionLists();
+    } else if (event.sessionId === activeSessionId() && viewingRemote()) {
+      send(event.type === 'state' ? { type: 'full_state', data: clientState() } : event.msg);
+    }
+  });
+
+  const unsubscribe = stateManager.subscribe((msg) => {
+    if (msg.type === 'full_state') {
+      // Full state reset: send complete per-client filtered view
+      sendSnapshot();
+    } else if (msg.type === 'sessions_update' || msg.type === 'sessions_list' || msg.type === 'sessions_grouped') {
+      // Sessions list changed (agent status transition, session added/removed).
+      // Only update navigation tree — do NOT send full_state here.
+      // Agent data is already kept current via agent_update messages.
+      sendSessionLists();
+    } else if (msg.type === 'session_started' || msg.type === 'session_ended') {
+      // Session lifecycle events go to all clients, plus updated list
+      const visible = !scope || (msg.type === 'session_started' ? sessionInScope(scope, msg.data) : canView(msg.data.sessionId));
+      if (visible) send(msg);
+      sendSessionLists();
+      // If client has no explicit selection, a new auto-selected session may change their view
+      if (!client.selectedSessionId) {
+        if (scope) sendSnapshot();
+        else send({ type: 'full_state', data: clientState() });
+      }
+    } else if (msg.type === 'agent_removed') {
+      // Removal events always forwarded — agent is already gone from state
+      send(msg);
+    } else if (msg.type === 'agent_update' || msg.type === 'agent_added') {
+      // Agent events: only forward if the agent belongs to this client's selected session
+      if (clientState().agents.some((a) => a.id === msg.data.id)) {
+        send(msg);
+      }
+    } else if (msg.type === 'files_touched' || msg.type === 'prompt_turn') {
+      // File touches and prompt turns are per session — only the session this client is viewing
+      const id = activeSessionId();
+      if (id && stateManager.filesSessionId(id) === msg.data.sessionId) {
+        send(msg);
+      }
+    } else if (scope) {
+      // Share viewers get only what belongs to the session they're viewing
+      const state = clientState();
+      if (msg.type === 'task_update' ? state.tasks.some((t) => t.id === msg.data.id)
+        : msg.type === 'new_message' ? state.messages.some((m) => m.id === msg.data.id)
+        : msg.type === 'edit_conflict' && msg.data.parties.every((p) => canView(p.sessionId))) {
+        send(msg);
+      }
+    } else if (!viewingRemote()) {
+      // task_update, new_message — forward to all clients viewing this server's sessions
+      send(msg);
+    }
+  });
+
+  return {
+    sendSnapshot,
+    canView,
+    close: () => {
+      unsubscribe();
+      unsubscribeInbox?.();
+      unsubscribeFederation?.();
+    },
+  };
+}
@@ -1,10 +1,59 @@
-import type { TeamState, AgentState, TaskState, MessageState, SessionInfo, SessionListEntry, GroupedSessionsList, WSMessage } from '@agent-viewer/shared';
+import { randomUUID } from 'crypto';
+import type { TeamState, AgentState, TaskState, MessageState, SessionInfo, SessionListEntry, GroupedSessionsList, TokenUsage, CompactionEvent, EditConflictParty, StuckState, PromptTurn, WSMessage } from '@agent-viewer/shared';
 import { GuardManager } from './guards';
 import { buildSessionsList, buildGroupedSessionsList } from './state/sessionListBuilder';
-import { updateTouchBarStatus } from './touchbar';
+import { FileTouchIndex } from './state/fileTouchIndex';
+import type { FileTouchInput } from './state/fileTouchIndex';
+import { EditConflictDetector } from './state/editConflicts';
+import { PromptHistory } from './state/promptHistory';
+import { loadRedactor } from './state/redaction';
+import type { Redactor } from './state/redaction';
+import type { FileEdit } from './state/editConflicts';
+import { updateStatusSinks } from './statusSinks';
+import type { StateSnapshot } from './store/types';
+import { DEFAULT_ROOT_NAME } from './watcher/roots';
 
 type Listener = (msg: WSMessage) => void;
 
+/** Teams of the default root, and anything recorded before roots existed, keep their unscoped IDs */
+function isDefaultRoot(sourceRoot: string | undefined): boolean {
+  return !sourceRoot || sourceRoot === DEFAULT_ROOT_NAME;
+}
+
+export function sameSourceRoot(a: string | undefined, b: string | undefined): boolean {
+  return a === b || (isDefaultRoot(a) && isDefaultRoot(b));
+}
+
+/**
+ * ID of a team's view session. Other roots' names are part of it, so
+ * same-named teams in two Claude data directories stay apart.
+ */
+export function teamSessionId(sourceRoot: string | undefined, teamName: string): string {
+  return isDefaultRoot(sourceRoot) ? `team:${teamName}` : `team:${sourceRoot}:${teamName}`;
+}
+
+/** Registry ID of a team member — config IDs (`name@team`) repeat across roots */
+export function teamAgentId(sourceRoot: string | undefined, agentId: string): string {
+  return isDefaultRoot(sourceRoot) ? agentId : `${sourceRoot}:${agentId}`;
+}
+
+/** Whether an agent or task is part of a team session's team */
+export function inTeam(item: { teamName?: string; sourceRoot?: string }, session: SessionInfo): boolean {
+  return !!item.teamName && item.teamName === session.teamName && sameSourceRoot(item.sourceRoot, session.sourceRoot);
+}
+
+/** Same task, allowing for tasks created from hooks before the team they belong to is known */
+function sameTask(a: Pick<TaskState, 'id' | 'teamName' | 'sourceRoot'>, b: Pick<TaskState, 'id' | 'teamName' | 'sourceRoot'>): boolean {
+  if (a.id !== b.id) return false;
+  return !a.teamName || !b.teamName || (a.teamName === b.teamName && sameSourceRoot(a.sourceRoot, b.sourceRoot));
+}
+
+/** Whether a task's owner is this agent — by name, within the task's team when it has one */
+function ownedBy(task: TaskState, agent: AgentState): boolean {
+  if (task.owner !== agent.name) return false;
+  return !task.teamName || !agent.teamName || (task.teamName === agent.teamName && sameSourceRoot(task.sourceRoot, agent.sourceRoot));
+}
+
 export class StateManager {
   private state: TeamState = {
     name: '',
@@ -19,17 +68,48 @@ export class StateManager {
   /** All agents keyed by id — never destructively filtered */
   private allAgents = new Map<string, AgentState>();
 
+  /** Which agent touched which file, per session */
+  private fileTouches = new FileTouchIndex();
+
+  /** Recent edits across all sessions, for spotting agents editing the same file */
+  private editConflicts = new EditConflictDetector();
+
+  /** The user's prompts and their turns, per session */
+  private promptHistory = new PromptHistory();
+
+  /**
+   * Session each agent is shown under, as findSessionIdForAgent() answers it.
+   * Built on first lookup and dropped whenever agents or sessions come or go,
+   * so the lookups on every broadcast don't scan all sessions.
+   */
+  private agentSessionIds: Map<string, string> | null = null;
+
   private listeners: Set<Listener> = new Set();
   private maxMessages = 200;
+  private maxCompactions = 20;
+  /** Hook and transcript reports of one compaction arrive within this window (ms) */
+  private compactionMergeMs = 5 * 60_000;
 
   /** Debounce timers for activity broadcasts (200ms window) */
   private activityDebounceTimers = new Map<string, ReturnType<typeof setTimeout>>();
   /** How long to debounce rapid activity updates (ms) */
   private activityDebounceMs = 200;
 
+  /** Pending sessions-list broadcast for low-priority changes (usage totals) */
+  private sessionsListTimer: ReturnType<typeof setTimeout> | null = null;
+  /** How long low-priority sessions-list changes wait to be batched (ms) */
+  private sessionsListDelayMs = 2000;
+
   /** Guard mechanisms coordinating hooks and JSONL watcher */
   private guards = new GuardManager();
 
+  /**
+   * `redact` scrubs secrets from actions and message content as they come in,
+   * so clients, status sinks and the event log (which records these
+   * broadcasts) never see them. Hook events reach the state unredacted.
+   */
+  constructor(private redact: Redactor = loadRedactor()) {}
+
   subscribe(listener: Listener) {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
@@ -75,6 +155,7 @@ export class StateManager {
       }
       this.allAgents.set(agent.id, agent);
     }
+    this.agentSessionIds = null;
     this.state.agents = agents;
     this.broadcastFullState();
   }
@@ -86,12 +167,29 @@ export class StateManager {
 
   /** Add agent to registry only — does NOT add to displayed state.agents.
    *  Skips registration if the agent was recently removed (prevents JSONL
-   *  watcher from re-registering subagents after SubagentStop removal). */
+   *  watcher from re-registering subagents after SubagentStop removal).
+   *  Carries over accumulated history (tasksCompleted, recentActions, usage,
+   *  context, compactions) when the same agent is re-registered, e.g. after
+   *  being restored from the store. */
   registerAgent(agent: AgentState) {
     if (this.wasRecentlyRemoved(agent.id)) {
       return;
     }
+    this.redactAgent(agent);
+    const prev = this.allAgents.get(agent.id);
+    if (prev && prev !== agent) {
+      agent.tasksCompleted = Math.max(agent.tasksCompleted, prev.tasksCompleted);
+      if (!agent.recentActions) agent.recentActions = prev.recentActions;
+      if (!agent.usage) agent.usage = prev.usage;
+      if (!agent.model) agent.model = prev.model;
+      if (agent.contextTokens === undefined) {
+        agent.contextTokens = prev.contextTokens;
+        agent.contextLimit = prev.contextLimit;
+      }
+      if (!agent.compactions) agent.compactions = prev.compactions;
+    }
     this.allAgents.set(agent.id, agent);
+    this.agentSessionIds = null;
   }
 
   /** Add/update agent in both registry and displayed state.
@@ -102,6 +200,7 @@ export class StateManager {
       return;
     }
     this.allAgents.set(agent.id, agent);
+    this.agentSessionIds = null;
     const idx = this.state.agents.findIndex((a) => a.id === agent.id);
     if (idx >= 0) {
       this.state.agents[idx] = agent;
@@ -112,7 +211,7 @@ export class StateManager {
       const activeSessionId = activeSession?.sessionId;
       const shouldDisplay = activeSessionId === agent.id ||
         (agent.isSubagent && agent.parentAgentId === activeSessionId) ||
-        (agent.teamName && activeSession?.isTeam && agent.teamName === activeSession.teamName);
+        (activeSession?.isTeam && inTeam(agent, activeSession));
       if (shouldDisplay) {
         this.state.agents.push(agent);
         this.broadcast({ type: 'agent_added', data: agent });
@@ -128,22 +227,25 @@ export class StateManager {
       this.activityDebounceTimers.delete(id);
     }
     this.allAgents.delete(id);
+    this.agentSessionIds = null;
     this.state.agents = this.state.agents.filter((a) => a.id !== id);
     this.guards.markRemoved(id);
     this.broadcast({ type: 'agent_removed', data: { id } });
 
-    // Ensure Touch Bar updates so it stops flashing if all waiting agents were removed
-    updateTouchBarStatus(this.allAgents);
+    // Update status sinks so the Touch Bar stops flashing if all waiting agents were removed
+    updateStatusSinks(this.allAgents);
   }
 
   updateTask(task: TaskState) {
-    const idx = this.state.tasks.findIndex((t) => t.id === task.id);
+    const idx = this.state.tasks.findIndex((t) => sameTask(t, task));
     if (idx >= 0) {
       const oldTask = this.state.tasks[idx];
+      // A hook-created task picks up its team once the task file is read
+      if (!task.teamName && oldTask.teamName) task = { ...task, teamName: oldTask.teamName, sourceRoot: oldTask.sourceRoot };
 
       // Track completed tasks for agent evolution
       if (oldTask.status !== 'completed' && task.status === 'completed' && task.owner) {
-        const agent = this.state.agents.find((a) => a.name === task.owner);
+        const agent = this.state.agents.find((a) => ownedBy(task, a));
         if (agent) {
           agent.tasksCompleted += 1;
           this.broadcast({ type: 'agent_update', data: agent });
@@ -152,10 +254,10 @@ export class StateManager {
 
       // Detect task ownership changes: clear old owner status if reassigned
       if (oldTask.owner && oldTask.owner !== task.owner && oldTask.status === 'in_progress') {
-        const oldAgent = this.state.agents.find((a) => a.name === oldTask.owner);
+        const oldAgent = this.state.agents.find((a) => ownedBy(oldTask, a));
         if (oldAgent && oldAgent.status === 'working') {
           const hasOtherActiveTasks = this.state.tasks.some(
-            (t) => t.id !== task.id && t.owner === oldTask.owner && t.status === 'in_progress'
+            (t) => !sameTask(t, task) && ownedBy(t, oldAgent) && t.status === 'in_progress'
           );
           if (!hasOtherActiveTasks) {
             oldAgent.status = 'idle';
@@ -172,8 +274,9 @@ export class StateManager {
     this.broadcast({ type: 'task_update', data: task });
   }
 
-  removeTask(taskId: string) {
-    this.state.tasks = this.state.tasks.filter((t) => t.id !== taskId);
+  /** Remove a task — only from `team`'s list when given */
+  removeTask(taskId: string, team: { teamName?: string; sourceRoot?: string } = {}) {
+    this.state.tasks = this.state.tasks.filter((t) => !sameTask(t, { id: taskId, ...team }));
     this.broadcastFullState();
   }
 
@@ -182,6 +285,7 @@ export class StateManager {
     if (this.state.messages.some((m) => m.id === message.id)) {
       return;
     }
+    message = { ...message, content: this.redact(message.content) };
     this.state.messages.push(message);
     if (this.state.messages.length > this.maxMessages) {
       this.state.messages = this.state.messages.slice(-this.maxMessages);
@@ -190,6 +294,8 @@ export class StateManager {
   }
 
   updateAgentActivity(agentName: string, status: 'idle' | 'working' | 'done', action?: string, actionContext?: string) {
+    action = action && this.redact(action);
+    actionContext = actionContext && this.redact(actionContext);
     // Update in the full registry
     let registryAgent: AgentState | undefined;
     for (const agent of this.allAgents.values()) {
@@ -237,6 +343,8 @@ export class StateManager {
    * don't cause the UI to flash each intermediate action.
    */
   updateAgentActivityById(agentId: string, status: 'idle' | 'working' | 'done', action?: string, actionContext?: string) {
+    action = action && this.redact(action);
+    actionContext = actionContext && this.redact(actionContext);
     const agent = this.allAgents.get(agentId);
     if (!agent) return;
     const prevStatus = agent.status;
@@ -299,12 +407,14 @@ export class StateManager {
     // (e.g., openclaw-setup becoming active while viewing agent-viewer-town).
     if (prevStatus !== status) {
       this.broadcastSessionsList();
-      // Update Touch Bar on status transitions (working→idle shows green)
-      updateTouchBarStatus(this.allAgents);
+      // Update status sinks on status transitions (working→idle shows green)
+      updateStatusSinks(this.allAgents);
     }
   }
 
   setAgentWaiting(agentName: string, waiting: boolean, action?: string, actionContext?: string) {
+    action = action && this.redact(action);
+    actionContext = actionContext && this.redact(actionContext);
     // Update in the full registry
     let registryAgent: AgentState | undefined;
     for (const agent of this.allAgents.values()) {
@@ -336,6 +446,8 @@ export class StateManager {
    * project would have agents with the same name (slug).
    */
   setAgentWaitingById(agentId: string, waiting: boolean, action?: string, actionContext?: string, waitingType?: AgentState['waitingType']) {
+    action = action && this.redact(action);
+    actionContext = actionContext && this.redact(actionContext);
     const agent = this.allAgents.get(agentId);
     if (!agent) return;
     const wasWaiting = agent.waitingForInput;
@@ -361,11 +473,18 @@ export class StateManager {
     // - true→false: other tabs need to resolve their notifications
     if (wasWaiting !== waiting) {
       this.broadcastSessionsList();
-      // Update Touch Bar status file for MTMR/BTT integration
-      updateTouchBarStatus(this.allAgents);
+      // Update status sinks (Touch Bar, desktop notifications, status bars)
+      updateStatusSinks(this.allAgents);
     }
   }
 
+  /** Redact an agent's actions in place — agents built by the watcher or restored from disk */
+  private redactAgent(agent: AgentState) {
+    if (agent.currentAction) agent.currentAction = this.redact(agent.currentAction);
+    if (agent.actionContext) agent.actionContext = this.redact(agent.actionContext);
+    if (agent.recentActions) agent.recentActions = agent.recentActions.map((a) => ({ ...a, action: this.redact(a.action) }));
+  }
+
   /** Push an action to the agent's recentActions ring buffer (max 5 entries) */
   private pushRecentAction(agent: AgentState, action: string) {
     if (!agent.recentActions) {
@@ -426,16 +545,199 @@ export class StateManager {
     this.broadcast({ type: 'agent_update', data: displayed || agent });
   }
 
-  reconcileAgentStatuses() {
-    const inProgressOwners = new Set<string>();
-    for (const task of this.state.tasks) {
-      if (task.status === 'in_progress' && task.owner) {
-        inProgressOwners.add(task.owner);
-      }
+  /**
+   * Set or clear the pending permission request ID on an agent.
+   * Broadcasts the sessions list too so other tabs can answer the request
+   * from their cross-session notifications.
+   */
+  setAgentPendingPermission(agentId: string, requestId: string | undefined) {
+    const agent = this.allAgents.get(agentId);
+    if (!agent || agent.pendingPermissionId === requestId) return;
+    agent.pendingPermissionId = requestId;
+    const displayed = this.state.agents.find((a) => a.id === agentId);
+    if (displayed) {
+      displayed.pendingPermissionId = requestId;
+    }
+    this.broadcast({ type: 'agent_update', data: displayed || agent });
+    this.broadcastSessionsList();
+  }
+
+  /** Replace an agent's running token totals (recounted from its transcript) */
+  setAgentUsage(agentId: string, usage: TokenUsage, model?: string) {
+    const agent = this.allAgents.get(agentId);
+    if (!agent) return;
+    agent.usage = usage;
+    if (model) agent.model = model;
+    const displayed = this.state.agents.find((a) => a.id === agentId);
+    if (displayed && displayed !== agent) {
+      displayed.usage = usage;
+      if (model) displayed.model = model;
+    }
+    this.broadcast({ type: 'agent_update', data: displayed || agent });
+  }
+
+  /** Flag an agent as stuck, or clear the flag with undefined */
+  setAgentStuck(agentId: string, stuck: StuckState | undefined) {
+    const agent = this.allAgents.get(agentId);
+    if (!agent) return;
+    if (agent.stuck?.reason === stuck?.reason && agent.stuck?.detail === stuck?.detail) return;
+    agent.stuck = stuck;
+    const displayed = this.state.agents.find((a) => a.id === agentId);
+    if (displayed && displayed !== agent) displayed.stuck = stuck;
+    this.broadcast({ type: 'agent_update', data: displayed || agent });
+  }
+
+  /**
+   * Set an agent's current context fill. The first reading after a
+   * compaction is recorded as that compaction's tokensAfter.
+   */
+  setAgentContext(agentId: string, tokens: number, limit: number) {
+    const agent = this.allAgents.get(agentId);
+    if (!agent) return;
+    const last = agent.compactions?.[agent.compactions.length - 1];
+    if (agent.contextTokens === tokens && agent.contextLimit === limit && (!last || last.tokensAfter !== undefined)) return;
+    agent.contextTokens = tokens;
+    agent.contextLimit = limit;
+    if (last && last.tokensAfter === undefined) last.tokensAfter = tokens;
+    this.syncContext(agent);
+  }
+
+  /**
+   * Record a compaction. The PreCompact hook and the transcript's compact
+   * boundary both report the same compaction, so a report close in time to
+   * an existing entry fills in that entry instead of adding one.
+   */
+  recordCompaction(agentId: string, event: CompactionEvent) {
+    const agent = this.allAgents.get(agentId);
+    if (!agent) return;
+    const compactions = agent.compactions ?? [];
+    const existing = compactions.find((c) => Math.abs(c.timestamp - event.timestamp) < this.compactionMergeMs);
+    if (existing) {
+      if (existing.tokensBefore === undefined) existing.tokensBefore = event.tokensBefore;
+      if (event.trigger === 'manual') existing.trigger = 'manual';
+    } else {
+      compactions.push({ ...event });
+      compactions.sort((a, b) => a.timestamp - b.timestamp);
+      if (compactions.length > this.maxCompactions) compactions.splice(0, compactions.length - this.maxCompactions);
+    }
+    agent.compactions = compactions;
+    this.syncContext(agent);
+  }
+
+  /** Copy context fields onto the displayed copy (if distinct) and broadcast */
+  private syncContext(agent: AgentState) {
+    const displayed = this.state.agents.find((a) => a.id === agent.id);
+    if (displayed && displayed !== agent) {
+      displayed.contextTokens = agent.contextTokens;
+      displayed.contextLimit = agent.contextLimit;
+      displayed.compactions = agent.compactions;
+    }
+    this.broadcast({ type: 'agent_update', data: displayed || agent });
+  }
+
+  /**
+   * Replace a session's running token totals. The nav tree picks them up on
+   * the next sessions-list broadcast, batched so streaming responses don't
+   * resend the whole list on every transcript write.
+   */
+  setSessionUsage(sessionId: string, usage: TokenUsage) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    session.usage = usage;
+    if (!this.sessionsListTimer) {
+      this.sessionsListTimer = setTimeout(() => {
+        this.sessionsListTimer = null;
+        this.broadcastSessionsList();
+      }, this.sessionsListDelayMs);
+    }
+  }
+
+  /**
+   * Session that a session's file touches and prompt turns are indexed under —
+   * team members' transcripts are pooled in the team view session (see teamSessionId).
+   */
+  filesSessionId(sessionId: string): string {
+    const session = this.sessions.get(sessionId);
+    return session?.isTeam && session.teamName ? teamSessionId(session.sourceRoot, session.teamName) : sessionId;
+  }
+
+  /** Index file tool calls for a session and broadcast the entries that changed */
+  recordFileTouches(sessionId: string, inputs: FileTouchInput[]) {
+    if (inputs.length === 0) return;
+    const touches = this.fileTouches.record(sessionId, inputs);
+    if (touches.length > 0) {
+      this.broadcast({ type: 'files_touched', data: { sessionId, touches } });
     }
+    for (const input of inputs) {
+      if (input.operation === 'read') continue;
+      this.recordEdit({ ...input, operation: input.operation, timestamp: input.timestamp ?? Date.now() });
+    }
+  }
+
+  /** A user prompt started a turn (UserPromptSubmit); the agent's running turn, if any, was interrupted */
+  startPromptTurn(sessionId: string, agentId: string, prompt: string, timestamp = Date.now()) {
+    const viewSessionId = this.filesSessionId(sessionId);
+    for (const turn of this.promptHistory.start(viewSessionId, agentId, this.redact(prompt), timestamp)) {
+      this.broadcastTurn(viewSessionId, turn);
+    }
+  }
+
+  /** Count a tool call, or a failed one, in the agent's running turn */
+  recordTurnTool(sessionId: string, agentId: string, toolName: string, failed = false) {
+    const viewSessionId = this.filesSessionId(sessionId);
+    const turn = failed
+      ? this.promptHistory.recordToolFailure(viewSessionId, agentId)
+      : this.promptHistory.recordTool(viewSessionId, agentId, toolName);
+    if (turn) this.broadcastTurn(viewSessionId, turn);
+  }
+
+  /** Finish the agent's running turn: completed on Stop, interrupted otherwise */
+  endPromptTurn(sessionId: string, agentId: string, outcome: 'completed' | 'interrupted', timestamp = Date.now()) {
+    const viewSessionId = this.filesSessionId(sessionId);
+    const turn = this.promptHistory.end(viewSessionId, agentId, outcome, timestamp);
+    if (turn) this.broadcastTurn(viewSessionId, turn);
+  }
+
+  private broadcastTurn(sessionId: string, turn: PromptTurn) {
+    this.broadcast({ type: 'prompt_turn', data: { sessionId, turn } });
+  }
+
+  /**
+   * Check an edit against other agents' recent edits of the same file and
+   * broadcast an edit_conflict when two agents overlap.
+   */
+  recordEdit(edit: FileEdit) {
+    const earlier = this.editConflicts.record(edit);
+    if (!earlier) return;
+    const now = Date.now();
+    const parties: [EditConflictParty, EditConflictParty] = [this.conflictParty(earlier), this.conflictParty(edit)];
+    console.log(`[state] Edit conflict: ${parties[0].agentName} and ${parties[1].agentName} both edited ${edit.path}`);
+    this.broadcast({
+      type: 'edit_conflict',
+      data: { id: randomUUID(), path: edit.path, timestamp: now, expiresAt: now + this.editConflicts.windowMs, parties },
+    });
+  }
+
+  private conflictParty(edit: FileEdit): EditConflictParty {
+    const agent = this.allAgents.get(edit.agentId);
+    const sessionId = this.findSessionIdForAgent(edit.agentId) ?? edit.agentId;
+    const session = this.sessions.get(sessionId);
+    return {
+      agentId: edit.agentId,
+      agentName: agent?.name ?? edit.agentId.slice(0, 8),
+      sessionId,
+      projectName: session?.projectName ?? '',
+      gitBranch: agent?.gitBranch ?? session?.gitBranch,
+      operation: edit.operation,
+      timestamp: edit.timestamp,
+    };
+  }
+
+  reconcileAgentStatuses() {
+    const inProgress = this.state.tasks.filter((t) => t.status === 'in_progress' && t.owner);
 
     for (const agent of this.state.agents) {
-      const shouldBeWorking = inProgressOwners.has(agent.name);
+      const shouldBeWorking = inProgress.some((t) => ownedBy(t, agent));
       if (shouldBeWorking && agent.status !== 'working') {
         agent.status = 'working';
         this.broadcast({ type: 'agent_update', data: agent });
@@ -455,7 +757,10 @@ export class StateManager {
    * - This session is more recently active than the current one
    */
   addSession(session: SessionInfo) {
+    const prev = this.sessions.get(session.sessionId);
+    if (prev?.usage && !session.usage) session.usage = prev.usage;
     this.sessions.set(session.sessionId, session);
+    this.agentSessionIds = null;
     this.broadcast({ type: 'session_started', data: session });
 
     // Auto-select: pick this session if none is active, or if it's a fresher
@@ -530,7 +835,19 @@ export class StateManager {
   }
 
   removeSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    const filesKey = this.filesSessionId(sessionId);
+    const agents = session ? this.getAgentsForSession(session) : [];
     this.sessions.delete(sessionId);
+    this.agentSessionIds = null;
+    // Team members' touches are pooled under the team view session; they go with the last session showing them
+    if (![...this.sessions.keys()].some((id) => this.filesSessionId(id) === filesKey)) {
+      this.fileTouches.removeSession(filesKey);
+    }
+    if (filesKey !== sessionId) this.fileTouches.removeSession(sessionId);
+    for (const agent of agents) {
+      if (!this.findSessionIdForAgent(agent.id)) this.editConflicts.forgetAgent(agent.id);
+    }
     // Clean up any session-to-agent mappings for this session
     this.guards.removeSessionMappings(sessionId);
     if (this.state.session?.sessionId === sessionId) {
@@ -544,6 +861,29 @@ export class StateManager {
     return this.sessions;
   }
 
+  /** Find the session an agent is shown under (first match), if any. */
+  findSessionIdForAgent(agentId: string): string | undefined {
+    if (!this.agentSessionIds) {
+      this.agentSessionIds = new Map();
+      for (const session of this.sessions.values()) {
+        for (const agent of this.getAgentsForSession(session)) {
+          if (!this.agentSessionIds.has(agent.id)) this.agentSessionIds.set(agent.id, session.sessionId);
+        }
+      }
+    }
+    return this.agentSessionIds.get(agentId);
+  }
+
+  /** Session of the agent with this name (task owners and message senders are named, not IDs) */
+  findSessionIdForAgentName(name: string): string | undefined {
+    for (const agent of this.allAgents.values()) {
+      if (agent.name !== name) continue;
+      const sessionId = this.findSessionIdForAgent(agent.id);
+      if (sessionId) return sessionId;
+    }
+    return undefined;
+  }
+
   /**
    * Core filtering logic: which agents belong to a given session?
    *
@@ -561,14 +901,14 @@ export class StateManager {
       );
       return soloAgent ? [soloAgent, ...subagents] : [...subagents];
     } else {
-      // Filter by teamName so each team session only shows its own members.
+      // Filter by team and root so each team session only shows its own members.
       // Fallback to the agent ID suffix (@teamName) for agents that predate
       // the teamName property being set.
       const teamName = session.teamName;
       if (!teamName) return [];
       const suffix = `@${teamName}`;
       return [...this.allAgents.values()].filter(
-        (a) => a.teamName === teamName || (!a.teamName && a.id.endsWith(suffix))
+        (a) => inTeam(a, session) || (!a.teamName && a.id.endsWith(suffix))
       );
     }
   }
@@ -614,9 +954,12 @@ export class StateManager {
         ? (session.teamName || session.projectName)
         : session.projectName,
       agents: this.getAgentsForSession(session),
-      tasks: session.isTeam ? this.state.tasks : [],
+      // Tasks not read from a team's task dir (created from hooks) show in every team
+      tasks: session.isTeam ? this.state.tasks.filter((t) => !t.teamName || inTeam(t, session)) : [],
       messages: this.state.messages,
       session,
+      files: this.fileTouches.list(this.filesSessionId(sessionId)),
+      turns: this.promptHistory.list(this.filesSessionId(sessionId)),
     };
   }
 
@@ -740,6 +1083,10 @@ export class StateManager {
   }
 
   broadcastSessionsList() {
+    if (this.sessionsListTimer) {
+      clearTimeout(this.sessionsListTimer);
+      this.sessionsListTimer = null;
+    }
     // Send as a single combined broadcast to avoid the subscription handler
     // firing twice (each broadcast triggers full_state + sessions_list + sessions_grouped,
     // so two separate broadcasts would send 9 messages per client instead of 3).
@@ -770,11 +1117,64 @@ export class StateManager {
         this.allAgents.delete(id);
       }
     }
+    this.agentSessionIds = null;
     this.state.agents = this.state.agents.filter((a) => soloSessionIds.has(a.id));
     this.state.tasks = [];
     this.state.name = '';
     this.broadcastFullState();
-    updateTouchBarStatus(this.allAgents);
+    updateStatusSinks(this.allAgents);
+  }
+
+  // --- Persistence ---
+
+  /** Durable parts of the state, for the on-disk snapshot */
+  exportSnapshot(): Pick<StateSnapshot, 'agents' | 'sessions' | 'messages' | 'turns'> {
+    return {
+      agents: [...this.allAgents.values()],
+      sessions: [...this.sessions.values()],
+      messages: this.state.messages,
+      turns: this.promptHistory.export(),
+    };
+  }
+
+  /**
+   * Rehydrate from a snapshot taken before a restart. Sessions idle longer
+   * than maxAgeMs are dropped along with their agents. The watcher runs
+   * afterwards and merges rediscovered sessions into the restored ones.
+   */
+  restoreSnapshot(snapshot: Pick<StateSnapshot, 'agents' | 'sessions' | 'messages' | 'turns'>, maxAgeMs: number) {
+    const cutoff = Date.now() - maxAgeMs;
+    for (const session of snapshot.sessions) {
+      if (session.lastActivity >= cutoff) {
+        this.sessions.set(session.sessionId, session);
+      }
+    }
+    for (const agent of snapshot.agents) {
+      // Blocked permission hooks and stuck tracking don't survive a restart
+      const restored = { ...agent, pendingPermissionId: undefined, stuck: undefined };
+      this.redactAgent(restored);
+      this.allAgents.set(agent.id, restored);
+    }
+    // Keep only agents that still belong to a restored session
+    const kept = new Set<string>();
+    for (const session of this.sessions.values()) {
+      for (const agent of this.getAgentsForSession(session)) kept.add(agent.id);
+    }
+    for (const id of [...this.allAgents.keys()]) {
+      if (!kept.has(id)) this.allAgents.delete(id);
+    }
+    this.agentSessionIds = null;
+    for (const message of snapshot.messages.slice(-this.maxMessages)) {
+      if (!this.state.messages.some((m) => m.id === message.id)) {
+        this.state.messages.push({ ...message, content: this.redact(message.content) });
+      }
+    }
+    // Prompt history is kept for expired sessions too, for when they're picked up again
+    for (const [sessionId, turns] of Object.entries(snapshot.turns ?? {})) {
+      this.promptHistory.restore(sessionId, turns.map((t) => ({ ...t, prompt: this.redact(t.prompt) })));
+    }
+    this.selectMostInterestingSession();
+    updateStatusSinks(this.allAgents);
   }
 
   reset() {
@@ -783,11 +1183,19 @@ export class StateManager {
       clearTimeout(timer);
     }
     this.activityDebounceTimers.clear();
+    if (this.sessionsListTimer) {
+      clearTimeout(this.sessionsListTimer);
+      this.sessionsListTimer = null;
+    }
     this.state = { name: '', agents: [], tasks: [], messages: [] };
     this.sessions.clear();
     this.allAgents.clear();
+    this.agentSessionIds = null;
+    this.fileTouches.clear();
+    this.promptHistory.clear();
+    this.editConflicts.clear();
     this.guards.reset();
     this.broadcastFullState();
-    updateTouchBarStatus(this.allAgents);
+    updateStatusSinks(this.allAgents);
   }
 }
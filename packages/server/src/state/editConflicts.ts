@@ -0,0 +1,92 @@
+import type { FileOperation } from '@agent-viewer/shared';
+
+/** How close together two agents' edits of one file count as a conflict */
+export const CONFLICT_WINDOW_MS = (parseInt(process.env.AGENT_VIEWER_CONFLICT_WINDOW_S || '', 10) || 120) * 1000;
+
+/** One edit or write of a file */
+export interface FileEdit {
+  agentId: string;
+  /** Absolute path — worktrees and separate checkouts never share one */
+  path: string;
+  operation: Exclude<FileOperation, 'read'>;
+  /** Tool call ID — hooks and the transcript both report the same call */
+  toolUseId?: string;
+  timestamp: number;
+}
+
+/** Tool call IDs remembered for de-duplication */
+const MAX_SEEN_TOOL_USE_IDS = 5000;
+
+/**
+ * Detects two different agents editing the same file within a time window.
+ * Each pair of agents is reported once per file per window, so a back-and-forth
+ * of edits doesn't flood the inbox.
+ */
+export class EditConflictDetector {
+  /** Recent edits per path, oldest first */
+  private recent = new Map<string, FileEdit[]>();
+  /** When each path + agent pair was last reported */
+  private reported = new Map<string, number>();
+  private seenToolUseIds = new Set<string>();
+
+  constructor(readonly windowMs = CONFLICT_WINDOW_MS) {}
+
+  /**
+   * Record an edit. Returns the earlier edit by another agent it conflicts
+   * with, or null. Edits older than the window (replayed transcripts) are ignored.
+   */
+  record(edit: FileEdit, now = Date.now()): FileEdit | null {
+    if (edit.toolUseId) {
+      if (this.seenToolUseIds.has(edit.toolUseId)) return null;
+      this.seenToolUseIds.add(edit.toolUseId);
+      if (this.seenToolUseIds.size > MAX_SEEN_TOOL_USE_IDS) {
+        const oldest = this.seenToolUseIds.values().next().value;
+        if (oldest !== undefined) this.seenToolUseIds.delete(oldest);
+      }
+    }
+
+    const cutoff = now - this.windowMs;
+    if (edit.timestamp < cutoff) return null;
+    this.prune(cutoff);
+
+    const edits = (this.recent.get(edit.path) ?? []).filter((e) => e.timestamp >= cutoff);
+    const other = [...edits].reverse().find((e) => e.agentId !== edit.agentId);
+    edits.push(edit);
+    this.recent.set(edit.path, edits);
+    if (!other) return null;
+
+    const key = `${edit.path}\0${[edit.agentId, other.agentId].sort().join('\0')}`;
+    const lastReported = this.reported.get(key);
+    if (lastReported !== undefined && lastReported >= cutoff) return null;
+    this.reported.set(key, now);
+    return other;
+  }
+
+  /** Drop an agent's recent edits and the conflicts reported for it (its session ended) */
+  forgetAgent(agentId: string) {
+    for (const [path, edits] of this.recent) {
+      const kept = edits.filter((e) => e.agentId !== agentId);
+      if (kept.length === 0) this.recent.delete(path);
+      else if (kept.length < edits.length) this.recent.set(path, kept);
+    }
+    for (const key of this.reported.keys()) {
+      if (key.split('\0').slice(1).includes(agentId)) this.reported.delete(key);
+    }
+  }
+
+  clear() {
+    this.recent.clear();
+    this.reported.clear();
+    this.seenToolUseIds.clear();
+  }
+
+  /** Forget edits and reports that have left the window */
+  private prune(cutoff: number) {
+    for (const [path, edits] of this.recent) {
+      if (edits[edits.length - 1].timestamp < cutoff) this.recent.delete(path);
+    }
+    for (const [key, at] of this.reported) {
+      if (at < cutoff) this.reported.delete(key);
+    }
+  }
+}
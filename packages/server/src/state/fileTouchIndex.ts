@@ -0,0 +1,70 @@
+import type { FileTouch, FileOperation } from '@agent-viewer/shared';
+
+/** One file tool call to index */
+export interface FileTouchInput {
+  agentId: string;
+  path: string;
+  operation: FileOperation;
+  /** Tool call ID — the same call is seen again when a transcript is re-read */
+  toolUseId?: string;
+  timestamp?: number;
+}
+
+interface SessionFiles {
+  touches: Map<string, FileTouch>;
+  seenToolUseIds: Set<string>;
+}
+
+/** Tool call IDs remembered per session for de-duplication */
+const MAX_SEEN_TOOL_USE_IDS = 5000;
+
+/**
+ * Per-session index of which agent read, edited or wrote which file.
+ * Keyed by agent + path + operation, so each entry is one chip in the
+ * Files panel.
+ */
+export class FileTouchIndex {
+  private sessions = new Map<string, SessionFiles>();
+
+  /** Record tool calls for a session. Returns the entries that changed. */
+  record(sessionId: string, inputs: FileTouchInput[]): FileTouch[] {
+    let files = this.sessions.get(sessionId);
+    if (!files) {
+      files = { touches: new Map(), seenToolUseIds: new Set() };
+      this.sessions.set(sessionId, files);
+    }
+
+    const changed = new Map<string, FileTouch>();
+    for (const input of inputs) {
+      if (input.toolUseId) {
+        if (files.seenToolUseIds.has(input.toolUseId)) continue;
+        files.seenToolUseIds.add(input.toolUseId);
+        if (files.seenToolUseIds.size > MAX_SEEN_TOOL_USE_IDS) {
+          const oldest = files.seenToolUseIds.values().next().value;
+          if (oldest !== undefined) files.seenToolUseIds.delete(oldest);
+        }
+      }
+      const key = `${input.agentId}\0${input.path}\0${input.operation}`;
+      const timestamp = input.timestamp ?? Date.now();
+      const existing = files.touches.get(key);
+      const touch: FileTouch = existing
+        ? { ...existing, count: existing.count + 1, lastTouched: Math.max(existing.lastTouched, timestamp) }
+        : { path: input.path, agentId: input.agentId, operation: input.operation, count: 1, lastTouched: timestamp };
+      files.touches.set(key, touch);
+      changed.set(key, touch);
+    }
+    return [...changed.values()];
+  }
+
+  list(sessionId: string): FileTouch[] {
+    return [...(this.sessions.get(sessionId)?.touches.values() ?? [])];
+  }
+
+  removeSession(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  clear() {
+    this.sessions.clear();
+  }
+}
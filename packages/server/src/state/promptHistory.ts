@@ -0,0 +1,94 @@
+import type { PromptTurn } from '@agent-viewer/shared';
+
+/** Turns kept per session; the oldest are dropped past this */
+const MAX_TURNS_PER_SESSION = 100;
+/** Prompts are cut to this many characters */
+export const MAX_PROMPT_CHARS = 2000;
+/** A session's turns are forgotten once it has had no prompt for this long */
+const MAX_HISTORY_AGE_MS = 7 * 24 * 3600_000;
+
+/**
+ * Per-session list of the user's prompts and what each turn did. A turn runs
+ * from UserPromptSubmit to Stop; a new prompt (or the session ending) before
+ * Stop means the running turn was interrupted. Turns are replaced, not
+ * mutated, so a broadcast turn never changes under its receiver.
+ *
+ * History outlives the session itself, so it is still there when an expired
+ * session is picked up again.
+ */
+export class PromptHistory {
+  private sessions = new Map<string, PromptTurn[]>();
+
+  /** Start a turn for an agent. Returns the turns that changed — an interrupted one first. */
+  start(sessionId: string, agentId: string, prompt: string, timestamp: number): PromptTurn[] {
+    let turns = this.sessions.get(sessionId);
+    if (!turns) {
+      turns = [];
+      this.sessions.set(sessionId, turns);
+    }
+    const interrupted = this.end(sessionId, agentId, 'interrupted', timestamp);
+    const turn: PromptTurn = {
+      id: `${agentId}:${timestamp}`,
+      agentId,
+      prompt: prompt.length > MAX_PROMPT_CHARS ? `${prompt.slice(0, MAX_PROMPT_CHARS)}…` : prompt,
+      startedAt: timestamp,
+      tools: {},
+      toolFailures: 0,
+      outcome: 'running',
+    };
+    turns.push(turn);
+    if (turns.length > MAX_TURNS_PER_SESSION) turns.splice(0, turns.length - MAX_TURNS_PER_SESSION);
+    return interrupted ? [interrupted, turn] : [turn];
+  }
+
+  /** Count a tool call in the agent's running turn */
+  recordTool(sessionId: string, agentId: string, toolName: string): PromptTurn | undefined {
+    return this.update(sessionId, agentId, (turn) => ({
+      ...turn,
+      tools: { ...turn.tools, [toolName]: (turn.tools[toolName] ?? 0) + 1 },
+    }));
+  }
+
+  /** Count a failed tool call in the agent's running turn */
+  recordToolFailure(sessionId: string, agentId: string): PromptTurn | undefined {
+    return this.update(sessionId, agentId, (turn) => ({ ...turn, toolFailures: turn.toolFailures + 1 }));
+  }
+
+  /** Finish the agent's running turn, if it has one */
+  end(sessionId: string, agentId: string, outcome: 'completed' | 'interrupted', timestamp: number): PromptTurn | undefined {
+    return this.update(sessionId, agentId, (turn) => ({ ...turn, endedAt: timestamp, outcome }));
+  }
+
+  list(sessionId: string): PromptTurn[] {
+    return [...(this.sessions.get(sessionId) ?? [])];
+  }
+
+  /** Every session's turns, for the snapshot — dropping sessions without a recent prompt */
+  export(now = Date.now()): Record<string, PromptTurn[]> {
+    for (const [sessionId, turns] of this.sessions) {
+      const last = turns[turns.length - 1];
+      if (!last || last.startedAt < now - MAX_HISTORY_AGE_MS) this.sessions.delete(sessionId);
+    }
+    return Object.fromEntries(this.sessions);
+  }
+
+  /** Put back a session's turns from a snapshot */
+  restore(sessionId: string, turns: PromptTurn[]) {
+    this.sessions.set(sessionId, turns.slice(-MAX_TURNS_PER_SESSION));
+  }
+
+  clear() {
+    this.sessions.clear();
+  }
+
+  private update(sessionId: string, agentId: string, change: (turn: PromptTurn) => PromptTurn): PromptTurn | undefined {
+    const turns = this.sessions.get(sessionId);
+    if (!turns) return undefined;
+    for (let i = turns.length - 1; i >= 0; i--) {
+      if (turns[i].agentId !== agentId || turns[i].outcome !== 'running') continue;
+      turns[i] = change(turns[i]);
+      return turns[i];
+    }
+    return undefined;
+  }
+}
@@ -1,4 +1,5 @@
 import type { AgentState, SessionInfo, SessionListEntry, GroupedSessionsList, ProjectGroup, BranchGroup } from '@agent-viewer/shared';
+import { sumUsage } from '../usage';
 
 /**
  * Build a flat sessions list from session data.
@@ -31,7 +32,11 @@ export function buildSessionsList(
         agentName: waitingAgent.name,
         action: waitingAgent.currentAction || 'Waiting for input',
         waitingType: waitingAgent.waitingType,
+        permissionRequestId: waitingAgent.pendingPermissionId,
       } : undefined,
+      usage: session.usage,
+      host: session.host,
+      sourceRoot: session.sourceRoot,
     });
   }
   // Most recently active first
@@ -115,6 +120,7 @@ export function buildGroupedSessionsList(
         totalAgents: branchSessions.reduce((sum, s) => sum + s.agentCount, 0),
         lastActivity: Math.max(...branchSessions.map((s) => s.lastActivity)),
         hasWaitingAgent: branchSessions.some((s) => s.hasWaitingAgent),
+        usage: sumUsage(branchSessions.map((s) => s.usage)),
       });
     }
 
@@ -145,6 +151,7 @@ export function buildGroupedSessionsList(
       totalAgents: branchGroups.reduce((sum, b) => sum + b.totalAgents, 0),
       lastActivity: Math.max(...branchGroups.map((b) => b.lastActivity)),
       hasWaitingAgent: branchGroups.some((b) => b.hasWaitingAgent),
+      usage: sumUsage(branchGroups.map((b) => b.usage)),
     });
   }
 
@@ -0,0 +1,69 @@
+/**
+ * Status report for tmux / shell prompt integrations (GET /api/status).
+ *
+ * Counts cover every session; `session` is the one whose project contains
+ * the caller's working directory, so a prompt shows what the agent in this
+ * repository is doing.
+ */
+
+import type { SessionInfo, StatusReport, StatusReportSession } from '@agent-viewer/shared';
+import type { StateManager } from './state';
+
+/** Whether `dir` is `root` or inside it */
+function contains(root: string, dir: string): boolean {
+  const base = root.replace(/\/+$/, '');
+  return dir === base || dir.startsWith(`${base}/`);
+}
+
+/** Length of the deepest of the session's paths containing `dir`, or -1 */
+function matchDepth(session: SessionInfo, dir: string): number {
+  return Math.max(-1, ...[session.projectPath, session.gitWorktree, session.mainRepoPath]
+    .filter((p): p is string => !!p && contains(p, dir))
+    .map((p) => p.length));
+}
+
+/**
+ * The session for a working directory: the closest enclosing project path
+ * (a worktree beats its main repo), then one with an agent waiting, then
+ * the most recently active.
+ */
+export function findSessionForDirectory(stateManager: StateManager, dir: string): SessionInfo | undefined {
+  const waiting = new Set(stateManager.getSessionsList().filter((s) => s.hasWaitingAgent).map((s) => s.sessionId));
+  const candidates = [...stateManager.getSessions().values()]
+    .map((session) => ({ session, rank: [matchDepth(session, dir), waiting.has(session.sessionId) ? 1 : 0, session.lastActivity] }))
+    .filter((c) => c.rank[0] >= 0);
+  candidates.sort((a, b) => {
+    const i = a.rank.findIndex((v, k) => v !== b.rank[k]);
+    return i < 0 ? 0 : b.rank[i] - a.rank[i];
+  });
+  return candidates[0]?.session;
+}
+
+export function buildStatusReport(stateManager: StateManager, cwd?: string, now = Date.now()): StatusReport {
+  let waitingCount = 0;
+  let workingCount = 0;
+  for (const agent of stateManager.getAllAgents().values()) {
+    if (agent.waitingForInput) waitingCount++;
+    else if (agent.status === 'working') workingCount++;
+  }
+
+  const info = cwd ? findSessionForDirectory(stateManager, cwd) : undefined;
+  let session: StatusReportSession | null = null;
+  if (info) {
+    const agents = stateManager.getStateForSession(info.sessionId).agents;
+    const waiting = agents.filter((a) => a.waitingForInput);
+    const working = agents.filter((a) => !a.waitingForInput && a.status === 'working');
+    session = {
+      sessionId: info.sessionId,
+      projectName: info.projectName,
+      projectPath: info.mainRepoPath || info.projectPath,
+      gitBranch: info.gitBranch,
+      waitingCount: waiting.length,
+      workingCount: working.length,
+      waitingAgent: waiting[0]?.name,
+      currentAction: waiting[0]?.currentAction ?? working.find((a) => a.currentAction)?.currentAction,
+    };
+  }
+
+  return { version: 1, waitingCount, workingCount, session, timestamp: now };
+}
@@ -0,0 +1,73 @@
+import { writeFile, rename } from 'fs/promises';
+import { BAR_FILE } from './types';
+import type { AgentStatusSummary, StatusSink } from './types';
+
+export type BarState = 'waiting' | 'working' | 'idle';
+
+/**
+ * One status bar block. `text`/`tooltip`/`class`/`alt` are waybar's custom
+ * module fields; `full_text`/`short_text`/`color` are i3blocks' JSON format.
+ * Each bar ignores the other's keys, so one file serves both.
+ */
+export interface BarStatus {
+  text: string;
+  tooltip: string;
+  class: BarState;
+  alt: BarState;
+  full_text: string;
+  short_text: string;
+  color: string;
+}
+
+const COLORS: Record<BarState, string> = {
+  waiting: '#FF5555',
+  working: '#F1FA8C',
+  idle: '#50FA7B',
+};
+
+export function barStatus(summary: AgentStatusSummary): BarStatus {
+  const { waiting, workingCount, agentCount } = summary;
+  const state: BarState = waiting.length > 0 ? 'waiting' : workingCount > 0 ? 'working' : 'idle';
+  const text = state === 'waiting'
+    ? (waiting.length === 1 ? `⚠ ${waiting[0].name} waiting` : `⚠ ${waiting.length} waiting`)
+    : state === 'working' ? `⚙ ${workingCount} working` : '✓ idle';
+  const short = state === 'waiting' ? `⚠ ${waiting.length}` : state === 'working' ? `⚙ ${workingCount}` : '✓';
+  const tooltip = state === 'waiting'
+    ? waiting.map((a) => `${a.name}: ${a.action}`).join('\n')
+    : `${workingCount} of ${agentCount} agents working`;
+  return { text, tooltip, class: state, alt: state, full_text: text, short_text: short, color: COLORS[state] };
+}
+
+/** Keeps a waybar/i3blocks/polybar-readable JSON status file current */
+export class BarSink implements StatusSink {
+  readonly name = 'bar';
+
+  /** Writes run one after another, since they share the temp file */
+  private writing = Promise.resolve();
+
+  constructor(private readonly path = BAR_FILE) {}
+
+  async update(summary: AgentStatusSummary): Promise<void> {
+    await this.write(barStatus(summary));
+  }
+
+  async clear(): Promise<void> {
+    await this.write(barStatus({ waiting: [], workingCount: 0, agentCount: 0, timestamp: Date.now() }));
+  }
+
+  private write(status: BarStatus): Promise<void> {
+    this.writing = this.writing.then(() => this.replace(status));
+    return this.writing;
+  }
+
+  /** Write then rename, so a bar polling the file never reads half of it */
+  private async replace(status: BarStatus) {
+    const tmp = `${this.path}.tmp`;
+    try {
+      await writeFile(tmp, JSON.stringify(status) + '\n');
+      await rename(tmp, this.path);
+    } catch {
+      // non-critical
+    }
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Status sinks — agent status outside the browser: the macOS Touch Bar,
+ * Linux desktop notifications, a tray icon and status bar blocks, plus a
+ * status JSON file for scripts.
+ *
+ * The StateManager reports waiting/working transitions through
+ * updateStatusSinks(); each enabled sink gets the summary when it changes.
+ * Nothing is enabled until the server calls startStatusSinks().
+ */
+
+import type { AgentState } from '@agent-viewer/shared';
+import { StatusFileSink } from './statusFile';
+import { TouchBarSink } from './touchBar';
+import { NotifySendSink } from './notifySend';
+import { TraySink } from './tray';
+import { BarSink } from './bar';
+import { STATUS_SINKS, SINK_NAMES, DEFAULT_SINKS } from './types';
+import type { AgentStatusSummary, SinkName, StatusSink } from './types';
+
+export { barStatus } from './bar';
+export { notifySendArgs, NotifySendSink } from './notifySend';
+export { trayProperties } from './tray';
+export type { AgentStatusSummary, StatusSink } from './types';
+
+let sinks: StatusSink[] = [];
+let lastSummaryKey = '';
+
+/** Sink names from AGENT_VIEWER_STATUS_SINKS, or the platform defaults */
+export function parseSinkNames(spec: string | undefined, platform: NodeJS.Platform = process.platform): SinkName[] {
+  if (spec === undefined || spec.trim() === '') return DEFAULT_SINKS[platform] ?? ['status-file'];
+  const names: SinkName[] = [];
+  for (const name of spec.split(',').map((s) => s.trim()).filter(Boolean)) {
+    if (name === 'none') continue;
+    if ((SINK_NAMES as readonly string[]).includes(name)) {
+      names.push(name as SinkName);
+    } else {
+      console.warn(`[status] Ignoring unknown status sink "${name}" (expected ${SINK_NAMES.join(', ')})`);
+    }
+  }
+  return names;
+}
+
+function createSink(name: SinkName): StatusSink {
+  switch (name) {
+    case 'status-file': return new StatusFileSink();
+    case 'touchbar': return new TouchBarSink();
+    case 'notify-send': return new NotifySendSink();
+    case 'tray': return new TraySink();
+    case 'bar': return new BarSink();
+  }
+}
+
+export function summarizeAgents(allAgents: Map<string, AgentState>, now = Date.now()): AgentStatusSummary {
+  const summary: AgentStatusSummary = { waiting: [], workingCount: 0, agentCount: allAgents.size, timestamp: now };
+  for (const agent of allAgents.values()) {
+    if (agent.waitingForInput) {
+      summary.waiting.push({
+        id: agent.id,
+        name: agent.name,
+        action: agent.currentAction || 'Waiting for input',
+        waitingType: agent.waitingType,
+      });
+    } else if (agent.status === 'working') {
+      summary.workingCount++;
+    }
+  }
+  return summary;
+}
+
+/** Enable the configured sinks (server startup) */
+export function startStatusSinks(names = parseSinkNames(STATUS_SINKS)) {
+  sinks = names.map(createSink);
+  lastSummaryKey = '';
+  if (sinks.length > 0) console.log(`[status] Status sinks: ${names.join(', ')}`);
+}
+
+/**
+ * Pass the current status to every sink if it changed.
+ * Called by StateManager whenever waiting state or status transitions occur.
+ */
+export function updateStatusSinks(allAgents: Map<string, AgentState>) {
+  if (sinks.length === 0) return;
+  const summary = summarizeAgents(allAgents);
+  const key = JSON.stringify({ ...summary, timestamp: 0 });
+  if (key === lastSummaryKey) return;
+  lastSummaryKey = key;
+  for (const sink of sinks) {
+    Promise.resolve(sink.update(summary)).catch((err) => {
+      console.warn(`[status] ${sink.name} update failed:`, err instanceof Error ? err.message : err);
+    });
+  }
+}
+
+/** Reset every sink (e.g., on server shutdown) */
+export async function clearStatusSinks(): Promise<void> {
+  lastSummaryKey = '';
+  await Promise.all(sinks.map((sink) => Promise.resolve(sink.clear()).catch(() => { /* non-critical */ })));
+}
@@ -0,0 +1,59 @@
+import { execFile } from 'child_process';
+import type { AgentStatusSummary, StatusSink, WaitingAgentStatus } from './types';
+
+export type RunCommand = (file: string, args: string[]) => Promise<void>;
+
+const runCommand: RunCommand = (file, args) => new Promise((resolve, reject) => {
+  execFile(file, args, { timeout: 5000, env: { ...process.env, NoDefaultCurrentDirectoryInExePath: '1' } }, (err) => {
+    if (err) reject(err);
+    else resolve();
+  });
+});
+
+/** notify-send arguments for an agent that started waiting */
+export function notifySendArgs(agent: WaitingAgentStatus): string[] {
+  return [
+    '--app-name=Agent Viewer Town',
+    '--urgency=critical',
+    '--icon=dialog-question',
+    // Replace rather than stack popups for the same agent on notification daemons that support it
+    `--hint=string:x-canonical-private-synchronous:agent-viewer-${agent.id}`,
+    `${agent.name} needs input`,
+    agent.action,
+  ];
+}
+
+/** Desktop notifications via notify-send (libnotify) when an agent starts waiting */
+export class NotifySendSink implements StatusSink {
+  readonly name = 'notify-send';
+  private notified = new Set<string>();
+  private disabled = false;
+
+  constructor(private readonly run: RunCommand = runCommand) {}
+
+  async update(summary: AgentStatusSummary): Promise<void> {
+    const waiting = new Set(summary.waiting.map((a) => a.id));
+    for (const id of this.notified) {
+      if (!waiting.has(id)) this.notified.delete(id);
+    }
+    for (const agent of summary.waiting) {
+      if (this.disabled || this.notified.has(agent.id)) continue;
+      this.notified.add(agent.id);
+      try {
+        await this.run('notify-send', notifySendArgs(agent));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+          // Not installed — stay quiet from now on
+          this.disabled = true;
+          console.warn('[status] notify-send not found; install libnotify for desktop notifications');
+        } else {
+          console.warn('[status] notify-send failed:', err instanceof Error ? err.message : err);
+        }
+      }
+    }
+  }
+
+  clear() {
+    this.notified.clear();
+  }
+}
@@ -0,0 +1,43 @@
+import { writeFile } from 'fs/promises';
+import { STATUS_FILE } from './types';
+import type { AgentStatusSummary, StatusSink } from './types';
+
+/** Contents of the status file — read by touchbar-dev/resources/scripts/agent_status.sh and `agent-viewer status` */
+export interface StatusFileContents {
+  waitingCount: number;
+  workingCount: number;
+  agents: Array<{
+    name: string;
+    action: string;
+    waitingType?: string;
+  }>;
+  timestamp: number;
+}
+
+/** Writes the waiting agents to a JSON file for any external consumers */
+export class StatusFileSink implements StatusSink {
+  readonly name = 'status-file';
+
+  constructor(private readonly path = STATUS_FILE) {}
+
+  async update(summary: AgentStatusSummary): Promise<void> {
+    await this.write({
+      waitingCount: summary.waiting.length,
+      workingCount: summary.workingCount,
+      agents: summary.waiting.map(({ name, action, waitingType }) => ({ name, action, waitingType })),
+      timestamp: summary.timestamp,
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.write({ waitingCount: 0, workingCount: 0, agents: [], timestamp: Date.now() });
+  }
+
+  private async write(contents: StatusFileContents) {
+    try {
+      await writeFile(this.path, JSON.stringify(contents) + '\n');
+    } catch {
+      // non-critical
+    }
+  }
+}
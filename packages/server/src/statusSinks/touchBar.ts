@@ -0,0 +1,196 @@
+/**
+ * Touch Bar integration — updates MTMR config directly to flash red
+ * when agents are waiting for input. MTMR watches items.json for changes
+ * and auto-reloads, giving us live Touch Bar control from the server.
+ */
+
+import { writeFile, readFile, access } from 'fs/promises';
+import { constants } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { execFile } from 'child_process';
+import type { AgentStatusSummary, StatusSink } from './types';
+
+const MTMR_CONFIG = join(homedir(), 'Library', 'Application Support', 'MTMR', 'items.json');
+const FLASH_INTERVAL_MS = 800;
+
+/** Marker we inject into the config so we know we own it */
+const AVT_MARKER = '__agent_viewer_town';
+
+const FOCUS_APPLESCRIPT = `if application "Google Antigravity" is running then
+  tell application "Google Antigravity" to activate
+else if application "Cursor" is running then
+  tell application "Cursor" to activate
+else if application "iTerm" is running then
+  tell application "iTerm" to activate
+else if application "iTerm2" is running then
+  tell application "iTerm2" to activate
+else if application "Terminal" is running then
+  tell application "Terminal" to activate
+end if`;
+
+function buildMtmrConfig(background: string, title: string, titleColor = '#FFFFFF'): object[] {
+  return [
+    {
+      type: 'staticButton',
+      title,
+      width: 9999,
+      align: 'center',
+      bordered: false,
+      background,
+      titleColor,
+      action: 'appleScript',
+      actionAppleScript: { inline: FOCUS_APPLESCRIPT },
+      [AVT_MARKER]: true,
+    },
+  ];
+}
+
+function ensureMtmrRunning(): void {
+  execFile('pgrep', ['-x', 'MTMR'], { env: { ...process.env, NoDefaultCurrentDirectoryInExePath: '1' } }, (err, stdout) => {
+    if (!stdout.trim()) {
+      // MTMR is not running — launch it
+      execFile('open', ['-a', 'MTMR'], { env: { ...process.env, NoDefaultCurrentDirectoryInExePath: '1' } }, (launchErr) => {
+        if (launchErr) {
+          console.warn('[touchbar] Failed to launch MTMR:', launchErr.message);
+        }
+      });
+    }
+  });
+}
+
+async function isMtmrAvailable(): Promise<boolean> {
+  try {
+    await access(MTMR_CONFIG, constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function writeMtmrConfig(config: object[]): Promise<void> {
+  try {
+    await writeFile(MTMR_CONFIG, JSON.stringify(config, null, 2) + '\n');
+  } catch {
+    // MTMR not available — non-critical
+  }
+}
+
+/** MacBook Touch Bar via MTMR: flashes red while agents wait, green once all are idle */
+export class TouchBarSink implements StatusSink {
+  readonly name = 'touchbar';
+  private flashTimer: ReturnType<typeof setInterval> | null = null;
+  private flashOn = false;
+  private currentWaitingCount = 0;
+  private currentWorkingCount = 0;
+  private currentLabel = '';
+  /** Stashed copy of the user's MTMR config before we took over */
+  private userBackupConfig: string | null = null;
+  /** Once we detect MTMR is unavailable, stop checking on every update */
+  private mtmrChecked = false;
+  private mtmrEnabled = false;
+
+  async update(summary: AgentStatusSummary): Promise<void> {
+    // Check once, then cache the result.
+    // This makes the sink a complete no-op on machines without MTMR.
+    if (!this.mtmrChecked) {
+      this.mtmrChecked = true;
+      this.mtmrEnabled = await isMtmrAvailable();
+      if (this.mtmrEnabled) {
+        // Auto-launch MTMR if installed but not running
+        ensureMtmrRunning();
+      }
+    }
+    if (!this.mtmrEnabled) return;
+
+    const { waiting, workingCount } = summary;
+    const prevWaitingCount = this.currentWaitingCount;
+    const prevWorkingCount = this.currentWorkingCount;
+    this.currentWaitingCount = waiting.length;
+    this.currentWorkingCount = workingCount;
+
+    if (waiting.length > 0) {
+      // Agents waiting for input — flash red/white
+      if (waiting.length === 1) {
+        this.currentLabel = `⚠️ ${waiting[0].name.slice(0, 12)}`;
+      } else {
+        this.currentLabel = `⚠️ ${waiting.length} waiting`;
+      }
+
+      if (prevWaitingCount === 0) {
+        await this.backupUserConfig();
+        await writeMtmrConfig(buildMtmrConfig('#FF0000', this.currentLabel));
+        this.startFlashing();
+      }
+      // If already flashing, the label update will happen on next flash tick
+    } else if (workingCount > 0) {
+      // Agents actively working — no special Touch Bar state, restore user config
+      this.stopFlashing();
+      if (prevWaitingCount > 0 || prevWorkingCount === 0) {
+        if (this.userBackupConfig !== null) {
+          await this.restoreUserConfig();
+        } else {
+          await writeMtmrConfig(buildMtmrConfig('#1a1a2e', '🤖 Working...'));
+        }
+      }
+    } else {
+      // All agents idle — show solid green
+      this.stopFlashing();
+      if (prevWaitingCount > 0 || prevWorkingCount > 0) {
+        await this.backupUserConfig();
+        await writeMtmrConfig(buildMtmrConfig('#00AA00', '✅ Done — ready for input', '#FFFFFF'));
+      }
+    }
+  }
+
+  /** Restore the user's original Touch Bar config (only if we ever modified it) */
+  async clear(): Promise<void> {
+    this.stopFlashing();
+    this.currentWaitingCount = 0;
+    if (this.mtmrEnabled) {
+      await this.restoreUserConfig();
+    }
+  }
+
+  private async backupUserConfig(): Promise<void> {
+    if (this.userBackupConfig !== null) return; // already backed up
+    try {
+      const content = await readFile(MTMR_CONFIG, 'utf-8');
+      // Don't back up our own configs
+      if (!content.includes(AVT_MARKER)) {
+        this.userBackupConfig = content;
+      }
+    } catch {
+      // no existing config
+    }
+  }
+
+  private async restoreUserConfig(): Promise<void> {
+    if (this.userBackupConfig === null) return;
+    try {
+      await writeFile(MTMR_CONFIG, this.userBackupConfig);
+      this.userBackupConfig = null;
+    } catch {
+      // non-critical
+    }
+  }
+
+  private startFlashing(): void {
+    if (this.flashTimer) return;
+    this.flashOn = true;
+    this.flashTimer = setInterval(async () => {
+      this.flashOn = !this.flashOn;
+      const bg = this.flashOn ? '#FF0000' : '#FFFFFF';
+      const fg = this.flashOn ? '#FFFFFF' : '#FF0000';
+      await writeMtmrConfig(buildMtmrConfig(bg, this.currentLabel, fg));
+    }, FLASH_INTERVAL_MS);
+  }
+
+  private stopFlashing(): void {
+    if (this.flashTimer) {
+      clearInterval(this.flashTimer);
+      this.flashTimer = null;
+    }
+    this.flashOn = false;
+  }
+}
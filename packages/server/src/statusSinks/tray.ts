@@ -0,0 +1,157 @@
+import dbus from 'dbus-next';
+import type { MessageBus } from 'dbus-next';
+import { barStatus } from './bar';
+import type { AgentStatusSummary, StatusSink } from './types';
+
+/** freedesktop icon names for each state */
+const ICONS = {
+  waiting: 'dialog-warning',
+  working: 'system-run',
+  idle: 'emblem-default',
+} as const;
+
+const ITEM_INTERFACE = 'org.kde.StatusNotifierItem';
+const ITEM_PATH = '/StatusNotifierItem';
+const WATCHER_NAME = 'org.kde.StatusNotifierWatcher';
+const WATCHER_PATH = '/StatusNotifierWatcher';
+
+/** SNI tooltip: icon name, icon pixmaps, title, description */
+type ToolTip = [string, Array<[number, number, Buffer]>, string, string];
+
+export interface TrayProperties {
+  Status: 'Active' | 'NeedsAttention';
+  IconName: string;
+  ToolTip: ToolTip;
+}
+
+/** StatusNotifierItem properties describing the current status */
+export function trayProperties(summary: AgentStatusSummary): TrayProperties {
+  const status = barStatus(summary);
+  return {
+    Status: status.class === 'waiting' ? 'NeedsAttention' : 'Active',
+    IconName: ICONS[status.class],
+    ToolTip: ['', [], status.text, status.tooltip],
+  };
+}
+
+/** The org.kde.StatusNotifierItem object the tray host reads */
+class StatusNotifierItem extends dbus.interface.Interface {
+  Category = 'ApplicationStatus';
+  Id = 'agent-viewer-town';
+  Title = 'Agent Viewer Town';
+  Status: TrayProperties['Status'] = 'Active';
+  IconName: string = ICONS.idle;
+  AttentionIconName: string = ICONS.waiting;
+  ToolTip: ToolTip = ['', [], 'Agent Viewer Town', ''];
+  ItemIsMenu = false;
+
+  constructor() {
+    super(ITEM_INTERFACE);
+  }
+
+  // Clicks do nothing — the item only shows status
+  Activate() {}
+  SecondaryActivate() {}
+  ContextMenu() {}
+  Scroll() {}
+
+  NewStatus(status: string) {
+    return status;
+  }
+  NewIcon() {}
+  NewToolTip() {}
+}
+
+StatusNotifierItem.configureMembers({
+  properties: {
+    Category: { signature: 's', access: 'read' },
+    Id: { signature: 's', access: 'read' },
+    Title: { signature: 's', access: 'read' },
+    Status: { signature: 's', access: 'read' },
+    IconName: { signature: 's', access: 'read' },
+    AttentionIconName: { signature: 's', access: 'read' },
+    ToolTip: { signature: '(sa(iiay)ss)', access: 'read' },
+    ItemIsMenu: { signature: 'b', access: 'read' },
+  },
+  methods: {
+    Activate: { inSignature: 'ii' },
+    SecondaryActivate: { inSignature: 'ii' },
+    ContextMenu: { inSignature: 'ii' },
+    Scroll: { inSignature: 'is' },
+  },
+  signals: {
+    NewStatus: { signature: 's' },
+    NewIcon: { signature: '' },
+    NewToolTip: { signature: '' },
+  },
+});
+
+/**
+ * Tray icon as a StatusNotifierItem on the D-Bus session bus, shown by
+ * waybar's tray, KDE, and GNOME with the AppIndicator extension. Switches to
+ * the attention icon while agents wait for input.
+ */
+export class TraySink implements StatusSink {
+  readonly name = 'tray';
+  private bus: MessageBus | null = null;
+  private item: Promise<StatusNotifierItem | null> | null = null;
+  private disabled = false;
+
+  constructor(private readonly connect: () => MessageBus = () => dbus.sessionBus()) {}
+
+  async update(summary: AgentStatusSummary) {
+    const item = await this.ensureItem();
+    if (!item) return;
+    const next = trayProperties(summary);
+    if (next.Status !== item.Status) {
+      item.Status = next.Status;
+      item.NewStatus(next.Status);
+    }
+    if (next.IconName !== item.IconName) {
+      item.IconName = next.IconName;
+      item.NewIcon();
+    }
+    item.ToolTip = next.ToolTip;
+    item.NewToolTip();
+  }
+
+  clear() {
+    const bus = this.bus;
+    this.bus = null;
+    this.item = null;
+    bus?.disconnect();
+  }
+
+  private ensureItem(): Promise<StatusNotifierItem | null> {
+    if (this.disabled) return Promise.resolve(null);
+    this.item ??= this.register().catch((err) => {
+      this.disabled = true;
+      this.clear();
+      console.warn('[status] Tray icon unavailable (needs a StatusNotifierItem host):', err instanceof Error ? err.message : err);
+      return null;
+    });
+    return this.item;
+  }
+
+  private async register(): Promise<StatusNotifierItem> {
+    const bus = this.connect();
+    this.bus = bus;
+    bus.on('error', () => { /* reported by the pending call */ });
+    const busName = `org.kde.StatusNotifierItem-${process.pid}-1`;
+    await bus.requestName(busName, 0);
+    const item = new StatusNotifierItem();
+    bus.export(ITEM_PATH, item);
+
+    const watch = async () => {
+      const watcher = await bus.getProxyObject(WATCHER_NAME, WATCHER_PATH);
+      await watcher.getInterface(WATCHER_NAME).RegisterStatusNotifierItem(busName);
+    };
+    await watch();
+    // A restarted tray host (e.g. waybar reloading) forgets its items — register again
+    const daemon = await bus.getProxyObject('org.freedesktop.DBus', '/org/freedesktop/DBus');
+    daemon.getInterface('org.freedesktop.DBus').on('NameOwnerChanged', (name: string, _old: string, owner: string) => {
+      if (name === WATCHER_NAME && owner) watch().catch(() => { /* non-critical */ });
+    });
+    return item;
+  }
+}
@@ -0,0 +1,54 @@
+import { join } from 'path';
+
+// ================================================================
+// Configuration
+// ================================================================
+/**
+ * Comma-separated sinks to enable, e.g. "status-file,notify-send,bar".
+ * Unset means the platform defaults; "none" turns them all off.
+ */
+export const STATUS_SINKS = process.env.AGENT_VIEWER_STATUS_SINKS;
+/** Status JSON read by the Touch Bar helper scripts */
+export const STATUS_FILE = '/tmp/agent-viewer-touchbar.json';
+/** Status bar JSON for waybar / i3blocks / polybar */
+export const BAR_FILE = process.env.AGENT_VIEWER_BAR_FILE
+  || join(process.env.XDG_RUNTIME_DIR || '/tmp', 'agent-viewer-bar.json');
+
+export const SINK_NAMES = ['status-file', 'touchbar', 'notify-send', 'tray', 'bar'] as const;
+export type SinkName = typeof SINK_NAMES[number];
+
+export const DEFAULT_SINKS: Partial<Record<NodeJS.Platform, SinkName[]>> = {
+  darwin: ['status-file', 'touchbar'],
+  linux: ['status-file', 'notify-send', 'bar'],
+};
+
+// ================================================================
+// Status
+// ================================================================
+
+export interface WaitingAgentStatus {
+  id: string;
+  name: string;
+  action: string;
+  waitingType?: string;
+}
+
+/** What the sinks show: who is waiting for input and how busy the rest are */
+export interface AgentStatusSummary {
+  waiting: WaitingAgentStatus[];
+  /** Agents working and not waiting */
+  workingCount: number;
+  agentCount: number;
+  timestamp: number;
+}
+
+/**
+ * Somewhere outside the browser that shows agent status — a Touch Bar,
+ * desktop notifications, a tray icon, a status bar. `update` is called
+ * whenever the summary changes; `clear` on server shutdown.
+ */
+export interface StatusSink {
+  readonly name: SinkName;
+  update(summary: AgentStatusSummary): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
@@ -0,0 +1,209 @@
+import { appendFileSync, chmodSync, closeSync, mkdirSync, openSync, readFileSync, readSync, renameSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  EVENTS_FILE,
+  ROTATED_EVENTS_FILE,
+  SNAPSHOT_FILE,
+  FLUSH_INTERVAL_MS,
+  MAX_LOG_BYTES,
+  SNAPSHOT_VERSION,
+  FILE_MODE,
+  MAX_CACHED_READS,
+  READ_CHUNK_BYTES,
+} from './types';
+import type { StoredEvent, StoredHookEvent, StateSnapshot } from './types';
+
+/** Matching records of one log segment, and how far into the file they reach */
+interface SegmentCache {
+  ino: number;
+  size: number;
+  records: StoredEvent[];
+}
+
+/** One cached read: the sessions it asked for and each segment's matches */
+interface ReadCache {
+  sessionIds: Set<string>;
+  segments: Map<string, SegmentCache>;
+}
+
+/**
+ * Append-only JSONL event log plus a state snapshot, both under one data dir.
+ *
+ * Appends are buffered and flushed on a short interval so a burst of tool
+ * calls costs one write. The log rotates to a single previous segment once
+ * it grows past maxBytes. Reads keep only the records of the sessions asked
+ * for; the last few reads are cached per segment and only parse the bytes
+ * appended since. All I/O errors are logged and swallowed — losing history
+ * must never take the server down.
+ */
+export class EventStore {
+  private buffer: string[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Cached reads by session set, least recently used first */
+  private readCache = new Map<string, ReadCache>();
+
+  constructor(readonly dataDir: string, private maxBytes = MAX_LOG_BYTES) {
+    try {
+      mkdirSync(dataDir, { recursive: true, mode: 0o700 });
+    } catch (err) {
+      console.warn('[store] Cannot create data dir:', err instanceof Error ? err.message : err);
+    }
+    // Logs written before the files were created owner-only
+    for (const path of [this.eventsPath, this.rotatedEventsPath, this.snapshotPath]) {
+      try {
+        chmodSync(path, FILE_MODE);
+      } catch { /* not written yet */ }
+    }
+  }
+
+  get eventsPath(): string {
+    return join(this.dataDir, EVENTS_FILE);
+  }
+
+  get rotatedEventsPath(): string {
+    return join(this.dataDir, ROTATED_EVENTS_FILE);
+  }
+
+  get snapshotPath(): string {
+    return join(this.dataDir, SNAPSHOT_FILE);
+  }
+
+  append(record: StoredEvent | StoredHookEvent) {
+    this.buffer.push(JSON.stringify(record));
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /** Write buffered events to disk now. */
+  flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.buffer.length === 0) return;
+    const chunk = this.buffer.join('\n') + '\n';
+    this.buffer = [];
+    try {
+      appendFileSync(this.eventsPath, chunk, { mode: FILE_MODE });
+      if (statSync(this.eventsPath).size > this.maxBytes) {
+        renameSync(this.eventsPath, this.rotatedEventsPath);
+        console.log(`[store] Rotated event log (${Math.round(this.maxBytes / 1024 / 1024)}MB)`);
+      }
+    } catch (err) {
+      console.warn('[store] Failed to write events:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  /**
+   * Recorded state events of the given sessions, plus those not tied to any
+   * session (removals, unowned tasks), oldest first.
+   */
+  readEvents(sessionIds: string[]): StoredEvent[] {
+    this.flush();
+    const key = [...new Set(sessionIds)].sort().join('\n');
+    const read = this.readCache.get(key) ?? { sessionIds: new Set(sessionIds), segments: new Map() };
+    this.readCache.delete(key);
+    this.readCache.set(key, read);
+    for (const stale of [...this.readCache.keys()].slice(0, -MAX_CACHED_READS)) this.readCache.delete(stale);
+
+    const previous = this.readSegment(this.rotatedEventsPath, read);
+    const current = this.readSegment(this.eventsPath, read);
+    return previous.length === 0 ? current : previous.concat(current);
+  }
+
+  private readSegment(path: string, read: ReadCache): StoredEvent[] {
+    let ino: number;
+    let size: number;
+    try {
+      ({ ino, size } = statSync(path));
+    } catch {
+      read.segments.delete(path);
+      return [];
+    }
+
+    // A different inode means the file was rotated underneath us — start over
+    let cached = read.segments.get(path);
+    if (!cached || cached.ino !== ino || size < cached.size) {
+      cached = { ino, size: 0, records: [] };
+      read.segments.set(path, cached);
+    }
+    if (size <= cached.size) return cached.records;
+
+    const fd = openSync(path, 'r');
+    try {
+      let buf = Buffer.alloc(Math.min(size - cached.size, READ_CHUNK_BYTES));
+      while (cached.size < size) {
+        const length = readSync(fd, buf, 0, Math.min(buf.length, size - cached.size), cached.size);
+        // Only consume complete lines; a partial tail is picked up next time
+        const end = buf.subarray(0, length).lastIndexOf(0x0a) + 1;
+        if (end === 0) {
+          if (cached.size + length >= size) break;
+          // A line longer than the buffer (a large hook event) — read it whole
+          buf = Buffer.alloc(buf.length * 2);
+          continue;
+        }
+        for (const line of buf.subarray(0, end).toString('utf-8').split('\n')) {
+          const record = this.parseLine(line);
+          if (record && (record.sessionId === undefined || read.sessionIds.has(record.sessionId))) {
+            cached.records.push(record);
+          }
+        }
+        cached.size += end;
+      }
+    } finally {
+      closeSync(fd);
+    }
+    return cached.records;
+  }
+
+  private parseLine(line: string): StoredEvent | undefined {
+    if (!line) return undefined;
+    try {
+      const record = JSON.parse(line) as StoredEvent | StoredHookEvent;
+      // Hook events are kept for the record; replay and timelines are built from state
+      return record.kind === 'state' ? record : undefined;
+    } catch {
+      // Skip corrupt lines (e.g. a crash mid-write)
+      return undefined;
+    }
+  }
+
+  /** Atomically replace the snapshot file (write temp, then rename). */
+  writeSnapshot(snapshot: Omit<StateSnapshot, 'version' | 'savedAt'>) {
+    const full: StateSnapshot = { version: SNAPSHOT_VERSION, savedAt: Date.now(), ...snapshot };
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    try {
+      writeFileSync(tmpPath, JSON.stringify(full), { mode: FILE_MODE });
+      renameSync(tmpPath, this.snapshotPath);
+    } catch (err) {
+      console.warn('[store] Failed to write snapshot:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  /** Read the last snapshot, or undefined if missing, corrupt or from another version. */
+  readSnapshot(): StateSnapshot | undefined {
+    let raw: string;
+    try {
+      raw = readFileSync(this.snapshotPath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+    try {
+      const parsed = JSON.parse(raw) as StateSnapshot;
+      if (parsed.version !== SNAPSHOT_VERSION || !Array.isArray(parsed.agents) ||
+          !Array.isArray(parsed.sessions) || !Array.isArray(parsed.messages)) {
+        console.warn('[store] Ignoring incompatible snapshot');
+        return undefined;
+      }
+      return parsed;
+    } catch {
+      console.warn('[store] Ignoring corrupt snapshot');
+      return undefined;
+    }
+  }
+
+  close() {
+    this.flush();
+  }
+}
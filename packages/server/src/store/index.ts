@@ -0,0 +1,92 @@
+/**
+ * Persistence — keeps session history across server restarts.
+ *
+ * - Restores agents, sessions, messages and prompt history from the last snapshot on startup
+ *   (before the watcher runs, so rediscovered sessions merge into them)
+ * - Records every hook event (redacted) and granular state broadcast to the event log
+ * - Rewrites the snapshot shortly after changes and on shutdown
+ */
+
+import type { WSMessage } from '@agent-viewer/shared';
+import { teamSessionId } from '../state';
+import type { StateManager } from '../state';
+import type { HookEvent } from '../hooks/types';
+import { redactDeep } from '../state/redaction';
+import type { Redactor } from '../state/redaction';
+import { SESSION_EXPIRY_S } from '../watcher/types';
+import { EventStore } from './eventStore';
+import { DATA_DIR, SNAPSHOT_DEBOUNCE_MS, RECORDED_MESSAGE_TYPES } from './types';
+
+export { EventStore } from './eventStore';
+export { buildReplayFrame } from './replay';
+export { buildTimeline } from './timeline';
+export type { StoredEvent, StoredHookEvent, StateSnapshot } from './types';
+
+/**
+ * `redact` scrubs every string of a hook event (prompts, commands, tool
+ * output) before it is written; state broadcasts are redacted already.
+ */
+export function createPersistence(stateManager: StateManager, redact: Redactor, store = new EventStore(DATA_DIR)) {
+  let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const snapshot = store.readSnapshot();
+  if (snapshot) {
+    stateManager.restoreSnapshot(snapshot, SESSION_EXPIRY_S * 1000);
+    console.log(`[store] Restored ${stateManager.getSessions().size} sessions from ${store.snapshotPath}`);
+  }
+
+  function saveSnapshot() {
+    if (snapshotTimer) {
+      clearTimeout(snapshotTimer);
+      snapshotTimer = null;
+    }
+    store.writeSnapshot(stateManager.exportSnapshot());
+  }
+
+  function scheduleSnapshot() {
+    if (!snapshotTimer) {
+      snapshotTimer = setTimeout(saveSnapshot, SNAPSHOT_DEBOUNCE_MS);
+    }
+  }
+
+  /** The session a state record belongs to — by agent, task owner or message sender */
+  function recordSessionId(msg: WSMessage): string | undefined {
+    switch (msg.type) {
+      case 'session_started':
+      case 'session_ended':
+        return msg.data.sessionId;
+      case 'agent_update':
+      case 'agent_added':
+        return stateManager.findSessionIdForAgent(msg.data.id);
+      case 'task_update':
+        if (msg.data.teamName) return teamSessionId(msg.data.sourceRoot, msg.data.teamName);
+        return msg.data.owner ? stateManager.findSessionIdForAgentName(msg.data.owner) : undefined;
+      case 'new_message':
+        return stateManager.findSessionIdForAgentName(msg.data.from);
+      default:
+        return undefined;
+    }
+  }
+
+  const unsubscribe = stateManager.subscribe((msg) => {
+    // Turns aren't in the log, only in the snapshot
+    if (msg.type === 'prompt_turn') scheduleSnapshot();
+    if (!RECORDED_MESSAGE_TYPES.has(msg.type)) return;
+    store.append({ ts: Date.now(), kind: 'state', sessionId: recordSessionId(msg), msg });
+    scheduleSnapshot();
+  });
+
+  /** Record a validated hook event */
+  function recordHookEvent(event: HookEvent) {
+    store.append({ ts: Date.now(), kind: 'hook', sessionId: event.session_id, event: redactDeep(event, redact) });
+  }
+
+  /** Flush the log and write a final snapshot (server shutdown). */
+  function close() {
+    unsubscribe();
+    saveSnapshot();
+    store.close();
+  }
+
+  return { store, recordHookEvent, close };
+}
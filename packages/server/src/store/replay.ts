@@ -0,0 +1,100 @@
+/**
+ * Replay — reconstructs a session's TeamState at any point in time from the
+ * recorded state transitions in the event log.
+ *
+ * State records already carry the full AgentState/TaskState/MessageState the
+ * live server broadcast (whether it came from a hook or a transcript line),
+ * so replay is a plain left fold over records up to the requested time.
+ * Tasks and messages are kept for every session in the log, so only those
+ * recorded under the session or involving one of its agents are shown.
+ */
+
+import type { AgentState, TaskState, MessageState, SessionInfo, ReplayFrame } from '@agent-viewer/shared';
+import type { StoredEvent } from './types';
+
+/** Same cap as StateManager.maxMessages, so replayed frames look like live ones */
+const MAX_REPLAY_MESSAGES = 200;
+
+/**
+ * Build the frame for `sessionId` at time `at`. Returns undefined when the
+ * log has nothing recorded for the session. `fallbackSession` is used when
+ * the session_started record predates the log (e.g. after rotation).
+ */
+export function buildReplayFrame(
+  records: StoredEvent[],
+  sessionId: string,
+  at: number,
+  fallbackSession?: SessionInfo,
+): ReplayFrame | undefined {
+  let start = Infinity;
+  let end = -Infinity;
+  for (const record of records) {
+    if (record.sessionId !== sessionId) continue;
+    if (record.ts < start) start = record.ts;
+    if (record.ts > end) end = record.ts;
+  }
+  if (start === Infinity) return undefined;
+
+  let session: SessionInfo | undefined;
+  const agents = new Map<string, AgentState>();
+  const tasks = new Map<string, TaskState>();
+  const messages: MessageState[] = [];
+  const messageIds = new Set<string>();
+  /** Names of every agent recorded under the session so far, including removed ones */
+  const agentNames = new Set<string>();
+
+  for (const record of records) {
+    if (record.ts > at) break;
+    const { msg } = record;
+
+    switch (msg.type) {
+      case 'session_started':
+        if (msg.data.sessionId === sessionId) session = msg.data;
+        break;
+      case 'session_ended':
+        if (msg.data.sessionId === sessionId) agents.clear();
+        break;
+      case 'agent_added':
+      case 'agent_update':
+        if (record.sessionId === sessionId) {
+          agents.set(msg.data.id, msg.data);
+          agentNames.add(msg.data.name);
+        }
+        break;
+      case 'agent_removed':
+        agents.delete(msg.data.id);
+        break;
+      case 'task_update':
+        if (record.sessionId === sessionId || (msg.data.owner && agentNames.has(msg.data.owner))) {
+          tasks.set(msg.data.id, msg.data);
+        }
+        break;
+      case 'new_message':
+        if (record.sessionId !== sessionId && !agentNames.has(msg.data.from) && !agentNames.has(msg.data.to)) break;
+        if (!messageIds.has(msg.data.id)) {
+          messageIds.add(msg.data.id);
+          messages.push(msg.data);
+        }
+        break;
+    }
+  }
+
+  session = session ?? fallbackSession;
+  const isTeam = session?.isTeam ?? false;
+
+  return {
+    sessionId,
+    at: Math.min(Math.max(at, start), end),
+    start,
+    end,
+    state: {
+      name: session
+        ? (session.isTeam ? (session.teamName || session.projectName) : session.projectName)
+        : '',
+      agents: [...agents.values()],
+      tasks: isTeam ? [...tasks.values()] : [],
+      messages: messages.slice(-MAX_REPLAY_MESSAGES),
+      session,
+    },
+  };
+}
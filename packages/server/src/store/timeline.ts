@@ -0,0 +1,198 @@
+/**
+ * Timeline — one swimlane per agent of a session, built from the recorded
+ * state transitions in the event log.
+ *
+ * Each agent_update carries the agent's full state, so its phase (working,
+ * idle, waiting, compacting) is read off every record and a span closes
+ * whenever the phase changes. Tool calls come from recentActions: working
+ * updates are debounced, so one record can carry several new entries.
+ */
+
+import type { AgentState, SessionTimeline, TimelineLane, TimelinePhase, TimelineSpan } from '@agent-viewer/shared';
+import type { StoredEvent } from './types';
+
+/** Ticks kept per lane; the oldest are dropped past this */
+const MAX_TICKS_PER_LANE = 2000;
+/** Actions that are phases of their own rather than tool calls */
+const NON_TOOL_ACTIONS = new Set(['Processing prompt...', 'Compacting conversation...']);
+
+interface LaneBuilder {
+  lane: TimelineLane;
+  open?: { phase: TimelinePhase; start: number };
+  lastTickAt: number;
+}
+
+export interface TimelineOptions {
+  /** Other sessions whose agents belong in this timeline (a team's member sessions) */
+  relatedSessionIds?: string[];
+  /** Where open spans end — now, for a live session. Defaults to the last recorded event. */
+  until?: number;
+}
+
+/** What the agent was doing, or undefined once it is done */
+function phaseOf(agent: AgentState): TimelinePhase | undefined {
+  if (agent.status === 'done') return undefined;
+  if (agent.waitingForInput) return 'waiting';
+  if (agent.status === 'working') {
+    return agent.currentAction?.startsWith('Compacting') ? 'compacting' : 'working';
+  }
+  return 'idle';
+}
+
+function closeSpan(builder: LaneBuilder, end: number) {
+  const { open, lane } = builder;
+  builder.open = undefined;
+  if (!open || end <= open.start) return;
+  const prev = lane.spans[lane.spans.length - 1];
+  if (prev && prev.phase === open.phase && prev.end === open.start) {
+    prev.end = end;
+  } else {
+    lane.spans.push({ phase: open.phase, start: open.start, end });
+  }
+}
+
+/** Sorted, merged intervals during which any of the spans was in a busy phase */
+function busyIntervals(lanes: TimelineLane[]): Array<[number, number]> {
+  const intervals = lanes
+    .flatMap((l) => l.spans)
+    .filter((s) => s.phase === 'working' || s.phase === 'compacting')
+    .map((s): [number, number] => [s.start, s.end])
+    .sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+/** Split the lead's idle spans where teammates were busy into waiting_on_team */
+function markWaitingOnTeam(lead: TimelineLane, busy: Array<[number, number]>) {
+  const spans: TimelineSpan[] = [];
+  for (const span of lead.spans) {
+    if (span.phase !== 'idle') {
+      spans.push(span);
+      continue;
+    }
+    let cursor = span.start;
+    for (const [start, end] of busy) {
+      if (end <= cursor || start >= span.end) continue;
+      if (start > cursor) spans.push({ phase: 'idle', start: cursor, end: start });
+      const waitEnd = Math.min(end, span.end);
+      spans.push({ phase: 'waiting_on_team', start: Math.max(start, cursor), end: waitEnd });
+      cursor = waitEnd;
+    }
+    if (cursor < span.end) spans.push({ phase: 'idle', start: cursor, end: span.end });
+  }
+  lead.spans = spans;
+}
+
+/** Parents before their subagents, leads first, otherwise in order of appearance */
+function orderLanes(lanes: TimelineLane[]): TimelineLane[] {
+  const ids = new Set(lanes.map((l) => l.agentId));
+  const children = new Map<string, TimelineLane[]>();
+  const roots: TimelineLane[] = [];
+  for (const lane of lanes) {
+    if (lane.parentAgentId && ids.has(lane.parentAgentId) && lane.parentAgentId !== lane.agentId) {
+      const siblings = children.get(lane.parentAgentId) ?? [];
+      siblings.push(lane);
+      children.set(lane.parentAgentId, siblings);
+    } else {
+      roots.push(lane);
+    }
+  }
+  roots.sort((a, b) => Number(b.role === 'lead') - Number(a.role === 'lead'));
+
+  const ordered: TimelineLane[] = [];
+  const visit = (lane: TimelineLane, depth: number) => {
+    if (ordered.includes(lane)) return;
+    lane.depth = depth;
+    ordered.push(lane);
+    for (const child of children.get(lane.agentId) ?? []) visit(child, depth + 1);
+  };
+  for (const root of roots) visit(root, 0);
+  // Lanes whose parent chain loops back on itself have no root
+  for (const lane of lanes) visit(lane, 0);
+  return ordered;
+}
+
+/**
+ * Build the timeline of `sessionId` from the event log. Returns undefined
+ * when the log has nothing recorded for the session.
+ */
+export function buildTimeline(records: StoredEvent[], sessionId: string, options: TimelineOptions = {}): SessionTimeline | undefined {
+  const sessionIds = new Set([sessionId, ...(options.relatedSessionIds ?? [])]);
+  let start = Infinity;
+  let last = -Infinity;
+  for (const record of records) {
+    if (!record.sessionId || !sessionIds.has(record.sessionId)) continue;
+    if (record.ts < start) start = record.ts;
+    if (record.ts > last) last = record.ts;
+  }
+  if (start === Infinity) return undefined;
+  const end = Math.max(options.until ?? last, last);
+
+  const builders = new Map<string, LaneBuilder>();
+
+  const observe = (agent: AgentState, ts: number) => {
+    let builder = builders.get(agent.id);
+    if (!builder) {
+      builder = {
+        lane: { agentId: agent.id, name: agent.name, role: agent.role, depth: 0, spans: [], ticks: [] },
+        lastTickAt: start,
+      };
+      builders.set(agent.id, builder);
+    }
+    const { lane } = builder;
+    lane.name = agent.name;
+    lane.role = agent.role;
+    lane.isSubagent = agent.isSubagent;
+    lane.parentAgentId = agent.parentAgentId;
+    lane.subagentType = agent.subagentType;
+
+    const phase = phaseOf(agent);
+    if (phase !== builder.open?.phase) {
+      closeSpan(builder, ts);
+      if (phase) builder.open = { phase, start: ts };
+    }
+
+    for (const { action, timestamp } of agent.recentActions ?? []) {
+      if (timestamp <= builder.lastTickAt) continue;
+      builder.lastTickAt = timestamp;
+      if (!NON_TOOL_ACTIONS.has(action)) lane.ticks.push({ at: timestamp, action });
+    }
+    if (lane.ticks.length > MAX_TICKS_PER_LANE) lane.ticks.splice(0, lane.ticks.length - MAX_TICKS_PER_LANE);
+  };
+
+  for (const record of records) {
+    const { msg } = record;
+
+    switch (msg.type) {
+      case 'agent_added':
+      case 'agent_update':
+        if (record.sessionId && sessionIds.has(record.sessionId)) observe(msg.data, record.ts);
+        break;
+      case 'agent_removed': {
+        const builder = builders.get(msg.data.id);
+        if (builder) closeSpan(builder, record.ts);
+        break;
+      }
+      case 'session_ended':
+        if (msg.data.sessionId === sessionId) {
+          for (const builder of builders.values()) closeSpan(builder, record.ts);
+        }
+        break;
+    }
+  }
+  for (const builder of builders.values()) closeSpan(builder, end);
+
+  const lanes = orderLanes([...builders.values()].map((b) => b.lane));
+  const lead = lanes.find((l) => l.role === 'lead' && !l.isSubagent);
+  if (lead) {
+    const teammates = lanes.filter((l) => l !== lead && !l.isSubagent);
+    if (teammates.length > 0) markWaitingOnTeam(lead, busyIntervals(teammates));
+  }
+
+  return { sessionId, start, end, lanes };
+}
@@ -0,0 +1,77 @@
+import { join } from 'path';
+import { homedir } from 'os';
+import type { AgentState, SessionInfo, MessageState, PromptTurn, WSMessage } from '@agent-viewer/shared';
+import type { HookEvent } from '../hooks/types';
+
+// ================================================================
+// Paths
+// ================================================================
+/** Directory holding the event log and state snapshot */
+export const DATA_DIR = process.env.AGENT_VIEWER_DATA_DIR || join(homedir(), '.agent-viewer-town');
+export const EVENTS_FILE = 'events.jsonl';
+/** Previous log segment, kept after rotation so recent history survives */
+export const ROTATED_EVENTS_FILE = 'events.1.jsonl';
+export const SNAPSHOT_FILE = 'snapshot.json';
+/** Log and snapshot hold session contents — owner-only, like the data dir */
+export const FILE_MODE = 0o600;
+
+// ================================================================
+// Tuning constants
+// ================================================================
+/** How often buffered events are appended to disk (ms) */
+export const FLUSH_INTERVAL_MS = 1000;
+/** Quiet period before the snapshot is rewritten after a change (ms) */
+export const SNAPSHOT_DEBOUNCE_MS = 5000;
+/** Rotate the event log once it grows past this size */
+export const MAX_LOG_BYTES = (parseInt(process.env.AGENT_VIEWER_MAX_LOG_MB || '', 10) || 50) * 1024 * 1024;
+export const SNAPSHOT_VERSION = 1;
+/** Sessions whose records are kept parsed between reads (replay/timeline of the viewed sessions) */
+export const MAX_CACHED_READS = 4;
+/** Bytes of the log read and parsed at a time */
+export const READ_CHUNK_BYTES = 1024 * 1024;
+
+// ================================================================
+// Records
+// ================================================================
+
+/**
+ * A state line of events.jsonl: a granular WSMessage broadcast by the
+ * StateManager, already redacted. sessionId is the view session the record
+ * belongs to, when it can be resolved.
+ */
+export interface StoredEvent {
+  ts: number;
+  kind: 'state';
+  sessionId?: string;
+  msg: WSMessage;
+}
+
+/** A hook line of events.jsonl: the event as Claude Code sent it, with every string redacted */
+export interface StoredHookEvent {
+  ts: number;
+  kind: 'hook';
+  sessionId: string;
+  event: HookEvent;
+}
+
+/** WSMessage types worth recording — sessions lists and full_state are derived views */
+export const RECORDED_MESSAGE_TYPES: ReadonlySet<WSMessage['type']> = new Set([
+  'agent_update',
+  'agent_added',
+  'agent_removed',
+  'task_update',
+  'new_message',
+  'session_started',
+  'session_ended',
+]);
+
+/** Durable state written to snapshot.json and restored on startup */
+export interface StateSnapshot {
+  version: number;
+  savedAt: number;
+  agents: AgentState[];
+  sessions: SessionInfo[];
+  messages: MessageState[];
+  /** Prompt turns by view session — missing from snapshots written before prompt history existed */
+  turns?: Record<string, PromptTurn[]>;
+}
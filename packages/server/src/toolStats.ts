@@ -0,0 +1,120 @@
+/**
+ * ToolStatsRecorder — per-agent duration and failure aggregates for tool calls.
+ *
+ * The hook handler times each call from PreToolUse to its PostToolUse or
+ * PostToolUseFailure (matched by tool_use_id) and records the result here.
+ * Counts and totals cover every call; percentiles come from the most recent
+ * MAX_SAMPLES_PER_TOOL durations of each agent + tool.
+ */
+
+import type { AgentState, ToolStats, ToolStatsReport } from '@agent-viewer/shared';
+import type { StateManager } from './state';
+
+/** Durations kept per agent + tool for percentiles */
+export const MAX_SAMPLES_PER_TOOL = 500;
+
+interface ToolSamples {
+  count: number;
+  failures: number;
+  totalMs: number;
+  durations: number[];
+}
+
+/** Nearest-rank percentile of an ascending list (0 when empty) */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+function summarize(toolName: string, samples: ToolSamples[]): ToolStats {
+  const durations = samples.flatMap((s) => s.durations).sort((a, b) => a - b);
+  return {
+    toolName,
+    count: samples.reduce((n, s) => n + s.count, 0),
+    failures: samples.reduce((n, s) => n + s.failures, 0),
+    p50Ms: percentile(durations, 50),
+    p95Ms: percentile(durations, 95),
+    totalMs: samples.reduce((n, s) => n + s.totalMs, 0),
+  };
+}
+
+export class ToolStatsRecorder {
+  /** agentId -> toolName -> samples */
+  private agents = new Map<string, Map<string, ToolSamples>>();
+
+  record(agentId: string, toolName: string, durationMs: number, failed: boolean) {
+    let tools = this.agents.get(agentId);
+    if (!tools) {
+      tools = new Map();
+      this.agents.set(agentId, tools);
+    }
+    let samples = tools.get(toolName);
+    if (!samples) {
+      samples = { count: 0, failures: 0, totalMs: 0, durations: [] };
+      tools.set(toolName, samples);
+    }
+    const duration = Math.max(durationMs, 0);
+    samples.count++;
+    if (failed) samples.failures++;
+    samples.totalMs += duration;
+    samples.durations.push(duration);
+    if (samples.durations.length > MAX_SAMPLES_PER_TOOL) samples.durations.shift();
+  }
+
+  /** Per-tool stats for a set of agents combined, longest total time first */
+  statsFor(agentIds: string[]): ToolStats[] {
+    const byTool = new Map<string, ToolSamples[]>();
+    for (const agentId of agentIds) {
+      for (const [toolName, samples] of this.agents.get(agentId) ?? []) {
+        const list = byTool.get(toolName) ?? [];
+        list.push(samples);
+        byTool.set(toolName, list);
+      }
+    }
+    return [...byTool]
+      .map(([toolName, samples]) => summarize(toolName, samples))
+      .sort((a, b) => b.totalMs - a.totalMs);
+  }
+
+  /** Session report: the agents combined, then each agent that has used a tool */
+  report(sessionId: string, agents: AgentState[]): ToolStatsReport {
+    return {
+      sessionId,
+      tools: this.statsFor(agents.map((a) => a.id)),
+      agents: agents
+        .filter((a) => this.agents.has(a.id))
+        .map((a) => ({ agentId: a.id, agentName: a.name, tools: this.statsFor([a.id]) })),
+    };
+  }
+
+  forget(agentId: string) {
+    this.agents.delete(agentId);
+  }
+
+  /** IDs of every agent with recorded calls */
+  agentIds(): string[] {
+    return [...this.agents.keys()];
+  }
+
+  clear() {
+    this.agents.clear();
+  }
+}
+
+/**
+ * Drop an agent's stats once it leaves the registry. Removals of single
+ * agents are broadcast; team clears and resets only send the full state.
+ * Returns an unsubscribe function.
+ */
+export function forgetRemovedAgents(stats: ToolStatsRecorder, stateManager: StateManager): () => void {
+  return stateManager.subscribe((msg) => {
+    if (msg.type === 'agent_removed') {
+      stats.forget(msg.data.id);
+    } else if (msg.type === 'full_state') {
+      for (const agentId of stats.agentIds()) {
+        if (!stateManager.getAgentById(agentId)) stats.forget(agentId);
+      }
+    }
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * Tracing — exports agent sessions to an OpenTelemetry collector over OTLP/HTTP.
+ *
+ * Enabled by setting OTEL_EXPORTER_OTLP_ENDPOINT (or ..._TRACES_ENDPOINT).
+ * Each session is a trace whose ID is the session UUID; user turns, tool
+ * calls and subagents are spans within it, built from hook events.
+ */
+
+import type { HookEvent } from '../hooks/types';
+import { redactDeep } from '../state/redaction';
+import type { Redactor } from '../state/redaction';
+import { SessionTracer } from './sessionTracer';
+import { OtlpExporter, parseHeaders } from './otlpExporter';
+import { OTLP_TRACES_ENDPOINT, OTLP_HEADERS, SERVICE_NAME } from './types';
+
+export { SessionTracer, sessionTraceId } from './sessionTracer';
+export { OtlpExporter, toOtlpRequest } from './otlpExporter';
+export type { Span } from './types';
+
+/**
+ * Start tracing if an OTLP endpoint is configured; null otherwise.
+ * `redact` scrubs every string of an event (commands, prompts, paths) before
+ * it can end up in a span attribute.
+ */
+export function createTracing(redact: Redactor, url = OTLP_TRACES_ENDPOINT) {
+  if (!url) return null;
+  const exporter = new OtlpExporter(url, SERVICE_NAME, parseHeaders(OTLP_HEADERS));
+  const tracer = new SessionTracer((span) => exporter.export(span));
+  console.log(`[tracing] Exporting traces to ${url}`);
+
+  /** Record a validated hook event */
+  function handleEvent(event: HookEvent) {
+    tracer.handleEvent(redactDeep(event, redact));
+  }
+
+  /** End open spans and send everything still queued (server shutdown) */
+  function close() {
+    tracer.endAll();
+    return exporter.close();
+  }
+
+  return { handleEvent, close };
+}
@@ -0,0 +1,114 @@
+import { EXPORT_INTERVAL_MS, EXPORT_TIMEOUT_MS, MAX_EXPORT_BATCH, MAX_QUEUED_SPANS } from './types';
+import type { Span } from './types';
+
+/** OTLP span status codes */
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+/** SPAN_KIND_INTERNAL */
+const KIND_INTERNAL = 1;
+
+const toNanos = (ms: number) => (BigInt(Math.round(ms)) * 1_000_000n).toString();
+
+function toAttributes(attributes: Record<string, string | number | boolean>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string' ? { stringValue: value }
+      : typeof value === 'boolean' ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: value } : { doubleValue: value },
+  }));
+}
+
+/** An OTLP/HTTP JSON ExportTraceServiceRequest body */
+export function toOtlpRequest(spans: Span[], serviceName: string) {
+  return {
+    resourceSpans: [{
+      resource: { attributes: toAttributes({ 'service.name': serviceName }) },
+      scopeSpans: [{
+        scope: { name: 'agent-viewer-town' },
+        spans: spans.map((span) => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          kind: KIND_INTERNAL,
+          startTimeUnixNano: toNanos(span.startTime),
+          endTimeUnixNano: toNanos(span.endTime),
+          attributes: toAttributes(span.attributes),
+          status: span.error ? { code: STATUS_ERROR, message: span.error } : { code: STATUS_OK },
+        })),
+      }],
+    }],
+  };
+}
+
+/** Parse OTEL_EXPORTER_OTLP_HEADERS-style "key=value,key2=value2" */
+export function parseHeaders(spec: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of spec.split(',')) {
+    const eq = pair.indexOf('=');
+    if (eq > 0) headers[pair.slice(0, eq).trim()] = decodeURIComponent(pair.slice(eq + 1).trim());
+  }
+  return headers;
+}
+
+/**
+ * Batches finished spans and POSTs them to an OTLP/HTTP collector as JSON.
+ * Spans are dropped (oldest first) rather than buffered without bound while
+ * the collector is down; the failure is logged once until an export succeeds.
+ */
+export class OtlpExporter {
+  private queue: Span[] = [];
+  /** The request in flight, if any — one at a time */
+  private sending: Promise<void> | null = null;
+  private failing = false;
+  private timer: ReturnType<typeof setInterval>;
+
+  constructor(
+    readonly url: string,
+    readonly serviceName: string,
+    private readonly headers: Record<string, string> = {},
+  ) {
+    this.timer = setInterval(() => this.flush(), EXPORT_INTERVAL_MS);
+  }
+
+  export(span: Span) {
+    this.queue.push(span);
+    if (this.queue.length > MAX_QUEUED_SPANS) this.queue.splice(0, this.queue.length - MAX_QUEUED_SPANS);
+    if (this.queue.length >= MAX_EXPORT_BATCH) this.flush();
+  }
+
+  /** Send the next batch, unless a request is already in flight (then resolves with that one) */
+  flush(): Promise<void> {
+    if (!this.sending && this.queue.length > 0) {
+      this.sending = this.send(this.queue.splice(0, MAX_EXPORT_BATCH)).finally(() => {
+        this.sending = null;
+      });
+    }
+    return this.sending ?? Promise.resolve();
+  }
+
+  private async send(batch: Span[]) {
+    try {
+      const res = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify(toOtlpRequest(batch, this.serviceName)),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      if (this.failing) console.log(`[tracing] Export to ${this.url} recovered`);
+      this.failing = false;
+    } catch (err) {
+      if (!this.failing) {
+        console.warn(`[tracing] Export to ${this.url} failed:`, err instanceof Error ? err.message : err);
+      }
+      this.failing = true;
+    }
+  }
+
+  /** Stop the export timer and send what's left, batch by batch */
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    while (this.sending || this.queue.length > 0) await this.flush();
+  }
+}
@@ -0,0 +1,209 @@
+import { createHash, randomBytes } from 'crypto';
+import { basename } from 'path';
+import type {
+  HookEvent,
+  PreToolUseEvent,
+  PostToolUseEvent,
+  PostToolUseFailureEvent,
+  SessionStartEvent,
+  SubagentStartEvent,
+  SubagentStopEvent,
+  UserPromptSubmitEvent,
+} from '../hooks/types';
+import { describeToolAction } from '../hooks/describeAction';
+import { IDLE_CHECK_INTERVAL_MS, SESSION_IDLE_TIMEOUT_MS } from './types';
+import type { Span, SpanAttributes } from './types';
+
+/** Tools that spawn a subagent — its SubagentStart span nests under the call */
+const SPAWN_TOOLS = new Set(['Task', 'Agent']);
+
+type OpenSpan = Omit<Span, 'endTime'>;
+
+interface SessionTrace {
+  traceId: string;
+  root: OpenSpan;
+  /** Current user turn (UserPromptSubmit → Stop) */
+  turn?: OpenSpan;
+  /** Running tool calls by tool_use_id */
+  tools: Map<string, OpenSpan>;
+  /** Running subagents by agent_id */
+  subagents: Map<string, OpenSpan>;
+  /** Spawn tool calls that already have a subagent under them */
+  claimedSpawns: Set<string>;
+  lastEventAt: number;
+}
+
+const newSpanId = () => randomBytes(8).toString('hex');
+
+/**
+ * Trace ID for a session — the session UUID itself, so a session's trace
+ * can be looked up by its ID and survives server restarts.
+ */
+export function sessionTraceId(sessionId: string): string {
+  const hex = sessionId.replace(/-/g, '').toLowerCase();
+  return /^[0-9a-f]{32}$/.test(hex) ? hex : createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+}
+
+/**
+ * Builds OpenTelemetry-style spans from hook events: one trace per session,
+ * a span per user turn, child spans per tool call (matched by tool_use_id)
+ * and per subagent, with a subagent's tool calls under its span. Finished
+ * spans are passed to onSpanEnd.
+ */
+export class SessionTracer {
+  private sessions = new Map<string, SessionTrace>();
+  private idleTimer: ReturnType<typeof setInterval>;
+
+  constructor(private readonly onSpanEnd: (span: Span) => void) {
+    this.idleTimer = setInterval(() => this.endIdleSessions(Date.now()), IDLE_CHECK_INTERVAL_MS);
+    this.idleTimer.unref();
+  }
+
+  handleEvent(event: HookEvent, now = Date.now()) {
+    if (!event.session_id) return;
+    this.endIdleSessions(now);
+    const trace = this.session(event, now);
+    trace.lastEventAt = now;
+
+    switch (event.hook_event_name) {
+      case 'SessionStart': {
+        const { source, model } = event as SessionStartEvent;
+        if (source) trace.root.attributes['session.source'] = source;
+        if (model) trace.root.attributes['gen_ai.request.model'] = model;
+        break;
+      }
+      case 'UserPromptSubmit': {
+        this.endTurn(trace, now);
+        const prompt = (event as UserPromptSubmitEvent).prompt;
+        trace.turn = this.open(trace, 'turn', trace.root.spanId, now, prompt === undefined ? {} : { 'prompt.length': prompt.length });
+        break;
+      }
+      case 'PreToolUse': {
+        const { tool_name, tool_input, tool_use_id } = event as PreToolUseEvent;
+        if (!tool_use_id) break;
+        const { action, context } = describeToolAction(tool_name, tool_input);
+        const parent = (event.agent_id && trace.subagents.get(event.agent_id)) || trace.turn || trace.root;
+        trace.tools.set(tool_use_id, this.open(trace, tool_name, parent.spanId, now, {
+          'tool.name': tool_name,
+          'tool.use_id': tool_use_id,
+          'tool.action': action,
+          ...(context ? { 'tool.context': context } : {}),
+        }));
+        break;
+      }
+      case 'PostToolUse':
+      case 'PostToolUseFailure': {
+        const { tool_use_id } = event as PostToolUseEvent | PostToolUseFailureEvent;
+        const span = tool_use_id && trace.tools.get(tool_use_id);
+        if (!span || !tool_use_id) break;
+        trace.tools.delete(tool_use_id);
+        trace.claimedSpawns.delete(tool_use_id);
+        if (event.hook_event_name === 'PostToolUseFailure') {
+          const failure = event as PostToolUseFailureEvent;
+          span.error = failure.is_interrupt ? 'Interrupted' : (failure.error || 'Tool call failed');
+        }
+        this.end(span, now);
+        break;
+      }
+      case 'SubagentStart': {
+        const { agent_id, agent_type } = event as SubagentStartEvent;
+        trace.subagents.set(agent_id, this.open(trace, `subagent ${agent_type || 'general-purpose'}`, this.spawnParent(trace), now, {
+          'agent.id': agent_id,
+          'agent.type': agent_type || 'general-purpose',
+        }));
+        break;
+      }
+      case 'SubagentStop': {
+        const { agent_id } = event as SubagentStopEvent;
+        const span = trace.subagents.get(agent_id);
+        if (!span) break;
+        trace.subagents.delete(agent_id);
+        this.end(span, now);
+        break;
+      }
+      case 'Stop':
+        this.endTurn(trace, now);
+        break;
+      case 'SessionEnd':
+        this.endSession(event.session_id, trace, now);
+        break;
+    }
+  }
+
+  /** End every open span, marking unfinished ones incomplete, and stop the idle check (server shutdown) */
+  endAll(now = Date.now()) {
+    clearInterval(this.idleTimer);
+    for (const [sessionId, trace] of this.sessions) this.endSession(sessionId, trace, now);
+  }
+
+  private session(event: HookEvent, now: number): SessionTrace {
+    let trace = this.sessions.get(event.session_id);
+    if (!trace) {
+      const traceId = sessionTraceId(event.session_id);
+      trace = {
+        traceId,
+        root: {
+          traceId,
+          spanId: newSpanId(),
+          name: `session ${event.cwd ? basename(event.cwd) : event.session_id.slice(0, 8)}`,
+          startTime: now,
+          attributes: { 'session.id': event.session_id, ...(event.cwd ? { 'project.path': event.cwd } : {}) },
+        },
+        tools: new Map(),
+        subagents: new Map(),
+        claimedSpawns: new Set(),
+        lastEventAt: now,
+      };
+      this.sessions.set(event.session_id, trace);
+    }
+    return trace;
+  }
+
+  private open(trace: SessionTrace, name: string, parentSpanId: string, now: number, attributes: SpanAttributes): OpenSpan {
+    return { traceId: trace.traceId, spanId: newSpanId(), parentSpanId, name, startTime: now, attributes };
+  }
+
+  private end(span: OpenSpan, now: number) {
+    this.onSpanEnd({ ...span, endTime: Math.max(now, span.startTime) });
+  }
+
+  /** End spans whose closing event never came */
+  private endIncomplete(spans: Map<string, OpenSpan>, now: number) {
+    for (const span of spans.values()) {
+      span.attributes['agent_viewer.incomplete'] = true;
+      this.end(span, now);
+    }
+    spans.clear();
+  }
+
+  /** Parent for a new subagent: the latest spawn tool call without one, else the turn */
+  private spawnParent(trace: SessionTrace): string {
+    const spawns = [...trace.tools].filter(([id, span]) => SPAWN_TOOLS.has(span.name) && !trace.claimedSpawns.has(id));
+    const latest = spawns[spawns.length - 1];
+    if (latest) {
+      trace.claimedSpawns.add(latest[0]);
+      return latest[1].spanId;
+    }
+    return (trace.turn ?? trace.root).spanId;
+  }
+
+  private endTurn(trace: SessionTrace, now: number) {
+    this.endIncomplete(trace.subagents, now);
+    this.endIncomplete(trace.tools, now);
+    trace.claimedSpawns.clear();
+    if (trace.turn) this.end(trace.turn, now);
+    trace.turn = undefined;
+  }
+
+  private endSession(sessionId: string, trace: SessionTrace, now: number) {
+    this.endTurn(trace, now);
+    this.end(trace.root, now);
+    this.sessions.delete(sessionId);
+  }
+
+  private endIdleSessions(now: number) {
+    for (const [sessionId, trace] of this.sessions) {
+      if (now - trace.lastEventAt > SESSION_IDLE_TIMEOUT_MS) this.endSession(sessionId, trace, trace.lastEventAt);
+    }
+  }
+}
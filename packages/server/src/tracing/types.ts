@@ -0,0 +1,46 @@
+// ================================================================
+// Configuration (standard OpenTelemetry exporter variables)
+// ================================================================
+/** Full OTLP/HTTP traces URL, or the collector base URL with /v1/traces appended */
+export const OTLP_TRACES_ENDPOINT = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+  || (process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+    ? `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, '')}/v1/traces`
+    : undefined);
+/** Extra request headers as "key=value,key2=value2" */
+export const OTLP_HEADERS = process.env.OTEL_EXPORTER_OTLP_HEADERS || '';
+export const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || 'agent-viewer-town';
+
+// ================================================================
+// Tuning constants
+// ================================================================
+/** How often finished spans are sent to the collector (ms) */
+export const EXPORT_INTERVAL_MS = 2000;
+/** Send immediately once this many spans are waiting */
+export const MAX_EXPORT_BATCH = 200;
+/** Drop the oldest spans beyond this many if the collector is unreachable */
+export const MAX_QUEUED_SPANS = 5000;
+/** Sessions with no hook events for this long have their open spans ended */
+export const SESSION_IDLE_TIMEOUT_MS = 6 * 60 * 60_000;
+/** How often sessions are checked for that idle timeout (ms) */
+export const IDLE_CHECK_INTERVAL_MS = 60_000;
+/** Give up on a collector request after this long (ms) */
+export const EXPORT_TIMEOUT_MS = 10_000;
+
+// ================================================================
+// Spans
+// ================================================================
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** A finished span, in milliseconds — converted to OTLP on export */
+export interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  /** Set when the operation failed; exported as an error status */
+  error?: string;
+}
@@ -0,0 +1,177 @@
+/**
+ * Transcript pages — an agent's JSONL transcript as user prompts, assistant
+ * text, thinking, tool calls and tool results, read backwards from the end
+ * a page of lines at a time. The cursor is the byte offset of the oldest
+ * line returned, so pages stay stable while the agent appends to the file.
+ */
+
+import { open } from 'fs/promises';
+import type { TranscriptBlock, TranscriptEntry } from '@agent-viewer/shared';
+import type { Redactor } from './state/redaction';
+
+/** Lines per page unless the caller asks for fewer */
+export const DEFAULT_TRANSCRIPT_PAGE_LINES = 50;
+export const MAX_TRANSCRIPT_PAGE_LINES = 200;
+/** Longer text blocks and tool inputs are cut to this many characters */
+export const MAX_TRANSCRIPT_TEXT_CHARS = 20_000;
+
+/** Read transcripts backwards in chunks of this size */
+const READ_CHUNK_BYTES = 64 * 1024;
+/** Stop early once a page has read this much, however few lines it has */
+const MAX_PAGE_BYTES = 8 * 1024 * 1024;
+
+/** Clip, then redact what is kept — redacting a huge tool result whole is slow */
+function clip(text: string, redact: Redactor): string {
+  if (text.length <= MAX_TRANSCRIPT_TEXT_CHARS) return redact(text);
+  return `${redact(text.slice(0, MAX_TRANSCRIPT_TEXT_CHARS))}\n… ${text.length - MAX_TRANSCRIPT_TEXT_CHARS} more characters`;
+}
+
+/** Clip and redact every string in a tool input */
+function cleanValue(value: unknown, redact: Redactor): unknown {
+  if (typeof value === 'string') return clip(value, redact);
+  if (Array.isArray(value)) return value.map((v) => cleanValue(v, redact));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, cleanValue(v, redact)]));
+  }
+  return value;
+}
+
+/** Text of a tool result's content: a string, or text and image blocks */
+function resultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map((c) => (c?.type === 'text' && typeof c.text === 'string' ? c.text : c?.type === 'image' ? '[image]' : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function parseBlock(block: Record<string, unknown>, redact: Redactor): TranscriptBlock | null {
+  const text = (s: string) => clip(s, redact);
+  switch (block?.type) {
+    case 'text':
+      return typeof block.text === 'string' && block.text.trim() ? { type: 'text', text: text(block.text) } : null;
+    case 'thinking':
+      return typeof block.thinking === 'string' && block.thinking.trim() ? { type: 'thinking', text: text(block.thinking) } : null;
+    case 'tool_use':
+      if (typeof block.name !== 'string') return null;
+      return {
+        type: 'tool_use',
+        id: typeof block.id === 'string' ? block.id : undefined,
+        name: block.name,
+        input: (cleanValue(block.input ?? {}, redact) as Record<string, unknown>),
+      };
+    case 'tool_result':
+      return {
+        type: 'tool_result',
+        toolUseId: typeof block.tool_use_id === 'string' ? block.tool_use_id : undefined,
+        text: text(resultText(block.content)),
+        ...(block.is_error === true ? { isError: true } : {}),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * A transcript line as an entry, or null for lines with nothing to show
+ * (summaries, snapshots, system and meta lines).
+ */
+export function parseTranscriptEntry(line: string, offset: number, redact: Redactor): TranscriptEntry | null {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if ((data.type !== 'user' && data.type !== 'assistant') || data.isMeta === true) return null;
+  const message = data.message as { content?: unknown } | undefined;
+  const content = message?.content;
+  const blocks = typeof content === 'string'
+    ? (content.trim() ? [{ type: 'text' as const, text: clip(content, redact) }] : [])
+    : Array.isArray(content)
+      ? content.map((b) => parseBlock(b, redact)).filter((b): b is TranscriptBlock => b !== null)
+      : [];
+  if (blocks.length === 0) return null;
+  const timestamp = typeof data.timestamp === 'string' ? Date.parse(data.timestamp) : NaN;
+  return {
+    offset,
+    role: data.type,
+    ...(Number.isNaN(timestamp) ? {} : { timestamp }),
+    blocks,
+  };
+}
+
+/**
+ * Up to `maxLines` complete lines ending before byte `before` (default: the
+ * end of the file), oldest first, with their offsets. A partly written last
+ * line is left for the next read.
+ */
+export async function readLinesBefore(
+  filePath: string,
+  before: number | undefined,
+  maxLines: number,
+): Promise<{ lines: Array<{ text: string; offset: number }>; start: number }> {
+  const file = await open(filePath, 'r');
+  try {
+    const { size } = await file.stat();
+    let pos = Math.min(before ?? size, size);
+    // `tail` holds bytes [pos, end) not yet split into lines
+    let tail: Buffer = Buffer.alloc(0);
+    let bytesRead = 0;
+    const lines: Array<{ text: string; offset: number }> = [];
+    let start = pos;
+    let atLineEnd = pos === 0 || before !== undefined;
+
+    while (lines.length < maxLines) {
+      // The line before the last newline in `tail` is complete
+      const nl = tail.length >= 2 ? tail.lastIndexOf(0x0a, tail.length - 2) : -1;
+      if (atLineEnd && nl >= 0) {
+        const text = tail.subarray(nl + 1).toString('utf-8').trim();
+        start = pos + nl + 1;
+        if (text) lines.push({ text, offset: start });
+        tail = tail.subarray(0, nl + 1);
+        continue;
+      }
+      if (pos === 0) {
+        const text = atLineEnd ? tail.toString('utf-8').trim() : '';
+        if (text) lines.push({ text, offset: 0 });
+        start = 0;
+        break;
+      }
+      if (bytesRead >= MAX_PAGE_BYTES && lines.length > 0) break;
+      const length = Math.min(READ_CHUNK_BYTES, pos);
+      const chunk = Buffer.alloc(length);
+      await file.read(chunk, 0, length, pos - length);
+      pos -= length;
+      bytesRead += length;
+      tail = Buffer.concat([chunk, tail]);
+      if (!atLineEnd) {
+        // Reading from the end of the file: drop a trailing line still being written
+        const last = tail.lastIndexOf(0x0a);
+        if (last >= 0) {
+          tail = tail.subarray(0, last + 1);
+          start = pos + last + 1;
+          atLineEnd = true;
+        }
+      }
+    }
+    return { lines: lines.reverse(), start };
+  } finally {
+    await file.close();
+  }
+}
+
+/** A page of entries ending before `cursor`, and the cursor for the page before it */
+export async function readTranscriptPage(
+  filePath: string,
+  cursor: number | undefined,
+  maxLines: number,
+  redact: Redactor,
+): Promise<{ entries: TranscriptEntry[]; cursor: number | null }> {
+  const { lines, start } = await readLinesBefore(filePath, cursor, maxLines);
+  const entries = lines
+    .map((line) => parseTranscriptEntry(line.text, line.offset, redact))
+    .filter((e): e is TranscriptEntry => e !== null);
+  return { entries, cursor: start > 0 ? start : null };
+}
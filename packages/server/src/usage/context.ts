@@ -0,0 +1,27 @@
+import type { TokenCounts } from '@agent-viewer/shared';
+
+/** Standard context window */
+export const DEFAULT_CONTEXT_LIMIT = 200_000;
+/** Extended (1M-token) window — assumed once a prompt outgrows the standard one */
+export const EXTENDED_CONTEXT_LIMIT = 1_000_000;
+
+/**
+ * Approximate context fill from one response: everything sent as the prompt,
+ * cached or not. The response's own output joins the context on the next turn.
+ */
+export function contextTokens(counts: TokenCounts): number {
+  return counts.inputTokens + counts.cacheCreationTokens + counts.cacheReadTokens;
+}
+
+/**
+ * Context window to measure against. Transcripts don't record the window
+ * size, so infer the extended one from a prompt that wouldn't fit the
+ * standard window, and keep it once seen (compaction shrinks the prompt,
+ * not the window).
+ */
+export function contextLimitFor(tokens: number, previousLimit?: number): number {
+  if (previousLimit === EXTENDED_CONTEXT_LIMIT || tokens > DEFAULT_CONTEXT_LIMIT) {
+    return EXTENDED_CONTEXT_LIMIT;
+  }
+  return DEFAULT_CONTEXT_LIMIT;
+}
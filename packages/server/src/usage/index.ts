@@ -0,0 +1,5 @@
+export { UsageLedger, sumUsage, emptyUsage, forgetRemovedUsage } from './ledger';
+export type { UsageOwner } from './ledger';
+export { loadPriceTable, priceForModel, estimateCost, DEFAULT_PRICES, PRICES_FILE } from './pricing';
+export type { ModelPrice, PriceTable } from './pricing';
+export { contextTokens, contextLimitFor, DEFAULT_CONTEXT_LIMIT, EXTENDED_CONTEXT_LIMIT } from './context';
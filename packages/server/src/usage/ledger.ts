@@ -0,0 +1,176 @@
+import type { TokenCounts, TokenUsage } from '@agent-viewer/shared';
+import type { StateManager } from '../state';
+import { loadPriceTable, priceForModel, estimateCost } from './pricing';
+import type { PriceTable } from './pricing';
+
+/** Who a transcript's usage is billed to */
+export interface UsageOwner {
+  /** Agent the response belongs to (parent session for internal subagents) */
+  agentId: string;
+  /** View session the agent is shown under (the team view session for team members) */
+  sessionId: string;
+}
+
+interface LedgerEntry {
+  owner: UsageOwner;
+  usage: TokenUsage;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, costUsd: 0 };
+}
+
+function addInto(target: TokenUsage, usage: TokenUsage, sign: 1 | -1 = 1) {
+  target.inputTokens += sign * usage.inputTokens;
+  target.outputTokens += sign * usage.outputTokens;
+  target.cacheCreationTokens += sign * usage.cacheCreationTokens;
+  target.cacheReadTokens += sign * usage.cacheReadTokens;
+  target.costUsd += sign * usage.costUsd;
+}
+
+function sameUsage(a: TokenUsage, b: TokenUsage): boolean {
+  return a.inputTokens === b.inputTokens && a.outputTokens === b.outputTokens &&
+    a.cacheCreationTokens === b.cacheCreationTokens && a.cacheReadTokens === b.cacheReadTokens &&
+    a.costUsd === b.costUsd;
+}
+
+/** Sum usages, returning undefined when none are present */
+export function sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  let total: TokenUsage | undefined;
+  for (const usage of usages) {
+    if (!usage) continue;
+    total ??= emptyUsage();
+    addInto(total, usage);
+  }
+  return total;
+}
+
+/**
+ * Running token totals per agent and per session, keyed by API message ID.
+ *
+ * Claude Code writes one transcript line per content block, each repeating
+ * the message's usage (output_tokens grows as the response streams), so a
+ * repeated ID replaces its earlier entry instead of adding to it. Resumed
+ * sessions copy earlier messages into the new transcript; the first owner
+ * to report a message keeps it, so nothing is counted twice.
+ */
+export class UsageLedger {
+  private entries = new Map<string, LedgerEntry>();
+  private byAgent = new Map<string, TokenUsage>();
+  private bySession = new Map<string, TokenUsage>();
+  /** Message IDs of each agent's and each session's entries, for forgetting them */
+  private agentMessages = new Map<string, Set<string>>();
+  private sessionMessages = new Map<string, Set<string>>();
+
+  constructor(private prices: PriceTable = loadPriceTable()) {}
+
+  /** Record one response. Returns true when any total changed. */
+  record(owner: UsageOwner, messageId: string, model: string | undefined, counts: TokenCounts): boolean {
+    const usage: TokenUsage = { ...counts, costUsd: estimateCost(counts, priceForModel(this.prices, model)) };
+    const prev = this.entries.get(messageId);
+    if (prev) {
+      if (prev.owner.agentId !== owner.agentId || prev.owner.sessionId !== owner.sessionId) return false;
+      if (sameUsage(prev.usage, usage)) return false;
+      this.apply(prev.owner, prev.usage, -1);
+    }
+    this.entries.set(messageId, { owner, usage });
+    this.apply(owner, usage, 1);
+    if (!prev) {
+      addMessage(this.agentMessages, owner.agentId, messageId);
+      addMessage(this.sessionMessages, owner.sessionId, messageId);
+    }
+    return true;
+  }
+
+  agentTotals(agentId: string): TokenUsage | undefined {
+    const total = this.byAgent.get(agentId);
+    return total && { ...total };
+  }
+
+  sessionTotals(sessionId: string): TokenUsage | undefined {
+    const total = this.bySession.get(sessionId);
+    return total && { ...total };
+  }
+
+  /** Drop an agent's total and entries; the sessions it was billed to keep what it spent */
+  forgetAgent(agentId: string) {
+    this.byAgent.delete(agentId);
+    for (const messageId of this.agentMessages.get(agentId) ?? []) {
+      const entry = this.entries.get(messageId);
+      if (entry) this.sessionMessages.get(entry.owner.sessionId)?.delete(messageId);
+      this.entries.delete(messageId);
+    }
+    this.agentMessages.delete(agentId);
+  }
+
+  /** Drop a session's total and entries; its agents keep their totals until they are forgotten too */
+  forgetSession(sessionId: string) {
+    this.bySession.delete(sessionId);
+    for (const messageId of this.sessionMessages.get(sessionId) ?? []) {
+      const entry = this.entries.get(messageId);
+      if (entry) this.agentMessages.get(entry.owner.agentId)?.delete(messageId);
+      this.entries.delete(messageId);
+    }
+    this.sessionMessages.delete(sessionId);
+  }
+
+  /** IDs of every agent with a total */
+  agentIds(): string[] {
+    return [...this.byAgent.keys()];
+  }
+
+  /** IDs of every session with a total */
+  sessionIds(): string[] {
+    return [...this.bySession.keys()];
+  }
+
+  clear() {
+    this.entries.clear();
+    this.byAgent.clear();
+    this.bySession.clear();
+    this.agentMessages.clear();
+    this.sessionMessages.clear();
+  }
+
+  private apply(owner: UsageOwner, usage: TokenUsage, sign: 1 | -1) {
+    for (const [map, key] of [[this.byAgent, owner.agentId], [this.bySession, owner.sessionId]] as const) {
+      let total = map.get(key);
+      if (!total) {
+        total = emptyUsage();
+        map.set(key, total);
+      }
+      addInto(total, usage, sign);
+    }
+  }
+}
+
+function addMessage(index: Map<string, Set<string>>, key: string, messageId: string) {
+  let messages = index.get(key);
+  if (!messages) {
+    messages = new Set();
+    index.set(key, messages);
+  }
+  messages.add(messageId);
+}
+
+/**
+ * Drop usage of agents and sessions once they leave the state. Single
+ * removals are broadcast; team clears and resets only send the full state.
+ * Returns an unsubscribe function.
+ */
+export function forgetRemovedUsage(ledger: UsageLedger, stateManager: StateManager): () => void {
+  return stateManager.subscribe((msg) => {
+    if (msg.type === 'agent_removed') {
+      ledger.forgetAgent(msg.data.id);
+    } else if (msg.type === 'session_ended') {
+      ledger.forgetSession(msg.data.sessionId);
+    } else if (msg.type === 'full_state') {
+      for (const agentId of ledger.agentIds()) {
+        if (!stateManager.getAgentById(agentId)) ledger.forgetAgent(agentId);
+      }
+      for (const sessionId of ledger.sessionIds()) {
+        if (!stateManager.getSessions().has(sessionId)) ledger.forgetSession(sessionId);
+      }
+    }
+  });
+}
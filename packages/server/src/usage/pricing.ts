@@ -0,0 +1,94 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { TokenCounts } from '@agent-viewer/shared';
+import { DATA_DIR } from '../store/types';
+
+/** USD per million tokens for each kind of token */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Writing to the prompt cache (5-minute TTL) */
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/** Model ID prefix → price. Lookups use the longest matching prefix. */
+export type PriceTable = Record<string, ModelPrice>;
+
+/** Key used for models that match no prefix in the table */
+export const FALLBACK_PRICE_KEY = 'default';
+
+/** Price table file, merged over the defaults when present */
+export const PRICES_FILE = process.env.AGENT_VIEWER_PRICES_FILE || join(DATA_DIR, 'prices.json');
+
+/** Published list prices at the time of writing — override via PRICES_FILE */
+export const DEFAULT_PRICES: PriceTable = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-3-opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  [FALLBACK_PRICE_KEY]: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+};
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return ['input', 'output', 'cacheWrite', 'cacheRead'].every(
+    (k) => typeof v[k] === 'number' && Number.isFinite(v[k]) && (v[k] as number) >= 0
+  );
+}
+
+/**
+ * Load the price table: defaults, overridden per model by entries in the
+ * JSON file at `filePath`. A missing file is normal; malformed entries are
+ * skipped with a warning.
+ */
+export function loadPriceTable(filePath = PRICES_FILE): PriceTable {
+  const table: PriceTable = { ...DEFAULT_PRICES };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`[usage] Ignoring unreadable price table ${filePath}:`, err instanceof Error ? err.message : err);
+    }
+    return table;
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    console.warn(`[usage] Ignoring price table ${filePath}: expected an object keyed by model`);
+    return table;
+  }
+  for (const [model, price] of Object.entries(raw)) {
+    if (isModelPrice(price)) {
+      table[model] = price;
+    } else {
+      console.warn(`[usage] Ignoring price for ${model}: expected { input, output, cacheWrite, cacheRead }`);
+    }
+  }
+  return table;
+}
+
+/** Price for a model ID, by longest matching prefix, else the fallback entry */
+export function priceForModel(table: PriceTable, model: string | undefined): ModelPrice {
+  let best: string | undefined;
+  if (model) {
+    for (const key of Object.keys(table)) {
+      if (model.startsWith(key) && (!best || key.length > best.length)) best = key;
+    }
+  }
+  return table[best ?? FALLBACK_PRICE_KEY] ?? DEFAULT_PRICES[FALLBACK_PRICE_KEY];
+}
+
+/** Estimated cost in USD of one response's token counts */
+export function estimateCost(counts: TokenCounts, price: ModelPrice): number {
+  return (
+    counts.inputTokens * price.input +
+    counts.outputTokens * price.output +
+    counts.cacheCreationTokens * price.cacheWrite +
+    counts.cacheReadTokens * price.cacheRead
+  ) / 1_000_000;
+}
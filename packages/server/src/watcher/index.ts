@@ -1,5 +1,6 @@
 /**
- * File watcher orchestrator — watches ~/.claude/ for session activity.
+ * File watcher orchestrator — watches ~/.claude/ (or each configured watch
+ * root) for session activity.
  *
  * This is the entry point that creates shared context and delegates to
  * domain-specific watchers:
@@ -7,18 +8,33 @@
  * - taskWatcher: Task files (*.json)
  * - transcriptWatcher: JSONL transcript files for session/subagent detection
  * - stalenessChecker: Periodic idle detection and orphan cleanup
+ * - stuckDetector: Loop, repeated-failure and no-progress detection
  */
 
 import type { StateManager } from '../state';
+import type { ServerMetrics } from '../metrics';
+import type { SearchIndex } from '../search';
+import { UsageLedger, forgetRemovedUsage } from '../usage';
 import { createDebouncer } from './utils';
-import { TEAMS_DIR, TASKS_DIR, PROJECTS_DIR } from './types';
-import type { WatcherContext } from './types';
+import type { WatcherContext, WatchRoot } from './types';
+import { resolveWatchRoots } from './roots';
 import { startTeamWatcher } from './teamWatcher';
 import { startTaskWatcher } from './taskWatcher';
 import { startTranscriptWatcher } from './transcriptWatcher';
 import { startStalenessChecker } from './stalenessChecker';
+import { StuckDetector, startStuckChecker } from './stuckDetector';
 
-export function startWatcher(stateManager: StateManager) {
+export interface WatcherOptions {
+  /** Detector shared with the hook handler, which feeds it tool events */
+  stuck?: StuckDetector;
+  metrics?: ServerMetrics;
+  /** Index that transcripts and tasks are added to for /api/search */
+  search?: SearchIndex;
+  /** Claude data directories to watch (default: from AGENT_VIEWER_CLAUDE_DIRS, roots.json or ~/.claude) */
+  roots?: WatchRoot[];
+}
+
+export function startWatcher(stateManager: StateManager, options: WatcherOptions = {}) {
   // Create shared context for all sub-modules
   const ctx: WatcherContext = {
     stateManager,
@@ -28,26 +44,39 @@ export function startWatcher(stateManager: StateManager) {
     registeredSessions: new Set(),
     registeredSubagents: new Set(),
     trackedSessions: new Map(),
+    usage: new UsageLedger(),
+    stuck: options.stuck ?? new StuckDetector(),
+    metrics: options.metrics,
+    search: options.search,
   };
 
-  // Start all watchers
-  const teamWatcher = startTeamWatcher(ctx);
-  const taskWatcher = startTaskWatcher(ctx);
-  const transcriptWatcher = startTranscriptWatcher(ctx);
-  const stalenessInterval = startStalenessChecker(ctx);
+  const stopForgettingUsage = forgetRemovedUsage(ctx.usage, stateManager);
 
-  console.log(`[watcher] Watching ${TEAMS_DIR}`);
-  console.log(`[watcher] Watching ${TASKS_DIR}`);
-  console.log(`[watcher] Watching transcripts in ${PROJECTS_DIR}`);
+  // Start the file watchers for each root, then the periodic checks
+  const roots = options.roots ?? resolveWatchRoots();
+  const fileWatchers = roots.flatMap((root) => {
+    console.log(`[watcher] Watching ${root.dir}${root.name !== root.dir ? ` as "${root.name}"` : ''}`);
+    return [startTeamWatcher(ctx, root), startTaskWatcher(ctx, root), startTranscriptWatcher(ctx, root)];
+  });
+  const stalenessInterval = startStalenessChecker(ctx);
+  const stuckInterval = startStuckChecker(ctx);
 
   return {
+    /** The JSONL transcript of an agent in a (view) session, if one is being watched */
+    transcriptPath: (sessionId: string, agentId: string): string | undefined => {
+      for (const tracked of ctx.trackedSessions.values()) {
+        const owner = tracked.usageOwner;
+        if (!tracked.isInternalSubagent && owner?.sessionId === sessionId && owner.agentId === agentId) return tracked.filePath;
+      }
+      return undefined;
+    },
     close: () => {
+      stopForgettingUsage();
       clearInterval(stalenessInterval);
+      clearInterval(stuckInterval);
       ctx.debouncer.clear();
       ctx.transcriptDebouncer.clear();
-      teamWatcher.close();
-      taskWatcher.close();
-      transcriptWatcher.close();
+      for (const watcher of fileWatchers) watcher.close();
     },
   };
 }
@@ -0,0 +1,105 @@
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join, resolve, sep } from 'path';
+import { CLAUDE_DIR, CLAUDE_DIRS, ROOTS_FILE } from './types';
+import type { WatchRoot } from './types';
+
+/** A configured root before it is resolved */
+export interface RootEntry {
+  path: string;
+  name?: string;
+}
+
+/** Expand a leading ~ to the home directory */
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+/** The path with the home directory shortened to ~, as a default root name */
+function displayPath(dir: string): string {
+  const home = homedir();
+  return dir === home || dir.startsWith(home + sep) ? `~${dir.slice(home.length)}` : dir;
+}
+
+export function createRoot(entry: RootEntry): WatchRoot {
+  const dir = resolve(expandHome(entry.path));
+  return {
+    name: entry.name || displayPath(dir),
+    dir,
+    teamsDir: join(dir, 'teams'),
+    tasksDir: join(dir, 'tasks'),
+    projectsDir: join(dir, 'projects'),
+  };
+}
+
+/** Name of the root watched when none are configured */
+export const DEFAULT_ROOT_NAME = createRoot({ path: CLAUDE_DIR }).name;
+
+/** Parse AGENT_VIEWER_CLAUDE_DIRS: "path" or "name=path" entries separated by ':' */
+export function parseRootList(spec: string): RootEntry[] {
+  return spec.split(':').map((s) => s.trim()).filter(Boolean).map((item) => {
+    const eq = item.indexOf('=');
+    return eq > 0 ? { name: item.slice(0, eq).trim(), path: item.slice(eq + 1).trim() } : { path: item };
+  });
+}
+
+/**
+ * Validate the contents of roots.json — a list of paths or { name, path }
+ * objects. Invalid entries are left out and described in `errors`.
+ */
+export function parseRootsConfig(raw: unknown): { roots: RootEntry[]; errors: string[] } {
+  if (!Array.isArray(raw)) return { roots: [], errors: ['expected a list of roots'] };
+  const roots: RootEntry[] = [];
+  const errors: string[] = [];
+  raw.forEach((entry, i) => {
+    if (typeof entry === 'string' && entry) {
+      roots.push({ path: entry });
+      return;
+    }
+    const r = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (typeof r.path !== 'string' || !r.path) {
+      errors.push(`root ${i + 1}: needs a "path"`);
+    } else if (r.name !== undefined && (typeof r.name !== 'string' || !r.name)) {
+      errors.push(`root ${i + 1}: "name" must be a non-empty string`);
+    } else {
+      roots.push({ path: r.path, ...(r.name ? { name: r.name as string } : {}) });
+    }
+  });
+  return { roots, errors };
+}
+
+/** Load roots from `filePath`. A missing file means none; problems are logged. */
+export function loadRootsFile(filePath = ROOTS_FILE): RootEntry[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`[watcher] Ignoring unreadable roots file ${filePath}:`, err instanceof Error ? err.message : err);
+    }
+    return [];
+  }
+  const { roots, errors } = parseRootsConfig(raw);
+  for (const error of errors) console.warn(`[watcher] Ignoring entry in ${filePath}: ${error}`);
+  return roots;
+}
+
+/**
+ * The Claude data directories to watch: AGENT_VIEWER_CLAUDE_DIRS if set,
+ * else roots.json if it lists any, else CLAUDE_CONFIG_DIR or ~/.claude.
+ * Repeated directories are watched once; a repeated name gets a suffix.
+ */
+export function resolveWatchRoots(spec = CLAUDE_DIRS, filePath = ROOTS_FILE, defaultDir = CLAUDE_DIR): WatchRoot[] {
+  let entries = spec ? parseRootList(spec) : loadRootsFile(filePath);
+  if (entries.length === 0) entries = [{ path: defaultDir }];
+
+  const roots: WatchRoot[] = [];
+  for (const entry of entries) {
+    const root = createRoot(entry);
+    if (roots.some((r) => r.dir === root.dir)) continue;
+    const base = root.name;
+    for (let n = 2; roots.some((r) => r.name === root.name); n++) root.name = `${base} (${n})`;
+    roots.push(root);
+  }
+  return roots;
+}
@@ -1,6 +1,7 @@
 import { statSync } from 'fs';
 import { IDLE_THRESHOLD_S, STALENESS_CHECK_INTERVAL_MS, SESSION_EXPIRY_S } from './types';
 import type { WatcherContext } from './types';
+import { inTeam } from '../state';
 
 /**
  * Run a single staleness sweep: mark idle agents, clean up subagents, expire old sessions.
@@ -130,7 +131,7 @@ export function runStalenessCheck(ctx: WatcherContext) {
       if (agent.status !== 'working') continue;
 
       // Check if this agent belongs to this session (team member or the session agent itself)
-      if (agentId === session.sessionId || agent.teamName === session.teamName) {
+      if (agentId === session.sessionId || (session.teamName ? inTeam(agent, session) : !agent.teamName)) {
         stateManager.setAgentWaitingById(agentId, false);
         stateManager.updateAgentActivityById(agentId, 'idle');
       }
@@ -147,10 +148,10 @@ export function runStalenessCheck(ctx: WatcherContext) {
   for (const sessionId of sessionsToExpire) {
     console.log(`[watcher] Expiring stale team session: ${sessionId}`);
     // Remove all agents belonging to this team
-    const teamName = stateManager.getSessions().get(sessionId)?.teamName;
-    if (teamName) {
+    const session = stateManager.getSessions().get(sessionId);
+    if (session) {
       for (const [agentId, agent] of stateManager.getAllAgents()) {
-        if (agent.teamName === teamName) {
+        if (inTeam(agent, session)) {
           stateManager.removeAgent(agentId);
         }
       }
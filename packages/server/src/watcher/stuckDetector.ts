@@ -0,0 +1,128 @@
+import type { AgentState, StuckState } from '@agent-viewer/shared';
+import {
+  STALENESS_CHECK_INTERVAL_MS,
+  STUCK_REPEAT_THRESHOLD,
+  STUCK_BASH_FAILURE_THRESHOLD,
+  STUCK_NO_PROGRESS_S,
+} from './types';
+import type { WatcherContext } from './types';
+
+/** What the detector knows about one agent's current turn */
+interface AgentActivity {
+  /** Tool name + input of the most recent call */
+  lastCall?: string;
+  lastToolName?: string;
+  /** How many times in a row lastCall has been made */
+  repeats: number;
+  /** Bash commands that failed in a row */
+  bashFailures: number;
+  /** Last successful tool call, or the start of the turn */
+  lastProgressAt: number;
+  stuck?: StuckState;
+}
+
+/**
+ * Flags agents that look stuck: repeating the same tool call, retrying
+ * failing Bash commands, or working a long time without a tool call
+ * completing. Fed by hook tool events; a new prompt starts a clean slate.
+ */
+export class StuckDetector {
+  private agents = new Map<string, AgentActivity>();
+
+  constructor(readonly noProgressMs = STUCK_NO_PROGRESS_S * 1000) {}
+
+  private activity(agentId: string, now: number): AgentActivity {
+    let activity = this.agents.get(agentId);
+    if (!activity) {
+      activity = { repeats: 0, bashFailures: 0, lastProgressAt: now };
+      this.agents.set(agentId, activity);
+    }
+    return activity;
+  }
+
+  /** A new prompt: earlier loops and failures no longer count */
+  turnStarted(agentId: string, now = Date.now()) {
+    this.agents.set(agentId, { repeats: 0, bashFailures: 0, lastProgressAt: now });
+  }
+
+  toolStarted(agentId: string, toolName: string, toolInput: Record<string, unknown> | undefined, now = Date.now()) {
+    const activity = this.activity(agentId, now);
+    const call = `${toolName}:${JSON.stringify(toolInput ?? {})}`;
+    activity.repeats = call === activity.lastCall ? activity.repeats + 1 : 1;
+    activity.lastCall = call;
+    activity.lastToolName = toolName;
+  }
+
+  toolFinished(agentId: string, toolName: string, failed: boolean, now = Date.now()) {
+    const activity = this.activity(agentId, now);
+    if (!failed) activity.lastProgressAt = now;
+    if (toolName === 'Bash') activity.bashFailures = failed ? activity.bashFailures + 1 : 0;
+  }
+
+  forget(agentId: string) {
+    this.agents.delete(agentId);
+  }
+
+  /** IDs of every agent with tracked activity */
+  agentIds(): string[] {
+    return [...this.agents.keys()];
+  }
+
+  /**
+   * The agent's stuck state, or undefined. Only working agents can be stuck,
+   * and time spent waiting on the user doesn't count as lack of progress.
+   */
+  evaluate(agent: AgentState, now = Date.now()): StuckState | undefined {
+    const activity = this.agents.get(agent.id);
+    if (!activity) return undefined;
+    if (agent.waitingForInput) activity.lastProgressAt = now;
+
+    const found = agent.status === 'working' ? this.check(activity, now) : undefined;
+    if (!found) {
+      activity.stuck = undefined;
+      return undefined;
+    }
+    const since = activity.stuck?.reason === found.reason ? activity.stuck.since : now;
+    activity.stuck = { ...found, since };
+    return activity.stuck;
+  }
+
+  private check(activity: AgentActivity, now: number): Omit<StuckState, 'since'> | undefined {
+    if (activity.repeats >= STUCK_REPEAT_THRESHOLD) {
+      return { reason: 'repeating', detail: `Made the same ${activity.lastToolName} call ${activity.repeats} times in a row` };
+    }
+    if (activity.bashFailures >= STUCK_BASH_FAILURE_THRESHOLD) {
+      return { reason: 'failing', detail: `${activity.bashFailures} Bash commands failed in a row` };
+    }
+    const quietMs = now - activity.lastProgressAt;
+    if (quietMs >= this.noProgressMs) {
+      return { reason: 'no_progress', detail: `No tool call has completed in ${Math.floor(quietMs / 60_000)} min` };
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Run a single stuck sweep: re-evaluate every tracked agent so the
+ * no-progress timeout fires without new events, and drop removed agents.
+ */
+export function runStuckCheck(ctx: WatcherContext) {
+  const { stateManager, stuck } = ctx;
+  const now = Date.now();
+  for (const agentId of stuck.agentIds()) {
+    const agent = stateManager.getAgentById(agentId);
+    if (!agent) {
+      stuck.forget(agentId);
+      continue;
+    }
+    stateManager.setAgentStuck(agentId, stuck.evaluate(agent, now));
+  }
+}
+
+/**
+ * Periodically re-checks agents for lack of progress.
+ * Returns an interval handle for cleanup.
+ */
+export function startStuckChecker(ctx: WatcherContext) {
+  return setInterval(() => runStuckCheck(ctx), STALENESS_CHECK_INTERVAL_MS);
+}
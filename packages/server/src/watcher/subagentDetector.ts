@@ -4,6 +4,7 @@ import { parseTranscriptLine } from '../parser';
 import { IDLE_THRESHOLD_S } from './types';
 import type { WatcherContext, TrackedSession } from './types';
 import type { StateManager } from '../state';
+import type { UsageOwner } from '../usage';
 
 export interface SubagentDetectionParams {
   filePath: string;
@@ -16,6 +17,8 @@ export interface SubagentDetectionParams {
   stateManager: StateManager;
   trackedSessions: Map<string, TrackedSession>;
   registeredSubagents: Set<string>;
+  /** Who the subagent's token usage is billed to */
+  usageOwner: UsageOwner;
 }
 
 /**
@@ -41,6 +44,7 @@ export async function detectSubagent(params: SubagentDetectionParams): Promise<S
     stateManager,
     trackedSessions,
     registeredSubagents,
+    usageOwner,
   } = params;
 
   // Determine initial status from file mtime + tail scan
@@ -88,6 +92,7 @@ export async function detectSubagent(params: SubagentDetectionParams): Promise<S
       dirSlug,
       lastActivity: subMtime,
       isInternalSubagent: true,
+      usageOwner,
     });
     console.log(`[watcher] Internal subagent (acompact) detected for parent=${parentSessionId.slice(0, 8)}, showing compacting status`);
     return 'handled';
@@ -168,6 +173,7 @@ export async function detectSubagent(params: SubagentDetectionParams): Promise<S
     isSolo: true,
     dirSlug,
     lastActivity: subMtime,
+    usageOwner,
   });
 
   // Add to display if parent session is active
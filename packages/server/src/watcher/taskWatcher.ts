@@ -1,14 +1,17 @@
 import chokidar from 'chokidar';
-import { basename } from 'path';
+import type { TaskState } from '@agent-viewer/shared';
+import { basename, dirname } from 'path';
+import { stat as fsStat } from 'fs/promises';
 import { parseTaskFile } from '../parser';
+import { taskSearchDoc, searchLabels } from '../search';
+import { teamSessionId } from '../state';
 import { isReadable } from './utils';
-import { TASKS_DIR } from './types';
-import type { WatcherContext } from './types';
+import type { WatcherContext, WatchRoot } from './types';
 
-export function startTaskWatcher(ctx: WatcherContext) {
-  const { stateManager, debouncer } = ctx;
+export function startTaskWatcher(ctx: WatcherContext, root: WatchRoot) {
+  const { stateManager, debouncer, search } = ctx;
 
-  const taskWatcher = chokidar.watch(TASKS_DIR, {
+  const taskWatcher = chokidar.watch(root.tasksDir, {
     ignoreInitial: false,
     persistent: true,
     depth: 1,
@@ -31,7 +34,7 @@ export function startTaskWatcher(ctx: WatcherContext) {
   taskWatcher.on('unlink', (fp: string) => {
     const taskId = basename(fp).replace('.json', '');
     console.log(`[watcher] Task file removed: ${fp} (id: ${taskId})`);
-    stateManager.removeTask(taskId);
+    stateManager.removeTask(taskId, { teamName: basename(dirname(fp)), sourceRoot: root.name });
     stateManager.reconcileAgentStatuses();
   });
   taskWatcher.on('error', (err: unknown) => {
@@ -42,11 +45,24 @@ export function startTaskWatcher(ctx: WatcherContext) {
     if (basename(filePath) === 'config.json') return;
     if (!(await isReadable(filePath))) return;
 
-    const task = await parseTaskFile(filePath);
-    if (!task) return;
+    const parsed = await parseTaskFile(filePath);
+    if (!parsed) return;
+    // Tasks live in {tasksDir}/{teamName}/{id}.json
+    const task = { ...parsed, teamName: basename(dirname(filePath)), sourceRoot: root.name };
 
     stateManager.updateTask(task);
     stateManager.reconcileAgentStatuses();
+    if (search) await indexTask(filePath, task);
+  }
+
+  /** Tasks belong to their team's session */
+  async function indexTask(filePath: string, task: TaskState & { teamName: string }) {
+    const sessionId = teamSessionId(task.sourceRoot, task.teamName);
+    let timestamp = Date.now();
+    try {
+      timestamp = (await fsStat(filePath)).mtimeMs;
+    } catch { /* removed since it was read */ }
+    search?.add(taskSearchDoc(task, sessionId, timestamp, searchLabels(stateManager, sessionId)));
   }
 
   return taskWatcher;
@@ -6,14 +6,15 @@ import {
   parseTaskFile,
   teamMemberToAgent,
 } from '../parser';
+import { teamSessionId, teamAgentId } from '../state';
 import { isReadable, isNodeError } from './utils';
-import { TEAMS_DIR, TASKS_DIR, SESSION_EXPIRY_S } from './types';
-import type { WatcherContext } from './types';
+import { SESSION_EXPIRY_S } from './types';
+import type { WatcherContext, WatchRoot } from './types';
 
-export function startTeamWatcher(ctx: WatcherContext) {
+export function startTeamWatcher(ctx: WatcherContext, root: WatchRoot) {
   const { stateManager, debouncer } = ctx;
 
-  const teamWatcher = chokidar.watch(TEAMS_DIR, {
+  const teamWatcher = chokidar.watch(root.teamsDir, {
     ignoreInitial: false,
     persistent: true,
     depth: 2,
@@ -37,7 +38,7 @@ export function startTeamWatcher(ctx: WatcherContext) {
     console.log(`[watcher] Team config removed: ${fp} (team: ${teamName})`);
     // Only reset team-related state, not solo sessions
     stateManager.clearTeamAgents();
-    stateManager.removeSession(`team:${teamName}`);
+    stateManager.removeSession(teamSessionId(root.name, teamName));
   });
   teamWatcher.on('error', (err: unknown) => {
     console.warn('[watcher] Team watcher error:', err instanceof Error ? err.message : err);
@@ -69,15 +70,15 @@ export function startTeamWatcher(ctx: WatcherContext) {
     // Register team agents in the allAgents registry (don't use setAgents which
     // replaces state.agents globally — that would override the active session's display).
     for (const member of config.members) {
-      const agent = { ...teamMemberToAgent(member), teamName };
-      stateManager.registerAgent(agent);
+      const agent = teamMemberToAgent(member);
+      stateManager.registerAgent({ ...agent, id: teamAgentId(root.name, agent.id), teamName, sourceRoot: root.name });
     }
 
     // Create a session entry for the team so it appears in the session picker
     // and per-client WebSocket filtering works correctly.
     // Use team: prefix to prevent collision with JSONL session UUIDs.
-    const teamSessionId = `team:${teamName}`;
-    if (!stateManager.getSessions().has(teamSessionId)) {
+    const sessionId = teamSessionId(root.name, teamName);
+    if (!stateManager.getSessions().has(sessionId)) {
       // Inherit projectPath/projectName from the most recently active solo session
       // so the team groups under the same project in the nav tree.
       let inheritedPath = '';
@@ -93,24 +94,25 @@ export function startTeamWatcher(ctx: WatcherContext) {
       }
 
       stateManager.addSession({
-        sessionId: teamSessionId,
+        sessionId,
         slug: teamName,
         projectPath: inheritedPath,
         projectName: inheritedName,
         isTeam: true,
         teamName,
         lastActivity: fileMtimeMs,
+        sourceRoot: root.name,
       });
-      console.log(`[watcher] Team session created: ${teamSessionId}`);
+      console.log(`[watcher] Team session created: ${sessionId}`);
     } else {
-      stateManager.updateSessionActivity(teamSessionId);
+      stateManager.updateSessionActivity(sessionId);
     }
 
     await scanTasks(teamName);
   }
 
   async function scanTasks(teamName: string) {
-    const taskDir = join(TASKS_DIR, teamName);
+    const taskDir = join(root.tasksDir, teamName);
     try {
       const files = await readdir(taskDir);
       for (const file of files) {
@@ -132,7 +134,7 @@ export function startTeamWatcher(ctx: WatcherContext) {
     const task = await parseTaskFile(filePath);
     if (!task) return;
 
-    stateManager.updateTask(task);
+    stateManager.updateTask({ ...task, teamName: basename(dirname(filePath)), sourceRoot: root.name });
     stateManager.reconcileAgentStatuses();
   }
 
@@ -10,19 +10,26 @@ import {
   cleanProjectName,
   detectGitWorktree,
 } from '../parser';
+import type { ParsedTranscriptLine } from '../parser';
+import { contextTokens, contextLimitFor } from '../usage';
+import type { UsageOwner } from '../usage';
+import { transcriptSearchDocs, searchLabels } from '../search';
+import { teamSessionId, teamAgentId } from '../state';
 import { isReadable } from './utils';
 import {
-  PROJECTS_DIR,
   IDLE_THRESHOLD_S,
   MAX_INITIAL_AGE_S,
 } from './types';
-import type { WatcherContext, TrackedSession } from './types';
+import type { WatcherContext, TrackedSession, WatchRoot } from './types';
 import { runStalenessCheck } from './stalenessChecker';
 import { detectSubagent } from './subagentDetector';
 
 const execFileAsync = promisify(execFile);
 
-export function startTranscriptWatcher(ctx: WatcherContext) {
+/** Model name Claude Code writes on locally generated (non-API) assistant lines */
+const SYNTHETIC_MODEL = '<synthetic>';
+
+export function startTranscriptWatcher(ctx: WatcherContext, root: WatchRoot) {
   const {
     stateManager,
     fileOffsets,
@@ -30,9 +37,12 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
     registeredSessions,
     registeredSubagents,
     trackedSessions,
+    usage,
+    metrics,
+    search,
   } = ctx;
 
-  const transcriptWatcher = chokidar.watch(PROJECTS_DIR, {
+  const transcriptWatcher = chokidar.watch(root.projectsDir, {
     ignoreInitial: false, // Detect existing sessions on startup
     persistent: true,
     depth: 4, // Catch subagent transcripts at {project}/{session}/subagents/*.jsonl
@@ -69,12 +79,20 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
     await promise;
   });
 
+  /** When each file's oldest unprocessed change was seen, for the watcher lag metric */
+  const changeSeenAt = new Map<string, number>();
+
   transcriptWatcher.on('change', (filePath: string) => {
     if (!filePath.endsWith('.jsonl')) return; // Filter to JSONL only
     // Only process real-time changes after the initial scan is complete.
     // During initial scan, detectSession already reads metadata and sets offsets.
     if (!transcriptWatcherReady) return;
-    transcriptDebouncer.debounce(`transcript:${filePath}`, () => handleTranscriptChange(filePath));
+    if (!changeSeenAt.has(filePath)) changeSeenAt.set(filePath, Date.now());
+    transcriptDebouncer.debounce(`transcript:${filePath}`, () => {
+      const seenAt = changeSeenAt.get(filePath) ?? Date.now();
+      changeSeenAt.delete(filePath);
+      handleTranscriptChange(filePath).then(() => metrics?.observeWatcherLag(Date.now() - seenAt));
+    });
   });
 
   transcriptWatcher.on('unlink', (filePath: string) => {
@@ -131,9 +149,9 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
     if (!meta) return;
 
     // Extract the project directory slug from the file path
-    // Path structure: ~/.claude/projects/{dirSlug}/{sessionId}.jsonl
-    // or ~/.claude/projects/{dirSlug}/{sessionId}/subagents/{agentId}.jsonl
-    const relPath = filePath.slice(PROJECTS_DIR.length + 1); // strip prefix + /
+    // Path structure: {root}/projects/{dirSlug}/{sessionId}.jsonl
+    // or {root}/projects/{dirSlug}/{sessionId}/subagents/{agentId}.jsonl
+    const relPath = filePath.slice(root.projectsDir.length + 1); // strip prefix + /
     const dirSlug = relPath.split('/')[0] || '';
 
     // IMPORTANT: For top-level transcript files (not subagent files), the filename
@@ -151,6 +169,12 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
       // Subagent file: {dirSlug}/{parentSessionId}/subagents/{agentId}.jsonl
       const parentSessionId = relSegments[1];
       const subagentId = basename(filePath, '.jsonl');
+      // Internal subagents (acompact) aren't shown, so bill their usage to the parent
+      const isInternal = subagentId.startsWith('agent-acompact');
+      const usageOwner: UsageOwner = {
+        agentId: isInternal ? parentSessionId : subagentId,
+        sessionId: parentSessionId,
+      };
 
       await detectSubagent({
         filePath,
@@ -163,7 +187,17 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
         stateManager,
         trackedSessions,
         registeredSubagents,
+        usageOwner,
       });
+      // Count usage even for skipped (old) subagents so session totals stay complete
+      const usageLines = parseUsageLines(lines);
+      recordUsage(usageOwner, usageLines);
+      // An internal subagent's context is its own summarizer prompt, not the parent's
+      if (!isInternal) {
+        recordContext(subagentId, usageLines);
+        recordFileTouches(usageOwner, usageLines);
+        recordSearchText(usageOwner, lines);
+      }
       return; // Don't continue with normal session registration
     }
 
@@ -256,17 +290,24 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
       }
     }
 
+    // Team members bill usage to their config agent and the team's view session
+    const usageOwner: UsageOwner = meta.isTeam && meta.teamName
+      ? { agentId: meta.agentId ? teamAgentId(root.name, meta.agentId) : meta.sessionId, sessionId: teamSessionId(root.name, meta.teamName) }
+      : { agentId: meta.sessionId, sessionId: meta.sessionId };
+
     const tracked: TrackedSession = {
       sessionId: meta.sessionId,
       filePath,
       isSolo: !meta.isTeam,
       dirSlug,
       lastActivity: fileMtime,
+      usageOwner,
     };
     trackedSessions.set(filePath, tracked);
 
     // Use the file's actual mtime as the session's last activity
     meta.lastActivity = fileMtime;
+    meta.sourceRoot = root.name;
 
     // If no projectName was derived from cwd, use the directory slug
     if (!meta.projectName && dirSlug) {
@@ -321,7 +362,7 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
       // (which use JSONL session UUIDs) can route to the correct team agent
       // (which uses config-based IDs like "researcher@team-name").
       if (meta.isTeam && meta.agentId) {
-        stateManager.registerSessionToAgentMapping(meta.sessionId, meta.agentId);
+        stateManager.registerSessionToAgentMapping(meta.sessionId, teamAgentId(root.name, meta.agentId));
       }
     } else {
       // Session already known (e.g. from another JSONL file like a subagent transcript).
@@ -331,6 +372,92 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
         existingSession.lastActivity = fileMtime;
       }
     }
+
+    // Count the whole transcript's usage — this is also how totals come back
+    // after a restart, since the ledger itself isn't persisted
+    const usageLines = parseUsageLines(lines);
+    recordUsage(usageOwner, usageLines);
+    recordContext(usageOwner.agentId, usageLines);
+    recordFileTouches(usageOwner, usageLines);
+    recordSearchText(usageOwner, lines);
+  }
+
+  /**
+   * Parse only the lines that can carry usage, compaction or file tool
+   * details (tool calls ride on assistant lines, which always report usage)
+   */
+  function parseUsageLines(lines: string[]): Array<ParsedTranscriptLine | null> {
+    return lines
+      .filter((line) => line.includes('"usage"') || line.includes('compact_boundary'))
+      .map(parseTranscriptLine);
+  }
+
+  /**
+   * Add assistant usage to the ledger and push the owner's new totals to
+   * state — one update per batch of lines, not per line.
+   */
+  function recordUsage(owner: UsageOwner, parsedLines: Array<ParsedTranscriptLine | null>) {
+    let model: string | undefined;
+    let changed = false;
+    for (const parsed of parsedLines) {
+      if (!parsed?.usage || !parsed.messageId) continue;
+      if (usage.record(owner, parsed.messageId, parsed.model, parsed.usage)) changed = true;
+      if (parsed.model && parsed.model !== SYNTHETIC_MODEL) model = parsed.model;
+    }
+    if (!changed) return;
+    stateManager.setAgentUsage(owner.agentId, usage.agentTotals(owner.agentId)!, model);
+    stateManager.setSessionUsage(owner.sessionId, usage.sessionTotals(owner.sessionId)!);
+  }
+
+  /**
+   * Track the agent's context fill and compactions. Lines are walked in
+   * order so each compaction's tokensAfter is the response right after it.
+   */
+  function recordContext(agentId: string, parsedLines: Array<ParsedTranscriptLine | null>) {
+    let latest: number | undefined;
+    let afterCompaction = false;
+    const flush = () => {
+      if (latest === undefined) return;
+      const limit = contextLimitFor(latest, stateManager.getAgentById(agentId)?.contextLimit);
+      stateManager.setAgentContext(agentId, latest, limit);
+      latest = undefined;
+    };
+
+    for (const parsed of parsedLines) {
+      if (parsed?.compaction) {
+        flush();
+        stateManager.recordCompaction(agentId, {
+          trigger: parsed.compaction.trigger,
+          timestamp: parsed.compaction.timestamp ?? Date.now(),
+          tokensBefore: parsed.compaction.tokensBefore ?? stateManager.getAgentById(agentId)?.contextTokens,
+        });
+        afterCompaction = true;
+      } else if (parsed?.usage && parsed.model !== SYNTHETIC_MODEL) {
+        latest = contextTokens(parsed.usage);
+        if (afterCompaction) {
+          flush();
+          afterCompaction = false;
+        }
+      }
+    }
+    flush();
+  }
+
+  /** Index the files read and changed by the owner's tool calls */
+  function recordFileTouches(owner: UsageOwner, parsedLines: Array<ParsedTranscriptLine | null>) {
+    const inputs = parsedLines.flatMap((parsed) =>
+      (parsed?.fileTouches ?? []).map((touch) => ({ agentId: owner.agentId, ...touch })),
+    );
+    stateManager.recordFileTouches(owner.sessionId, inputs);
+  }
+
+  /** Add the owner's prompts, replies and tool calls to the search index */
+  function recordSearchText(owner: UsageOwner, lines: string[]) {
+    if (!search) return;
+    const labels = searchLabels(stateManager, owner.sessionId, owner.agentId);
+    for (const line of lines) {
+      for (const doc of transcriptSearchDocs(line, owner, labels)) search.add(doc);
+    }
   }
 
   async function handleTranscriptChange(filePath: string) {
@@ -362,9 +489,11 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
     // Only update last activity when there are actual new lines to process
     // (prevents empty file touches from making old sessions look active)
     let hadMeaningfulActivity = false;
+    const usageLines: ParsedTranscriptLine[] = [];
 
     for (const line of lines) {
       const parsed = parseTranscriptLine(line);
+      if (parsed?.usage || parsed?.compaction || parsed?.fileTouches) usageLines.push(parsed);
       if (!parsed || parsed.type === 'unknown') continue;
 
       hadMeaningfulActivity = true;
@@ -510,6 +639,17 @@ export function startTranscriptWatcher(ctx: WatcherContext) {
       }
     }
 
+    if (currentTracked?.usageOwner && usageLines.length > 0) {
+      recordUsage(currentTracked.usageOwner, usageLines);
+      if (!currentTracked.isInternalSubagent) {
+        recordContext(currentTracked.usageOwner.agentId, usageLines);
+        recordFileTouches(currentTracked.usageOwner, usageLines);
+      }
+    }
+    if (currentTracked?.usageOwner && !currentTracked.isInternalSubagent) {
+      recordSearchText(currentTracked.usageOwner, lines);
+    }
+
     // Only update session activity timestamp when we processed meaningful events
     // AND the file itself is recently modified (prevents historical data from
     // inflating timestamps due to detectSession race conditions).
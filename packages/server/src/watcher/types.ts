@@ -1,14 +1,21 @@
 import { join } from 'path';
 import { homedir } from 'os';
 import type { StateManager } from '../state';
+import type { UsageLedger, UsageOwner } from '../usage';
+import type { StuckDetector } from './stuckDetector';
+import type { ServerMetrics } from '../metrics';
+import type { SearchIndex } from '../search';
+import { DATA_DIR } from '../store/types';
 
 // ================================================================
 // Directory paths
 // ================================================================
-export const CLAUDE_DIR = join(homedir(), '.claude');
-export const TEAMS_DIR = join(CLAUDE_DIR, 'teams');
-export const TASKS_DIR = join(CLAUDE_DIR, 'tasks');
-export const PROJECTS_DIR = join(CLAUDE_DIR, 'projects');
+/** Claude Code's data directory — honours CLAUDE_CONFIG_DIR like Claude Code does */
+export const CLAUDE_DIR = process.env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude');
+/** Directories to watch instead: "path" or "name=path" entries separated by ':' */
+export const CLAUDE_DIRS = process.env.AGENT_VIEWER_CLAUDE_DIRS || '';
+/** Watch roots config file, used when AGENT_VIEWER_CLAUDE_DIRS is not set */
+export const ROOTS_FILE = process.env.AGENT_VIEWER_ROOTS_FILE || join(DATA_DIR, 'roots.json');
 
 // ================================================================
 // Threshold constants
@@ -21,11 +28,27 @@ export const STALENESS_CHECK_INTERVAL_MS = 15_000;
 export const SESSION_EXPIRY_S = 3600; // 1 hour
 /** On initial scan, skip files older than this (seconds) */
 export const MAX_INITIAL_AGE_S = 86400; // 24 hours
+/** Identical tool calls in a row before an agent counts as looping */
+export const STUCK_REPEAT_THRESHOLD = 5;
+/** Failed Bash commands in a row before an agent counts as stuck retrying */
+export const STUCK_BASH_FAILURE_THRESHOLD = 3;
+/** Seconds working without a completed tool call before an agent counts as stuck */
+export const STUCK_NO_PROGRESS_S = parseInt(process.env.AGENT_VIEWER_STUCK_AFTER_S || '', 10) || 600;
 
 // ================================================================
 // Interfaces
 // ================================================================
 
+/** One Claude data directory being watched, e.g. ~/.claude or a container's bind mount */
+export interface WatchRoot {
+  /** Label sessions from this root are tagged with */
+  name: string;
+  dir: string;
+  teamsDir: string;
+  tasksDir: string;
+  projectsDir: string;
+}
+
 /** Track which JSONL files map to which sessionId */
 export interface TrackedSession {
   sessionId: string;
@@ -37,6 +60,8 @@ export interface TrackedSession {
   lastActivity: number;
   /** True for internal subagents (acompact, etc.) that shouldn't be shown as characters */
   isInternalSubagent?: boolean;
+  /** Agent and view session this file's token usage is billed to */
+  usageOwner?: UsageOwner;
 }
 
 /** Shared mutable state passed between watcher sub-modules */
@@ -54,6 +79,14 @@ export interface WatcherContext {
   registeredSubagents: Set<string>;
   /** Map from JSONL file path to session tracking info */
   trackedSessions: Map<string, TrackedSession>;
+  /** Token usage totals, recounted from transcripts on every start */
+  usage: UsageLedger;
+  /** Loop and no-progress tracking, fed by hook tool events */
+  stuck: StuckDetector;
+  /** Receives transcript processing lag for /metrics */
+  metrics?: ServerMetrics;
+  /** Full-text index fed with transcript lines and task subjects */
+  search?: SearchIndex;
 }
 
 export interface Debouncer {
@@ -0,0 +1,83 @@
+import type { FileTouch, TeamState, WSMessage } from './types';
+
+/**
+ * Apply one server message to a viewer's TeamState. Pure — shared by the
+ * browser and terminal clients; messages that don't touch TeamState return
+ * the state unchanged.
+ */
+export function applyMessage(state: TeamState, msg: WSMessage): TeamState {
+  switch (msg.type) {
+    case 'full_state':
+      return msg.data;
+
+    case 'agent_update':
+      return {
+        ...state,
+        agents: state.agents.map((a) =>
+          a.id === msg.data.id ? msg.data : a
+        ),
+      };
+
+    case 'agent_added':
+      // Deduplicate: if agent already exists, treat as update
+      if (state.agents.some((a) => a.id === msg.data.id)) {
+        return {
+          ...state,
+          agents: state.agents.map((a) =>
+            a.id === msg.data.id ? msg.data : a
+          ),
+        };
+      }
+      return {
+        ...state,
+        agents: [...state.agents, msg.data],
+      };
+
+    case 'agent_removed':
+      return {
+        ...state,
+        agents: state.agents.filter((a) => a.id !== msg.data.id),
+      };
+
+    case 'task_update':
+      return {
+        ...state,
+        tasks: state.tasks.some((t) => t.id === msg.data.id)
+          ? state.tasks.map((t) => (t.id === msg.data.id ? msg.data : t))
+          : [...state.tasks, msg.data],
+      };
+
+    case 'new_message':
+      return {
+        ...state,
+        messages: [...state.messages, msg.data],
+      };
+
+    case 'files_touched': {
+      // Upsert by agent + path + operation — the server sends only changed entries
+      const key = (t: FileTouch) => `${t.agentId}\0${t.path}\0${t.operation}`;
+      const updates = new Map(msg.data.touches.map((t) => [key(t), t]));
+      const files = (state.files ?? []).map((t) => {
+        const update = updates.get(key(t));
+        if (update) updates.delete(key(t));
+        return update ?? t;
+      });
+      return { ...state, files: [...files, ...updates.values()] };
+    }
+
+    case 'prompt_turn': {
+      // Upsert by id — a turn is re-sent as tools run and when it ends
+      const turns = state.turns ?? [];
+      const turn = msg.data.turn;
+      return {
+        ...state,
+        turns: turns.some((t) => t.id === turn.id)
+          ? turns.map((t) => (t.id === turn.id ? turn : t))
+          : [...turns, turn],
+      };
+    }
+
+    default:
+      return state;
+  }
+}
@@ -1 +1,2 @@
 export * from './types';
+export { applyMessage } from './applyMessage';
@@ -15,6 +15,8 @@ export interface AgentState {
   waitingForInput?: boolean;
   /** The specific type of waiting state, for richer notification/UI handling */
   waitingType?: 'permission' | 'question' | 'plan' | 'plan_approval';
+  /** ID of a blocking PermissionRequest hook that can be answered from the viewer */
+  pendingPermissionId?: string;
   /** True if this is a subagent spawned via the Task tool */
   isSubagent?: boolean;
   /** The parent session/agent ID that spawned this subagent */
@@ -23,6 +25,8 @@ export interface AgentState {
   subagentType?: string;
   /** Team name if this agent is a team member (not a subagent) */
   teamName?: string;
+  /** Watched Claude data directory the member's team was found in (see SessionInfo.sourceRoot) */
+  sourceRoot?: string;
   /** Current git branch the agent is working on */
   gitBranch?: string;
   /** Git worktree path if the agent is using a worktree */
@@ -35,6 +39,18 @@ export interface AgentState {
   gitHasUpstream?: boolean;
   /** Whether the working tree has uncommitted changes */
   gitDirty?: boolean;
+  /** Running token totals from the agent's transcript */
+  usage?: TokenUsage;
+  /** Model that produced the agent's most recent response */
+  model?: string;
+  /** Approximate context window fill: prompt tokens of the most recent response */
+  contextTokens?: number;
+  /** Context window size assumed for contextTokens */
+  contextLimit?: number;
+  /** Conversation compactions, oldest first (capped) */
+  compactions?: CompactionEvent[];
+  /** Set while the agent looks stuck: looping, retrying failures or making no progress */
+  stuck?: StuckState;
 }
 
 export type AgentRole = 'lead' | 'researcher' | 'implementer' | 'tester' | 'planner';
@@ -47,10 +63,46 @@ export interface TaskState {
   owner?: string;
   blockedBy: string[];
   blocks: string[];
+  /** Team whose task list the task is in, when read from disk */
+  teamName?: string;
+  /** Watched Claude data directory the team was found in */
+  sourceRoot?: string;
 }
 
 export type TaskStatus = 'pending' | 'in_progress' | 'completed';
 
+/** Token counts reported by the API for one or more responses */
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+/** Token counts plus an estimated cost from the server's price table */
+export interface TokenUsage extends TokenCounts {
+  costUsd: number;
+}
+
+/** One conversation compaction, from the PreCompact hook and/or the transcript */
+export interface CompactionEvent {
+  trigger: 'manual' | 'auto';
+  timestamp: number;
+  /** Context size when compaction started, if known */
+  tokensBefore?: number;
+  /** Context size of the first response after compaction, once seen */
+  tokensAfter?: number;
+}
+
+/** Why an agent looks stuck, from the server's stuck detector */
+export interface StuckState {
+  reason: 'repeating' | 'failing' | 'no_progress';
+  /** Human-readable explanation, e.g. "Ran the same Bash call 6 times in a row" */
+  detail: string;
+  /** When the agent was first flagged for this reason */
+  since: number;
+}
+
 export interface MessageState {
   id: string;
   from: string;
@@ -81,6 +133,12 @@ export interface SessionInfo {
   agentId?: string;
   /** Timestamp of last JSONL activity */
   lastActivity: number;
+  /** Running token totals across every agent in the session (all members for teams) */
+  usage?: TokenUsage;
+  /** Machine the session runs on, for sessions pushed by another viewer server (aggregator mode) */
+  host?: string;
+  /** Name of the watched Claude data directory the session was found in */
+  sourceRoot?: string;
 }
 
 export interface TeamState {
@@ -90,6 +148,10 @@ export interface TeamState {
   messages: MessageState[];
   /** Active session info (solo or team) */
   session?: SessionInfo;
+  /** Files read/edited/written in the session, one entry per agent + file + operation */
+  files?: FileTouch[];
+  /** The user's prompts in the session and what each turn did, oldest first */
+  turns?: PromptTurn[];
 }
 
 /** Summary of all detected sessions for the session picker */
@@ -114,7 +176,14 @@ export interface SessionListEntry {
     agentName: string;
     action: string;
     waitingType?: string;
+    /** Set when the waiting agent's permission request can be answered from the viewer */
+    permissionRequestId?: string;
   };
+  usage?: TokenUsage;
+  /** Machine the session runs on; unset for this server's own sessions */
+  host?: string;
+  /** Name of the watched Claude data directory the session was found in */
+  sourceRoot?: string;
 }
 
 /** A branch within a project, containing one or more sessions */
@@ -125,6 +194,8 @@ export interface BranchGroup {
   totalAgents: number;
   lastActivity: number;
   hasWaitingAgent: boolean;
+  /** Summed usage of the branch's sessions (omitted when none reported any) */
+  usage?: TokenUsage;
 }
 
 /** A project containing branches, each with sessions */
@@ -137,12 +208,32 @@ export interface ProjectGroup {
   totalAgents: number;
   lastActivity: number;
   hasWaitingAgent: boolean;
+  /** Summed usage of the project's sessions (omitted when none reported any) */
+  usage?: TokenUsage;
+  /** Machine the project's sessions run on; unset for this server's own projects */
+  host?: string;
+}
+
+/** A machine whose sessions are shown, in aggregator mode */
+export interface HostGroup {
+  /** Host name, as reported by that machine's viewer server */
+  host: string;
+  /** Whether this is the aggregating server itself */
+  isLocal: boolean;
+  projects: ProjectGroup[];
+  totalSessions: number;
+  totalAgents: number;
+  lastActivity: number;
+  hasWaitingAgent: boolean;
 }
 
 /** Hierarchical session list grouped by project and branch */
 export interface GroupedSessionsList {
+  /** Every project; in aggregator mode, this server's first, then each remote host's */
   projects: ProjectGroup[];
   flatSessions: SessionListEntry[];
+  /** The same projects grouped by machine — only in aggregator mode */
+  hosts?: HostGroup[];
 }
 
 // ============================================================================
@@ -156,7 +247,9 @@ export type NotificationType =
   | 'task_completed'
   | 'agent_error'
   | 'agent_idle'
-  | 'agent_stopped';
+  | 'agent_stopped'
+  | 'edit_conflict'
+  | 'agent_stuck';
 
 export interface InboxNotification {
   id: string;
@@ -172,6 +265,10 @@ export interface InboxNotification {
   gitBranch?: string;
   read: boolean;
   resolved: boolean;
+  /** Pending permission request that can be allowed/denied from the inbox */
+  permissionRequestId?: string;
+  /** Edit conflict this notification reports — resolved once the conflict expires */
+  conflictId?: string;
 }
 
 export interface InboxState {
@@ -180,6 +277,296 @@ export interface InboxState {
   activeCount: number;
 }
 
+// ============================================================================
+// FILE TOUCHES
+// ============================================================================
+
+export type FileOperation = 'read' | 'edit' | 'write';
+
+/** How often one agent performed one operation on one file */
+export interface FileTouch {
+  /** Absolute path as passed to the tool */
+  path: string;
+  agentId: string;
+  operation: FileOperation;
+  count: number;
+  /** Timestamp of the most recent touch (ms) */
+  lastTouched: number;
+}
+
+/** One side of an edit conflict */
+export interface EditConflictParty {
+  agentId: string;
+  agentName: string;
+  sessionId: string;
+  projectName: string;
+  gitBranch?: string;
+  operation: FileOperation;
+  /** When the edit happened (ms) */
+  timestamp: number;
+}
+
+/** Two agents edited the same file within the conflict window */
+export interface EditConflict {
+  id: string;
+  /** Absolute path of the file both agents edited */
+  path: string;
+  /** When the conflict was detected (ms) */
+  timestamp: number;
+  /** When the conflict stops being shown (ms) */
+  expiresAt: number;
+  /** The two edits, earlier first */
+  parties: [EditConflictParty, EditConflictParty];
+}
+
+// ============================================================================
+// PROMPT TURNS
+// ============================================================================
+
+/** How a turn finished — interrupted when a new prompt or the session's end came before Stop */
+export type TurnOutcome = 'running' | 'completed' | 'interrupted';
+
+/** One user prompt and the agent's turn answering it (UserPromptSubmit to Stop) */
+export interface PromptTurn {
+  /** Unique within the session */
+  id: string;
+  /** The agent that was prompted */
+  agentId: string;
+  prompt: string;
+  startedAt: number;
+  endedAt?: number;
+  /** Tool calls made during the turn, by tool name (subagents' calls included) */
+  tools: Record<string, number>;
+  /** Tool calls that failed */
+  toolFailures: number;
+  outcome: TurnOutcome;
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/** A session's reconstructed state at a point in time (GET /api/sessions/:id/replay) */
+export interface ReplayFrame {
+  sessionId: string;
+  /** The point in time this frame shows (ms) */
+  at: number;
+  /** First recorded event for the session (ms) */
+  start: number;
+  /** Last recorded event for the session (ms) */
+  end: number;
+  state: TeamState;
+}
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+/**
+ * What an agent was doing over a stretch of time. waiting_on_team marks a
+ * team lead sitting idle while any teammate was working.
+ */
+export type TimelinePhase = 'working' | 'idle' | 'waiting' | 'compacting' | 'waiting_on_team';
+
+export interface TimelineSpan {
+  phase: TimelinePhase;
+  start: number;
+  end: number;
+}
+
+/** One action the agent started (a tool call, described as in its currentAction) */
+export interface TimelineTick {
+  at: number;
+  action: string;
+}
+
+/** One agent's swimlane */
+export interface TimelineLane {
+  agentId: string;
+  name: string;
+  role: AgentRole;
+  isSubagent?: boolean;
+  parentAgentId?: string;
+  subagentType?: string;
+  /** 0 for session agents and teammates, one more per level of subagent nesting */
+  depth: number;
+  /** Oldest first, without gaps while the agent was around */
+  spans: TimelineSpan[];
+  ticks: TimelineTick[];
+}
+
+/** A session's agent activity over time (GET /api/sessions/:id/timeline) */
+export interface SessionTimeline {
+  sessionId: string;
+  /** First recorded event for the session (ms) */
+  start: number;
+  /** Where open spans end: now for live sessions, else the last recorded event (ms) */
+  end: number;
+  /** Parents before their subagents */
+  lanes: TimelineLane[];
+}
+
+// ============================================================================
+// TRANSCRIPTS
+// ============================================================================
+
+/** One piece of a transcript line's content */
+export type TranscriptBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_use'; id?: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; toolUseId?: string; text: string; isError?: boolean };
+
+/** A user or assistant line of an agent's JSONL transcript */
+export interface TranscriptEntry {
+  /** Byte offset of the line in the transcript file — unique within it */
+  offset: number;
+  role: 'user' | 'assistant';
+  timestamp?: number;
+  blocks: TranscriptBlock[];
+}
+
+/** A page of an agent's transcript (GET /api/sessions/:id/transcript) */
+export interface TranscriptPage {
+  sessionId: string;
+  agentId: string;
+  /** Oldest first */
+  entries: TranscriptEntry[];
+  /** Pass as ?cursor= for the page before this one; null at the start of the transcript */
+  cursor: number | null;
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/** What a search hit matched: a user prompt, assistant text, a tool call's input, a task or a message */
+export type SearchHitKind = 'prompt' | 'reply' | 'tool' | 'task' | 'message';
+
+/** One match from GET /api/search */
+export interface SearchHit {
+  kind: SearchHitKind;
+  sessionId: string;
+  agentId?: string;
+  /** The agent's name — the sender for messages, the owner for tasks */
+  agentName?: string;
+  projectName?: string;
+  gitBranch?: string;
+  /** Tool name for tool calls, recipient for messages, status for tasks */
+  detail?: string;
+  /** The matched text around the first match */
+  snippet: string;
+  timestamp: number;
+  /** Whether the session is still tracked, so the viewer can open it */
+  live: boolean;
+}
+
+export interface SearchResults {
+  query: string;
+  /** Newest first */
+  hits: SearchHit[];
+  /** Matches in all, including those past the limit */
+  total: number;
+}
+
+// ============================================================================
+// TOOL STATISTICS
+// ============================================================================
+
+/** Duration and outcome aggregates for one tool */
+export interface ToolStats {
+  toolName: string;
+  count: number;
+  failures: number;
+  /** Median call duration (ms) */
+  p50Ms: number;
+  /** 95th percentile call duration (ms) */
+  p95Ms: number;
+  /** Time spent in this tool across all calls (ms) */
+  totalMs: number;
+}
+
+export interface AgentToolStats {
+  agentId: string;
+  agentName: string;
+  /** Sorted by total time, longest first */
+  tools: ToolStats[];
+}
+
+/** Tool call statistics for a session (GET /api/stats) */
+export interface ToolStatsReport {
+  sessionId: string;
+  /** All of the session's agents combined, sorted by total time */
+  tools: ToolStats[];
+  agents: AgentToolStats[];
+}
+
+// ============================================================================
+// STATUS REPORT
+// ============================================================================
+
+/** The session a status report was asked about */
+export interface StatusReportSession {
+  sessionId: string;
+  projectName: string;
+  projectPath: string;
+  gitBranch?: string;
+  waitingCount: number;
+  workingCount: number;
+  /** Name of the first agent waiting for input */
+  waitingAgent?: string;
+  /** What the waiting agent wants, else what a working agent is doing */
+  currentAction?: string;
+}
+
+/**
+ * Compact agent status for tmux and shell prompts (GET /api/status,
+ * `agent-viewer status --json`). Fields are only ever added, never changed;
+ * `version` is bumped if that ever has to be broken.
+ */
+export interface StatusReport {
+  version: 1;
+  /** Agents waiting for input, across all sessions */
+  waitingCount: number;
+  /** Agents working and not waiting, across all sessions */
+  workingCount: number;
+  /** The session whose project contains the requested directory, if any */
+  session: StatusReportSession | null;
+  timestamp: number;
+}
+
+// ============================================================================
+// SHARE LINKS
+// ============================================================================
+
+/** What a read-only share link can see: one session, or every session of one project */
+export type ShareScope =
+  | { type: 'session'; sessionId: string }
+  | { type: 'project'; projectPath: string; host?: string };
+
+/** A read-only share link. `url` carries the secret, so it is only returned when the link is created. */
+export interface ShareLink {
+  id: string;
+  scope: ShareScope;
+  /** Session slug or project name, for the share list */
+  label: string;
+  createdAt: number;
+  expiresAt: number;
+  url?: string;
+}
+
+// ============================================================================
+// PERMISSION DECISIONS
+// ============================================================================
+
+/** Answer to a blocking PermissionRequest hook, sent back to Claude Code */
+export type PermissionDecision = 'allow' | 'deny';
+
+/** Messages sent from a viewer client to the server over the WebSocket */
+export type WSClientMessage =
+  | { type: 'select_session'; sessionId: string }
+  | { type: 'permission_decision'; requestId: string; decision: PermissionDecision };
+
 export type WSMessage =
   | { type: 'full_state'; data: TeamState }
   | { type: 'agent_update'; data: AgentState }
@@ -191,4 +578,9 @@ export type WSMessage =
   | { type: 'sessions_grouped'; data: GroupedSessionsList }
   | { type: 'sessions_update'; data: { list: SessionListEntry[]; grouped: GroupedSessionsList } }
   | { type: 'session_started'; data: SessionInfo }
-  | { type: 'session_ended'; data: { sessionId: string } };
+  | { type: 'session_ended'; data: { sessionId: string } }
+  | { type: 'files_touched'; data: { sessionId: string; touches: FileTouch[] } }
+  | { type: 'prompt_turn'; data: { sessionId: string; turn: PromptTurn } }
+  | { type: 'edit_conflict'; data: EditConflict }
+  | { type: 'inbox'; data: InboxNotification[] }
+  | { type: 'notification'; data: InboxNotification };
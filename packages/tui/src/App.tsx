@@ -0,0 +1,107 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Box, Text, useApp, useInput, useStdout } from 'ink';
+import { useConnection } from './useConnection';
+import { treeRows, moveCursor, rowForSession } from './tree';
+import { SessionTree } from './components/SessionTree';
+import { AgentList } from './components/AgentList';
+import { TaskBoard } from './components/TaskBoard';
+import { MessageLog } from './components/MessageLog';
+import { relativeTime } from './format';
+
+interface AppProps {
+  url: string;
+  token?: string;
+}
+
+const TREE_WIDTH = 34;
+/** Tasks listed per task board column */
+const TASK_LIMIT = 5;
+
+const STATUS_COLORS = {
+  connected: 'green',
+  connecting: 'yellow',
+  reconnecting: 'red',
+  unauthorized: 'red',
+} as const;
+
+/** Re-render every few seconds so relative times stay current */
+function useTick(intervalMs: number) {
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const interval = setInterval(() => setTick((t) => t + 1), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+}
+
+export function App({ url, token }: AppProps) {
+  const { exit } = useApp();
+  const { stdout } = useStdout();
+  const { team, groupedSessions, connectionStatus, selectSession } = useConnection(url, token);
+  const rows = useMemo(() => treeRows(groupedSessions), [groupedSessions]);
+  const activeSessionId = team.session?.sessionId;
+  const [cursor, setCursor] = useState(-1);
+  const [size, setSize] = useState({ columns: stdout.columns || 100, rows: stdout.rows || 30 });
+  useTick(5000);
+
+  useEffect(() => {
+    const onResize = () => setSize({ columns: stdout.columns, rows: stdout.rows });
+    stdout.on('resize', onResize);
+    return () => {
+      stdout.off('resize', onResize);
+    };
+  }, [stdout]);
+
+  // Keep the cursor on a session row as the tree changes, starting at the viewed session
+  useEffect(() => {
+    setCursor((prev) => (rows[prev]?.kind === 'session' ? prev : rowForSession(rows, activeSessionId)));
+  }, [rows, activeSessionId]);
+
+  useInput((input, key) => {
+    if (input === 'q' || key.escape) exit();
+    else if (key.upArrow || input === 'k') setCursor((c) => moveCursor(rows, c, -1));
+    else if (key.downArrow || input === 'j') setCursor((c) => moveCursor(rows, c, 1));
+    else if (key.pageUp) setCursor((c) => moveCursor(rows, c, -10));
+    else if (key.pageDown) setCursor((c) => moveCursor(rows, c, 10));
+    else if (key.return) {
+      const sessionId = rows[cursor]?.sessionId;
+      if (sessionId) selectSession(sessionId);
+    }
+  });
+
+  const mainWidth = Math.max(size.columns - TREE_WIDTH, 40);
+  // Header and footer take one line each
+  const bodyHeight = Math.max(size.rows - 2, 10);
+  const { session } = team;
+  // Whatever the agents and tasks leave over goes to the message log
+  const taskLines = team.tasks.length === 0 ? 1 : Math.min(TASK_LIMIT, team.tasks.length) + 2;
+  const messageLimit = Math.max(bodyHeight - (Math.max(team.agents.length, 1) + 3) - (taskLines + 3) - 3, 3);
+
+  return (
+    <Box flexDirection="column" width={size.columns} height={size.rows}>
+      <Text wrap="truncate">
+        <Text bold color="yellow">agent-viewer</Text>
+        {session ? (
+          <Text>
+            {'  '}{session.projectName}
+            {session.gitBranch && <Text color="magenta"> ({session.gitBranch})</Text>}
+            <Text dimColor>  {session.slug || session.sessionId.slice(0, 8)} · {relativeTime(session.lastActivity)}</Text>
+          </Text>
+        ) : (
+          <Text dimColor>  no session selected</Text>
+        )}
+      </Text>
+      <Box height={bodyHeight}>
+        <SessionTree rows={rows} cursor={cursor} activeSessionId={activeSessionId} width={TREE_WIDTH} height={bodyHeight} />
+        <Box flexDirection="column" width={mainWidth}>
+          <AgentList agents={team.agents} width={mainWidth} />
+          <TaskBoard tasks={team.tasks} width={mainWidth} limit={TASK_LIMIT} />
+          <MessageLog messages={team.messages} width={mainWidth} limit={messageLimit} />
+        </Box>
+      </Box>
+      <Text wrap="truncate" dimColor>
+        <Text color={STATUS_COLORS[connectionStatus]}>● {connectionStatus}</Text>
+        {'  '}{url}{'  '}↑/↓ j/k move · enter view session · q quit
+      </Text>
+    </Box>
+  );
+}
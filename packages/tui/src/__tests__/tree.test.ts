@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { treeRows, moveCursor, rowForSession, visibleWindow } from '../tree';
+import type { GroupedSessionsList, SessionListEntry } from '@agent-viewer/shared';
+
+function session(sessionId: string, overrides: Partial<SessionListEntry> = {}): SessionListEntry {
+  return {
+    sessionId,
+    projectName: 'app',
+    projectPath: '/src/app',
+    slug: `${sessionId}-slug`,
+    isTeam: false,
+    agentCount: 1,
+    lastActivity: 0,
+    active: false,
+    hasWaitingAgent: false,
+    ...overrides,
+  };
+}
+
+const grouped: GroupedSessionsList = {
+  projects: [
+    {
+      projectKey: '/src/app',
+      projectName: 'app',
+      projectPath: '/src/app',
+      totalSessions: 3,
+      totalAgents: 4,
+      lastActivity: 30,
+      hasWaitingAgent: true,
+      branches: [
+        { branch: 'main', isDefault: true, totalAgents: 1, lastActivity: 10, hasWaitingAgent: false, sessions: [session('s1')] },
+        {
+          branch: 'feature',
+          isDefault: false,
+          totalAgents: 3,
+          lastActivity: 30,
+          hasWaitingAgent: true,
+          sessions: [session('s2', { agentCount: 2, hasWaitingAgent: true }), session('s3', { slug: '' })],
+        },
+      ],
+    },
+    {
+      projectKey: '/src/lib',
+      projectName: 'lib',
+      projectPath: '/src/lib',
+      totalSessions: 1,
+      totalAgents: 1,
+      lastActivity: 5,
+      hasWaitingAgent: false,
+      branches: [{ branch: 'main', isDefault: true, totalAgents: 1, lastActivity: 5, hasWaitingAgent: false, sessions: [session('s4')] }],
+    },
+  ],
+  flatSessions: [],
+};
+
+describe('treeRows', () => {
+  it('flattens projects, branches and sessions in order', () => {
+    const rows = treeRows(grouped);
+    expect(rows.map((r) => `${r.depth}:${r.label}`)).toEqual([
+      '0:app', '1:main', '2:s1-slug', '1:feature', '2:s2-slug', '2:s3',
+      '0:lib', '1:main', '2:s4-slug',
+    ]);
+    expect(rows[4]).toMatchObject({ kind: 'session', sessionId: 's2', waiting: true, agentCount: 2 });
+    expect(rows[0]).toMatchObject({ kind: 'project', waiting: true, agentCount: 4 });
+  });
+
+  it('adds a host level above the projects in aggregator mode', () => {
+    const [app, lib] = grouped.projects;
+    const rows = treeRows({
+      ...grouped,
+      hosts: [
+        { host: 'central', isLocal: true, projects: [app], totalSessions: 3, totalAgents: 4, lastActivity: 30, hasWaitingAgent: true },
+        { host: 'box-a', isLocal: false, projects: [{ ...lib, host: 'box-a' }], totalSessions: 1, totalAgents: 1, lastActivity: 5, hasWaitingAgent: false },
+      ],
+    });
+    expect(rows.filter((r) => r.depth < 2).map((r) => `${r.kind}:${r.depth}:${r.label}`)).toEqual([
+      'host:0:central (this server)', 'project:1:app', 'host:0:box-a', 'project:1:lib',
+    ]);
+    expect(rows.find((r) => r.sessionId === 's4')?.depth).toBe(3);
+  });
+
+  it('is empty without sessions', () => {
+    expect(treeRows({ projects: [], flatSessions: [] })).toEqual([]);
+  });
+});
+
+describe('moveCursor', () => {
+  const rows = treeRows(grouped);
+
+  it('skips project and branch headings', () => {
+    expect(moveCursor(rows, 2, 1)).toBe(4);
+    expect(moveCursor(rows, 5, 1)).toBe(8);
+    expect(moveCursor(rows, 8, -1)).toBe(5);
+  });
+
+  it('stops at either end', () => {
+    expect(moveCursor(rows, 2, -1)).toBe(2);
+    expect(moveCursor(rows, 8, 10)).toBe(8);
+  });
+
+  it('lands on a session from anywhere else', () => {
+    expect(moveCursor(rows, -1, 1)).toBe(2);
+    expect(moveCursor(rows, 0, -1)).toBe(8);
+    expect(moveCursor([], 0, 1)).toBe(-1);
+  });
+});
+
+describe('rowForSession', () => {
+  it('finds the session row, else the first session', () => {
+    const rows = treeRows(grouped);
+    expect(rowForSession(rows, 's3')).toBe(5);
+    expect(rowForSession(rows, 'gone')).toBe(2);
+    expect(rowForSession(rows, undefined)).toBe(2);
+  });
+});
+
+describe('visibleWindow', () => {
+  it('shows everything when it fits', () => {
+    expect(visibleWindow(5, 4, 10)).toEqual({ start: 0, end: 5 });
+  });
+
+  it('scrolls to keep the cursor near the middle', () => {
+    expect(visibleWindow(50, 2, 10)).toEqual({ start: 0, end: 10 });
+    expect(visibleWindow(50, 25, 10)).toEqual({ start: 20, end: 30 });
+    expect(visibleWindow(50, 49, 10)).toEqual({ start: 40, end: 50 });
+  });
+});
@@ -0,0 +1,44 @@
+import { Box, Text } from 'ink';
+import type { AgentState } from '@agent-viewer/shared';
+import { agentStatus, truncate } from '../format';
+
+interface AgentListProps {
+  agents: AgentState[];
+  width: number;
+}
+
+/** Longest agent name before it is cut short */
+const NAME_WIDTH = 18;
+
+export function AgentList({ agents, width }: AgentListProps) {
+  // Subagents follow their parent, indented
+  const topLevel = agents.filter((a) => !a.isSubagent || !agents.some((p) => p.id === a.parentAgentId));
+  const ordered = topLevel.flatMap((a) => [a, ...agents.filter((s) => s.isSubagent && s.parentAgentId === a.id)]);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="gray" paddingX={1}>
+      <Text bold>Agents <Text dimColor>{agents.length}</Text></Text>
+      {agents.length === 0 && <Text dimColor>No agents</Text>}
+      {ordered.map((agent) => {
+        const status = agentStatus(agent);
+        const indent = agent.isSubagent && topLevel.every((a) => a.id !== agent.id) ? '  ' : '';
+        const name = truncate(`${indent}${agent.name}`, NAME_WIDTH).padEnd(NAME_WIDTH);
+        const action = agent.currentAction
+          ? `${agent.currentAction}${agent.actionContext ? ` (${agent.actionContext})` : ''}`
+          : status.label;
+        return (
+          <Text key={agent.id} wrap="truncate">
+            <Text color={status.color}>{status.icon}</Text>
+            {' '}
+            <Text bold={agent.waitingForInput}>{name}</Text>
+            {' '}
+            <Text dimColor>{agent.role.padEnd(12)}</Text>
+            <Text color={agent.waitingForInput ? 'red' : undefined}>
+              {truncate(action, Math.max(width - NAME_WIDTH - 20, 10))}
+            </Text>
+          </Text>
+        );
+      })}
+    </Box>
+  );
+}
@@ -0,0 +1,37 @@
+import { Box, Text } from 'ink';
+import type { MessageState } from '@agent-viewer/shared';
+import { truncate } from '../format';
+
+interface MessageLogProps {
+  messages: MessageState[];
+  width: number;
+  /** Most recent messages shown */
+  limit: number;
+}
+
+function clockTime(timestamp: number): string {
+  return new Date(timestamp).toTimeString().slice(0, 5);
+}
+
+export function MessageLog({ messages, width, limit }: MessageLogProps) {
+  const recent = messages.slice(-limit);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="gray" paddingX={1} flexGrow={1}>
+      <Text bold>Messages <Text dimColor>{messages.length}</Text></Text>
+      {recent.length === 0 && <Text dimColor>No messages yet</Text>}
+      {recent.map((msg) => {
+        const route = `${msg.from} → ${msg.to === '*' ? 'all' : msg.to}: `;
+        // Timestamp, borders and padding take ten columns
+        const room = Math.max(width - 10 - route.length, 10);
+        return (
+          <Text key={msg.id} wrap="truncate">
+            <Text dimColor>{clockTime(msg.timestamp)} </Text>
+            <Text color="cyan">{route}</Text>
+            {truncate(msg.content.replace(/\s+/g, ' '), room)}
+          </Text>
+        );
+      })}
+    </Box>
+  );
+}
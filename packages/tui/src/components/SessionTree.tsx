@@ -0,0 +1,50 @@
+import { Box, Text } from 'ink';
+import type { TreeRow } from '../tree';
+import { visibleWindow } from '../tree';
+import { truncate } from '../format';
+
+interface SessionTreeProps {
+  rows: TreeRow[];
+  cursor: number;
+  activeSessionId?: string;
+  width: number;
+  height: number;
+}
+
+const INDENT = '  ';
+const ROW_COLORS: Partial<Record<TreeRow['kind'], string>> = { host: 'yellow', branch: 'magenta' };
+
+export function SessionTree({ rows, cursor, activeSessionId, width, height }: SessionTreeProps) {
+  // Border and title take three lines
+  const { start, end } = visibleWindow(rows.length, cursor, Math.max(height - 3, 1));
+
+  return (
+    <Box flexDirection="column" width={width} borderStyle="round" borderColor="gray" paddingX={1}>
+      <Text bold>Sessions</Text>
+      {rows.length === 0 && <Text dimColor>No active sessions</Text>}
+      {rows.slice(start, end).map((row, i) => {
+        const index = start + i;
+        const selected = index === cursor;
+        const active = row.sessionId !== undefined && row.sessionId === activeSessionId;
+        const marker = row.waiting ? '!' : ' ';
+        const count = row.kind === 'branch' ? '' : ` ${row.agentCount}`;
+        // Padding, marker and count leave this much room for the label
+        const room = width - 4 - row.depth * INDENT.length - 2 - count.length;
+        return (
+          <Text key={`${row.kind}:${index}`} inverse={selected} wrap="truncate">
+            {INDENT.repeat(row.depth)}
+            <Text color="red" bold>{marker}</Text>
+            {' '}
+            <Text
+              bold={row.kind === 'host' || row.kind === 'project' || active}
+              color={active ? 'cyan' : ROW_COLORS[row.kind]}
+            >
+              {truncate(row.label, room)}
+            </Text>
+            <Text dimColor>{count}</Text>
+          </Text>
+        );
+      })}
+    </Box>
+  );
+}
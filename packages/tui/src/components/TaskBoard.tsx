@@ -0,0 +1,52 @@
+import { Box, Text } from 'ink';
+import type { TaskState, TaskStatus } from '@agent-viewer/shared';
+import { truncate } from '../format';
+
+interface TaskBoardProps {
+  tasks: TaskState[];
+  width: number;
+  /** Most tasks listed per column */
+  limit: number;
+}
+
+const COLUMNS: Array<{ status: TaskStatus; label: string; icon: string; color: string }> = [
+  { status: 'pending', label: 'Pending', icon: '○', color: 'gray' },
+  { status: 'in_progress', label: 'In Progress', icon: '⚙', color: 'yellow' },
+  { status: 'completed', label: 'Completed', icon: '✓', color: 'green' },
+];
+
+export function TaskBoard({ tasks, width, limit }: TaskBoardProps) {
+  // Three columns inside the border and padding
+  const columnWidth = Math.max(Math.floor((width - 4) / COLUMNS.length), 12);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="gray" paddingX={1}>
+      <Text bold>Tasks <Text dimColor>{tasks.length}</Text></Text>
+      {tasks.length === 0 ? (
+        <Text dimColor>No tasks</Text>
+      ) : (
+        <Box>
+          {COLUMNS.map((column) => {
+            const inColumn = tasks.filter((t) => t.status === column.status);
+            return (
+              <Box key={column.status} flexDirection="column" width={columnWidth}>
+                <Text color={column.color}>{column.label} ({inColumn.length})</Text>
+                {inColumn.slice(0, limit).map((task) => {
+                  const blocked = task.status === 'pending' && task.blockedBy.length > 0;
+                  const owner = task.owner ? ` @${task.owner}` : '';
+                  return (
+                    <Text key={task.id} wrap="truncate" dimColor={blocked}>
+                      {column.icon} {truncate(`#${task.id} ${task.subject}`, columnWidth - 3 - owner.length)}
+                      <Text color="cyan">{owner}</Text>
+                    </Text>
+                  );
+                })}
+                {inColumn.length > limit && <Text dimColor>+{inColumn.length - limit} more</Text>}
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,24 @@
+import type { AgentState } from '@agent-viewer/shared';
+
+export function relativeTime(timestamp: number, now = Date.now()): string {
+  const delta = Math.floor((now - timestamp) / 1000);
+  if (delta < 5) return 'just now';
+  if (delta < 60) return `${delta}s ago`;
+  if (delta < 3600) return `${Math.floor(delta / 60)}m ago`;
+  if (delta < 86400) return `${Math.floor(delta / 3600)}h ago`;
+  return `${Math.floor(delta / 86400)}d ago`;
+}
+
+export function truncate(text: string, max: number): string {
+  if (max <= 1) return text.slice(0, Math.max(max, 0));
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Single-width status marker and colour for an agent row */
+export function agentStatus(agent: AgentState): { icon: string; color: string; label: string } {
+  if (agent.waitingForInput) return { icon: '!', color: 'red', label: agent.waitingType ?? 'waiting' };
+  if (agent.stuck) return { icon: '?', color: 'yellow', label: 'stuck' };
+  if (agent.status === 'working') return { icon: '●', color: 'green', label: 'working' };
+  if (agent.status === 'done') return { icon: '✓', color: 'gray', label: 'done' };
+  return { icon: '○', color: 'gray', label: 'idle' };
+}
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+/**
+ * agent-viewer-tui — the viewer in a terminal, for dev boxes reached over SSH.
+ *
+ *   agent-viewer-tui [--url ws://host:3001/ws]
+ *
+ * Connects to the server's /ws feed like the browser client does and shows
+ * the project → branch → session tree, the viewed session's agents, task
+ * board and message log. Authenticates with AGENT_VIEWER_TOKEN or the
+ * server's token file, never a flag, so the token stays out of `ps`.
+ */
+
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { render } from 'ink';
+import { App } from './App';
+
+const PORT = parseInt(process.env.AGENT_VIEWER_PORT || '', 10) || 3001;
+const DEFAULT_URL = process.env.AGENT_VIEWER_URL || `ws://127.0.0.1:${PORT}/ws`;
+const TOKEN_FILE = process.env.AGENT_VIEWER_TOKEN_FILE
+  || join(process.env.AGENT_VIEWER_DATA_DIR || join(homedir(), '.agent-viewer-town'), 'token');
+
+/** The server's auth token, if this user can find one */
+function readToken(): string | undefined {
+  if (process.env.AGENT_VIEWER_TOKEN) return process.env.AGENT_VIEWER_TOKEN;
+  try {
+    return readFileSync(TOKEN_FILE, 'utf-8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const USAGE = `Usage: agent-viewer-tui [--url <ws-url>]
+
+  --url <ws-url>  Server WebSocket (default: ${DEFAULT_URL})
+
+The token comes from AGENT_VIEWER_TOKEN or ${TOKEN_FILE}.
+
+Keys: ↑/↓ or j/k move, enter views the session, q quits.`;
+
+function parseUrl(args: string[]): string | null {
+  let url = DEFAULT_URL;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--url' && args[i + 1]) url = args[++i];
+    else if (arg.startsWith('--url=')) url = arg.slice('--url='.length);
+    else return null;
+  }
+  return url;
+}
+
+const url = parseUrl(process.argv.slice(2));
+if (!url) {
+  console.error(USAGE);
+  process.exit(process.argv.includes('--help') || process.argv.includes('-h') ? 0 : 2);
+} else if (!process.stdin.isTTY) {
+  console.error('agent-viewer-tui needs an interactive terminal');
+  process.exit(1);
+} else {
+  render(<App url={url} token={readToken()} />);
+}
@@ -0,0 +1,98 @@
+import type { GroupedSessionsList, ProjectGroup } from '@agent-viewer/shared';
+
+/** One line of the (host →) project → branch → session tree */
+export interface TreeRow {
+  kind: 'host' | 'project' | 'branch' | 'session';
+  /** Indentation level, one step per level below the top */
+  depth: number;
+  label: string;
+  /** Whether an agent below this row is waiting for input */
+  waiting: boolean;
+  agentCount: number;
+  lastActivity: number;
+  /** Set on session rows only */
+  sessionId?: string;
+}
+
+/**
+ * Flatten the grouped session list into rows, in the server's order. An
+ * aggregator with remote hosts adds a host level above the projects.
+ */
+export function treeRows(grouped: GroupedSessionsList): TreeRow[] {
+  if (!grouped.hosts || grouped.hosts.length < 2) return projectRows(grouped.projects, 0);
+  return grouped.hosts.flatMap((host) => [
+    {
+      kind: 'host' as const,
+      depth: 0,
+      label: host.isLocal ? `${host.host} (this server)` : host.host,
+      waiting: host.hasWaitingAgent,
+      agentCount: host.totalAgents,
+      lastActivity: host.lastActivity,
+    },
+    ...projectRows(host.projects, 1),
+  ]);
+}
+
+function projectRows(projects: ProjectGroup[], depth: number): TreeRow[] {
+  const rows: TreeRow[] = [];
+  for (const project of projects) {
+    rows.push({
+      kind: 'project',
+      depth,
+      label: project.projectName,
+      waiting: project.hasWaitingAgent,
+      agentCount: project.totalAgents,
+      lastActivity: project.lastActivity,
+    });
+    for (const branch of project.branches) {
+      rows.push({
+        kind: 'branch',
+        depth: depth + 1,
+        label: branch.branch,
+        waiting: branch.hasWaitingAgent,
+        agentCount: branch.totalAgents,
+        lastActivity: branch.lastActivity,
+      });
+      for (const session of branch.sessions) {
+        rows.push({
+          kind: 'session',
+          depth: depth + 2,
+          label: session.slug || session.sessionId.slice(0, 8),
+          waiting: session.hasWaitingAgent,
+          agentCount: session.agentCount,
+          lastActivity: session.lastActivity,
+          sessionId: session.sessionId,
+        });
+      }
+    }
+  }
+  return rows;
+}
+
+/**
+ * Index of the next session row `delta` steps away from `from`, skipping
+ * host, project and branch headings. Stays put at either end of the list.
+ */
+export function moveCursor(rows: TreeRow[], from: number, delta: number): number {
+  const sessions = rows.flatMap((row, i) => (row.kind === 'session' ? [i] : []));
+  if (sessions.length === 0) return -1;
+  const current = sessions.indexOf(from);
+  if (current < 0) return sessions[delta < 0 ? sessions.length - 1 : 0];
+  return sessions[Math.min(Math.max(current + delta, 0), sessions.length - 1)];
+}
+
+/** Row index of a session, or the first session row when it is not listed */
+export function rowForSession(rows: TreeRow[], sessionId: string | undefined): number {
+  const index = sessionId ? rows.findIndex((row) => row.sessionId === sessionId) : -1;
+  return index >= 0 ? index : rows.findIndex((row) => row.kind === 'session');
+}
+
+/**
+ * The slice of rows that fits in `height` lines while keeping the cursor
+ * visible, roughly centred once the list scrolls.
+ */
+export function visibleWindow(total: number, cursor: number, height: number): { start: number; end: number } {
+  if (total <= height) return { start: 0, end: total };
+  const start = Math.min(Math.max(cursor - Math.floor(height / 2), 0), total - height);
+  return { start, end: start + height };
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import WebSocket from 'ws';
+import { applyMessage } from '@agent-viewer/shared';
+import type { TeamState, GroupedSessionsList, WSMessage, WSClientMessage } from '@agent-viewer/shared';
+
+const EMPTY_STATE: TeamState = {
+  name: '',
+  agents: [],
+  tasks: [],
+  messages: [],
+};
+
+const EMPTY_GROUPED: GroupedSessionsList = {
+  projects: [],
+  flatSessions: [],
+};
+
+const RECONNECT_DELAY_MS = 2000;
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'unauthorized';
+
+export interface ConnectionState {
+  team: TeamState;
+  groupedSessions: GroupedSessionsList;
+  connectionStatus: ConnectionStatus;
+  selectSession: (sessionId: string) => void;
+}
+
+/**
+ * The terminal counterpart of the browser's useWebSocket: keeps the viewed
+ * session's state and the session tree up to date, reconnecting every 2s.
+ * Like the browser, it locks onto the first session the server sends so
+ * server-side auto-selection never switches the view underneath you.
+ */
+export function useConnection(url: string, token?: string): ConnectionState {
+  const [team, setTeam] = useState<TeamState>(EMPTY_STATE);
+  const [groupedSessions, setGroupedSessions] = useState<GroupedSessionsList>(EMPTY_GROUPED);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const wsRef = useRef<WebSocket | null>(null);
+  const reconnectTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const closed = useRef(false);
+  /** The session being viewed, re-sent on reconnect */
+  const lockedSessionId = useRef<string | undefined>(undefined);
+
+  const send = useCallback((msg: WSClientMessage) => {
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  }, []);
+
+  const selectSession = useCallback((sessionId: string) => {
+    lockedSessionId.current = sessionId;
+    send({ type: 'select_session', sessionId });
+  }, [send]);
+
+  const connect = useCallback(() => {
+    const ws = new WebSocket(url, token ? { headers: { Authorization: `Bearer ${token}` } } : undefined);
+    wsRef.current = ws;
+    let refused = false;
+
+    ws.on('open', () => {
+      setConnectionStatus('connected');
+      // The server picks a session for every new connection — override it with ours
+      if (lockedSessionId.current) send({ type: 'select_session', sessionId: lockedSessionId.current });
+    });
+
+    ws.on('message', (data) => {
+      let msg: WSMessage;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (msg.type === 'sessions_grouped') {
+        setGroupedSessions(msg.data);
+      } else if (msg.type === 'full_state') {
+        const sessionId = msg.data.session?.sessionId;
+        if (sessionId && !lockedSessionId.current) {
+          lockedSessionId.current = sessionId;
+          send({ type: 'select_session', sessionId });
+        }
+        // Ignore server broadcasts for a session other than the one we're viewing
+        if (sessionId && sessionId !== lockedSessionId.current) return;
+        setTeam((prev) => applyMessage(prev, msg));
+      } else {
+        setTeam((prev) => applyMessage(prev, msg));
+      }
+    });
+
+    ws.on('unexpected-response', (_req, res) => {
+      refused = res.statusCode === 401;
+      ws.terminate();
+    });
+
+    ws.on('close', () => {
+      if (closed.current) return;
+      setConnectionStatus(refused ? 'unauthorized' : 'reconnecting');
+      reconnectTimer.current = setTimeout(connect, RECONNECT_DELAY_MS);
+    });
+
+    // 'close' always follows, which schedules the reconnect
+    ws.on('error', () => {});
+  }, [url, token, send]);
+
+  useEffect(() => {
+    closed.current = false;
+    connect();
+    return () => {
+      closed.current = true;
+      clearTimeout(reconnectTimer.current);
+      wsRef.current?.close();
+    };
+  }, [connect]);
+
+  return { team, groupedSessions, connectionStatus, selectSession };
+}